@@ -0,0 +1 @@
+CREATE POLICY "idempotency_keys_update_policy" ON "idempotency_keys" AS PERMISSIVE FOR UPDATE TO "accountant_role", "admin_role", "auditor_role", "integration_bot_role" USING ("idempotency_keys"."organization_id" = current_organization_id()) WITH CHECK ("idempotency_keys"."organization_id" = current_organization_id());
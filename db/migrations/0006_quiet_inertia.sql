@@ -0,0 +1,10 @@
+ALTER TABLE "audit_log" ADD COLUMN "sequence" integer;--> statement-breakpoint
+ALTER TABLE "audit_log" ADD COLUMN "signature_prev" varchar(128);--> statement-breakpoint
+ALTER TABLE "audit_log" ADD CONSTRAINT "audit_log_organization_sequence_unique" UNIQUE("organization_id","sequence");--> statement-breakpoint
+DROP POLICY "audit_log_delete_policy" ON "audit_log" CASCADE;--> statement-breakpoint
+CREATE OR REPLACE FUNCTION prevent_audit_log_modification() RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'audit_log entries are append-only (% rejected)', TG_OP;
+END;
+$$ LANGUAGE plpgsql;--> statement-breakpoint
+CREATE TRIGGER "audit_log_append_only" BEFORE UPDATE OR DELETE ON "audit_log" FOR EACH ROW EXECUTE FUNCTION prevent_audit_log_modification();
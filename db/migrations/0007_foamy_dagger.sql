@@ -0,0 +1,3 @@
+ALTER TABLE "accounts" ADD COLUMN "parent_id" uuid;--> statement-breakpoint
+ALTER TABLE "accounts" ADD CONSTRAINT "accounts_parent_id_fk" FOREIGN KEY ("parent_id") REFERENCES "public"."accounts"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "accounts_parent_idx" ON "accounts" USING btree ("parent_id");
\ No newline at end of file
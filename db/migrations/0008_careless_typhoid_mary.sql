@@ -0,0 +1,2 @@
+ALTER TABLE "accounts" ADD COLUMN "special_purpose" varchar(50);--> statement-breakpoint
+ALTER TABLE "accounts" ADD CONSTRAINT "accounts_organization_special_purpose_unique" UNIQUE("organization_id","special_purpose");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "journals" ADD COLUMN "kind" varchar(20) DEFAULT 'standard' NOT NULL;
\ No newline at end of file
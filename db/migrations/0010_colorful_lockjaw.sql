@@ -0,0 +1,24 @@
+CREATE TABLE "fiscal_years" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" text NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"start_date" timestamp NOT NULL,
+	"end_date" timestamp NOT NULL,
+	"frequency" varchar(20) NOT NULL,
+	"has_adjustment_period" boolean DEFAULT false NOT NULL,
+	"status" varchar(20) DEFAULT 'open' NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "fiscal_years_organization_id_name_unique" UNIQUE("organization_id","name")
+);
+--> statement-breakpoint
+ALTER TABLE "fiscal_years" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "periods" ADD COLUMN "fiscal_year_id" uuid;--> statement-breakpoint
+ALTER TABLE "periods" ADD COLUMN "is_adjustment" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "fiscal_years" ADD CONSTRAINT "fiscal_years_organization_id_organization_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organization"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "fiscal_years_organization_idx" ON "fiscal_years" USING btree ("organization_id");--> statement-breakpoint
+ALTER TABLE "periods" ADD CONSTRAINT "periods_fiscal_year_id_fiscal_years_id_fk" FOREIGN KEY ("fiscal_year_id") REFERENCES "public"."fiscal_years"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "periods_fiscal_year_idx" ON "periods" USING btree ("fiscal_year_id");--> statement-breakpoint
+CREATE POLICY "fiscal_years_org_policy" ON "fiscal_years" AS PERMISSIVE FOR ALL TO "accountant_role", "admin_role", "auditor_role", "integration_bot_role" USING ("fiscal_years"."organization_id" = current_organization_id());--> statement-breakpoint
+CREATE POLICY "fiscal_years_write_policy" ON "fiscal_years" AS PERMISSIVE FOR INSERT TO "accountant_role", "admin_role" WITH CHECK ("fiscal_years"."organization_id" = current_organization_id());--> statement-breakpoint
+CREATE POLICY "fiscal_years_update_policy" ON "fiscal_years" AS PERMISSIVE FOR UPDATE TO "accountant_role", "admin_role" USING ("fiscal_years"."organization_id" = current_organization_id()) WITH CHECK ("fiscal_years"."organization_id" = current_organization_id());
\ No newline at end of file
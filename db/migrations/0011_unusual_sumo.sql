@@ -0,0 +1 @@
+ALTER TABLE "journal_lines" ADD COLUMN "exchange_rate_source" varchar(50);
\ No newline at end of file
@@ -0,0 +1,31 @@
+CREATE OR REPLACE FUNCTION prevent_posted_journal_line_fx_change() RETURNS trigger AS $$
+DECLARE
+  journal_status varchar(20);
+BEGIN
+  SELECT status INTO journal_status FROM journals WHERE id = OLD.journal_id;
+  IF TG_OP = 'DELETE' THEN
+    IF journal_status IS NULL OR journal_status = 'draft' THEN
+      RETURN OLD;
+    END IF;
+    RAISE EXCEPTION 'FX_001: lines of % journal % cannot be deleted', journal_status, OLD.journal_id;
+  END IF;
+  IF journal_status <> 'draft' AND (NEW.journal_id IS DISTINCT FROM OLD.journal_id
+    OR NEW.exchange_rate IS DISTINCT FROM OLD.exchange_rate
+    OR NEW.original_currency IS DISTINCT FROM OLD.original_currency
+    OR NEW.original_debit_amount IS DISTINCT FROM OLD.original_debit_amount
+    OR NEW.original_credit_amount IS DISTINCT FROM OLD.original_credit_amount) THEN
+    RAISE EXCEPTION 'FX_001: exchange rates of % journal % are immutable', journal_status, OLD.journal_id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;--> statement-breakpoint
+CREATE TRIGGER "journal_lines_lock_posted_exchange_rates" BEFORE UPDATE OR DELETE ON "journal_lines" FOR EACH ROW EXECUTE FUNCTION prevent_posted_journal_line_fx_change();--> statement-breakpoint
+CREATE OR REPLACE FUNCTION prevent_posted_journal_reopen() RETURNS trigger AS $$
+BEGIN
+  IF OLD.status <> 'draft' AND NEW.status = 'draft' THEN
+    RAISE EXCEPTION 'FX_001: % journal % cannot be reset to draft', OLD.status, OLD.id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;--> statement-breakpoint
+CREATE TRIGGER "journals_prevent_reopen" BEFORE UPDATE ON "journals" FOR EACH ROW EXECUTE FUNCTION prevent_posted_journal_reopen();
@@ -0,0 +1,2 @@
+ALTER TABLE "tax_configs" DROP CONSTRAINT "tax_configs_organization_id_code_unique";--> statement-breakpoint
+ALTER TABLE "tax_configs" ADD CONSTRAINT "tax_configs_organization_id_code_valid_from_unique" UNIQUE("organization_id","code","valid_from");
\ No newline at end of file
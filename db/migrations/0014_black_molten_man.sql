@@ -0,0 +1,4 @@
+ALTER TABLE "journal_lines" ADD COLUMN "partner_vat_id" varchar(20);--> statement-breakpoint
+ALTER TABLE "tax_configs" ADD COLUMN "treatment" varchar(30) DEFAULT 'standard' NOT NULL;--> statement-breakpoint
+ALTER TABLE "tax_configs" ADD COLUMN "input_account_id" uuid;--> statement-breakpoint
+ALTER TABLE "tax_configs" ADD CONSTRAINT "tax_configs_input_account_id_accounts_id_fk" FOREIGN KEY ("input_account_id") REFERENCES "public"."accounts"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,40 @@
+CREATE TABLE "bank_match_items" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" text NOT NULL,
+	"match_id" uuid NOT NULL,
+	"bank_transaction_id" uuid,
+	"journal_line_id" uuid
+);
+--> statement-breakpoint
+ALTER TABLE "bank_match_items" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+CREATE TABLE "bank_matches" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" text NOT NULL,
+	"account_id" uuid NOT NULL,
+	"status" varchar(20) NOT NULL,
+	"amount" numeric(18, 4) NOT NULL,
+	"currency" varchar(3) NOT NULL,
+	"cleared_date" timestamp NOT NULL,
+	"created_by" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "bank_matches" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "bank_match_items" ADD CONSTRAINT "bank_match_items_organization_id_organization_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organization"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "bank_match_items" ADD CONSTRAINT "bank_match_items_match_id_bank_matches_id_fk" FOREIGN KEY ("match_id") REFERENCES "public"."bank_matches"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "bank_match_items" ADD CONSTRAINT "bank_match_items_bank_transaction_id_bank_import_details_id_fk" FOREIGN KEY ("bank_transaction_id") REFERENCES "public"."bank_import_details"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "bank_match_items" ADD CONSTRAINT "bank_match_items_journal_line_id_journal_lines_id_fk" FOREIGN KEY ("journal_line_id") REFERENCES "public"."journal_lines"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "bank_matches" ADD CONSTRAINT "bank_matches_organization_id_organization_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organization"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "bank_matches" ADD CONSTRAINT "bank_matches_account_id_accounts_id_fk" FOREIGN KEY ("account_id") REFERENCES "public"."accounts"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "bank_matches" ADD CONSTRAINT "bank_matches_created_by_user_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."user"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "bank_match_items_organization_idx" ON "bank_match_items" USING btree ("organization_id");--> statement-breakpoint
+CREATE INDEX "bank_match_items_match_idx" ON "bank_match_items" USING btree ("match_id");--> statement-breakpoint
+CREATE INDEX "bank_match_items_transaction_idx" ON "bank_match_items" USING btree ("bank_transaction_id");--> statement-breakpoint
+CREATE INDEX "bank_match_items_journal_line_idx" ON "bank_match_items" USING btree ("journal_line_id");--> statement-breakpoint
+CREATE INDEX "bank_matches_organization_idx" ON "bank_matches" USING btree ("organization_id");--> statement-breakpoint
+CREATE INDEX "bank_matches_account_idx" ON "bank_matches" USING btree ("account_id");--> statement-breakpoint
+CREATE INDEX "bank_matches_status_idx" ON "bank_matches" USING btree ("status");--> statement-breakpoint
+CREATE POLICY "bank_match_items_select_policy" ON "bank_match_items" AS PERMISSIVE FOR SELECT TO "accountant_role", "admin_role", "auditor_role", "integration_bot_role" USING ("bank_match_items"."organization_id" = current_organization_id());--> statement-breakpoint
+CREATE POLICY "bank_match_items_insert_policy" ON "bank_match_items" AS PERMISSIVE FOR INSERT TO "accountant_role", "admin_role", "integration_bot_role" WITH CHECK ("bank_match_items"."organization_id" = current_organization_id());--> statement-breakpoint
+CREATE POLICY "bank_matches_select_policy" ON "bank_matches" AS PERMISSIVE FOR SELECT TO "accountant_role", "admin_role", "auditor_role", "integration_bot_role" USING ("bank_matches"."organization_id" = current_organization_id());--> statement-breakpoint
+CREATE POLICY "bank_matches_insert_policy" ON "bank_matches" AS PERMISSIVE FOR INSERT TO "accountant_role", "admin_role", "integration_bot_role" WITH CHECK ("bank_matches"."organization_id" = current_organization_id());
\ No newline at end of file
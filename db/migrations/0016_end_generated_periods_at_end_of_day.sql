@@ -0,0 +1 @@
+UPDATE "periods" SET "end_date" = "end_date" + interval '1 day' - interval '1 millisecond' WHERE "fiscal_year_id" IS NOT NULL AND "is_adjustment" = false AND "end_date" = date_trunc('day', "end_date");
@@ -0,0 +1 @@
+ALTER TABLE "audit_log" ADD COLUMN "api_key_id" text;
\ No newline at end of file
@@ -0,0 +1,54 @@
+/**
+ * Import ECB euro reference rates from a downloaded eurofxref XML or CSV file
+ * Run with: IMPORT_USER_ID=<userId> npx tsx scripts/import-ecb-rates.ts <organizationId> <file>
+ * The import is audited as the given user, who must exist.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { createUseCaseContainer } from '../src/application/use-cases/use-case-factory';
+import {
+  organizationId,
+  userId,
+  AuditContext
+} from '../src/domain/shared/types';
+
+async function importEcbRates() {
+  const [orgId, filePath] = process.argv.slice(2);
+  const importUserId = process.env.IMPORT_USER_ID;
+  if (!orgId || !filePath || !importUserId) {
+    console.error('Usage: IMPORT_USER_ID=<userId> npx tsx scripts/import-ecb-rates.ts <organizationId> <file>');
+    process.exitCode = 1;
+    return;
+  }
+
+  const auditContext: AuditContext = {
+    userId: userId(importUserId),
+    userRole: 'integration-bot',
+    timestamp: new Date(),
+    requestId: `ecb-import-${Date.now()}`
+  };
+
+  const content = await readFile(filePath, 'utf8');
+  const result = await createUseCaseContainer().importExchangeRates.execute({
+    organizationId: organizationId(orgId),
+    content,
+    auditContext
+  });
+
+  if (result.isFailure()) {
+    console.error('❌ Import failed:', result.error);
+    process.exitCode = 1;
+    return;
+  }
+
+  const summary = result.value;
+  console.log(`✅ Imported ${summary.imported} of ${summary.received} ECB rates (${summary.skipped} already stored)`);
+  if (summary.firstDate && summary.lastDate) {
+    console.log(`   ${summary.firstDate.toISOString().slice(0, 10)} to ${summary.lastDate.toISOString().slice(0, 10)}`);
+  }
+}
+
+importEcbRates().catch(error => {
+  console.error('💥 Import failed with error:', error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,512 @@
+/**
+ * Test script checking booking rules that need no database: FX revaluation, tax rounding, bank transaction
+ * fingerprints, idempotent replay and the answers to changes of posted journals
+ * Repositories are replaced by in-memory ones; the script exits with code 1 when a check fails.
+ * Run with: npx tsx scripts/test-domain-rules.ts
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  organizationId,
+  userId,
+  accountId,
+  journalId,
+  periodId,
+  taxConfigId,
+  exchangeRateId,
+  currency,
+  AuditContext,
+  DomainError,
+  DomainErrorCodes,
+  OrganizationId,
+  Currency
+} from '../src/domain/shared/types';
+import { Result, success } from '../src/domain/shared/result';
+import { Money } from '../src/domain/journal/value-objects/money';
+import { Journal } from '../src/domain/journal/entities/journal';
+import { JournalLine } from '../src/domain/journal/entities/journal-line';
+import { JournalRepository } from '../src/domain/journal/repositories/journal-repository';
+import { Account } from '../src/domain/account/entities/account';
+import { Period } from '../src/domain/period/entities/period';
+import { ExchangeRate } from '../src/domain/exchange-rate/entities/exchange-rate';
+import { ExchangeRateRepository } from '../src/domain/exchange-rate/repositories/exchange-rate-repository';
+import { TaxConfig } from '../src/domain/tax/entities/tax-config';
+import { TaxConfigRepository } from '../src/domain/tax/repositories/tax-config-repository';
+import { TaxCalculation } from '../src/domain/tax/value-objects/tax-calculation';
+import { TransactionFingerprint } from '../src/domain/bank/value-objects/transaction-fingerprint';
+import { FxRevaluationPlan, lastBankBusinessDayOfMonth } from '../src/domain/closing/value-objects/fx-revaluation-plan';
+import { RepositoryFactory } from '../src/infrastructure/repositories/repository-factory';
+import {
+  IdempotencyRecord,
+  IdempotencyRepository,
+  StoredResponse
+} from '../src/infrastructure/repositories/drizzle-idempotency-repository';
+import { createServiceContainer } from '../src/infrastructure/services/service-factory';
+import { createUseCaseContainer } from '../src/application/use-cases/use-case-factory';
+import { createApiErrorResponse } from '../src/lib/api/errors';
+import { withIdempotency, IDEMPOTENT_REPLAY_HEADER } from '../src/lib/api/idempotency';
+
+const orgId = organizationId('test-org-789');
+const testUserId = userId('user-789');
+const auditContext: AuditContext = {
+  userId: testUserId,
+  userRole: 'accountant',
+  timestamp: new Date(),
+  requestId: 'test-request-789'
+};
+
+let failedChecks = 0;
+
+/**
+ * Log the outcome of a check and remember failures for the exit code
+ */
+function check(description: string, passed: boolean, details?: unknown): void {
+  if (passed) {
+    console.log(`✅ ${description}`);
+    return;
+  }
+
+  failedChecks++;
+  console.error(`❌ ${description}`, details ?? '');
+}
+
+/**
+ * Unwrap a result that the test data is expected to produce
+ */
+function valueOf<T>(result: Result<T, unknown>): T {
+  if (result.isFailure()) {
+    throw new Error(`Unexpected failure: ${JSON.stringify(result.error)}`);
+  }
+  return result.value;
+}
+
+/**
+ * Exchange rates and tax configurations kept in memory
+ */
+function registerReferenceData(rates: ExchangeRate[], taxConfigs: TaxConfig[]): void {
+  const exchangeRateRepository: ExchangeRateRepository = {
+    async findLatestRate(fromCurrency: Currency, toCurrency: Currency, onOrBefore: Date) {
+      const candidates = rates
+        .filter(rate => rate.fromCurrency === fromCurrency && rate.toCurrency === toCurrency &&
+          rate.effectiveDate <= onOrBefore)
+        .sort((a, b) => b.effectiveDate.getTime() - a.effectiveDate.getTime());
+      return success(candidates[0] ?? null);
+    },
+    async saveMany(_organizationId: OrganizationId, newRates: readonly ExchangeRate[]) {
+      rates.push(...newRates);
+      return success(newRates.length);
+    }
+  };
+
+  const taxConfigRepository: TaxConfigRepository = {
+    async findByCode(code: string) {
+      return success(taxConfigs.filter(taxConfig => taxConfig.code === code));
+    },
+    async findValidByCode(code: string, date: Date) {
+      return success(taxConfigs.find(taxConfig => taxConfig.code === code && taxConfig.isValidOn(date)) ?? null);
+    },
+    async findByOrganization() {
+      return success([...taxConfigs]);
+    },
+    async save(taxConfig: TaxConfig) {
+      taxConfigs.push(taxConfig);
+      return success(taxConfig);
+    }
+  };
+
+  RepositoryFactory.setExchangeRateRepository(exchangeRateRepository);
+  RepositoryFactory.setTaxConfigRepository(taxConfigRepository);
+}
+
+/**
+ * Journals kept in memory; only lookups by ID are needed to change a journal
+ */
+function registerJournals(journals: Journal[]): void {
+  const journalRepository: Pick<JournalRepository, 'findById'> = {
+    async findById(id) {
+      return success(journals.find(journal => journal.id === id) ?? null);
+    }
+  };
+
+  RepositoryFactory.setJournalRepository(journalRepository as JournalRepository);
+}
+
+/**
+ * Idempotency keys kept in memory, reserving and reclaiming keys like the database table
+ */
+function registerIdempotencyKeys(records: Map<string, IdempotencyRecord>): void {
+  const idempotencyRepository: IdempotencyRepository = {
+    async reserve(_organizationId, key, requestHash, leaseExpiresAt) {
+      const existing = records.get(key);
+      if (existing && existing.expiresAt >= new Date()) {
+        return success(null);
+      }
+
+      const record: IdempotencyRecord = { key, requestHash, createdAt: new Date(), expiresAt: leaseExpiresAt };
+      records.set(key, record);
+      return success(record);
+    },
+    async findActive(_organizationId, key) {
+      const record = records.get(key);
+      return success(record && record.expiresAt >= new Date() ? record : null);
+    },
+    async complete(_organizationId, key, response: StoredResponse, expiresAt) {
+      const record = records.get(key);
+      if (record) {
+        records.set(key, { ...record, response, expiresAt });
+      }
+      return success(undefined);
+    },
+    async release(_organizationId, key) {
+      const record = records.get(key);
+      if (record) {
+        records.set(key, { ...record, expiresAt: new Date(0) });
+      }
+      return success(undefined);
+    }
+  };
+
+  RepositoryFactory.setIdempotencyRepository(idempotencyRepository);
+}
+
+/**
+ * 10,000 USD booked at 1.10 USD/EUR and valued at 1.20 USD/EUR lose 757.58 EUR (REQUIREMENTS.md §4)
+ */
+async function testFxRevaluation(): Promise<void> {
+  console.log('\n💱 FX revaluation...');
+
+  const period = valueOf(Period.create({
+    id: periodId('period-2024-01'),
+    organizationId: orgId,
+    name: '2024-01',
+    startDate: new Date('2024-01-01T00:00:00.000Z'),
+    endDate: new Date('2024-01-31T23:59:59.999Z')
+  }));
+  const valuationDate = lastBankBusinessDayOfMonth(period.endDate);
+  check('Valuation date is the last bank business day', valuationDate.toISOString() === '2024-01-31T00:00:00.000Z',
+    valuationDate);
+  check('Period end journals are dated at the start of its last day',
+    period.getLastDay().toISOString() === '2024-01-31T00:00:00.000Z', period.getLastDay());
+
+  // The ECB quotes USD per EUR; the USD to EUR rate is its inverse
+  const rate = valueOf(await createServiceContainer().exchangeRateService.findRate(
+    currency('USD'),
+    currency('EUR'),
+    valuationDate,
+    orgId
+  ));
+  check('USD to EUR rate is the inverse of the ECB rate', rate.rate === '0.833333' && rate.method === 'inverse', rate);
+
+  const bankAccount = valueOf(Account.create({
+    id: accountId('account-bank-usd'),
+    organizationId: orgId,
+    code: '2810',
+    name: 'Bank USD',
+    type: 'asset',
+    currency: currency('USD')
+  }));
+  const fxGainLoss = valueOf(Account.create({
+    id: accountId('account-fx'),
+    organizationId: orgId,
+    code: '7860',
+    name: 'Exchange differences',
+    type: 'expense',
+    currency: currency('EUR'),
+    specialPurpose: 'FX_GAIN_LOSS'
+  }));
+
+  const plan = FxRevaluationPlan.build(
+    [{
+      accountId: bankAccount.id,
+      account: bankAccount,
+      originalBalance: Money.create('10000.00', 'USD'),
+      bookedBalance: Money.EUR('9090.91')
+    }],
+    new Map([['USD', rate]]),
+    fxGainLoss,
+    { currency: currency('EUR'), period, valuationDate, reversalDate: new Date('2024-02-01T00:00:00.000Z') }
+  );
+
+  check('Unrealized loss is 757.58 EUR', plan.result.equals(Money.EUR('-757.58')), plan.result.amount);
+  check('Loss is credited to the bank account and debited to FX gain/loss',
+    plan.lines.length === 2 &&
+    plan.lines[0].account.id === bankAccount.id && plan.lines[0].credit.equals(Money.EUR('757.58')) &&
+    plan.lines[1].account.id === fxGainLoss.id && plan.lines[1].debit.equals(Money.EUR('757.58')),
+    plan.lines.map(line => [line.account.code, line.debit.amount, line.credit.amount]));
+}
+
+/**
+ * Taxes are rounded to the minor unit with banker's rounding; contradicting manual taxes are rejected
+ */
+async function testTaxCalculation(): Promise<void> {
+  console.log('\n🧾 Tax calculation...');
+
+  const halfDown = TaxCalculation.fromNet(Money.EUR('10.025'), '0.2000');
+  const halfUp = TaxCalculation.fromNet(Money.EUR('10.075'), '0.2000');
+  check('2.005 EUR tax rounds to the even cent 2.00', halfDown.tax.equals(Money.EUR('2.00')), halfDown.tax.amount);
+  check('2.015 EUR tax rounds to the even cent 2.02', halfUp.tax.equals(Money.EUR('2.02')), halfUp.tax.amount);
+  check('Gross is the sum of net and tax', halfUp.gross.equals(Money.EUR('12.095')), halfUp.gross.amount);
+
+  const yen = TaxCalculation.fromNet(Money.create('1005', 'JPY'), '0.1000');
+  check('JPY tax rounds to whole yen', yen.tax.equals(Money.create('100', 'JPY')), yen.tax.amount);
+
+  const fromGross = TaxCalculation.fromGross(Money.EUR('100.00'), '0.2000');
+  check('100.00 EUR gross splits into 83.33 net and 16.67 tax',
+    fromGross.net.equals(Money.EUR('83.33')) && fromGross.tax.equals(Money.EUR('16.67')),
+    [fromGross.net.amount, fromGross.tax.amount]);
+
+  const { taxService } = createServiceContainer();
+  const postingDate = new Date('2024-05-15T00:00:00.000Z');
+  const net = Money.EUR('100.00');
+
+  const accepted = await taxService.calculateTax('AT20', net, postingDate, orgId, { amount: Money.EUR('20.01') });
+  check('Manual tax within a cent of the calculated tax is booked', accepted.isSuccess() &&
+    accepted.value.taxAmount.equals(Money.EUR('20.01')), accepted);
+
+  const wrongAmount = await taxService.calculateTax('AT20', net, postingDate, orgId, { amount: Money.EUR('20.02') });
+  check('Manual tax amount contradicting the rate fails with TAX_MISMATCH',
+    wrongAmount.isFailure() && wrongAmount.error.code === DomainErrorCodes.TAX_MISMATCH, wrongAmount);
+
+  const wrongRate = await taxService.calculateTax('AT20', net, postingDate, orgId, { rate: '0.1000' });
+  check('Manual tax rate contradicting the configuration fails with TAX_MISMATCH',
+    wrongRate.isFailure() && wrongRate.error.code === DomainErrorCodes.TAX_MISMATCH, wrongRate);
+
+  if (wrongRate.isFailure()) {
+    const response = createApiErrorResponse(wrongRate.error);
+    check('TAX_MISMATCH answers with HTTP 422', response.status === 422, response.status);
+  }
+}
+
+/**
+ * Overlapping statements yield the same fingerprints for the same entries, identical payments included
+ */
+function testTransactionFingerprints(): void {
+  console.log('\n🏦 Bank transaction fingerprints...');
+
+  const bankAccountId = accountId('account-bank-eur');
+  const rent = { transactionDate: new Date('2024-03-01'), amount: '-950.00', currency: 'EUR', reference: 'Rent March' };
+  const coffee = {
+    transactionDate: new Date('2024-03-02'),
+    amount: '-3.50',
+    currency: 'EUR',
+    counterparty: 'Café Central'
+  };
+  const salary = { transactionDate: new Date('2024-03-03'), amount: '2500', currency: 'EUR', reference: 'Salary' };
+
+  // The second file repeats the day with two identical payments, formatted differently by the export
+  const firstFile = TransactionFingerprint.generateAll(bankAccountId, [rent, coffee, coffee])
+    .map(fingerprint => fingerprint.toString());
+  const secondFile = TransactionFingerprint.generateAll(bankAccountId, [
+    { ...coffee, amount: '-3.5', counterparty: ' café  central ' },
+    { ...coffee, amount: '-3.5000' },
+    salary
+  ]).map(fingerprint => fingerprint.toString());
+
+  check('Identical payments of one day get distinct fingerprints', firstFile[1] !== firstFile[2], firstFile);
+  check('Overlapping entries get the fingerprints of the first file',
+    secondFile[0] === firstFile[1] && secondFile[1] === firstFile[2], { firstFile, secondFile });
+  check('Both files hold four distinct transactions', new Set([...firstFile, ...secondFile]).size === 4,
+    { firstFile, secondFile });
+}
+
+/**
+ * A retried request receives the stored response and its headers without running the handler again
+ */
+async function testIdempotentReplay(records: Map<string, IdempotencyRecord>): Promise<void> {
+  console.log('\n🔁 Idempotent replay...');
+
+  const context = { authContext: {}, organizationId: orgId, auditContext };
+  let executions = 0;
+  const createRequest = (body: string) => new NextRequest('http://localhost/api/journals', {
+    method: 'POST',
+    body,
+    headers: { 'Idempotency-Key': 'create-journal-1' }
+  });
+  const handler = async () => {
+    executions++;
+    return NextResponse.json({ id: 'journal-1' }, { status: 201, headers: { Location: '/api/journals/journal-1' } });
+  };
+
+  const first = await withIdempotency(createRequest('{"description":"Rent"}'), context, handler);
+  const stored = records.get('create-journal-1');
+  check('Completed key is kept for 30 days',
+    !!stored && stored.expiresAt.getTime() - Date.now() > 29 * 24 * 60 * 60 * 1000, stored?.expiresAt);
+
+  const retry = await withIdempotency(createRequest('{"description":"Rent"}'), context, handler);
+  check('Retry does not run the handler again', executions === 1, executions);
+  check('Retry receives the stored status, body and headers',
+    retry.status === first.status &&
+    JSON.stringify(await retry.json()) === JSON.stringify(await first.json()) &&
+    retry.headers.get('Location') === '/api/journals/journal-1' &&
+    retry.headers.get(IDEMPOTENT_REPLAY_HEADER) === 'true',
+    { status: retry.status, headers: Object.fromEntries(retry.headers) });
+
+  const conflict = await withIdempotency(createRequest('{"description":"Other"}'), context, handler);
+  const conflictBody = await conflict.json();
+  check('Reusing the key for a different payload answers with HTTP 409 IDEMPOTENCY_CONFLICT',
+    conflict.status === 409 && conflictBody.code === 'IDEMPOTENCY_CONFLICT', { status: conflict.status, conflictBody });
+
+  let leaseExpiresAt: Date | undefined;
+  await withIdempotency(
+    new NextRequest('http://localhost/api/journals', {
+      method: 'POST',
+      body: '{}',
+      headers: { 'Idempotency-Key': 'create-journal-2' }
+    }),
+    context,
+    async () => {
+      leaseExpiresAt = records.get('create-journal-2')?.expiresAt;
+      return NextResponse.json({}, { status: 201 });
+    }
+  );
+  check('A running request holds its key for a short lease only',
+    !!leaseExpiresAt && leaseExpiresAt.getTime() - Date.now() <= 5 * 60 * 1000, leaseExpiresAt);
+}
+
+/**
+ * Posted journals answer changes of their exchange rates with FX_001 and other changes with HTTP 405
+ */
+async function testPostedJournalChanges(journals: Journal[]): Promise<void> {
+  console.log('\n🔒 Changes of posted journals...');
+
+  const id = journalId('journal-posted-1');
+  const lines = [
+    JournalLine.create({
+      journalId: id,
+      accountId: accountId('account-bank-eur'),
+      lineNumber: 1,
+      description: 'Payment received',
+      debitAmount: Money.EUR('110.00'),
+      creditAmount: Money.zero('EUR'),
+      originalAmount: Money.create('121.00', 'USD'),
+      exchangeRate: '0.909091'
+    }),
+    JournalLine.create({
+      journalId: id,
+      accountId: accountId('account-receivables'),
+      lineNumber: 2,
+      description: 'Payment received',
+      debitAmount: Money.zero('EUR'),
+      creditAmount: Money.EUR('110.00'),
+      originalAmount: Money.create('121.00', 'USD'),
+      exchangeRate: '0.909091'
+    })
+  ];
+  const draft = valueOf(Journal.create({
+    id,
+    organizationId: orgId,
+    periodId: periodId('period-2024-01'),
+    journalNumber: 'JE-2024-0001',
+    description: 'Payment received',
+    postingDate: new Date('2024-01-15T00:00:00.000Z'),
+    currency: currency('EUR'),
+    lines,
+    createdBy: testUserId
+  }));
+  journals.push(valueOf(draft.post(testUserId)));
+
+  const { updateJournal } = createUseCaseContainer();
+
+  const rateChange = await updateJournal.execute({
+    journalId: id,
+    organizationId: orgId,
+    exchangeRate: '0.95',
+    auditContext
+  });
+  check('Changing the exchange rate fails with FX_001',
+    rateChange.isFailure() && (rateChange.error as DomainError).code === DomainErrorCodes.FX_001, rateChange);
+  if (rateChange.isFailure()) {
+    const response = createApiErrorResponse(rateChange.error);
+    check('FX_001 answers with HTTP 409', response.status === 409, response.status);
+  }
+
+  // PATCH /api/journals/:id answers like this, retries included
+  const context = { authContext: {}, organizationId: orgId, auditContext };
+  const patch = () => withIdempotency(
+    new NextRequest(`http://localhost/api/journals/${id}`, {
+      method: 'PATCH',
+      body: '{"description":"Corrected"}',
+      headers: { 'Idempotency-Key': 'patch-journal-1' }
+    }),
+    context,
+    async () => {
+      const result = await updateJournal.execute({
+        journalId: id,
+        organizationId: orgId,
+        description: 'Corrected',
+        auditContext
+      });
+      const response = result.isFailure() ? createApiErrorResponse(result.error) : NextResponse.json({});
+      if (response.status === 405) {
+        response.headers.set('Allow', 'GET');
+      }
+      return response;
+    }
+  );
+
+  const first = await patch();
+  check('Changing the description answers with HTTP 405 and Allow: GET',
+    first.status === 405 && first.headers.get('Allow') === 'GET',
+    { status: first.status, allow: first.headers.get('Allow') });
+
+  const retry = await patch();
+  check('A retried PATCH replays HTTP 405 with Allow: GET',
+    retry.status === 405 && retry.headers.get('Allow') === 'GET' &&
+    retry.headers.get(IDEMPOTENT_REPLAY_HEADER) === 'true',
+    { status: retry.status, headers: Object.fromEntries(retry.headers) });
+}
+
+async function testDomainRules() {
+  console.log('🧪 Testing domain rules...');
+
+  // Audit entries are only signed by mutations, which these checks do not reach
+  process.env.AUDIT_SIGNING_KEY ||= 'test-domain-rules';
+
+  const journals: Journal[] = [];
+  const idempotencyKeys = new Map<string, IdempotencyRecord>();
+  try {
+    registerReferenceData(
+      [valueOf(ExchangeRate.create({
+        id: exchangeRateId('rate-eur-usd-2024-01-31'),
+        organizationId: orgId,
+        fromCurrency: currency('EUR'),
+        toCurrency: currency('USD'),
+        rate: '1.2000',
+        effectiveDate: new Date('2024-01-31T00:00:00.000Z'),
+        source: 'ECB'
+      }))],
+      [valueOf(TaxConfig.create({
+        id: taxConfigId('tax-at20'),
+        organizationId: orgId,
+        code: 'AT20',
+        name: 'Umsatzsteuer 20 %',
+        rate: '0.2000',
+        country: 'AUT',
+        validFrom: new Date('2016-01-01T00:00:00.000Z'),
+        accountId: accountId('account-vat')
+      }))]
+    );
+    registerJournals(journals);
+    registerIdempotencyKeys(idempotencyKeys);
+
+    await testFxRevaluation();
+    await testTaxCalculation();
+    testTransactionFingerprints();
+    await testIdempotentReplay(idempotencyKeys);
+    await testPostedJournalChanges(journals);
+  } catch (error) {
+    failedChecks++;
+    console.error('💥 Test failed with error:', error);
+  }
+
+  if (failedChecks > 0) {
+    console.error(`\n❌ ${failedChecks} check(s) failed`);
+    process.exitCode = 1;
+    return;
+  }
+
+  console.log('\n🎉 Domain rule checks completed successfully!');
+}
+
+// Run the test
+testDomainRules().catch(console.error);
@@ -0,0 +1,79 @@
+import {NextRequest} from 'next/server';
+import {createUseCaseContainer} from '@/application';
+import {accountId} from '@/domain/shared/types';
+import {
+    createApiErrorResponse,
+    createResultResponse,
+    handleApiRequest,
+    parseJsonBody,
+    parseUpdateAccountCommand,
+    serializeAccount,
+    withIdempotency
+} from '@/lib/api';
+import {createSuccessResponse} from '@/lib/auth-middleware';
+
+interface RouteParams {
+    params: Promise<{ id: string }>;
+}
+
+/**
+ * Get a single account
+ * GET /api/accounts/:id
+ */
+export async function GET(request: NextRequest, {params}: RouteParams) {
+    return handleApiRequest(request, async (context) => {
+        const {id} = await params;
+
+        const result = await createUseCaseContainer().queryAccounts.execute({
+            organizationId: context.organizationId,
+            accountId: accountId(id),
+            auditContext: context.auditContext
+        });
+
+        if (result.isFailure()) {
+            return createApiErrorResponse(result.error);
+        }
+
+        const account = result.value.accounts[0];
+        if (!account) {
+            return createApiErrorResponse({code: 'ENTITY_NOT_FOUND', message: 'Account not found'});
+        }
+
+        return createSuccessResponse(serializeAccount(account));
+    });
+}
+
+/**
+ * Update code, name, type, currency or active state of an account
+ * Code, type and currency are fixed once journal lines reference the account
+ * PATCH /api/accounts/:id
+ */
+export async function PATCH(request: NextRequest, {params}: RouteParams) {
+    return handleApiRequest(request, (context) => withIdempotency(request, context, async () => {
+        const {id} = await params;
+        const body = await parseJsonBody(request);
+        const command = parseUpdateAccountCommand(body, accountId(id), context);
+
+        const result = await createUseCaseContainer().updateAccount.execute(command);
+
+        return createResultResponse(result, (value) => serializeAccount(value.account));
+    }));
+}
+
+/**
+ * Delete an account without journal lines; used accounts must be deactivated instead
+ * DELETE /api/accounts/:id
+ */
+export async function DELETE(request: NextRequest, {params}: RouteParams) {
+    return handleApiRequest(request, (context) => withIdempotency(request, context, async () => {
+        const {id} = await params;
+
+        const result = await createUseCaseContainer().deleteAccount.execute({
+            accountId: accountId(id),
+            organizationId: context.organizationId,
+            auditContext: context.auditContext
+        });
+
+        return createResultResponse(result, (value) => value);
+    }));
+}
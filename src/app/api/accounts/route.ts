@@ -0,0 +1,43 @@
+import {NextRequest} from 'next/server';
+import {createUseCaseContainer} from '@/application';
+import {
+    createResultResponse,
+    handleApiRequest,
+    parseCreateAccountCommand,
+    parseJsonBody,
+    parseQueryAccountsQuery,
+    serializeAccount,
+    withIdempotency
+} from '@/lib/api';
+
+/**
+ * Add an account to the chart of accounts
+ * POST /api/accounts
+ */
+export async function POST(request: NextRequest) {
+    return handleApiRequest(request, (context) => withIdempotency(request, context, async () => {
+        const body = await parseJsonBody(request);
+        const command = parseCreateAccountCommand(body, context);
+
+        const result = await createUseCaseContainer().createAccount.execute(command);
+
+        return createResultResponse(result, (value) => serializeAccount(value.account), 201);
+    }));
+}
+
+/**
+ * List the chart of accounts, optionally filtered by type, active state or code/name search
+ * GET /api/accounts
+ */
+export async function GET(request: NextRequest) {
+    return handleApiRequest(request, async (context) => {
+        const query = parseQueryAccountsQuery(request.nextUrl.searchParams, context);
+
+        const result = await createUseCaseContainer().queryAccounts.execute(query);
+
+        return createResultResponse(result, (value) => ({
+            accounts: value.accounts.map(serializeAccount),
+            totalCount: value.totalCount
+        }));
+    });
+}
@@ -0,0 +1,30 @@
+import {NextRequest} from 'next/server';
+import {createUseCaseContainer} from '@/application';
+import {
+    createResultResponse,
+    handleApiRequest,
+    parseJsonBody,
+    parseSetupChartOfAccountsCommand,
+    serializeAccount,
+    withIdempotency
+} from '@/lib/api';
+
+/**
+ * Seed the chart of accounts of a template with its tax codes and special accounts, creating only what is missing
+ * POST /api/accounts/setup
+ */
+export async function POST(request: NextRequest) {
+    return handleApiRequest(request, (context) => withIdempotency(request, context, async () => {
+        const body = await parseJsonBody(request, {optional: true});
+        const command = parseSetupChartOfAccountsCommand(body, context);
+
+        const result = await createUseCaseContainer().setupChartOfAccounts.execute(command);
+
+        return createResultResponse(result, (value) => ({
+            template: value.template.id,
+            createdAccounts: value.createdAccounts.map(serializeAccount),
+            createdTaxCodes: value.createdTaxConfigs.map(taxConfig => taxConfig.code),
+            specialAccounts: Object.values(value.specialAccounts).map(serializeAccount)
+        }));
+    }));
+}
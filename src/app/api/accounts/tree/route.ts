@@ -0,0 +1,24 @@
+import {NextRequest} from 'next/server';
+import {createUseCaseContainer} from '@/application';
+import {
+    createResultResponse,
+    handleApiRequest,
+    parseGetAccountTreeQuery,
+    serializeAccountTreeNode
+} from '@/lib/api';
+
+/**
+ * Get the chart of accounts as a tree of group and leaf accounts
+ * GET /api/accounts/tree
+ */
+export async function GET(request: NextRequest) {
+    return handleApiRequest(request, async (context) => {
+        const query = parseGetAccountTreeQuery(request.nextUrl.searchParams, context);
+
+        const result = await createUseCaseContainer().getAccountTree.execute(query);
+
+        return createResultResponse(result, (value) => ({
+            accounts: value.nodes.map(serializeAccountTreeNode)
+        }));
+    });
+}
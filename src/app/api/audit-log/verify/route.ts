@@ -0,0 +1,22 @@
+import {NextRequest} from 'next/server';
+import {createUseCaseContainer} from '@/application';
+import {createResultResponse, handleApiRequest} from '@/lib/api';
+
+/**
+ * Verify signatures and chain linkage of the organization's audit log
+ * Reports unsigned entries, gaps in the sequence, broken links and forged rows
+ * GET /api/audit-log/verify
+ */
+export async function GET(request: NextRequest) {
+    return handleApiRequest(request, async (context) => {
+        const result = await createUseCaseContainer().verifyAuditLog.execute({
+            organizationId: context.organizationId,
+            auditContext: context.auditContext
+        });
+
+        return createResultResponse(result, (value) => ({
+            ...value,
+            verifiedAt: value.verifiedAt.toISOString()
+        }));
+    });
+}
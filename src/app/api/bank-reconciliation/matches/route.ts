@@ -0,0 +1,25 @@
+import {NextRequest} from 'next/server';
+import {createUseCaseContainer} from '@/application';
+import {
+    createResultResponse,
+    handleApiRequest,
+    parseBankMatchCommand,
+    parseJsonBody,
+    serializeBankMatch,
+    withIdempotency
+} from '@/lib/api';
+
+/**
+ * Confirm a match of bank transactions to journal lines, one to many or many to one
+ * POST /api/bank-reconciliation/matches
+ */
+export async function POST(request: NextRequest) {
+    return handleApiRequest(request, (context) => withIdempotency(request, context, async () => {
+        const body = await parseJsonBody(request);
+        const command = parseBankMatchCommand(body, context);
+
+        const result = await createUseCaseContainer().confirmBankMatch.execute(command);
+
+        return createResultResponse(result, (value) => serializeBankMatch(value.match), 201);
+    }));
+}
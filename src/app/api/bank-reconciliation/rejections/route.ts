@@ -0,0 +1,25 @@
+import {NextRequest} from 'next/server';
+import {createUseCaseContainer} from '@/application';
+import {
+    createResultResponse,
+    handleApiRequest,
+    parseBankMatchCommand,
+    parseJsonBody,
+    serializeBankMatch,
+    withIdempotency
+} from '@/lib/api';
+
+/**
+ * Reject a suggested match so that it is not suggested again
+ * POST /api/bank-reconciliation/rejections
+ */
+export async function POST(request: NextRequest) {
+    return handleApiRequest(request, (context) => withIdempotency(request, context, async () => {
+        const body = await parseJsonBody(request);
+        const command = parseBankMatchCommand(body, context);
+
+        const result = await createUseCaseContainer().rejectBankMatch.execute(command);
+
+        return createResultResponse(result, (value) => serializeBankMatch(value.match), 201);
+    }));
+}
@@ -0,0 +1,22 @@
+import {NextRequest} from 'next/server';
+import {createUseCaseContainer} from '@/application';
+import {
+    createResultResponse,
+    handleApiRequest,
+    parseGetBankReconciliationStatementQuery,
+    serializeReconciliationStatement
+} from '@/lib/api';
+
+/**
+ * Reconcile the book balance of a bank account with the bank balance at a cutoff date
+ * GET /api/bank-reconciliation/statement
+ */
+export async function GET(request: NextRequest) {
+    return handleApiRequest(request, async (context) => {
+        const query = parseGetBankReconciliationStatementQuery(request.nextUrl.searchParams, context);
+
+        const result = await createUseCaseContainer().getBankReconciliationStatement.execute(query);
+
+        return createResultResponse(result, (value) => serializeReconciliationStatement(value.statement));
+    });
+}
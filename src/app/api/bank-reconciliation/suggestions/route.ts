@@ -0,0 +1,24 @@
+import {NextRequest} from 'next/server';
+import {createUseCaseContainer} from '@/application';
+import {
+    createResultResponse,
+    handleApiRequest,
+    parseSuggestBankMatchesQuery,
+    serializeMatchSuggestion
+} from '@/lib/api';
+
+/**
+ * Suggest matches of open bank transactions to posted journal lines of the bank account
+ * GET /api/bank-reconciliation/suggestions
+ */
+export async function GET(request: NextRequest) {
+    return handleApiRequest(request, async (context) => {
+        const query = parseSuggestBankMatchesQuery(request.nextUrl.searchParams, context);
+
+        const result = await createUseCaseContainer().suggestBankMatches.execute(query);
+
+        return createResultResponse(result, (value) => ({
+            suggestions: value.suggestions.map(serializeMatchSuggestion)
+        }));
+    });
+}
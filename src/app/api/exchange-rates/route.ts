@@ -0,0 +1,22 @@
+import {NextRequest} from 'next/server';
+import {createUseCaseContainer} from '@/application';
+import {
+    createResultResponse,
+    handleApiRequest,
+    parseGetExchangeRateQuery,
+    serializeExchangeRate
+} from '@/lib/api';
+
+/**
+ * Look up the exchange rate of a currency pair effective on or before a date
+ * GET /api/exchange-rates?from=USD&to=EUR&date=2025-01-10
+ */
+export async function GET(request: NextRequest) {
+    return handleApiRequest(request, async (context) => {
+        const query = parseGetExchangeRateQuery(request.nextUrl.searchParams, context);
+
+        const result = await createUseCaseContainer().getExchangeRate.execute(query);
+
+        return createResultResponse(result, serializeExchangeRate);
+    });
+}
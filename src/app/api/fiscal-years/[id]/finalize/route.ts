@@ -0,0 +1,29 @@
+import {NextRequest} from 'next/server';
+import {createUseCaseContainer} from '@/application';
+import {fiscalYearId} from '@/domain/shared/types';
+import {
+    createResultResponse,
+    handleApiRequest,
+    parseFinalizeFiscalYearCommand,
+    serializeFiscalYear,
+    withIdempotency
+} from '@/lib/api';
+
+interface RouteParams {
+    params: Promise<{ id: string }>;
+}
+
+/**
+ * Close the fiscal year; fails while any of its periods is still open or closing
+ * POST /api/fiscal-years/:id/finalize
+ */
+export async function POST(request: NextRequest, {params}: RouteParams) {
+    return handleApiRequest(request, (context) => withIdempotency(request, context, async () => {
+        const {id} = await params;
+        const command = parseFinalizeFiscalYearCommand(fiscalYearId(id), context);
+
+        const result = await createUseCaseContainer().finalizeFiscalYear.execute(command);
+
+        return createResultResponse(result, (value) => serializeFiscalYear(value.fiscalYear));
+    }));
+}
@@ -0,0 +1,29 @@
+import {NextRequest} from 'next/server';
+import {createUseCaseContainer} from '@/application';
+import {
+    createResultResponse,
+    handleApiRequest,
+    parseGenerateFiscalYearCommand,
+    parseJsonBody,
+    serializeFiscalYear,
+    serializePeriod,
+    withIdempotency
+} from '@/lib/api';
+
+/**
+ * Create a fiscal year and generate its monthly or quarterly periods, optionally with a 13th adjustment period
+ * POST /api/fiscal-years
+ */
+export async function POST(request: NextRequest) {
+    return handleApiRequest(request, (context) => withIdempotency(request, context, async () => {
+        const body = await parseJsonBody(request);
+        const command = parseGenerateFiscalYearCommand(body, context);
+
+        const result = await createUseCaseContainer().generateFiscalYear.execute(command);
+
+        return createResultResponse(result, (value) => ({
+            ...serializeFiscalYear(value.fiscalYear),
+            periods: value.periods.map(serializePeriod)
+        }), 201);
+    }));
+}
@@ -0,0 +1,28 @@
+import {NextRequest} from 'next/server';
+import {createUseCaseContainer} from '@/application';
+import {
+    createResultResponse,
+    handleApiRequest,
+    parseImportBankStatementCommand,
+    parseJsonBody,
+    serializeBankImport,
+    withIdempotency
+} from '@/lib/api';
+
+/**
+ * Import a CAMT.053, MT940 or CSV bank statement into a bank account; a file imported before is not stored again
+ * POST /api/import/bank
+ */
+export async function POST(request: NextRequest) {
+    return handleApiRequest(request, (context) => withIdempotency(request, context, async () => {
+        const body = await parseJsonBody(request);
+        const command = parseImportBankStatementCommand(body, context);
+
+        const result = await createUseCaseContainer().importBankStatement.execute(command);
+
+        return createResultResponse(result, (value) => ({
+            ...serializeBankImport(value.bankImport),
+            duplicate: value.duplicate
+        }), result.isSuccess() && result.value.duplicate ? 200 : 201);
+    }));
+}
@@ -0,0 +1,31 @@
+import {NextRequest} from 'next/server';
+import {createUseCaseContainer} from '@/application';
+import {journalId} from '@/domain/shared/types';
+import {
+    createResultResponse,
+    handleApiRequest,
+    serializeJournal,
+    withIdempotency
+} from '@/lib/api';
+
+interface RouteParams {
+    params: Promise<{ id: string }>;
+}
+
+/**
+ * Post a draft journal, making it immutable
+ * POST /api/journals/:id/post
+ */
+export async function POST(request: NextRequest, {params}: RouteParams) {
+    return handleApiRequest(request, (context) => withIdempotency(request, context, async () => {
+        const {id} = await params;
+
+        const result = await createUseCaseContainer().postJournal.execute({
+            journalId: journalId(id),
+            organizationId: context.organizationId,
+            auditContext: context.auditContext
+        });
+
+        return createResultResponse(result, (value) => serializeJournal(value.journal));
+    }));
+}
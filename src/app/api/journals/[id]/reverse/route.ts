@@ -0,0 +1,42 @@
+import {NextRequest} from 'next/server';
+import {createUseCaseContainer} from '@/application';
+import {journalId} from '@/domain/shared/types';
+import {
+    createResultResponse,
+    handleApiRequest,
+    parseJsonBody,
+    parseReverseJournalCommand,
+    serializeJournal,
+    withIdempotency
+} from '@/lib/api';
+
+interface RouteParams {
+    params: Promise<{ id: string }>;
+}
+
+/**
+ * Reverse a posted journal with a posted reversal journal
+ * A reversal date in a closed period is moved to the next open period and reported as `redated`.
+ * POST /api/journals/:id/reverse
+ */
+export async function POST(request: NextRequest, {params}: RouteParams) {
+    return handleApiRequest(request, (context) => withIdempotency(request, context, async () => {
+        const {id} = await params;
+        const body = await parseJsonBody(request, {optional: true});
+        const command = parseReverseJournalCommand(body, journalId(id), context);
+
+        const result = await createUseCaseContainer().reverseJournal.execute(command);
+
+        return createResultResponse(result, (value) => ({
+            originalJournal: serializeJournal(value.originalJournal),
+            reversalJournal: serializeJournal(value.reversalJournal),
+            redated: value.redated,
+            requestedReversalDate: value.requestedReversalDate.toISOString(),
+            reversalDate: value.reversalDate.toISOString(),
+            reversalPeriod: {
+                id: value.reversalPeriod.id,
+                name: value.reversalPeriod.name
+            }
+        }), 201);
+    }));
+}
@@ -0,0 +1,67 @@
+import {NextRequest} from 'next/server';
+import {createUseCaseContainer} from '@/application';
+import {journalId} from '@/domain/shared/types';
+import {
+    createApiErrorResponse,
+    createResultResponse,
+    handleApiRequest,
+    parseJsonBody,
+    parseUpdateJournalCommand,
+    serializeJournal,
+    withIdempotency
+} from '@/lib/api';
+import {createSuccessResponse} from '@/lib/auth-middleware';
+
+interface RouteParams {
+    params: Promise<{ id: string }>;
+}
+
+/**
+ * Get a single journal with its lines
+ * GET /api/journals/:id
+ */
+export async function GET(request: NextRequest, {params}: RouteParams) {
+    return handleApiRequest(request, async (context) => {
+        const {id} = await params;
+
+        const result = await createUseCaseContainer().queryJournals.execute({
+            organizationId: context.organizationId,
+            journalId: journalId(id),
+            auditContext: context.auditContext
+        });
+
+        if (result.isFailure()) {
+            return createApiErrorResponse(result.error);
+        }
+
+        const journal = result.value.journals[0];
+        if (!journal) {
+            return createApiErrorResponse({code: 'ENTITY_NOT_FOUND', message: 'Journal not found'});
+        }
+
+        return createSuccessResponse(serializeJournal(journal));
+    });
+}
+
+/**
+ * Correct a draft journal (description, reference, posting date, lines)
+ * Posted and reversed journals are immutable and answer with HTTP 405
+ * Changing exchange rates or original amounts of such journals answers with HTTP 409 FX_001
+ * PATCH /api/journals/:id
+ */
+export async function PATCH(request: NextRequest, {params}: RouteParams) {
+    return handleApiRequest(request, (context) => withIdempotency(request, context, async () => {
+        const {id} = await params;
+        const body = await parseJsonBody(request);
+        const command = parseUpdateJournalCommand(body, journalId(id), context);
+
+        const result = await createUseCaseContainer().updateJournal.execute(command);
+
+        const response = createResultResponse(result, (value) => serializeJournal(value.journal));
+        if (response.status === 405) {
+            // Immutable journals only support reads; corrections go through /reverse
+            response.headers.set('Allow', 'GET');
+        }
+        return response;
+    }));
+}
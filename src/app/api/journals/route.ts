@@ -0,0 +1,58 @@
+import {NextRequest} from 'next/server';
+import {createUseCaseContainer} from '@/application';
+import {
+    createResultResponse,
+    handleApiRequest,
+    parseCreateJournalCommand,
+    parseJsonBody,
+    parseQueryJournalsQuery,
+    serializeJournal,
+    serializeMoney,
+    withIdempotency
+} from '@/lib/api';
+
+/**
+ * Create a draft journal
+ * POST /api/journals
+ */
+export async function POST(request: NextRequest) {
+    return handleApiRequest(request, (context) => withIdempotency(request, context, async () => {
+        const body = await parseJsonBody(request);
+        const command = parseCreateJournalCommand(body, context);
+
+        const result = await createUseCaseContainer().createJournal.execute(command);
+
+        return createResultResponse(result, (value) => serializeJournal(value.journal), 201);
+    }));
+}
+
+/**
+ * Query journals by period, date range, journal number or external UID
+ * GET /api/journals
+ */
+export async function GET(request: NextRequest) {
+    return handleApiRequest(request, async (context) => {
+        const query = parseQueryJournalsQuery(request.nextUrl.searchParams, context);
+
+        const result = await createUseCaseContainer().queryJournals.execute(query);
+
+        return createResultResponse(result, (value) => ({
+            journals: value.journals.map(serializeJournal),
+            totalCount: value.totalCount,
+            pageSize: value.pageSize,
+            currentPage: value.currentPage,
+            totalPages: value.totalPages,
+            summary: {
+                totalJournals: value.summary.totalJournals,
+                statusCounts: value.summary.statusCounts,
+                currencySummary: Object.fromEntries(
+                    Object.entries(value.summary.currencySummary).map(([code, entry]) => [code, {
+                        count: entry.count,
+                        totalDebit: serializeMoney(entry.totalDebit),
+                        totalCredit: serializeMoney(entry.totalCredit)
+                    }])
+                )
+            }
+        }));
+    });
+}
@@ -0,0 +1,28 @@
+import {NextRequest} from 'next/server';
+import {createUseCaseContainer} from '@/application';
+import {periodId} from '@/domain/shared/types';
+import {
+    createResultResponse,
+    handleApiRequest,
+    parseGetPeriodCloseChecklistQuery,
+    serializePeriodCloseChecklist
+} from '@/lib/api';
+
+interface RouteParams {
+    params: Promise<{ id: string }>;
+}
+
+/**
+ * Get the pre-close validation report of a period
+ * GET /api/periods/:id/close-checklist?currency=EUR
+ */
+export async function GET(request: NextRequest, {params}: RouteParams) {
+    return handleApiRequest(request, async (context) => {
+        const {id} = await params;
+        const query = parseGetPeriodCloseChecklistQuery(request.nextUrl.searchParams, periodId(id), context);
+
+        const result = await createUseCaseContainer().getPeriodCloseChecklist.execute(query);
+
+        return createResultResponse(result, serializePeriodCloseChecklist);
+    });
+}
@@ -0,0 +1,37 @@
+import {NextRequest} from 'next/server';
+import {createUseCaseContainer} from '@/application';
+import {periodId} from '@/domain/shared/types';
+import {
+    createResultResponse,
+    handleApiRequest,
+    parseCloseFiscalYearCommand,
+    parseJsonBody,
+    serializeJournal,
+    serializeYearEndClosePlan,
+    withIdempotency
+} from '@/lib/api';
+
+interface RouteParams {
+    params: Promise<{ id: string }>;
+}
+
+/**
+ * Close the fiscal year ending with this period; with `dryRun` only the planned entries are returned
+ * POST /api/periods/:id/close-year
+ */
+export async function POST(request: NextRequest, {params}: RouteParams) {
+    return handleApiRequest(request, (context) => withIdempotency(request, context, async () => {
+        const {id} = await params;
+        const body = await parseJsonBody(request, {optional: true});
+        const command = parseCloseFiscalYearCommand(body, periodId(id), context);
+
+        const result = await createUseCaseContainer().closeFiscalYear.execute(command);
+
+        return createResultResponse(result, (value) => ({
+            dryRun: value.dryRun,
+            plan: serializeYearEndClosePlan(value.plan),
+            closingJournal: value.closingJournal ? serializeJournal(value.closingJournal) : null,
+            openingJournal: value.openingJournal ? serializeJournal(value.openingJournal) : null
+        }), command.dryRun ? 200 : 201);
+    }));
+}
@@ -0,0 +1,35 @@
+import {NextRequest} from 'next/server';
+import {createUseCaseContainer} from '@/application';
+import {periodId} from '@/domain/shared/types';
+import {
+    createResultResponse,
+    handleApiRequest,
+    parseClosePeriodCommand,
+    parseJsonBody,
+    serializePeriod,
+    serializePeriodCloseChecklist,
+    withIdempotency
+} from '@/lib/api';
+
+interface RouteParams {
+    params: Promise<{ id: string }>;
+}
+
+/**
+ * Close a period in closing status; failed pre-close checks must be waived with a reason in `waivers`
+ * POST /api/periods/:id/close
+ */
+export async function POST(request: NextRequest, {params}: RouteParams) {
+    return handleApiRequest(request, (context) => withIdempotency(request, context, async () => {
+        const {id} = await params;
+        const body = await parseJsonBody(request, {optional: true});
+        const command = parseClosePeriodCommand(body, periodId(id), context);
+
+        const result = await createUseCaseContainer().closePeriod.execute(command);
+
+        return createResultResponse(result, (value) => ({
+            ...serializePeriod(value.period),
+            checklist: serializePeriodCloseChecklist(value.checklist)
+        }));
+    }));
+}
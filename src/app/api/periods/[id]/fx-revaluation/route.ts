@@ -0,0 +1,38 @@
+import {NextRequest} from 'next/server';
+import {createUseCaseContainer} from '@/application';
+import {periodId} from '@/domain/shared/types';
+import {
+    createResultResponse,
+    handleApiRequest,
+    parseJsonBody,
+    parseRevalueForeignCurrencyCommand,
+    serializeFxRevaluationPlan,
+    serializeJournal,
+    withIdempotency
+} from '@/lib/api';
+
+interface RouteParams {
+    params: Promise<{ id: string }>;
+}
+
+/**
+ * Revalue open foreign currency items at the end of this period and reverse the adjustment on the next day;
+ * with `dryRun` only the planned differences are returned
+ * POST /api/periods/:id/fx-revaluation
+ */
+export async function POST(request: NextRequest, {params}: RouteParams) {
+    return handleApiRequest(request, (context) => withIdempotency(request, context, async () => {
+        const {id} = await params;
+        const body = await parseJsonBody(request, {optional: true});
+        const command = parseRevalueForeignCurrencyCommand(body, periodId(id), context);
+
+        const result = await createUseCaseContainer().revalueForeignCurrency.execute(command);
+
+        return createResultResponse(result, (value) => ({
+            dryRun: value.dryRun,
+            plan: serializeFxRevaluationPlan(value.plan),
+            revaluationJournal: value.revaluationJournal ? serializeJournal(value.revaluationJournal) : null,
+            reversalJournal: value.reversalJournal ? serializeJournal(value.reversalJournal) : null
+        }), command.dryRun ? 200 : 201);
+    }));
+}
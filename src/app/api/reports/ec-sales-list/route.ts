@@ -0,0 +1,36 @@
+import {NextRequest} from 'next/server';
+import {createUseCaseContainer} from '@/application';
+import {
+    createCsvResultResponse,
+    createResultResponse,
+    formatEcSalesListCsv,
+    handleApiRequest,
+    parseGetEcSalesListQuery,
+    parseReportFormat,
+    serializeEcSalesList
+} from '@/lib/api';
+
+/**
+ * Get the EC Sales List (Zusammenfassende Meldung) of intra-community sales per customer VAT ID
+ * GET /api/reports/ec-sales-list?periodId=... or ?startDate=...&endDate=..., optional country (ISO alpha-3) and
+ * format=csv
+ */
+export async function GET(request: NextRequest) {
+    return handleApiRequest(request, async (context) => {
+        const params = request.nextUrl.searchParams;
+        const query = parseGetEcSalesListQuery(params, context);
+        const format = parseReportFormat(params);
+
+        const result = await createUseCaseContainer().getEcSalesList.execute(query);
+
+        if (format === 'csv') {
+            return createCsvResultResponse(
+                result,
+                (value) => formatEcSalesListCsv(value.ecSalesList),
+                'ec-sales-list.csv'
+            );
+        }
+
+        return createResultResponse(result, (value) => serializeEcSalesList(value.ecSalesList, value.period));
+    });
+}
@@ -0,0 +1,28 @@
+import {NextRequest} from 'next/server';
+import {createUseCaseContainer} from '@/application';
+import {
+    createResultResponse,
+    handleApiRequest,
+    parseGetGeneralLedgerQuery,
+    serializeGeneralLedger
+} from '@/lib/api';
+
+/**
+ * Get a page of the general ledger of an account or account range with running balances
+ * GET /api/reports/general-ledger?accountId=... or ?fromCode=...&toCode=..., plus periodId or startDate and endDate
+ */
+export async function GET(request: NextRequest) {
+    return handleApiRequest(request, async (context) => {
+        const query = parseGetGeneralLedgerQuery(request.nextUrl.searchParams, context);
+
+        const result = await createUseCaseContainer().getGeneralLedger.execute(query);
+
+        return createResultResponse(result, (value) => ({
+            ...serializeGeneralLedger(value.ledger, value.period),
+            totalCount: value.ledger.totalCount,
+            pageSize: value.pageSize,
+            currentPage: value.currentPage,
+            totalPages: value.totalPages
+        }));
+    });
+}
@@ -0,0 +1,35 @@
+import {NextRequest} from 'next/server';
+import {createUseCaseContainer} from '@/application';
+import {
+    createCsvResultResponse,
+    createResultResponse,
+    formatFinancialStatementCsv,
+    handleApiRequest,
+    parseGetFinancialStatementQuery,
+    parseReportFormat,
+    serializeFinancialStatement
+} from '@/lib/api';
+
+/**
+ * Get the profit and loss statement of a period or date range, with comparative columns
+ * GET /api/reports/profit-and-loss?periodId=... or ?startDate=...&endDate=..., optional comparePeriodId and format=csv
+ */
+export async function GET(request: NextRequest) {
+    return handleApiRequest(request, async (context) => {
+        const params = request.nextUrl.searchParams;
+        const query = parseGetFinancialStatementQuery(params, context, 'INCOME_STATEMENT');
+        const format = parseReportFormat(params);
+
+        const result = await createUseCaseContainer().getFinancialStatement.execute(query);
+
+        if (format === 'csv') {
+            return createCsvResultResponse(
+                result,
+                (value) => formatFinancialStatementCsv(value.statement),
+                'profit-and-loss.csv'
+            );
+        }
+
+        return createResultResponse(result, (value) => serializeFinancialStatement(value.statement));
+    });
+}
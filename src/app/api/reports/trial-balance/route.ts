@@ -0,0 +1,22 @@
+import {NextRequest} from 'next/server';
+import {createUseCaseContainer} from '@/application';
+import {
+    createResultResponse,
+    handleApiRequest,
+    parseGetTrialBalanceQuery,
+    serializeTrialBalance
+} from '@/lib/api';
+
+/**
+ * Get the trial balance of posted journals for a period or date range
+ * GET /api/reports/trial-balance?periodId=... or ?startDate=...&endDate=...
+ */
+export async function GET(request: NextRequest) {
+    return handleApiRequest(request, async (context) => {
+        const query = parseGetTrialBalanceQuery(request.nextUrl.searchParams, context);
+
+        const result = await createUseCaseContainer().getTrialBalance.execute(query);
+
+        return createResultResponse(result, (value) => serializeTrialBalance(value.trialBalance, value.period));
+    });
+}
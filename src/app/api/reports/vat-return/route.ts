@@ -0,0 +1,48 @@
+import {NextRequest} from 'next/server';
+import {createUseCaseContainer} from '@/application';
+import {
+    createCsvResultResponse,
+    createResultResponse,
+    createXmlResultResponse,
+    formatVatReturnCsv,
+    formatVatReturnXml,
+    handleApiRequest,
+    parseGetVatReturnQuery,
+    parseTaxNumber,
+    parseVatReturnFormat,
+    serializeVatReturn
+} from '@/lib/api';
+
+/**
+ * Get the VAT return (Umsatzsteuervoranmeldung) of a period or date range
+ * GET /api/reports/vat-return?periodId=... or ?startDate=...&endDate=..., optional country (ISO alpha-3) and
+ * format=xml (Austrian U30 for FinanzOnline) or format=csv (German UStVA), both requiring taxNumber
+ */
+export async function GET(request: NextRequest) {
+    return handleApiRequest(request, async (context) => {
+        const params = request.nextUrl.searchParams;
+        const format = parseVatReturnFormat(params);
+        const query = parseGetVatReturnQuery(params, context, format);
+        const taxNumber = format === 'json' ? undefined : parseTaxNumber(params);
+
+        const result = await createUseCaseContainer().getVatReturn.execute(query);
+
+        // Failures fall through to the JSON error response
+        if (taxNumber && result.isSuccess()) {
+            const month = result.value.vatReturn.startDate.toISOString().slice(0, 7);
+            return format === 'xml'
+                ? createXmlResultResponse(
+                    result,
+                    (value) => formatVatReturnXml(value.vatReturn, {taxNumber}),
+                    `u30-${month}.xml`
+                )
+                : createCsvResultResponse(
+                    result,
+                    (value) => formatVatReturnCsv(value.vatReturn, {taxNumber}),
+                    `ustva-${month}.csv`
+                );
+        }
+
+        return createResultResponse(result, (value) => serializeVatReturn(value.vatReturn, value.period));
+    });
+}
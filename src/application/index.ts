@@ -5,10 +5,36 @@
 
 // Use case exports
 export { CreateJournalUseCase } from './use-cases/create-journal-use-case';
+export { UpdateJournalUseCase } from './use-cases/update-journal-use-case';
 export { PostJournalUseCase } from './use-cases/post-journal-use-case';
 export { ReverseJournalUseCase } from './use-cases/reverse-journal-use-case';
 export { CreatePeriodUseCase } from './use-cases/create-period-use-case';
 export { QueryJournalsUseCase } from './use-cases/query-journals-use-case';
+export { VerifyAuditLogUseCase } from './use-cases/verify-audit-log-use-case';
+export { CreateAccountUseCase } from './use-cases/create-account-use-case';
+export { UpdateAccountUseCase } from './use-cases/update-account-use-case';
+export { DeleteAccountUseCase } from './use-cases/delete-account-use-case';
+export { QueryAccountsUseCase } from './use-cases/query-accounts-use-case';
+export { GetAccountTreeUseCase } from './use-cases/get-account-tree-use-case';
+export { SetupChartOfAccountsUseCase } from './use-cases/setup-chart-of-accounts-use-case';
+export { GetTrialBalanceUseCase } from './use-cases/get-trial-balance-use-case';
+export { GetGeneralLedgerUseCase } from './use-cases/get-general-ledger-use-case';
+export { GetFinancialStatementUseCase } from './use-cases/get-financial-statement-use-case';
+export { CloseFiscalYearUseCase } from './use-cases/close-fiscal-year-use-case';
+export { GenerateFiscalYearUseCase } from './use-cases/generate-fiscal-year-use-case';
+export { FinalizeFiscalYearUseCase } from './use-cases/finalize-fiscal-year-use-case';
+export { GetPeriodCloseChecklistUseCase } from './use-cases/get-period-close-checklist-use-case';
+export { ClosePeriodUseCase } from './use-cases/close-period-use-case';
+export { ImportExchangeRatesUseCase } from './use-cases/import-exchange-rates-use-case';
+export { GetExchangeRateUseCase } from './use-cases/get-exchange-rate-use-case';
+export { RevalueForeignCurrencyUseCase } from './use-cases/revalue-foreign-currency-use-case';
+export { GetVatReturnUseCase } from './use-cases/get-vat-return-use-case';
+export { GetEcSalesListUseCase } from './use-cases/get-ec-sales-list-use-case';
+export { ImportBankStatementUseCase } from './use-cases/import-bank-statement-use-case';
+export { SuggestBankMatchesUseCase } from './use-cases/suggest-bank-matches-use-case';
+export { ConfirmBankMatchUseCase } from './use-cases/confirm-bank-match-use-case';
+export { RejectBankMatchUseCase } from './use-cases/reject-bank-match-use-case';
+export { GetBankReconciliationStatementUseCase } from './use-cases/get-bank-reconciliation-statement-use-case';
 
 // Factory exports
 export { UseCaseFactory, createUseCaseContainer } from './use-cases/use-case-factory';
@@ -23,6 +49,12 @@ export type {
   CreateJournalLineCommand
 } from './use-cases/create-journal-use-case';
 
+export type { 
+  UpdateJournalCommand, 
+  UpdateJournalResponse,
+  UpdateJournalLineCommand
+} from './use-cases/update-journal-use-case';
+
 export type { 
   PostJournalCommand, 
   PostJournalResponse,
@@ -49,6 +81,123 @@ export type {
   JournalStatistics
 } from './use-cases/query-journals-use-case';
 
+export type {
+  VerifyAuditLogCommand,
+  VerifyAuditLogResponse
+} from './use-cases/verify-audit-log-use-case';
+
+export type {
+  CreateAccountCommand,
+  CreateAccountResponse
+} from './use-cases/create-account-use-case';
+
+export type {
+  UpdateAccountCommand,
+  UpdateAccountResponse
+} from './use-cases/update-account-use-case';
+
+export type {
+  DeleteAccountCommand,
+  DeleteAccountResponse
+} from './use-cases/delete-account-use-case';
+
+export type {
+  QueryAccountsQuery,
+  QueryAccountsResponse
+} from './use-cases/query-accounts-use-case';
+
+export type {
+  GetAccountTreeQuery,
+  GetAccountTreeResponse
+} from './use-cases/get-account-tree-use-case';
+
+export type {
+  SetupChartOfAccountsCommand,
+  SetupChartOfAccountsResponse
+} from './use-cases/setup-chart-of-accounts-use-case';
+
+export type {
+  GetTrialBalanceQuery,
+  GetTrialBalanceResponse
+} from './use-cases/get-trial-balance-use-case';
+
+export type {
+  GetGeneralLedgerQuery,
+  GetGeneralLedgerResponse
+} from './use-cases/get-general-ledger-use-case';
+
+export type {
+  GetFinancialStatementQuery,
+  GetFinancialStatementResponse,
+  StatementRange
+} from './use-cases/get-financial-statement-use-case';
+
+export type {
+  CloseFiscalYearCommand,
+  CloseFiscalYearResponse
+} from './use-cases/close-fiscal-year-use-case';
+
+export type {
+  GenerateFiscalYearCommand,
+  GenerateFiscalYearResponse
+} from './use-cases/generate-fiscal-year-use-case';
+
+export type {
+  FinalizeFiscalYearCommand,
+  FinalizeFiscalYearResponse
+} from './use-cases/finalize-fiscal-year-use-case';
+
+export type {
+  GetPeriodCloseChecklistQuery
+} from './use-cases/get-period-close-checklist-use-case';
+
+export type {
+  ClosePeriodCommand,
+  ClosePeriodResponse
+} from './use-cases/close-period-use-case';
+
+export type {
+  ImportExchangeRatesCommand
+} from './use-cases/import-exchange-rates-use-case';
+
+export type {
+  GetExchangeRateQuery
+} from './use-cases/get-exchange-rate-use-case';
+
+export type {
+  RevalueForeignCurrencyCommand,
+  RevalueForeignCurrencyResponse
+} from './use-cases/revalue-foreign-currency-use-case';
+
+export type {
+  GetVatReturnQuery,
+  GetVatReturnResponse
+} from './use-cases/get-vat-return-use-case';
+
+export type {
+  GetEcSalesListQuery,
+  GetEcSalesListResponse
+} from './use-cases/get-ec-sales-list-use-case';
+
+export type {
+  ImportBankStatementCommand
+} from './use-cases/import-bank-statement-use-case';
+
+export type {
+  SuggestBankMatchesQuery,
+  SuggestBankMatchesResponse
+} from './use-cases/suggest-bank-matches-use-case';
+
+export type {
+  BankMatchCommand,
+  BankMatchResponse
+} from './use-cases/confirm-bank-match-use-case';
+
+export type {
+  GetBankReconciliationStatementQuery,
+  GetBankReconciliationStatementResponse
+} from './use-cases/get-bank-reconciliation-statement-use-case';
+
 // Re-export infrastructure for convenience
 export * from '../infrastructure';
 export * from '../domain/shared/types';
@@ -0,0 +1,70 @@
+import {
+  OrganizationId,
+  PeriodId,
+  Currency,
+  AuditContext,
+  DomainError
+} from '../../domain/shared/types';
+import { Result, success, failure } from '../../domain/shared/result';
+import { Journal } from '../../domain/journal/entities/journal';
+import { YearEndCloseService } from '../../domain/closing/services/year-end-close-service';
+import { YearEndClosePlan } from '../../domain/closing/value-objects/year-end-close-plan';
+import { ServiceContainer } from '../../infrastructure/services/service-factory';
+
+/**
+ * Use case for closing a fiscal year: zero the income statement accounts into retained earnings and open the
+ * next year with the carried-forward balance sheet balances
+ */
+export class CloseFiscalYearUseCase {
+  constructor(
+    private readonly yearEndCloseService: YearEndCloseService,
+    private readonly services: ServiceContainer
+  ) {}
+
+  async execute(command: CloseFiscalYearCommand): Promise<Result<CloseFiscalYearResponse, DomainError>> {
+    const planResult = await this.yearEndCloseService.planClose(
+      command.organizationId,
+      command.closingPeriodId,
+      command.currency
+    );
+    if (planResult.isFailure()) {
+      return failure(planResult.error);
+    }
+
+    const plan = planResult.value;
+    if (command.dryRun || plan.isEmpty()) {
+      return success({ plan, dryRun: command.dryRun });
+    }
+
+    const closeResult = await this.yearEndCloseService.executeClose(
+      command.organizationId,
+      plan,
+      command.auditContext
+    );
+    if (closeResult.isFailure()) {
+      return failure(closeResult.error);
+    }
+
+    return success({
+      plan,
+      dryRun: false,
+      closingJournal: closeResult.value.closingJournal,
+      openingJournal: closeResult.value.openingJournal
+    });
+  }
+}
+
+export interface CloseFiscalYearCommand {
+  readonly organizationId: OrganizationId;
+  readonly closingPeriodId: PeriodId; // Last period of the fiscal year
+  readonly currency: Currency;
+  readonly dryRun: boolean; // Only preview the closing and opening entries
+  readonly auditContext: AuditContext;
+}
+
+export interface CloseFiscalYearResponse {
+  readonly plan: YearEndClosePlan;
+  readonly dryRun: boolean;
+  readonly closingJournal?: Journal;
+  readonly openingJournal?: Journal;
+}
@@ -0,0 +1,56 @@
+import {
+  OrganizationId,
+  PeriodId,
+  Currency,
+  AuditContext,
+  DomainError
+} from '../../domain/shared/types';
+import { Result, success, failure } from '../../domain/shared/result';
+import { Period } from '../../domain/period/entities/period';
+import { PeriodCloseService } from '../../domain/closing/services/period-close-service';
+import {
+  PeriodCloseChecklist,
+  PeriodCloseWaiver
+} from '../../domain/closing/value-objects/period-close-checklist';
+import { ServiceContainer } from '../../infrastructure/services/service-factory';
+
+/**
+ * Use case for closing a period once its pre-close checks have passed or been waived
+ */
+export class ClosePeriodUseCase {
+  constructor(
+    private readonly periodCloseService: PeriodCloseService,
+    private readonly services: ServiceContainer
+  ) {}
+
+  async execute(command: ClosePeriodCommand): Promise<Result<ClosePeriodResponse, DomainError>> {
+    const closeResult = await this.periodCloseService.closePeriod(
+      command.organizationId,
+      command.periodId,
+      command.currency,
+      command.waivers,
+      command.auditContext
+    );
+    if (closeResult.isFailure()) {
+      return failure(closeResult.error);
+    }
+
+    return success({
+      period: closeResult.value.period,
+      checklist: closeResult.value.checklist
+    });
+  }
+}
+
+export interface ClosePeriodCommand {
+  readonly organizationId: OrganizationId;
+  readonly periodId: PeriodId;
+  readonly currency: Currency; // Currency of the trial balance check
+  readonly waivers: readonly PeriodCloseWaiver[];
+  readonly auditContext: AuditContext;
+}
+
+export interface ClosePeriodResponse {
+  readonly period: Period;
+  readonly checklist: PeriodCloseChecklist;
+}
@@ -0,0 +1,51 @@
+import {
+  OrganizationId,
+  AccountId,
+  BankTransactionId,
+  JournalLineId,
+  AuditContext,
+  DomainError
+} from '../../domain/shared/types';
+import { Result, success, failure } from '../../domain/shared/result';
+import { BankMatch } from '../../domain/bank/entities/bank-match';
+import { BankReconciliationService } from '../../domain/bank/services/bank-reconciliation-service';
+import { ServiceContainer } from '../../infrastructure/services/service-factory';
+
+/**
+ * Use case for confirming a match of bank transactions to journal lines, journalizing the transactions
+ */
+export class ConfirmBankMatchUseCase {
+  constructor(
+    private readonly bankReconciliationService: BankReconciliationService,
+    private readonly services: ServiceContainer
+  ) {}
+
+  async execute(command: BankMatchCommand): Promise<Result<BankMatchResponse, DomainError>> {
+    const matchResult = await this.bankReconciliationService.confirmMatch(
+      command.organizationId,
+      {
+        accountId: command.accountId,
+        transactionIds: command.transactionIds,
+        journalLineIds: command.journalLineIds
+      },
+      command.auditContext
+    );
+    if (matchResult.isFailure()) {
+      return failure(matchResult.error);
+    }
+
+    return success({ match: matchResult.value });
+  }
+}
+
+export interface BankMatchCommand {
+  readonly organizationId: OrganizationId;
+  readonly accountId: AccountId;
+  readonly transactionIds: readonly BankTransactionId[];
+  readonly journalLineIds: readonly JournalLineId[];
+  readonly auditContext: AuditContext;
+}
+
+export interface BankMatchResponse {
+  readonly match: BankMatch;
+}
@@ -0,0 +1,59 @@
+import {
+  OrganizationId,
+  AccountId,
+  AccountType,
+  SpecialAccountPurpose,
+  Currency,
+  AuditContext,
+  DomainError,
+  accountId
+} from '../../domain/shared/types';
+import { Result, success, failure } from '../../domain/shared/result';
+import { Account } from '../../domain/account/entities/account';
+import { AccountService } from '../../domain/account/services/account-service';
+import { ServiceContainer } from '../../infrastructure/services/service-factory';
+
+/**
+ * Use case for adding an account to the chart of accounts
+ */
+export class CreateAccountUseCase {
+  constructor(
+    private readonly accountService: AccountService,
+    private readonly services: ServiceContainer
+  ) {}
+
+  async execute(command: CreateAccountCommand): Promise<Result<CreateAccountResponse, DomainError>> {
+    const accountResult = await this.accountService.createAccount({
+      id: command.accountId ?? accountId(crypto.randomUUID()),
+      organizationId: command.organizationId,
+      code: command.code,
+      name: command.name,
+      type: command.type,
+      currency: command.currency,
+      parentId: command.parentId,
+      specialPurpose: command.specialPurpose
+    }, command.auditContext);
+
+    if (accountResult.isFailure()) {
+      return failure(accountResult.error);
+    }
+
+    return success({ account: accountResult.value });
+  }
+}
+
+export interface CreateAccountCommand {
+  readonly accountId?: AccountId; // Auto-generated if not provided
+  readonly organizationId: OrganizationId;
+  readonly code: string;
+  readonly name: string;
+  readonly type: AccountType;
+  readonly currency: Currency;
+  readonly parentId?: AccountId;
+  readonly specialPurpose?: SpecialAccountPurpose;
+  readonly auditContext: AuditContext;
+}
+
+export interface CreateAccountResponse {
+  readonly account: Account;
+}
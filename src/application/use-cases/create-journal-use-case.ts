@@ -1,16 +1,25 @@
 import { 
   OrganizationId, 
+  JournalId,
   PeriodId, 
   AccountId, 
   UserId, 
   Currency,
-  AuditContext
+  AuditContext,
+  DomainError,
+  domainError,
+  DomainErrorCodes
 } from '../../domain/shared/types';
-import { Result } from '../../domain/shared/result';
+import { Result, success, failure } from '../../domain/shared/result';
 import { Journal } from '../../domain/journal/entities/journal';
 import { JournalLine } from '../../domain/journal/entities/journal-line';
 import { Money } from '../../domain/journal/value-objects/money';
 import { JournalService } from '../../domain/journal/services/journal-service';
+import {
+  ExchangeRateService,
+  ResolvedExchangeRate
+} from '../../domain/exchange-rate/services/exchange-rate-service';
+import { TaxService } from '../../domain/tax/services/tax-service';
 import { ServiceContainer } from '../../infrastructure/services/service-factory';
 
 /**
@@ -19,6 +28,8 @@ import { ServiceContainer } from '../../infrastructure/services/service-factory'
 export class CreateJournalUseCase {
   constructor(
     private readonly journalService: JournalService,
+    private readonly exchangeRateService: ExchangeRateService,
+    private readonly taxService: TaxService,
     private readonly services: ServiceContainer
   ) {}
 
@@ -26,8 +37,31 @@ export class CreateJournalUseCase {
     // Generate journal ID
     const journalId = await this.generateJournalId();
 
+    // Convert foreign currency lines at the rate of the posting date
+    const convertedResult = await applyExchangeRates(
+      command.lines,
+      command.currency,
+      command.postingDate,
+      command.organizationId,
+      this.exchangeRateService
+    );
+    if (convertedResult.isFailure()) {
+      return failure(convertedResult.error);
+    }
+
+    // Add the tax lines of lines with a tax code
+    const taxedResult = await applyTaxCodes(
+      convertedResult.value,
+      command.postingDate,
+      command.organizationId,
+      this.taxService
+    );
+    if (taxedResult.isFailure()) {
+      return failure(taxedResult.error);
+    }
+
     // Create journal lines
-    const linesResult = this.createJournalLines(journalId, command.lines);
+    const linesResult = buildJournalLines(journalId, taxedResult.value);
     if (linesResult.isFailure()) {
       return linesResult;
     }
@@ -58,7 +92,7 @@ export class CreateJournalUseCase {
       lines: linesResult.value,
       extUid: command.extUid,
       createdBy: command.auditContext.userId
-    });
+    }, command.auditContext);
 
     if (journalResult.isFailure()) {
       return journalResult;
@@ -81,72 +115,252 @@ export class CreateJournalUseCase {
   }
 
   /**
-   * Create journal lines from command data
+   * Generate a new journal ID
    */
-  private createJournalLines(
-    journalId: any,
-    lineCommands: CreateJournalLineCommand[]
-  ): Result<JournalLine[], any> {
-    const lines: JournalLine[] = [];
-
-    for (let i = 0; i < lineCommands.length; i++) {
-      const lineCommand = lineCommands[i];
-      
-      // Create debit/credit amounts
-      const debitAmount = lineCommand.debitAmount ? 
-        Money.create(lineCommand.debitAmount, lineCommand.currency) :
-        Money.zero(lineCommand.currency);
-      
-      const creditAmount = lineCommand.creditAmount ?
-        Money.create(lineCommand.creditAmount, lineCommand.currency) :
-        Money.zero(lineCommand.currency);
-
-      // Create original amount (foreign currency)
-      const originalAmount = lineCommand.originalAmount ?
-        Money.create(lineCommand.originalAmount.amount, lineCommand.originalAmount.currency) :
-        (debitAmount.isZero() ? creditAmount : debitAmount);
-
-      // Create tax amount if specified
-      const taxAmount = lineCommand.taxAmount ?
-        Money.create(lineCommand.taxAmount, lineCommand.currency) :
-        undefined;
-
-      const lineResult = JournalLine.create({
-        journalId,
-        accountId: lineCommand.accountId,
-        lineNumber: i + 1,
-        description: lineCommand.description,
-        debitAmount,
-        creditAmount,
-        originalAmount,
-        exchangeRate: lineCommand.exchangeRate || '1.0000',
-        taxCode: lineCommand.taxCode,
-        taxAmount,
-        taxRate: lineCommand.taxRate
-      });
+  private async generateJournalId(): Promise<any> {
+    return crypto.randomUUID();
+  }
+}
+
+/**
+ * Convert lines in a currency other than the journal currency into the journal currency
+ * The rate effective on the posting date is looked up unless the line supplies one. The foreign amount is kept as
+ * the original amount and the converted amounts are rounded with banker's rounding. Lines in the journal currency
+ * that carry a foreign original amount without a rate get the looked-up rate as well.
+ * Shared by the create and update journal use cases
+ */
+export async function applyExchangeRates(
+  lineCommands: readonly CreateJournalLineCommand[],
+  journalCurrency: Currency,
+  postingDate: Date,
+  organizationId: OrganizationId,
+  exchangeRateService: ExchangeRateService
+): Promise<Result<CreateJournalLineCommand[], DomainError>> {
+  const rates = new Map<Currency, ResolvedExchangeRate>();
+  const converted: CreateJournalLineCommand[] = [];
+
+  for (let i = 0; i < lineCommands.length; i++) {
+    const line = lineCommands[i];
+    const foreignCurrency = line.currency !== journalCurrency ? line.currency : line.originalAmount?.currency;
+
+    const hasManualRate = !!line.exchangeRate && line.currency === journalCurrency;
+    if (!foreignCurrency || foreignCurrency === journalCurrency || hasManualRate) {
+      converted.push(line);
+      continue;
+    }
 
-      if (lineResult.isFailure()) {
-        return lineResult;
+    if (line.currency !== journalCurrency && line.originalAmount) {
+      return failure(domainError(
+        DomainErrorCodes.VALIDATION_FAILED,
+        `Invalid journal line ${i + 1}: the original amount of a foreign currency line is taken from its amounts`,
+        { lineNumber: i + 1 }
+      ));
+    }
+
+    let rate = line.exchangeRate;
+    let source = 'MANUAL';
+    if (!rate) {
+      let resolved = rates.get(foreignCurrency);
+      if (!resolved) {
+        const rateResult = await exchangeRateService.findRate(
+          foreignCurrency,
+          journalCurrency,
+          postingDate,
+          organizationId
+        );
+        if (rateResult.isFailure()) {
+          return failure(domainError(
+            rateResult.error.code,
+            `Journal line ${i + 1}: ${rateResult.error.message}`,
+            { ...rateResult.error.details, lineNumber: i + 1 }
+          ));
+        }
+        resolved = rateResult.value;
+        rates.set(foreignCurrency, resolved);
       }
+      rate = resolved.rate;
+      source = resolved.source;
+    }
 
-      lines.push(lineResult.value);
+    if (line.currency === journalCurrency) {
+      converted.push({ ...line, exchangeRate: rate, exchangeRateSource: source });
+      continue;
     }
 
-    return {
-      isSuccess: () => true,
-      isFailure: () => false,
-      value: lines,
-      error: undefined as any
-    } as Result<JournalLine[], any>;
+    // Money throws on invalid input
+    try {
+      const appliedRate = rate;
+      const convert = (value: string) =>
+        Money.create(Money.create(value, foreignCurrency).multiply(appliedRate).amount, journalCurrency).amount;
+      const foreignAmount = line.debitAmount && !Money.create(line.debitAmount, foreignCurrency).isZero()
+        ? line.debitAmount
+        : line.creditAmount;
+
+      converted.push({
+        ...line,
+        debitAmount: line.debitAmount ? convert(line.debitAmount) : undefined,
+        creditAmount: line.creditAmount ? convert(line.creditAmount) : undefined,
+        taxAmount: line.taxAmount ? convert(line.taxAmount) : undefined,
+        originalAmount: foreignAmount ? { amount: foreignAmount, currency: foreignCurrency } : undefined,
+        exchangeRate: rate,
+        exchangeRateSource: source,
+        currency: journalCurrency
+      });
+    } catch (error) {
+      return failure(domainError(
+        DomainErrorCodes.VALIDATION_FAILED,
+        `Invalid journal line ${i + 1}: ${error instanceof Error ? error.message : String(error)}`,
+        { lineNumber: i + 1 }
+      ));
+    }
   }
 
-  /**
-   * Generate a new journal ID
-   */
-  private async generateJournalId(): Promise<any> {
-    // In a real implementation, this would use a UUID generator
-    return `journal_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  return success(converted);
+}
+
+/**
+ * Calculate the tax of every line with a tax code and add the tax lines of the tax configuration
+ * The configuration valid on the posting date is used; the tax lines follow their line, self-assessed codes adding
+ * an input and an output tax line. Manual tax rates and amounts are checked against the configuration.
+ * Shared by the create and update journal use cases
+ */
+export async function applyTaxCodes(
+  lineCommands: readonly CreateJournalLineCommand[],
+  postingDate: Date,
+  organizationId: OrganizationId,
+  taxService: TaxService
+): Promise<Result<CreateJournalLineCommand[], DomainError>> {
+  const taxed: CreateJournalLineCommand[] = [];
+
+  for (let i = 0; i < lineCommands.length; i++) {
+    const line = lineCommands[i];
+    if (!line.taxCode) {
+      taxed.push(line);
+      continue;
+    }
+
+    let net: Money;
+    let manualAmount: Money | undefined;
+    // Money throws on invalid input
+    try {
+      const debit = Money.create(line.debitAmount ?? 0, line.currency);
+      net = debit.isZero() ? Money.create(line.creditAmount ?? 0, line.currency) : debit;
+      manualAmount = line.taxAmount ? Money.create(line.taxAmount, line.currency) : undefined;
+    } catch (error) {
+      return failure(domainError(
+        DomainErrorCodes.VALIDATION_FAILED,
+        `Invalid journal line ${i + 1}: ${error instanceof Error ? error.message : String(error)}`,
+        { lineNumber: i + 1 }
+      ));
+    }
+
+    const taxResult = await taxService.calculateTax(line.taxCode, net, postingDate, organizationId, {
+      rate: line.taxRate,
+      amount: manualAmount
+    });
+    if (taxResult.isFailure()) {
+      return failure(domainError(
+        taxResult.error.code,
+        `Journal line ${i + 1}: ${taxResult.error.message}`,
+        { ...taxResult.error.details, lineNumber: i + 1 }
+      ));
+    }
+
+    const { taxConfig, taxAmount, postings } = taxResult.value;
+    if (taxConfig.requiresPartnerVatId() && !line.partnerVatId) {
+      return failure(domainError(
+        DomainErrorCodes.VALIDATION_FAILED,
+        `Journal line ${i + 1}: Tax code ${taxConfig.code} requires the VAT ID of the customer`,
+        { code: taxConfig.code, treatment: taxConfig.treatment, lineNumber: i + 1 }
+      ));
+    }
+
+    taxed.push({ ...line, taxAmount: taxAmount.amount, taxRate: taxConfig.rate });
+
+    const isDebit = !Money.create(line.debitAmount ?? 0, line.currency).isZero();
+    for (const posting of postings) {
+      const debit = isDebit !== posting.oppositeSide;
+      taxed.push({
+        accountId: posting.accountId,
+        description: `${line.description} (${taxConfig.code})`,
+        debitAmount: debit ? posting.amount.amount : undefined,
+        creditAmount: debit ? undefined : posting.amount.amount,
+        currency: line.currency
+      });
+    }
   }
+
+  return success(taxed);
+}
+
+/**
+ * Build journal line entities from line commands, numbering them from 1
+ * Shared by the create and update journal use cases
+ */
+export function buildJournalLines(
+  journalId: JournalId,
+  lineCommands: readonly CreateJournalLineCommand[]
+): Result<JournalLine[], any> {
+  const lines: JournalLine[] = [];
+
+  for (let i = 0; i < lineCommands.length; i++) {
+    // Money and JournalLine throw on invalid input
+    try {
+      lines.push(buildJournalLine(journalId, lineCommands[i], i + 1));
+    } catch (error) {
+      return failure(domainError(
+        DomainErrorCodes.VALIDATION_FAILED,
+        `Invalid journal line ${i + 1}: ${error instanceof Error ? error.message : String(error)}`,
+        { lineNumber: i + 1 }
+      ));
+    }
+  }
+
+  return success(lines);
+}
+
+/**
+ * Build a single journal line from command data
+ */
+function buildJournalLine(
+  journalId: JournalId,
+  lineCommand: CreateJournalLineCommand,
+  lineNumber: number
+): JournalLine {
+  // Create debit/credit amounts
+  const debitAmount = lineCommand.debitAmount ? 
+    Money.create(lineCommand.debitAmount, lineCommand.currency) :
+    Money.zero(lineCommand.currency);
+  
+  const creditAmount = lineCommand.creditAmount ?
+    Money.create(lineCommand.creditAmount, lineCommand.currency) :
+    Money.zero(lineCommand.currency);
+
+  // Create original amount (foreign currency)
+  const originalAmount = lineCommand.originalAmount ?
+    Money.create(lineCommand.originalAmount.amount, lineCommand.originalAmount.currency) :
+    (debitAmount.isZero() ? creditAmount : debitAmount);
+
+  // Create tax amount if specified
+  const taxAmount = lineCommand.taxAmount ?
+    Money.create(lineCommand.taxAmount, lineCommand.currency) :
+    undefined;
+
+  return JournalLine.create({
+    journalId,
+    accountId: lineCommand.accountId,
+    lineNumber,
+    description: lineCommand.description,
+    debitAmount,
+    creditAmount,
+    originalAmount,
+    exchangeRate: lineCommand.exchangeRate || '1.0000',
+    taxCode: lineCommand.taxCode,
+    taxAmount,
+    taxRate: lineCommand.taxRate,
+    exchangeRateSource: lineCommand.exchangeRateSource,
+    partnerVatId: lineCommand.partnerVatId
+  });
 }
 
 export interface CreateJournalCommand {
@@ -172,10 +386,12 @@ export interface CreateJournalLineCommand {
     readonly amount: string;
     readonly currency: Currency;
   };
-  readonly exchangeRate?: string; // Decimal string
-  readonly taxCode?: string;
-  readonly taxAmount?: string; // Decimal string
-  readonly taxRate?: string; // Decimal string (e.g., "0.19" for 19%)
+  readonly exchangeRate?: string; // Decimal string, looked up for foreign currency lines if omitted
+  readonly exchangeRateSource?: string; // Set when the rate is applied
+  readonly taxCode?: string; // Adds the tax lines of the tax configuration
+  readonly taxAmount?: string; // Decimal string, calculated from the tax code if omitted
+  readonly taxRate?: string; // Decimal string (e.g., "0.19" for 19%), must match the tax code
+  readonly partnerVatId?: string; // VAT ID of the customer, required for intra-community sales
   readonly currency: Currency;
 }
 
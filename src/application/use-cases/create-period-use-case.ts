@@ -28,7 +28,7 @@ export class CreatePeriodUseCase {
       name: command.name,
       startDate: command.startDate,
       endDate: command.endDate
-    });
+    }, command.auditContext);
 
     if (periodResult.isFailure()) {
       return periodResult;
@@ -187,8 +187,7 @@ export class CreatePeriodUseCase {
    * Generate a new period ID
    */
   private async generatePeriodId(): Promise<PeriodId> {
-    // In a real implementation, this would use a UUID generator
-    return `period_${Date.now()}_${Math.random().toString(36).substr(2, 9)}` as PeriodId;
+    return crypto.randomUUID() as PeriodId;
   }
 }
 
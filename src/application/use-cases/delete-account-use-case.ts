@@ -0,0 +1,44 @@
+import {
+  OrganizationId,
+  AccountId,
+  AuditContext,
+  DomainError
+} from '../../domain/shared/types';
+import { Result, success, failure } from '../../domain/shared/result';
+import { AccountService } from '../../domain/account/services/account-service';
+import { ServiceContainer } from '../../infrastructure/services/service-factory';
+
+/**
+ * Use case for removing an unused account from the chart of accounts
+ */
+export class DeleteAccountUseCase {
+  constructor(
+    private readonly accountService: AccountService,
+    private readonly services: ServiceContainer
+  ) {}
+
+  async execute(command: DeleteAccountCommand): Promise<Result<DeleteAccountResponse, DomainError>> {
+    const deleteResult = await this.accountService.deleteAccount(
+      command.accountId,
+      command.organizationId,
+      command.auditContext
+    );
+
+    if (deleteResult.isFailure()) {
+      return failure(deleteResult.error);
+    }
+
+    return success({ accountId: command.accountId, deleted: true });
+  }
+}
+
+export interface DeleteAccountCommand {
+  readonly accountId: AccountId;
+  readonly organizationId: OrganizationId;
+  readonly auditContext: AuditContext;
+}
+
+export interface DeleteAccountResponse {
+  readonly accountId: AccountId;
+  readonly deleted: boolean;
+}
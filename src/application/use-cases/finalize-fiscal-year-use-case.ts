@@ -0,0 +1,43 @@
+import {
+  OrganizationId,
+  FiscalYearId,
+  AuditContext,
+  DomainError
+} from '../../domain/shared/types';
+import { Result, success, failure } from '../../domain/shared/result';
+import { FiscalYear } from '../../domain/period/entities/fiscal-year';
+import { FiscalYearService } from '../../domain/period/services/fiscal-year-service';
+import { ServiceContainer } from '../../infrastructure/services/service-factory';
+
+/**
+ * Use case for closing a fiscal year after all of its periods have been closed
+ */
+export class FinalizeFiscalYearUseCase {
+  constructor(
+    private readonly fiscalYearService: FiscalYearService,
+    private readonly services: ServiceContainer
+  ) {}
+
+  async execute(command: FinalizeFiscalYearCommand): Promise<Result<FinalizeFiscalYearResponse, DomainError>> {
+    const finalizeResult = await this.fiscalYearService.finalizeFiscalYear(
+      command.fiscalYearId,
+      command.organizationId,
+      command.auditContext
+    );
+    if (finalizeResult.isFailure()) {
+      return failure(finalizeResult.error);
+    }
+
+    return success({ fiscalYear: finalizeResult.value });
+  }
+}
+
+export interface FinalizeFiscalYearCommand {
+  readonly organizationId: OrganizationId;
+  readonly fiscalYearId: FiscalYearId;
+  readonly auditContext: AuditContext;
+}
+
+export interface FinalizeFiscalYearResponse {
+  readonly fiscalYear: FiscalYear;
+}
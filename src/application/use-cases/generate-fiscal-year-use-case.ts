@@ -0,0 +1,58 @@
+import {
+  OrganizationId,
+  PeriodFrequency,
+  AuditContext,
+  DomainError,
+  fiscalYearId
+} from '../../domain/shared/types';
+import { Result, success, failure } from '../../domain/shared/result';
+import { FiscalYear } from '../../domain/period/entities/fiscal-year';
+import { Period } from '../../domain/period/entities/period';
+import { FiscalYearService } from '../../domain/period/services/fiscal-year-service';
+import { ServiceContainer } from '../../infrastructure/services/service-factory';
+
+/**
+ * Use case for creating a fiscal year together with its monthly or quarterly periods
+ */
+export class GenerateFiscalYearUseCase {
+  constructor(
+    private readonly fiscalYearService: FiscalYearService,
+    private readonly services: ServiceContainer
+  ) {}
+
+  async execute(command: GenerateFiscalYearCommand): Promise<Result<GenerateFiscalYearResponse, DomainError>> {
+    const generateResult = await this.fiscalYearService.generateFiscalYear(
+      {
+        id: fiscalYearId(crypto.randomUUID()),
+        organizationId: command.organizationId,
+        name: command.name,
+        startDate: command.startDate,
+        frequency: command.frequency,
+        hasAdjustmentPeriod: command.adjustmentPeriod
+      },
+      command.auditContext
+    );
+    if (generateResult.isFailure()) {
+      return failure(generateResult.error);
+    }
+
+    return success({
+      fiscalYear: generateResult.value.fiscalYear,
+      periods: generateResult.value.periods
+    });
+  }
+}
+
+export interface GenerateFiscalYearCommand {
+  readonly organizationId: OrganizationId;
+  readonly name?: string;
+  readonly startDate: Date; // First day of the first month
+  readonly frequency: PeriodFrequency;
+  readonly adjustmentPeriod: boolean; // Add a 13th period for year-end adjustments
+  readonly auditContext: AuditContext;
+}
+
+export interface GenerateFiscalYearResponse {
+  readonly fiscalYear: FiscalYear;
+  readonly periods: readonly Period[];
+}
@@ -0,0 +1,44 @@
+import {
+  OrganizationId,
+  AuditContext,
+  DomainError
+} from '../../domain/shared/types';
+import { Result, success, failure } from '../../domain/shared/result';
+import { AccountTree, AccountTreeNode } from '../../domain/account/value-objects/account-tree';
+import { AccountService } from '../../domain/account/services/account-service';
+import { ServiceContainer } from '../../infrastructure/services/service-factory';
+
+/**
+ * Use case for reading the chart of accounts as a parent/child tree
+ */
+export class GetAccountTreeUseCase {
+  constructor(
+    private readonly accountService: AccountService,
+    private readonly services: ServiceContainer
+  ) {}
+
+  async execute(query: GetAccountTreeQuery): Promise<Result<GetAccountTreeResponse, DomainError>> {
+    const treeResult = await this.accountService.getAccountTree(query.organizationId);
+    if (treeResult.isFailure()) {
+      return failure(treeResult.error);
+    }
+
+    const tree = treeResult.value;
+
+    return success({
+      tree,
+      nodes: tree.toNodes(query.maxLevel)
+    });
+  }
+}
+
+export interface GetAccountTreeQuery {
+  readonly organizationId: OrganizationId;
+  readonly maxLevel?: number; // Omit deeper levels from the nodes
+  readonly auditContext: AuditContext;
+}
+
+export interface GetAccountTreeResponse {
+  readonly tree: AccountTree;
+  readonly nodes: AccountTreeNode[];
+}
@@ -0,0 +1,46 @@
+import {
+  OrganizationId,
+  AccountId,
+  AuditContext,
+  DomainError
+} from '../../domain/shared/types';
+import { Result, success, failure } from '../../domain/shared/result';
+import { BankReconciliationService } from '../../domain/bank/services/bank-reconciliation-service';
+import { ReconciliationStatement } from '../../domain/bank/value-objects/reconciliation-statement';
+import { ServiceContainer } from '../../infrastructure/services/service-factory';
+
+/**
+ * Use case for the reconciliation statement of a bank account, book balance against bank balance at a cutoff date
+ */
+export class GetBankReconciliationStatementUseCase {
+  constructor(
+    private readonly bankReconciliationService: BankReconciliationService,
+    private readonly services: ServiceContainer
+  ) {}
+
+  async execute(
+    query: GetBankReconciliationStatementQuery
+  ): Promise<Result<GetBankReconciliationStatementResponse, DomainError>> {
+    const statementResult = await this.bankReconciliationService.generateStatement(
+      query.organizationId,
+      query.accountId,
+      query.cutoffDate
+    );
+    if (statementResult.isFailure()) {
+      return failure(statementResult.error);
+    }
+
+    return success({ statement: statementResult.value });
+  }
+}
+
+export interface GetBankReconciliationStatementQuery {
+  readonly organizationId: OrganizationId;
+  readonly accountId: AccountId;
+  readonly cutoffDate: Date;
+  readonly auditContext: AuditContext;
+}
+
+export interface GetBankReconciliationStatementResponse {
+  readonly statement: ReconciliationStatement;
+}
@@ -0,0 +1,84 @@
+import {
+  OrganizationId,
+  PeriodId,
+  Currency,
+  AuditContext,
+  DomainError
+} from '../../domain/shared/types';
+import { Result, success, failure } from '../../domain/shared/result';
+import { Period } from '../../domain/period/entities/period';
+import { PeriodService } from '../../domain/period/services/period-service';
+import { VatReturnService } from '../../domain/tax/services/vat-return-service';
+import { EcSalesList } from '../../domain/tax/value-objects/ec-sales-list';
+import { ServiceContainer } from '../../infrastructure/services/service-factory';
+
+/**
+ * Use case for the EC Sales List (Zusammenfassende Meldung) of a period or a date range
+ */
+export class GetEcSalesListUseCase {
+  constructor(
+    private readonly vatReturnService: VatReturnService,
+    private readonly periodService: PeriodService,
+    private readonly services: ServiceContainer
+  ) {}
+
+  async execute(query: GetEcSalesListQuery): Promise<Result<GetEcSalesListResponse, DomainError>> {
+    let period: Period | undefined;
+    let dateRange = query.dateRange;
+
+    if (query.periodId) {
+      const periodResult = await this.periodService.findPeriod(query.periodId, query.organizationId);
+      if (periodResult.isFailure()) {
+        return failure(periodResult.error);
+      }
+
+      if (!periodResult.value) {
+        return failure({
+          code: 'ENTITY_NOT_FOUND',
+          message: 'Period not found',
+          details: { periodId: query.periodId }
+        });
+      }
+
+      period = periodResult.value;
+      dateRange = { startDate: period.startDate, endDate: period.endDate };
+    }
+
+    if (!dateRange) {
+      return failure({
+        code: 'VALIDATION_FAILED',
+        message: 'Either a period or a date range is required',
+        details: {}
+      });
+    }
+
+    const ecSalesListResult = await this.vatReturnService.generateEcSalesList(query.organizationId, {
+      currency: query.currency,
+      startDate: dateRange.startDate,
+      endDate: dateRange.endDate,
+      country: query.country
+    });
+    if (ecSalesListResult.isFailure()) {
+      return failure(ecSalesListResult.error);
+    }
+
+    return success({
+      ecSalesList: ecSalesListResult.value,
+      period
+    });
+  }
+}
+
+export interface GetEcSalesListQuery {
+  readonly organizationId: OrganizationId;
+  readonly periodId?: PeriodId; // Takes precedence over the date range
+  readonly dateRange?: { startDate: Date; endDate: Date };
+  readonly currency: Currency;
+  readonly country?: string; // Defaults to the only country with tax configurations
+  readonly auditContext: AuditContext;
+}
+
+export interface GetEcSalesListResponse {
+  readonly ecSalesList: EcSalesList;
+  readonly period?: Period;
+}
@@ -0,0 +1,42 @@
+import {
+  OrganizationId,
+  Currency,
+  DomainError
+} from '../../domain/shared/types';
+import { Result, success, failure } from '../../domain/shared/result';
+import {
+  ExchangeRateService,
+  ResolvedExchangeRate
+} from '../../domain/exchange-rate/services/exchange-rate-service';
+import { ServiceContainer } from '../../infrastructure/services/service-factory';
+
+/**
+ * Use case for looking up the exchange rate of a currency pair on a date
+ */
+export class GetExchangeRateUseCase {
+  constructor(
+    private readonly exchangeRateService: ExchangeRateService,
+    private readonly services: ServiceContainer
+  ) {}
+
+  async execute(query: GetExchangeRateQuery): Promise<Result<ResolvedExchangeRate, DomainError>> {
+    const rateResult = await this.exchangeRateService.findRate(
+      query.fromCurrency,
+      query.toCurrency,
+      query.date,
+      query.organizationId
+    );
+    if (rateResult.isFailure()) {
+      return failure(rateResult.error);
+    }
+
+    return success(rateResult.value);
+  }
+}
+
+export interface GetExchangeRateQuery {
+  readonly organizationId: OrganizationId;
+  readonly fromCurrency: Currency;
+  readonly toCurrency: Currency;
+  readonly date: Date; // Rate effective on or before this date
+}
@@ -0,0 +1,120 @@
+import {
+  OrganizationId,
+  PeriodId,
+  Currency,
+  AuditContext,
+  DomainError
+} from '../../domain/shared/types';
+import { Result, success, failure } from '../../domain/shared/result';
+import { PeriodService } from '../../domain/period/services/period-service';
+import { ReportingService } from '../../domain/reporting/services/reporting-service';
+import {
+  FinancialStatement,
+  StatementColumn
+} from '../../domain/reporting/value-objects/financial-statement';
+import {
+  DEFAULT_FINANCIAL_STATEMENT_LAYOUTS,
+  FinancialStatementType,
+  getFinancialStatementLayout
+} from '../../domain/reporting/layouts';
+import { ServiceContainer } from '../../infrastructure/services/service-factory';
+
+/**
+ * Use case for the balance sheet and the income statement with comparative periods
+ */
+export class GetFinancialStatementUseCase {
+  constructor(
+    private readonly reportingService: ReportingService,
+    private readonly periodService: PeriodService,
+    private readonly services: ServiceContainer
+  ) {}
+
+  async execute(query: GetFinancialStatementQuery): Promise<Result<GetFinancialStatementResponse, DomainError>> {
+    const layoutId = query.layoutId ?? DEFAULT_FINANCIAL_STATEMENT_LAYOUTS[query.statement];
+    const layout = getFinancialStatementLayout(layoutId);
+    if (!layout || layout.statement !== query.statement) {
+      return failure({
+        code: 'VALIDATION_FAILED',
+        message: `Unknown ${query.statement === 'BALANCE_SHEET' ? 'balance sheet' : 'income statement'} layout`,
+        details: { layoutId }
+      });
+    }
+
+    const columns: StatementColumn[] = [];
+    for (const range of [query.range, ...query.comparatives ?? []]) {
+      const columnResult = await this.resolveColumn(range, query.organizationId);
+      if (columnResult.isFailure()) {
+        return failure(columnResult.error);
+      }
+      columns.push(columnResult.value);
+    }
+
+    const statementResult = await this.reportingService.getFinancialStatement(
+      query.organizationId,
+      layout,
+      query.currency,
+      columns
+    );
+    if (statementResult.isFailure()) {
+      return failure(statementResult.error);
+    }
+
+    return success({
+      statement: statementResult.value
+    });
+  }
+
+  /**
+   * Resolve a period or date range into a statement column
+   */
+  private async resolveColumn(
+    range: StatementRange,
+    organizationId: OrganizationId
+  ): Promise<Result<StatementColumn, DomainError>> {
+    if (range.periodId) {
+      const periodResult = await this.periodService.findPeriod(range.periodId, organizationId);
+      if (periodResult.isFailure()) {
+        return failure(periodResult.error);
+      }
+
+      if (!periodResult.value) {
+        return failure({
+          code: 'ENTITY_NOT_FOUND',
+          message: 'Period not found',
+          details: { periodId: range.periodId }
+        });
+      }
+
+      return success({ startDate: periodResult.value.startDate, endDate: periodResult.value.endDate });
+    }
+
+    if (!range.dateRange) {
+      return failure({
+        code: 'VALIDATION_FAILED',
+        message: 'Either a period or a date range is required',
+        details: {}
+      });
+    }
+
+    return success(range.dateRange);
+  }
+}
+
+export interface StatementRange {
+  readonly periodId?: PeriodId; // Takes precedence over the date range
+  readonly dateRange?: { startDate: Date; endDate: Date };
+}
+
+export interface GetFinancialStatementQuery {
+  readonly organizationId: OrganizationId;
+  readonly statement: FinancialStatementType;
+  readonly layoutId?: string; // Defaults to the UGB layout of the statement
+  readonly range: StatementRange;
+  readonly comparatives?: StatementRange[];
+  readonly currency: Currency;
+  readonly auditContext: AuditContext;
+}
+
+export interface GetFinancialStatementResponse {
+  readonly statement: FinancialStatement;
+}
@@ -0,0 +1,108 @@
+import {
+  OrganizationId,
+  PeriodId,
+  AccountId,
+  Currency,
+  AuditContext,
+  DomainError
+} from '../../domain/shared/types';
+import { Result, success, failure } from '../../domain/shared/result';
+import { Period } from '../../domain/period/entities/period';
+import { PeriodService } from '../../domain/period/services/period-service';
+import { ReportingService } from '../../domain/reporting/services/reporting-service';
+import { GeneralLedger } from '../../domain/reporting/value-objects/general-ledger';
+import { ServiceContainer } from '../../infrastructure/services/service-factory';
+
+const DEFAULT_PAGE_SIZE = 100;
+
+/**
+ * Use case for the general ledger of an account or account range with running balances
+ */
+export class GetGeneralLedgerUseCase {
+  constructor(
+    private readonly reportingService: ReportingService,
+    private readonly periodService: PeriodService,
+    private readonly services: ServiceContainer
+  ) {}
+
+  async execute(query: GetGeneralLedgerQuery): Promise<Result<GetGeneralLedgerResponse, DomainError>> {
+    let period: Period | undefined;
+    let dateRange = query.dateRange;
+
+    if (query.periodId) {
+      const periodResult = await this.periodService.findPeriod(query.periodId, query.organizationId);
+      if (periodResult.isFailure()) {
+        return failure(periodResult.error);
+      }
+
+      if (!periodResult.value) {
+        return failure({
+          code: 'ENTITY_NOT_FOUND',
+          message: 'Period not found',
+          details: { periodId: query.periodId }
+        });
+      }
+
+      period = periodResult.value;
+      dateRange = { startDate: period.startDate, endDate: period.endDate };
+    }
+
+    if (!dateRange) {
+      return failure({
+        code: 'VALIDATION_FAILED',
+        message: 'Either a period or a date range is required',
+        details: {}
+      });
+    }
+
+    const page = query.pagination?.page ?? 1;
+    const pageSize = query.pagination?.pageSize ?? DEFAULT_PAGE_SIZE;
+
+    const ledgerResult = await this.reportingService.getGeneralLedger(query.organizationId, {
+      currency: query.currency,
+      startDate: dateRange.startDate,
+      endDate: dateRange.endDate,
+      accountId: query.accountId,
+      fromCode: query.fromCode,
+      toCode: query.toCode,
+      limit: pageSize,
+      offset: (page - 1) * pageSize
+    });
+    if (ledgerResult.isFailure()) {
+      return failure(ledgerResult.error);
+    }
+
+    const ledger = ledgerResult.value;
+
+    return success({
+      ledger,
+      period,
+      pageSize,
+      currentPage: page,
+      totalPages: Math.ceil(ledger.totalCount / pageSize)
+    });
+  }
+}
+
+export interface GetGeneralLedgerQuery {
+  readonly organizationId: OrganizationId;
+  readonly accountId?: AccountId; // Takes precedence over the code range
+  readonly fromCode?: string;
+  readonly toCode?: string;
+  readonly periodId?: PeriodId; // Takes precedence over the date range
+  readonly dateRange?: { startDate: Date; endDate: Date };
+  readonly currency: Currency;
+  readonly pagination?: {
+    readonly page: number;
+    readonly pageSize: number;
+  };
+  readonly auditContext: AuditContext;
+}
+
+export interface GetGeneralLedgerResponse {
+  readonly ledger: GeneralLedger;
+  readonly period?: Period;
+  readonly pageSize: number;
+  readonly currentPage: number;
+  readonly totalPages: number;
+}
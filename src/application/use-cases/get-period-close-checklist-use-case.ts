@@ -0,0 +1,39 @@
+import {
+  OrganizationId,
+  PeriodId,
+  Currency,
+  DomainError
+} from '../../domain/shared/types';
+import { Result, success, failure } from '../../domain/shared/result';
+import { PeriodCloseService } from '../../domain/closing/services/period-close-service';
+import { PeriodCloseChecklist } from '../../domain/closing/value-objects/period-close-checklist';
+import { ServiceContainer } from '../../infrastructure/services/service-factory';
+
+/**
+ * Use case for the pre-close validation report of a period
+ */
+export class GetPeriodCloseChecklistUseCase {
+  constructor(
+    private readonly periodCloseService: PeriodCloseService,
+    private readonly services: ServiceContainer
+  ) {}
+
+  async execute(query: GetPeriodCloseChecklistQuery): Promise<Result<PeriodCloseChecklist, DomainError>> {
+    const checklistResult = await this.periodCloseService.getChecklist(
+      query.organizationId,
+      query.periodId,
+      query.currency
+    );
+    if (checklistResult.isFailure()) {
+      return failure(checklistResult.error);
+    }
+
+    return success(checklistResult.value);
+  }
+}
+
+export interface GetPeriodCloseChecklistQuery {
+  readonly organizationId: OrganizationId;
+  readonly periodId: PeriodId;
+  readonly currency: Currency; // Currency of the trial balance check
+}
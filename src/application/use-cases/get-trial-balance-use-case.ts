@@ -0,0 +1,86 @@
+import {
+  OrganizationId,
+  PeriodId,
+  Currency,
+  AuditContext,
+  DomainError
+} from '../../domain/shared/types';
+import { Result, success, failure } from '../../domain/shared/result';
+import { Period } from '../../domain/period/entities/period';
+import { PeriodService } from '../../domain/period/services/period-service';
+import { ReportingService } from '../../domain/reporting/services/reporting-service';
+import { TrialBalance } from '../../domain/reporting/value-objects/trial-balance';
+import { ServiceContainer } from '../../infrastructure/services/service-factory';
+
+/**
+ * Use case for the trial balance of a period or a date range
+ */
+export class GetTrialBalanceUseCase {
+  constructor(
+    private readonly reportingService: ReportingService,
+    private readonly periodService: PeriodService,
+    private readonly services: ServiceContainer
+  ) {}
+
+  async execute(query: GetTrialBalanceQuery): Promise<Result<GetTrialBalanceResponse, DomainError>> {
+    let period: Period | undefined;
+    let dateRange = query.dateRange;
+
+    if (query.periodId) {
+      const periodResult = await this.periodService.findPeriod(query.periodId, query.organizationId);
+      if (periodResult.isFailure()) {
+        return failure(periodResult.error);
+      }
+
+      if (!periodResult.value) {
+        return failure({
+          code: 'ENTITY_NOT_FOUND',
+          message: 'Period not found',
+          details: { periodId: query.periodId }
+        });
+      }
+
+      period = periodResult.value;
+      dateRange = { startDate: period.startDate, endDate: period.endDate };
+    }
+
+    if (!dateRange) {
+      return failure({
+        code: 'VALIDATION_FAILED',
+        message: 'Either a period or a date range is required',
+        details: {}
+      });
+    }
+
+    const trialBalanceResult = await this.reportingService.getTrialBalance(query.organizationId, {
+      currency: query.currency,
+      startDate: dateRange.startDate,
+      endDate: dateRange.endDate,
+      level: query.level,
+      includeZeroBalances: query.includeZeroBalances
+    });
+    if (trialBalanceResult.isFailure()) {
+      return failure(trialBalanceResult.error);
+    }
+
+    return success({
+      trialBalance: trialBalanceResult.value,
+      period
+    });
+  }
+}
+
+export interface GetTrialBalanceQuery {
+  readonly organizationId: OrganizationId;
+  readonly periodId?: PeriodId; // Takes precedence over the date range
+  readonly dateRange?: { startDate: Date; endDate: Date };
+  readonly currency: Currency;
+  readonly level?: number; // Roll balances up to this account level
+  readonly includeZeroBalances?: boolean;
+  readonly auditContext: AuditContext;
+}
+
+export interface GetTrialBalanceResponse {
+  readonly trialBalance: TrialBalance;
+  readonly period?: Period;
+}
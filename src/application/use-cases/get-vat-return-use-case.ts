@@ -0,0 +1,105 @@
+import {
+  OrganizationId,
+  PeriodId,
+  Currency,
+  AuditContext,
+  DomainError
+} from '../../domain/shared/types';
+import { Result, success, failure } from '../../domain/shared/result';
+import { Period } from '../../domain/period/entities/period';
+import { PeriodService } from '../../domain/period/services/period-service';
+import { VatReturnService } from '../../domain/tax/services/vat-return-service';
+import { VatReturn } from '../../domain/tax/value-objects/vat-return';
+import { VatReturnExportFormat } from '../../domain/tax/forms';
+import { ServiceContainer } from '../../infrastructure/services/service-factory';
+
+/**
+ * Use case for the VAT return (Umsatzsteuervoranmeldung) of a period or a date range
+ */
+export class GetVatReturnUseCase {
+  constructor(
+    private readonly vatReturnService: VatReturnService,
+    private readonly periodService: PeriodService,
+    private readonly services: ServiceContainer
+  ) {}
+
+  async execute(query: GetVatReturnQuery): Promise<Result<GetVatReturnResponse, DomainError>> {
+    let period: Period | undefined;
+    let dateRange = query.dateRange;
+
+    if (query.periodId) {
+      const periodResult = await this.periodService.findPeriod(query.periodId, query.organizationId);
+      if (periodResult.isFailure()) {
+        return failure(periodResult.error);
+      }
+
+      if (!periodResult.value) {
+        return failure({
+          code: 'ENTITY_NOT_FOUND',
+          message: 'Period not found',
+          details: { periodId: query.periodId }
+        });
+      }
+
+      period = periodResult.value;
+      dateRange = { startDate: period.startDate, endDate: period.endDate };
+    }
+
+    if (!dateRange) {
+      return failure({
+        code: 'VALIDATION_FAILED',
+        message: 'Either a period or a date range is required',
+        details: {}
+      });
+    }
+
+    const vatReturnResult = await this.vatReturnService.generateVatReturn(query.organizationId, {
+      currency: query.currency,
+      startDate: dateRange.startDate,
+      endDate: dateRange.endDate,
+      country: query.country
+    });
+    if (vatReturnResult.isFailure()) {
+      return failure(vatReturnResult.error);
+    }
+
+    const vatReturn = vatReturnResult.value;
+    if (query.exportFormat) {
+      if (query.exportFormat !== vatReturn.form.exportFormat) {
+        return failure({
+          code: 'VALIDATION_FAILED',
+          message: `The ${vatReturn.form.name} is exported as ${vatReturn.form.exportFormat}`,
+          details: { form: vatReturn.form.id, format: query.exportFormat }
+        });
+      }
+
+      if (!vatReturn.isFilingPeriod()) {
+        return failure({
+          code: 'VALIDATION_FAILED',
+          message: 'A VAT return can only be exported for a calendar month or quarter',
+          details: { startDate: dateRange.startDate.toISOString(), endDate: dateRange.endDate.toISOString() }
+        });
+      }
+    }
+
+    return success({
+      vatReturn,
+      period
+    });
+  }
+}
+
+export interface GetVatReturnQuery {
+  readonly organizationId: OrganizationId;
+  readonly periodId?: PeriodId; // Takes precedence over the date range
+  readonly dateRange?: { startDate: Date; endDate: Date };
+  readonly currency: Currency;
+  readonly country?: string; // Defaults to the only country with tax configurations
+  readonly exportFormat?: VatReturnExportFormat; // Must be the format of the country's form
+  readonly auditContext: AuditContext;
+}
+
+export interface GetVatReturnResponse {
+  readonly vatReturn: VatReturn;
+  readonly period?: Period;
+}
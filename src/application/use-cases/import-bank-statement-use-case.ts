@@ -0,0 +1,88 @@
+import {
+  OrganizationId,
+  AccountId,
+  AuditContext,
+  DomainError
+} from '../../domain/shared/types';
+import { Result, success, failure } from '../../domain/shared/result';
+import { BankStatementFormat } from '../../domain/bank/entities/bank-import';
+import {
+  BankImportService,
+  BankImportResult,
+  BankStatementParser
+} from '../../domain/bank/services/bank-import-service';
+import { Camt053Parser } from '../../infrastructure/importers/camt053-parser';
+import { Mt940Parser } from '../../infrastructure/importers/mt940-parser';
+import { BankCsvParser, BankCsvLayout } from '../../infrastructure/importers/bank-csv-parser';
+import { ServiceContainer } from '../../infrastructure/services/service-factory';
+
+/**
+ * Use case for importing a CAMT.053, MT940 or CSV bank statement file into a bank account
+ */
+export class ImportBankStatementUseCase {
+  constructor(
+    private readonly bankImportService: BankImportService,
+    private readonly services: ServiceContainer
+  ) {}
+
+  async execute(command: ImportBankStatementCommand): Promise<Result<BankImportResult, DomainError>> {
+    const format = command.format ?? detectFormat(command.content);
+    let parser: BankStatementParser;
+
+    switch (format) {
+      case 'camt053':
+        parser = new Camt053Parser();
+        break;
+      case 'mt940':
+        parser = new Mt940Parser();
+        break;
+      case 'csv':
+        if (!command.csvLayout) {
+          return failure({
+            code: 'VALIDATION_FAILED',
+            message: 'A CSV layout is required to import CSV bank statements',
+            details: {}
+          });
+        }
+        parser = new BankCsvParser(command.csvLayout);
+        break;
+    }
+
+    const importResult = await this.bankImportService.importStatement(
+      command.organizationId,
+      {
+        accountId: command.accountId,
+        fileName: command.fileName,
+        content: command.content
+      },
+      parser,
+      command.auditContext
+    );
+    if (importResult.isFailure()) {
+      return failure(importResult.error);
+    }
+
+    return success(importResult.value);
+  }
+}
+
+/**
+ * Detect the format of a statement file from its content: XML is CAMT.053, SWIFT tags are MT940, anything else CSV
+ */
+function detectFormat(content: string): BankStatementFormat {
+  const text = content.replace(/^\uFEFF/, '').trimStart();
+  if (text.startsWith('<')) {
+    return 'camt053';
+  }
+  return /^(\{1:|:20:)/.test(text) || /\n:61:/.test(text) ? 'mt940' : 'csv';
+}
+
+export interface ImportBankStatementCommand {
+  readonly organizationId: OrganizationId;
+  readonly accountId: AccountId; // Bank account the statement belongs to
+  readonly fileName: string;
+  readonly content: string; // Statement file content
+  readonly format?: BankStatementFormat; // Detected from the content if omitted
+  readonly csvLayout?: BankCsvLayout; // Required for CSV files
+  readonly auditContext: AuditContext;
+}
@@ -0,0 +1,49 @@
+import {
+  OrganizationId,
+  AuditContext,
+  DomainError
+} from '../../domain/shared/types';
+import { Result, success, failure } from '../../domain/shared/result';
+import {
+  ExchangeRateService,
+  ExchangeRateImportSummary
+} from '../../domain/exchange-rate/services/exchange-rate-service';
+import { EcbReferenceRateParser } from '../../infrastructure/importers/ecb-reference-rate-parser';
+import { ServiceContainer } from '../../infrastructure/services/service-factory';
+
+/**
+ * Use case for importing ECB reference rates from the content of a eurofxref XML or CSV file
+ */
+export class ImportExchangeRatesUseCase {
+  private readonly parser = new EcbReferenceRateParser();
+
+  constructor(
+    private readonly exchangeRateService: ExchangeRateService,
+    private readonly services: ServiceContainer
+  ) {}
+
+  async execute(command: ImportExchangeRatesCommand): Promise<Result<ExchangeRateImportSummary, DomainError>> {
+    const quotesResult = this.parser.parse(command.content);
+    if (quotesResult.isFailure()) {
+      return failure(quotesResult.error);
+    }
+
+    const importResult = await this.exchangeRateService.importRates(
+      command.organizationId,
+      quotesResult.value,
+      'ECB',
+      command.auditContext
+    );
+    if (importResult.isFailure()) {
+      return failure(importResult.error);
+    }
+
+    return success(importResult.value);
+  }
+}
+
+export interface ImportExchangeRatesCommand {
+  readonly organizationId: OrganizationId;
+  readonly content: string; // eurofxref XML or CSV file content
+  readonly auditContext: AuditContext;
+}
@@ -62,7 +62,8 @@ export class PostJournalUseCase {
     const postResult = await this.journalService.postJournal(
       command.journalId,
       command.organizationId,
-      command.auditContext.userId
+      command.auditContext.userId,
+      command.auditContext
     );
 
     if (postResult.isFailure()) {
@@ -0,0 +1,55 @@
+import {
+  OrganizationId,
+  AccountId,
+  AuditContext,
+  DomainError
+} from '../../domain/shared/types';
+import { Result, success, failure } from '../../domain/shared/result';
+import { Account } from '../../domain/account/entities/account';
+import { AccountFilters } from '../../domain/account/repositories/account-repository';
+import { AccountService } from '../../domain/account/services/account-service';
+import { ServiceContainer } from '../../infrastructure/services/service-factory';
+
+/**
+ * Use case for reading the chart of accounts
+ */
+export class QueryAccountsUseCase {
+  constructor(
+    private readonly accountService: AccountService,
+    private readonly services: ServiceContainer
+  ) {}
+
+  async execute(query: QueryAccountsQuery): Promise<Result<QueryAccountsResponse, DomainError>> {
+    if (query.accountId) {
+      const accountResult = await this.accountService.findAccount(query.accountId, query.organizationId);
+      if (accountResult.isFailure()) {
+        return failure(accountResult.error);
+      }
+
+      const accounts = accountResult.value ? [accountResult.value] : [];
+      return success({ accounts, totalCount: accounts.length });
+    }
+
+    const accountsResult = await this.accountService.listAccounts(query.organizationId, query.filters);
+    if (accountsResult.isFailure()) {
+      return failure(accountsResult.error);
+    }
+
+    return success({
+      accounts: accountsResult.value,
+      totalCount: accountsResult.value.length
+    });
+  }
+}
+
+export interface QueryAccountsQuery {
+  readonly organizationId: OrganizationId;
+  readonly accountId?: AccountId;
+  readonly filters?: AccountFilters;
+  readonly auditContext: AuditContext;
+}
+
+export interface QueryAccountsResponse {
+  readonly accounts: Account[];
+  readonly totalCount: number;
+}
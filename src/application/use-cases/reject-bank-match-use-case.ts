@@ -0,0 +1,32 @@
+import { DomainError } from '../../domain/shared/types';
+import { Result, success, failure } from '../../domain/shared/result';
+import { BankReconciliationService } from '../../domain/bank/services/bank-reconciliation-service';
+import { ServiceContainer } from '../../infrastructure/services/service-factory';
+import { BankMatchCommand, BankMatchResponse } from './confirm-bank-match-use-case';
+
+/**
+ * Use case for rejecting a suggested match so that it is not suggested again
+ */
+export class RejectBankMatchUseCase {
+  constructor(
+    private readonly bankReconciliationService: BankReconciliationService,
+    private readonly services: ServiceContainer
+  ) {}
+
+  async execute(command: BankMatchCommand): Promise<Result<BankMatchResponse, DomainError>> {
+    const matchResult = await this.bankReconciliationService.rejectMatch(
+      command.organizationId,
+      {
+        accountId: command.accountId,
+        transactionIds: command.transactionIds,
+        journalLineIds: command.journalLineIds
+      },
+      command.auditContext
+    );
+    if (matchResult.isFailure()) {
+      return failure(matchResult.error);
+    }
+
+    return success({ match: matchResult.value });
+  }
+}
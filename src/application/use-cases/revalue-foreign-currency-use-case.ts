@@ -0,0 +1,70 @@
+import {
+  OrganizationId,
+  PeriodId,
+  Currency,
+  AuditContext,
+  DomainError
+} from '../../domain/shared/types';
+import { Result, success, failure } from '../../domain/shared/result';
+import { Journal } from '../../domain/journal/entities/journal';
+import { FxRevaluationService } from '../../domain/closing/services/fx-revaluation-service';
+import { FxRevaluationPlan } from '../../domain/closing/value-objects/fx-revaluation-plan';
+import { ServiceContainer } from '../../infrastructure/services/service-factory';
+
+/**
+ * Use case for the month-end revaluation of open foreign currency items: book the unrealized exchange differences
+ * against the FX gain/loss account and reverse them on the first day of the next month
+ */
+export class RevalueForeignCurrencyUseCase {
+  constructor(
+    private readonly fxRevaluationService: FxRevaluationService,
+    private readonly services: ServiceContainer
+  ) {}
+
+  async execute(command: RevalueForeignCurrencyCommand): Promise<Result<RevalueForeignCurrencyResponse, DomainError>> {
+    const planResult = await this.fxRevaluationService.planRevaluation(
+      command.organizationId,
+      command.periodId,
+      command.currency
+    );
+    if (planResult.isFailure()) {
+      return failure(planResult.error);
+    }
+
+    const plan = planResult.value;
+    if (command.dryRun || plan.isEmpty()) {
+      return success({ plan, dryRun: command.dryRun });
+    }
+
+    const revaluationResult = await this.fxRevaluationService.executeRevaluation(
+      command.organizationId,
+      plan,
+      command.auditContext
+    );
+    if (revaluationResult.isFailure()) {
+      return failure(revaluationResult.error);
+    }
+
+    return success({
+      plan,
+      dryRun: false,
+      revaluationJournal: revaluationResult.value.revaluationJournal,
+      reversalJournal: revaluationResult.value.reversalJournal
+    });
+  }
+}
+
+export interface RevalueForeignCurrencyCommand {
+  readonly organizationId: OrganizationId;
+  readonly periodId: PeriodId;
+  readonly currency: Currency;
+  readonly dryRun: boolean; // Only preview the exchange differences
+  readonly auditContext: AuditContext;
+}
+
+export interface RevalueForeignCurrencyResponse {
+  readonly plan: FxRevaluationPlan;
+  readonly dryRun: boolean;
+  readonly revaluationJournal?: Journal;
+  readonly reversalJournal?: Journal;
+}
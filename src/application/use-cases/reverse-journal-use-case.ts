@@ -1,20 +1,28 @@
 import { 
   OrganizationId, 
   JournalId, 
+  PeriodId,
   UserId,
-  AuditContext
+  AuditContext,
+  DomainError,
+  domainError,
+  DomainErrorCodes
 } from '../../domain/shared/types';
-import { Result } from '../../domain/shared/result';
+import { Result, success, failure } from '../../domain/shared/result';
 import { Journal } from '../../domain/journal/entities/journal';
 import { JournalService } from '../../domain/journal/services/journal-service';
+import { Period } from '../../domain/period/entities/period';
+import { PeriodService } from '../../domain/period/services/period-service';
 import { ServiceContainer } from '../../infrastructure/services/service-factory';
 
 /**
  * Use case for reversing a posted journal entry
+ * A reversal dated into a closed period is re-dated to the start of the next open period.
  */
 export class ReverseJournalUseCase {
   constructor(
     private readonly journalService: JournalService,
+    private readonly periodService: PeriodService,
     private readonly services: ServiceContainer
   ) {}
 
@@ -75,13 +83,22 @@ export class ReverseJournalUseCase {
     const reversalDescription = command.description || 
       `REVERSAL: ${originalJournal.description}`;
 
+    // Move the reversal out of a closed period
+    const targetResult = await this.resolveReversalTarget(command.reversalDate, command.organizationId);
+    if (targetResult.isFailure()) {
+      return failure(targetResult.error);
+    }
+
+    const target = targetResult.value;
+
     // Reverse the journal
     const reversalResult = await this.journalService.reverseJournal(
       command.originalJournalId,
       command.organizationId,
       reversalDescription,
-      command.reversalDate,
-      command.auditContext.userId
+      target.reversalDate,
+      command.auditContext.userId,
+      command.auditContext
     );
 
     if (reversalResult.isFailure()) {
@@ -100,7 +117,10 @@ export class ReverseJournalUseCase {
         reversalJournalId: reversal.id,
         originalJournalNumber: original.journalNumber,
         reversalJournalNumber: reversal.journalNumber,
-        reversalDate: command.reversalDate,
+        reversalDate: target.reversalDate,
+        requestedReversalDate: command.reversalDate,
+        redated: target.redated,
+        reversalPeriod: target.period,
         reversalDescription,
         reversedBy: command.auditContext.userId,
         totalReversedAmount: reversal.getTotalDebit(), // Both should be equal
@@ -231,6 +251,13 @@ export class ReverseJournalUseCase {
 
     const journal = journalResult.value;
 
+    const targetResult = await this.resolveReversalTarget(reversalDate, organizationId);
+    if (targetResult.isFailure()) {
+      return failure(targetResult.error);
+    }
+
+    const target = targetResult.value;
+
     // Generate reversal journal number
     const reversalJournalNumber = `${journal.journalNumber}-REV`;
     const description = reversalDescription || `REVERSAL: ${journal.description}`;
@@ -255,7 +282,11 @@ export class ReverseJournalUseCase {
         originalJournalNumber: journal.journalNumber,
         reversalJournalNumber,
         description,
-        reversalDate,
+        reversalDate: target.reversalDate,
+        requestedReversalDate: reversalDate,
+        redated: target.redated,
+        reversalPeriodId: target.period.id,
+        reversalPeriodName: target.period.name,
         currency: journal.currency,
         totalDebit: journal.getTotalCredit(), // Flipped
         totalCredit: journal.getTotalDebit(), // Flipped
@@ -266,6 +297,46 @@ export class ReverseJournalUseCase {
       error: undefined as any
     } as Result<ReversalPreview, any>;
   }
+
+  /**
+   * Find the period a reversal is booked into
+   * If the requested date falls into a closed or closing period, the reversal moves to the first day of the next
+   * open period.
+   */
+  private async resolveReversalTarget(
+    reversalDate: Date,
+    organizationId: OrganizationId
+  ): Promise<Result<ReversalTarget, DomainError>> {
+    const periodResult = await this.periodService.findPeriodForPosting(reversalDate, organizationId);
+    if (periodResult.isFailure()) {
+      return failure(periodResult.error);
+    }
+
+    const period = periodResult.value;
+    if (period.allowsPosting()) {
+      return success({ reversalDate, period, redated: false });
+    }
+
+    const nextPeriodResult = await this.periodService.findNextOpenPeriod(period.endDate, organizationId);
+    if (nextPeriodResult.isFailure()) {
+      return failure(nextPeriodResult.error);
+    }
+
+    const nextPeriod = nextPeriodResult.value;
+    if (!nextPeriod) {
+      return failure(domainError(
+        DomainErrorCodes.PERIOD_CLOSED,
+        'Reversal period is closed and there is no later open period to move the reversal to',
+        {
+          periodId: period.id,
+          periodStatus: period.status,
+          reversalDate: reversalDate.toISOString()
+        }
+      ));
+    }
+
+    return success({ reversalDate: nextPeriod.startDate, period: nextPeriod, redated: true });
+  }
 }
 
 export interface ReverseJournalCommand {
@@ -283,7 +354,10 @@ export interface ReverseJournalResponse {
   readonly reversalJournalId: any;
   readonly originalJournalNumber: string;
   readonly reversalJournalNumber: string;
-  readonly reversalDate: Date;
+  readonly reversalDate: Date; // Date actually booked
+  readonly requestedReversalDate: Date;
+  readonly redated: boolean; // The requested date fell into a closed period
+  readonly reversalPeriod: Period;
   readonly reversalDescription: string;
   readonly reversedBy: UserId;
   readonly totalReversedAmount: any;
@@ -302,7 +376,11 @@ export interface ReversalPreview {
   readonly originalJournalNumber: string;
   readonly reversalJournalNumber: string;
   readonly description: string;
-  readonly reversalDate: Date;
+  readonly reversalDate: Date; // Date the reversal would be booked on
+  readonly requestedReversalDate: Date;
+  readonly redated: boolean;
+  readonly reversalPeriodId: PeriodId;
+  readonly reversalPeriodName: string;
   readonly currency: string;
   readonly totalDebit: any;
   readonly totalCredit: any;
@@ -311,6 +389,12 @@ export interface ReversalPreview {
   readonly canReverse: boolean;
 }
 
+interface ReversalTarget {
+  readonly reversalDate: Date;
+  readonly period: Period;
+  readonly redated: boolean;
+}
+
 interface ValidationIssue {
   readonly field: string;
   readonly code: string;
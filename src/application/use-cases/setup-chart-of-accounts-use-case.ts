@@ -0,0 +1,130 @@
+import {
+  OrganizationId,
+  SpecialAccountPurpose,
+  AuditContext,
+  DomainError,
+  domainError,
+  DomainErrorCodes,
+  taxConfigId
+} from '../../domain/shared/types';
+import { Result, success, failure } from '../../domain/shared/result';
+import { Account } from '../../domain/account/entities/account';
+import { AccountService } from '../../domain/account/services/account-service';
+import {
+  ChartOfAccountsTemplate,
+  ChartOfAccountsTemplateId,
+  getChartOfAccountsTemplate
+} from '../../domain/account/templates';
+import { TaxConfig } from '../../domain/tax/entities/tax-config';
+import { TaxService } from '../../domain/tax/services/tax-service';
+import { ServiceContainer } from '../../infrastructure/services/service-factory';
+
+/**
+ * Use case for seeding an organization with a chart of accounts template,
+ * its default tax configurations and special accounts
+ * Running it again only creates what is missing
+ */
+export class SetupChartOfAccountsUseCase {
+  constructor(
+    private readonly accountService: AccountService,
+    private readonly taxService: TaxService,
+    private readonly services: ServiceContainer
+  ) {}
+
+  async execute(command: SetupChartOfAccountsCommand): Promise<Result<SetupChartOfAccountsResponse, DomainError>> {
+    const template = getChartOfAccountsTemplate(command.templateId);
+    if (!template) {
+      return failure(domainError(
+        DomainErrorCodes.VALIDATION_FAILED,
+        'Unknown chart of accounts template',
+        { templateId: command.templateId }
+      ));
+    }
+
+    const accountsResult = await this.accountService.applyTemplate(
+      command.organizationId,
+      template,
+      command.auditContext
+    );
+    if (accountsResult.isFailure()) {
+      return failure(accountsResult.error);
+    }
+
+    const { accountsByCode, created: createdAccounts } = accountsResult.value;
+
+    const existingTaxResult = await this.taxService.listTaxConfigs(command.organizationId);
+    if (existingTaxResult.isFailure()) {
+      return failure(existingTaxResult.error);
+    }
+
+    const existingTaxCodes = new Set(existingTaxResult.value.map(taxConfig => taxConfig.code));
+    const createdTaxConfigs: TaxConfig[] = [];
+
+    for (const templateTax of template.taxConfigs) {
+      if (existingTaxCodes.has(templateTax.code)) {
+        continue;
+      }
+
+      const taxAccount = accountsByCode.get(templateTax.accountCode);
+      const inputTaxAccount = templateTax.inputAccountCode ? accountsByCode.get(templateTax.inputAccountCode) : undefined;
+      if (!taxAccount || (templateTax.inputAccountCode && !inputTaxAccount)) {
+        return failure(domainError(
+          DomainErrorCodes.VALIDATION_FAILED,
+          'Template tax code references an unknown account',
+          {
+            templateId: template.id,
+            taxCode: templateTax.code,
+            accountCode: templateTax.accountCode,
+            inputAccountCode: templateTax.inputAccountCode
+          }
+        ));
+      }
+
+      const taxResult = await this.taxService.createTaxConfig({
+        id: taxConfigId(crypto.randomUUID()),
+        organizationId: command.organizationId,
+        code: templateTax.code,
+        name: templateTax.name,
+        rate: templateTax.rate,
+        country: templateTax.country,
+        validFrom: new Date(`${templateTax.validFrom}T00:00:00.000Z`),
+        accountId: taxAccount.id,
+        treatment: templateTax.treatment,
+        inputAccountId: inputTaxAccount?.id
+      }, command.auditContext);
+
+      if (taxResult.isFailure()) {
+        return failure(taxResult.error);
+      }
+
+      createdTaxConfigs.push(taxResult.value);
+    }
+
+    const specialAccounts: Partial<Record<SpecialAccountPurpose, Account>> = {};
+    for (const account of accountsByCode.values()) {
+      if (account.specialPurpose) {
+        specialAccounts[account.specialPurpose] = account;
+      }
+    }
+
+    return success({
+      template,
+      createdAccounts,
+      createdTaxConfigs,
+      specialAccounts
+    });
+  }
+}
+
+export interface SetupChartOfAccountsCommand {
+  readonly organizationId: OrganizationId;
+  readonly templateId: ChartOfAccountsTemplateId;
+  readonly auditContext: AuditContext;
+}
+
+export interface SetupChartOfAccountsResponse {
+  readonly template: ChartOfAccountsTemplate;
+  readonly createdAccounts: Account[];
+  readonly createdTaxConfigs: TaxConfig[];
+  readonly specialAccounts: Partial<Record<SpecialAccountPurpose, Account>>;
+}
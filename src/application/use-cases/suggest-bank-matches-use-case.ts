@@ -0,0 +1,46 @@
+import {
+  OrganizationId,
+  AccountId,
+  AuditContext,
+  DomainError
+} from '../../domain/shared/types';
+import { Result, success, failure } from '../../domain/shared/result';
+import { BankReconciliationService } from '../../domain/bank/services/bank-reconciliation-service';
+import { MatchSuggestion } from '../../domain/bank/value-objects/match-suggestion';
+import { ServiceContainer } from '../../infrastructure/services/service-factory';
+
+/**
+ * Use case for suggesting matches of open bank transactions to posted journal lines of the bank account
+ */
+export class SuggestBankMatchesUseCase {
+  constructor(
+    private readonly bankReconciliationService: BankReconciliationService,
+    private readonly services: ServiceContainer
+  ) {}
+
+  async execute(query: SuggestBankMatchesQuery): Promise<Result<SuggestBankMatchesResponse, DomainError>> {
+    const suggestionsResult = await this.bankReconciliationService.suggestMatches(query.organizationId, {
+      accountId: query.accountId,
+      startDate: query.dateRange?.startDate,
+      endDate: query.dateRange?.endDate,
+      dateWindowDays: query.dateWindowDays
+    });
+    if (suggestionsResult.isFailure()) {
+      return failure(suggestionsResult.error);
+    }
+
+    return success({ suggestions: suggestionsResult.value });
+  }
+}
+
+export interface SuggestBankMatchesQuery {
+  readonly organizationId: OrganizationId;
+  readonly accountId: AccountId;
+  readonly dateRange?: { startDate?: Date; endDate?: Date }; // Transaction dates
+  readonly dateWindowDays?: number;
+  readonly auditContext: AuditContext;
+}
+
+export interface SuggestBankMatchesResponse {
+  readonly suggestions: MatchSuggestion[];
+}
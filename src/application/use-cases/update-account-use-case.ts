@@ -0,0 +1,84 @@
+import {
+  OrganizationId,
+  AccountId,
+  AccountType,
+  SpecialAccountPurpose,
+  Currency,
+  AuditContext,
+  DomainError
+} from '../../domain/shared/types';
+import { Result, success, failure } from '../../domain/shared/result';
+import { Account } from '../../domain/account/entities/account';
+import { AccountService } from '../../domain/account/services/account-service';
+import { ServiceContainer } from '../../infrastructure/services/service-factory';
+
+/**
+ * Use case for changing an account's master data, its parent and its active state
+ */
+export class UpdateAccountUseCase {
+  constructor(
+    private readonly accountService: AccountService,
+    private readonly services: ServiceContainer
+  ) {}
+
+  async execute(command: UpdateAccountCommand): Promise<Result<UpdateAccountResponse, DomainError>> {
+    const { accountId, organizationId, auditContext } = command;
+    const fieldUpdates = [command.code, command.name, command.type, command.currency, command.parentId, command.specialPurpose];
+    const hasFieldUpdates = fieldUpdates.some(value => value !== undefined);
+
+    const currentResult = hasFieldUpdates
+      ? await this.accountService.updateAccount(accountId, organizationId, {
+        code: command.code,
+        name: command.name,
+        type: command.type,
+        currency: command.currency,
+        parentId: command.parentId,
+        specialPurpose: command.specialPurpose
+      }, auditContext)
+      : await this.accountService.findAccount(accountId, organizationId);
+
+    if (currentResult.isFailure()) {
+      return failure(currentResult.error);
+    }
+
+    const account = currentResult.value;
+    if (!account) {
+      return failure({
+        code: 'ENTITY_NOT_FOUND',
+        message: 'Account not found',
+        details: { accountId }
+      });
+    }
+
+    if (command.isActive === undefined || command.isActive === account.isActive) {
+      return success({ account });
+    }
+
+    const toggledResult = command.isActive
+      ? await this.accountService.activateAccount(accountId, organizationId, auditContext)
+      : await this.accountService.deactivateAccount(accountId, organizationId, auditContext);
+
+    if (toggledResult.isFailure()) {
+      return failure(toggledResult.error);
+    }
+
+    return success({ account: toggledResult.value });
+  }
+}
+
+export interface UpdateAccountCommand {
+  readonly accountId: AccountId;
+  readonly organizationId: OrganizationId;
+  readonly code?: string;
+  readonly name?: string;
+  readonly type?: AccountType;
+  readonly currency?: Currency;
+  readonly parentId?: AccountId | null; // null moves the account to the top level
+  readonly specialPurpose?: SpecialAccountPurpose | null; // null removes the purpose
+  readonly isActive?: boolean;
+  readonly auditContext: AuditContext;
+}
+
+export interface UpdateAccountResponse {
+  readonly account: Account;
+}
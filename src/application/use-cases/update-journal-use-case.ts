@@ -0,0 +1,202 @@
+import {
+  OrganizationId,
+  JournalId,
+  Currency,
+  AuditContext,
+  DomainError,
+  domainError,
+  DomainErrorCodes
+} from '../../domain/shared/types';
+import { Result, success, failure } from '../../domain/shared/result';
+import { Journal } from '../../domain/journal/entities/journal';
+import { JournalLine } from '../../domain/journal/entities/journal-line';
+import { Money } from '../../domain/journal/value-objects/money';
+import { JournalService } from '../../domain/journal/services/journal-service';
+import { ExchangeRateService } from '../../domain/exchange-rate/services/exchange-rate-service';
+import { TaxService } from '../../domain/tax/services/tax-service';
+import { ServiceContainer } from '../../infrastructure/services/service-factory';
+import {
+  CreateJournalLineCommand,
+  applyExchangeRates,
+  applyTaxCodes,
+  buildJournalLines
+} from './create-journal-use-case';
+
+/**
+ * Use case for correcting a draft journal entry in place
+ */
+export class UpdateJournalUseCase {
+  constructor(
+    private readonly journalService: JournalService,
+    private readonly exchangeRateService: ExchangeRateService,
+    private readonly taxService: TaxService,
+    private readonly services: ServiceContainer
+  ) {}
+
+  async execute(command: UpdateJournalCommand): Promise<Result<UpdateJournalResponse, DomainError>> {
+    // Get the journal first to validate it exists and is a draft
+    const journalResult = await this.journalService.findJournal(
+      command.journalId,
+      command.organizationId
+    );
+
+    if (journalResult.isFailure()) {
+      return failure(journalResult.error);
+    }
+
+    const journal = journalResult.value;
+    if (!journal) {
+      return failure({
+        code: 'JOURNAL_NOT_FOUND',
+        message: 'Journal not found'
+      });
+    }
+
+    // Exchange rates are fixed at posting time
+    if (journal.isImmutable() && this.changesExchangeRates(command)) {
+      return failure(domainError(
+        DomainErrorCodes.FX_001,
+        'Exchange rates of posted journals are immutable',
+        {
+          journalId: journal.id,
+          status: journal.status
+        }
+      ));
+    }
+
+    // Posted and reversed journals can only be changed through a reversal
+    if (journal.isImmutable()) {
+      return failure({
+        code: 'JOURNAL_IMMUTABLE',
+        message: 'Posted journals are immutable and can only be corrected by a reversal',
+        details: {
+          journalId: journal.id,
+          status: journal.status
+        }
+      });
+    }
+
+    if (command.exchangeRate !== undefined && !command.lines) {
+      return failure(domainError(
+        DomainErrorCodes.VALIDATION_FAILED,
+        'An exchange rate of a draft journal can only be set together with its lines',
+        { journalId: journal.id }
+      ));
+    }
+
+    // Rebuild lines if they are replaced, defaulting to the journal currency and rate
+    let lines: JournalLine[] | undefined;
+    if (command.lines) {
+      const convertedResult = await applyExchangeRates(
+        command.lines.map(line => {
+          const lineCurrency = line.currency ?? journal.currency;
+          return {
+            ...line,
+            currency: lineCurrency,
+            exchangeRate: line.exchangeRate ?? (lineCurrency !== journal.currency ? command.exchangeRate : undefined)
+          };
+        }),
+        journal.currency,
+        command.postingDate ?? journal.postingDate,
+        command.organizationId,
+        this.exchangeRateService
+      );
+      if (convertedResult.isFailure()) {
+        return failure(convertedResult.error);
+      }
+
+      const taxedResult = await applyTaxCodes(
+        convertedResult.value,
+        command.postingDate ?? journal.postingDate,
+        command.organizationId,
+        this.taxService
+      );
+      if (taxedResult.isFailure()) {
+        return failure(taxedResult.error);
+      }
+
+      const linesResult = buildJournalLines(journal.id, taxedResult.value);
+      if (linesResult.isFailure()) {
+        return failure(linesResult.error);
+      }
+      lines = linesResult.value;
+    }
+
+    const updateResult = await this.journalService.updateDraftJournal(
+      command.journalId,
+      command.organizationId,
+      {
+        description: command.description,
+        reference: command.reference,
+        postingDate: command.postingDate,
+        lines
+      },
+      command.auditContext
+    );
+
+    if (updateResult.isFailure()) {
+      return failure(updateResult.error);
+    }
+
+    const updatedJournal = updateResult.value;
+
+    return success({
+      journal: updatedJournal,
+      journalId: updatedJournal.id,
+      journalNumber: updatedJournal.journalNumber,
+      status: updatedJournal.status,
+      totalDebit: updatedJournal.getTotalDebit(),
+      totalCredit: updatedJournal.getTotalCredit(),
+      isBalanced: updatedJournal.isBalanced(),
+      updatedFields: this.getUpdatedFields(command)
+    });
+  }
+
+  /**
+   * Check whether a command sets the journal exchange rate or the exchange rate or original amount of any line
+   */
+  private changesExchangeRates(command: UpdateJournalCommand): boolean {
+    return command.exchangeRate !== undefined || (command.lines ?? []).some(line =>
+      line.exchangeRate !== undefined || line.originalAmount !== undefined
+    );
+  }
+
+  /**
+   * List the fields a command changes
+   */
+  private getUpdatedFields(command: UpdateJournalCommand): string[] {
+    const fields: string[] = [];
+    if (command.description !== undefined) fields.push('description');
+    if (command.reference !== undefined) fields.push('reference');
+    if (command.postingDate !== undefined) fields.push('postingDate');
+    if (command.lines !== undefined) fields.push('lines');
+    if (command.exchangeRate !== undefined) fields.push('exchangeRate');
+    return fields;
+  }
+}
+
+export interface UpdateJournalCommand {
+  readonly journalId: JournalId;
+  readonly organizationId: OrganizationId;
+  readonly description?: string;
+  readonly reference?: string;
+  readonly postingDate?: Date;
+  readonly lines?: UpdateJournalLineCommand[]; // Replaces all existing lines; tax lines are added from tax codes
+  readonly exchangeRate?: string; // Decimal string, rate of the foreign currency lines without a rate of their own
+  readonly auditContext: AuditContext;
+}
+
+export interface UpdateJournalLineCommand extends Omit<CreateJournalLineCommand, 'currency'> {
+  readonly currency?: Currency; // Defaults to the journal currency
+}
+
+export interface UpdateJournalResponse {
+  readonly journal: Journal;
+  readonly journalId: JournalId;
+  readonly journalNumber: string;
+  readonly status: string;
+  readonly totalDebit: Money;
+  readonly totalCredit: Money;
+  readonly isBalanced: boolean;
+  readonly updatedFields: string[];
+}
@@ -1,9 +1,35 @@
 import { ServiceContainer, createServiceContainer } from '../../infrastructure/services/service-factory';
 import { CreateJournalUseCase } from './create-journal-use-case';
+import { UpdateJournalUseCase } from './update-journal-use-case';
 import { PostJournalUseCase } from './post-journal-use-case';
 import { ReverseJournalUseCase } from './reverse-journal-use-case';
 import { CreatePeriodUseCase } from './create-period-use-case';
 import { QueryJournalsUseCase } from './query-journals-use-case';
+import { VerifyAuditLogUseCase } from './verify-audit-log-use-case';
+import { CreateAccountUseCase } from './create-account-use-case';
+import { UpdateAccountUseCase } from './update-account-use-case';
+import { DeleteAccountUseCase } from './delete-account-use-case';
+import { QueryAccountsUseCase } from './query-accounts-use-case';
+import { GetAccountTreeUseCase } from './get-account-tree-use-case';
+import { SetupChartOfAccountsUseCase } from './setup-chart-of-accounts-use-case';
+import { GetTrialBalanceUseCase } from './get-trial-balance-use-case';
+import { GetGeneralLedgerUseCase } from './get-general-ledger-use-case';
+import { GetFinancialStatementUseCase } from './get-financial-statement-use-case';
+import { CloseFiscalYearUseCase } from './close-fiscal-year-use-case';
+import { GenerateFiscalYearUseCase } from './generate-fiscal-year-use-case';
+import { FinalizeFiscalYearUseCase } from './finalize-fiscal-year-use-case';
+import { GetPeriodCloseChecklistUseCase } from './get-period-close-checklist-use-case';
+import { ClosePeriodUseCase } from './close-period-use-case';
+import { ImportExchangeRatesUseCase } from './import-exchange-rates-use-case';
+import { GetExchangeRateUseCase } from './get-exchange-rate-use-case';
+import { RevalueForeignCurrencyUseCase } from './revalue-foreign-currency-use-case';
+import { GetVatReturnUseCase } from './get-vat-return-use-case';
+import { GetEcSalesListUseCase } from './get-ec-sales-list-use-case';
+import { ImportBankStatementUseCase } from './import-bank-statement-use-case';
+import { SuggestBankMatchesUseCase } from './suggest-bank-matches-use-case';
+import { ConfirmBankMatchUseCase } from './confirm-bank-match-use-case';
+import { RejectBankMatchUseCase } from './reject-bank-match-use-case';
+import { GetBankReconciliationStatementUseCase } from './get-bank-reconciliation-statement-use-case';
 
 /**
  * Factory for creating use case instances with proper dependency injection
@@ -13,10 +39,36 @@ export class UseCaseFactory {
   
   // Use case instances
   private static _createJournalUseCase: CreateJournalUseCase | null = null;
+  private static _updateJournalUseCase: UpdateJournalUseCase | null = null;
   private static _postJournalUseCase: PostJournalUseCase | null = null;
   private static _reverseJournalUseCase: ReverseJournalUseCase | null = null;
   private static _createPeriodUseCase: CreatePeriodUseCase | null = null;
   private static _queryJournalsUseCase: QueryJournalsUseCase | null = null;
+  private static _verifyAuditLogUseCase: VerifyAuditLogUseCase | null = null;
+  private static _createAccountUseCase: CreateAccountUseCase | null = null;
+  private static _updateAccountUseCase: UpdateAccountUseCase | null = null;
+  private static _deleteAccountUseCase: DeleteAccountUseCase | null = null;
+  private static _queryAccountsUseCase: QueryAccountsUseCase | null = null;
+  private static _getAccountTreeUseCase: GetAccountTreeUseCase | null = null;
+  private static _setupChartOfAccountsUseCase: SetupChartOfAccountsUseCase | null = null;
+  private static _getTrialBalanceUseCase: GetTrialBalanceUseCase | null = null;
+  private static _getGeneralLedgerUseCase: GetGeneralLedgerUseCase | null = null;
+  private static _getFinancialStatementUseCase: GetFinancialStatementUseCase | null = null;
+  private static _closeFiscalYearUseCase: CloseFiscalYearUseCase | null = null;
+  private static _generateFiscalYearUseCase: GenerateFiscalYearUseCase | null = null;
+  private static _finalizeFiscalYearUseCase: FinalizeFiscalYearUseCase | null = null;
+  private static _getPeriodCloseChecklistUseCase: GetPeriodCloseChecklistUseCase | null = null;
+  private static _closePeriodUseCase: ClosePeriodUseCase | null = null;
+  private static _importExchangeRatesUseCase: ImportExchangeRatesUseCase | null = null;
+  private static _getExchangeRateUseCase: GetExchangeRateUseCase | null = null;
+  private static _revalueForeignCurrencyUseCase: RevalueForeignCurrencyUseCase | null = null;
+  private static _getVatReturnUseCase: GetVatReturnUseCase | null = null;
+  private static _getEcSalesListUseCase: GetEcSalesListUseCase | null = null;
+  private static _importBankStatementUseCase: ImportBankStatementUseCase | null = null;
+  private static _suggestBankMatchesUseCase: SuggestBankMatchesUseCase | null = null;
+  private static _confirmBankMatchUseCase: ConfirmBankMatchUseCase | null = null;
+  private static _rejectBankMatchUseCase: RejectBankMatchUseCase | null = null;
+  private static _getBankReconciliationStatementUseCase: GetBankReconciliationStatementUseCase | null = null;
 
   /**
    * Get services container
@@ -36,12 +88,30 @@ export class UseCaseFactory {
       const services = this.getServices();
       this._createJournalUseCase = new CreateJournalUseCase(
         services.journalService,
+        services.exchangeRateService,
+        services.taxService,
         services
       );
     }
     return this._createJournalUseCase;
   }
 
+  /**
+   * Get update journal use case
+   */
+  static getUpdateJournalUseCase(): UpdateJournalUseCase {
+    if (!this._updateJournalUseCase) {
+      const services = this.getServices();
+      this._updateJournalUseCase = new UpdateJournalUseCase(
+        services.journalService,
+        services.exchangeRateService,
+        services.taxService,
+        services
+      );
+    }
+    return this._updateJournalUseCase;
+  }
+
   /**
    * Get post journal use case
    */
@@ -65,6 +135,7 @@ export class UseCaseFactory {
       const services = this.getServices();
       this._reverseJournalUseCase = new ReverseJournalUseCase(
         services.journalService,
+        services.periodService,
         services
       );
     }
@@ -99,6 +170,362 @@ export class UseCaseFactory {
     return this._queryJournalsUseCase;
   }
 
+  /**
+   * Get verify audit log use case
+   */
+  static getVerifyAuditLogUseCase(): VerifyAuditLogUseCase {
+    if (!this._verifyAuditLogUseCase) {
+      const services = this.getServices();
+      this._verifyAuditLogUseCase = new VerifyAuditLogUseCase(
+        services.auditService,
+        services
+      );
+    }
+    return this._verifyAuditLogUseCase;
+  }
+
+  /**
+   * Get create account use case
+   */
+  static getCreateAccountUseCase(): CreateAccountUseCase {
+    if (!this._createAccountUseCase) {
+      const services = this.getServices();
+      this._createAccountUseCase = new CreateAccountUseCase(
+        services.accountService,
+        services
+      );
+    }
+    return this._createAccountUseCase;
+  }
+
+  /**
+   * Get update account use case
+   */
+  static getUpdateAccountUseCase(): UpdateAccountUseCase {
+    if (!this._updateAccountUseCase) {
+      const services = this.getServices();
+      this._updateAccountUseCase = new UpdateAccountUseCase(
+        services.accountService,
+        services
+      );
+    }
+    return this._updateAccountUseCase;
+  }
+
+  /**
+   * Get delete account use case
+   */
+  static getDeleteAccountUseCase(): DeleteAccountUseCase {
+    if (!this._deleteAccountUseCase) {
+      const services = this.getServices();
+      this._deleteAccountUseCase = new DeleteAccountUseCase(
+        services.accountService,
+        services
+      );
+    }
+    return this._deleteAccountUseCase;
+  }
+
+  /**
+   * Get query accounts use case
+   */
+  static getQueryAccountsUseCase(): QueryAccountsUseCase {
+    if (!this._queryAccountsUseCase) {
+      const services = this.getServices();
+      this._queryAccountsUseCase = new QueryAccountsUseCase(
+        services.accountService,
+        services
+      );
+    }
+    return this._queryAccountsUseCase;
+  }
+
+  /**
+   * Get account tree use case
+   */
+  static getGetAccountTreeUseCase(): GetAccountTreeUseCase {
+    if (!this._getAccountTreeUseCase) {
+      const services = this.getServices();
+      this._getAccountTreeUseCase = new GetAccountTreeUseCase(
+        services.accountService,
+        services
+      );
+    }
+    return this._getAccountTreeUseCase;
+  }
+
+  /**
+   * Get setup chart of accounts use case
+   */
+  static getSetupChartOfAccountsUseCase(): SetupChartOfAccountsUseCase {
+    if (!this._setupChartOfAccountsUseCase) {
+      const services = this.getServices();
+      this._setupChartOfAccountsUseCase = new SetupChartOfAccountsUseCase(
+        services.accountService,
+        services.taxService,
+        services
+      );
+    }
+    return this._setupChartOfAccountsUseCase;
+  }
+
+  /**
+   * Get trial balance use case
+   */
+  static getGetTrialBalanceUseCase(): GetTrialBalanceUseCase {
+    if (!this._getTrialBalanceUseCase) {
+      const services = this.getServices();
+      this._getTrialBalanceUseCase = new GetTrialBalanceUseCase(
+        services.reportingService,
+        services.periodService,
+        services
+      );
+    }
+    return this._getTrialBalanceUseCase;
+  }
+
+  /**
+   * Get general ledger use case
+   */
+  static getGetGeneralLedgerUseCase(): GetGeneralLedgerUseCase {
+    if (!this._getGeneralLedgerUseCase) {
+      const services = this.getServices();
+      this._getGeneralLedgerUseCase = new GetGeneralLedgerUseCase(
+        services.reportingService,
+        services.periodService,
+        services
+      );
+    }
+    return this._getGeneralLedgerUseCase;
+  }
+
+  /**
+   * Get financial statement use case
+   */
+  static getGetFinancialStatementUseCase(): GetFinancialStatementUseCase {
+    if (!this._getFinancialStatementUseCase) {
+      const services = this.getServices();
+      this._getFinancialStatementUseCase = new GetFinancialStatementUseCase(
+        services.reportingService,
+        services.periodService,
+        services
+      );
+    }
+    return this._getFinancialStatementUseCase;
+  }
+
+  /**
+   * Get close fiscal year use case
+   */
+  static getCloseFiscalYearUseCase(): CloseFiscalYearUseCase {
+    if (!this._closeFiscalYearUseCase) {
+      const services = this.getServices();
+      this._closeFiscalYearUseCase = new CloseFiscalYearUseCase(
+        services.yearEndCloseService,
+        services
+      );
+    }
+    return this._closeFiscalYearUseCase;
+  }
+
+  /**
+   * Get generate fiscal year use case
+   */
+  static getGenerateFiscalYearUseCase(): GenerateFiscalYearUseCase {
+    if (!this._generateFiscalYearUseCase) {
+      const services = this.getServices();
+      this._generateFiscalYearUseCase = new GenerateFiscalYearUseCase(
+        services.fiscalYearService,
+        services
+      );
+    }
+    return this._generateFiscalYearUseCase;
+  }
+
+  /**
+   * Get finalize fiscal year use case
+   */
+  static getFinalizeFiscalYearUseCase(): FinalizeFiscalYearUseCase {
+    if (!this._finalizeFiscalYearUseCase) {
+      const services = this.getServices();
+      this._finalizeFiscalYearUseCase = new FinalizeFiscalYearUseCase(
+        services.fiscalYearService,
+        services
+      );
+    }
+    return this._finalizeFiscalYearUseCase;
+  }
+
+  /**
+   * Get get period close checklist use case
+   */
+  static getGetPeriodCloseChecklistUseCase(): GetPeriodCloseChecklistUseCase {
+    if (!this._getPeriodCloseChecklistUseCase) {
+      const services = this.getServices();
+      this._getPeriodCloseChecklistUseCase = new GetPeriodCloseChecklistUseCase(
+        services.periodCloseService,
+        services
+      );
+    }
+    return this._getPeriodCloseChecklistUseCase;
+  }
+
+  /**
+   * Get close period use case
+   */
+  static getClosePeriodUseCase(): ClosePeriodUseCase {
+    if (!this._closePeriodUseCase) {
+      const services = this.getServices();
+      this._closePeriodUseCase = new ClosePeriodUseCase(
+        services.periodCloseService,
+        services
+      );
+    }
+    return this._closePeriodUseCase;
+  }
+
+  /**
+   * Get import exchange rates use case
+   */
+  static getImportExchangeRatesUseCase(): ImportExchangeRatesUseCase {
+    if (!this._importExchangeRatesUseCase) {
+      const services = this.getServices();
+      this._importExchangeRatesUseCase = new ImportExchangeRatesUseCase(
+        services.exchangeRateService,
+        services
+      );
+    }
+    return this._importExchangeRatesUseCase;
+  }
+
+  /**
+   * Get get exchange rate use case
+   */
+  static getGetExchangeRateUseCase(): GetExchangeRateUseCase {
+    if (!this._getExchangeRateUseCase) {
+      const services = this.getServices();
+      this._getExchangeRateUseCase = new GetExchangeRateUseCase(
+        services.exchangeRateService,
+        services
+      );
+    }
+    return this._getExchangeRateUseCase;
+  }
+
+  /**
+   * Get foreign currency revaluation use case
+   */
+  static getRevalueForeignCurrencyUseCase(): RevalueForeignCurrencyUseCase {
+    if (!this._revalueForeignCurrencyUseCase) {
+      const services = this.getServices();
+      this._revalueForeignCurrencyUseCase = new RevalueForeignCurrencyUseCase(
+        services.fxRevaluationService,
+        services
+      );
+    }
+    return this._revalueForeignCurrencyUseCase;
+  }
+
+  /**
+   * Get VAT return use case
+   */
+  static getGetVatReturnUseCase(): GetVatReturnUseCase {
+    if (!this._getVatReturnUseCase) {
+      const services = this.getServices();
+      this._getVatReturnUseCase = new GetVatReturnUseCase(
+        services.vatReturnService,
+        services.periodService,
+        services
+      );
+    }
+    return this._getVatReturnUseCase;
+  }
+
+  /**
+   * Get EC Sales List use case
+   */
+  static getGetEcSalesListUseCase(): GetEcSalesListUseCase {
+    if (!this._getEcSalesListUseCase) {
+      const services = this.getServices();
+      this._getEcSalesListUseCase = new GetEcSalesListUseCase(
+        services.vatReturnService,
+        services.periodService,
+        services
+      );
+    }
+    return this._getEcSalesListUseCase;
+  }
+
+  /**
+   * Get import bank statement use case
+   */
+  static getImportBankStatementUseCase(): ImportBankStatementUseCase {
+    if (!this._importBankStatementUseCase) {
+      const services = this.getServices();
+      this._importBankStatementUseCase = new ImportBankStatementUseCase(
+        services.bankImportService,
+        services
+      );
+    }
+    return this._importBankStatementUseCase;
+  }
+
+  /**
+   * Get suggest bank matches use case
+   */
+  static getSuggestBankMatchesUseCase(): SuggestBankMatchesUseCase {
+    if (!this._suggestBankMatchesUseCase) {
+      const services = this.getServices();
+      this._suggestBankMatchesUseCase = new SuggestBankMatchesUseCase(
+        services.bankReconciliationService,
+        services
+      );
+    }
+    return this._suggestBankMatchesUseCase;
+  }
+
+  /**
+   * Get confirm bank match use case
+   */
+  static getConfirmBankMatchUseCase(): ConfirmBankMatchUseCase {
+    if (!this._confirmBankMatchUseCase) {
+      const services = this.getServices();
+      this._confirmBankMatchUseCase = new ConfirmBankMatchUseCase(
+        services.bankReconciliationService,
+        services
+      );
+    }
+    return this._confirmBankMatchUseCase;
+  }
+
+  /**
+   * Get reject bank match use case
+   */
+  static getRejectBankMatchUseCase(): RejectBankMatchUseCase {
+    if (!this._rejectBankMatchUseCase) {
+      const services = this.getServices();
+      this._rejectBankMatchUseCase = new RejectBankMatchUseCase(
+        services.bankReconciliationService,
+        services
+      );
+    }
+    return this._rejectBankMatchUseCase;
+  }
+
+  /**
+   * Get bank reconciliation statement use case
+   */
+  static getGetBankReconciliationStatementUseCase(): GetBankReconciliationStatementUseCase {
+    if (!this._getBankReconciliationStatementUseCase) {
+      const services = this.getServices();
+      this._getBankReconciliationStatementUseCase = new GetBankReconciliationStatementUseCase(
+        services.bankReconciliationService,
+        services
+      );
+    }
+    return this._getBankReconciliationStatementUseCase;
+  }
+
   /**
    * Set custom services container (for testing)
    */
@@ -112,10 +539,36 @@ export class UseCaseFactory {
    */
   static reset(): void {
     this._createJournalUseCase = null;
+    this._updateJournalUseCase = null;
     this._postJournalUseCase = null;
     this._reverseJournalUseCase = null;
     this._createPeriodUseCase = null;
     this._queryJournalsUseCase = null;
+    this._verifyAuditLogUseCase = null;
+    this._createAccountUseCase = null;
+    this._updateAccountUseCase = null;
+    this._deleteAccountUseCase = null;
+    this._queryAccountsUseCase = null;
+    this._getAccountTreeUseCase = null;
+    this._setupChartOfAccountsUseCase = null;
+    this._getTrialBalanceUseCase = null;
+    this._getGeneralLedgerUseCase = null;
+    this._getFinancialStatementUseCase = null;
+    this._closeFiscalYearUseCase = null;
+    this._generateFiscalYearUseCase = null;
+    this._finalizeFiscalYearUseCase = null;
+    this._getPeriodCloseChecklistUseCase = null;
+    this._closePeriodUseCase = null;
+    this._importExchangeRatesUseCase = null;
+    this._getExchangeRateUseCase = null;
+    this._revalueForeignCurrencyUseCase = null;
+    this._getVatReturnUseCase = null;
+    this._getEcSalesListUseCase = null;
+    this._importBankStatementUseCase = null;
+    this._suggestBankMatchesUseCase = null;
+    this._confirmBankMatchUseCase = null;
+    this._rejectBankMatchUseCase = null;
+    this._getBankReconciliationStatementUseCase = null;
   }
 }
 
@@ -124,10 +577,36 @@ export class UseCaseFactory {
  */
 export interface UseCaseContainer {
   createJournal: CreateJournalUseCase;
+  updateJournal: UpdateJournalUseCase;
   postJournal: PostJournalUseCase;
   reverseJournal: ReverseJournalUseCase;
   createPeriod: CreatePeriodUseCase;
   queryJournals: QueryJournalsUseCase;
+  verifyAuditLog: VerifyAuditLogUseCase;
+  createAccount: CreateAccountUseCase;
+  updateAccount: UpdateAccountUseCase;
+  deleteAccount: DeleteAccountUseCase;
+  queryAccounts: QueryAccountsUseCase;
+  getAccountTree: GetAccountTreeUseCase;
+  setupChartOfAccounts: SetupChartOfAccountsUseCase;
+  getTrialBalance: GetTrialBalanceUseCase;
+  getGeneralLedger: GetGeneralLedgerUseCase;
+  getFinancialStatement: GetFinancialStatementUseCase;
+  closeFiscalYear: CloseFiscalYearUseCase;
+  generateFiscalYear: GenerateFiscalYearUseCase;
+  finalizeFiscalYear: FinalizeFiscalYearUseCase;
+  getPeriodCloseChecklist: GetPeriodCloseChecklistUseCase;
+  closePeriod: ClosePeriodUseCase;
+  importExchangeRates: ImportExchangeRatesUseCase;
+  getExchangeRate: GetExchangeRateUseCase;
+  revalueForeignCurrency: RevalueForeignCurrencyUseCase;
+  getVatReturn: GetVatReturnUseCase;
+  getEcSalesList: GetEcSalesListUseCase;
+  importBankStatement: ImportBankStatementUseCase;
+  suggestBankMatches: SuggestBankMatchesUseCase;
+  confirmBankMatch: ConfirmBankMatchUseCase;
+  rejectBankMatch: RejectBankMatchUseCase;
+  getBankReconciliationStatement: GetBankReconciliationStatementUseCase;
 }
 
 /**
@@ -136,9 +615,35 @@ export interface UseCaseContainer {
 export function createUseCaseContainer(): UseCaseContainer {
   return {
     createJournal: UseCaseFactory.getCreateJournalUseCase(),
+    updateJournal: UseCaseFactory.getUpdateJournalUseCase(),
     postJournal: UseCaseFactory.getPostJournalUseCase(),
     reverseJournal: UseCaseFactory.getReverseJournalUseCase(),
     createPeriod: UseCaseFactory.getCreatePeriodUseCase(),
-    queryJournals: UseCaseFactory.getQueryJournalsUseCase()
+    queryJournals: UseCaseFactory.getQueryJournalsUseCase(),
+    verifyAuditLog: UseCaseFactory.getVerifyAuditLogUseCase(),
+    createAccount: UseCaseFactory.getCreateAccountUseCase(),
+    updateAccount: UseCaseFactory.getUpdateAccountUseCase(),
+    deleteAccount: UseCaseFactory.getDeleteAccountUseCase(),
+    queryAccounts: UseCaseFactory.getQueryAccountsUseCase(),
+    getAccountTree: UseCaseFactory.getGetAccountTreeUseCase(),
+    setupChartOfAccounts: UseCaseFactory.getSetupChartOfAccountsUseCase(),
+    getTrialBalance: UseCaseFactory.getGetTrialBalanceUseCase(),
+    getGeneralLedger: UseCaseFactory.getGetGeneralLedgerUseCase(),
+    getFinancialStatement: UseCaseFactory.getGetFinancialStatementUseCase(),
+    closeFiscalYear: UseCaseFactory.getCloseFiscalYearUseCase(),
+    generateFiscalYear: UseCaseFactory.getGenerateFiscalYearUseCase(),
+    finalizeFiscalYear: UseCaseFactory.getFinalizeFiscalYearUseCase(),
+    getPeriodCloseChecklist: UseCaseFactory.getGetPeriodCloseChecklistUseCase(),
+    closePeriod: UseCaseFactory.getClosePeriodUseCase(),
+    importExchangeRates: UseCaseFactory.getImportExchangeRatesUseCase(),
+    getExchangeRate: UseCaseFactory.getGetExchangeRateUseCase(),
+    revalueForeignCurrency: UseCaseFactory.getRevalueForeignCurrencyUseCase(),
+    getVatReturn: UseCaseFactory.getGetVatReturnUseCase(),
+    getEcSalesList: UseCaseFactory.getGetEcSalesListUseCase(),
+    importBankStatement: UseCaseFactory.getImportBankStatementUseCase(),
+    suggestBankMatches: UseCaseFactory.getSuggestBankMatchesUseCase(),
+    confirmBankMatch: UseCaseFactory.getConfirmBankMatchUseCase(),
+    rejectBankMatch: UseCaseFactory.getRejectBankMatchUseCase(),
+    getBankReconciliationStatement: UseCaseFactory.getGetBankReconciliationStatementUseCase()
   };
 }
\ No newline at end of file
@@ -0,0 +1,68 @@
+import {
+  OrganizationId,
+  UserId,
+  UserRole,
+  AuditContext,
+  DomainError
+} from '../../domain/shared/types';
+import { Result, success, failure } from '../../domain/shared/result';
+import { AuditService, AuditChainIssue } from '../../domain/audit/services/audit-service';
+import { ServiceContainer } from '../../infrastructure/services/service-factory';
+
+const VERIFYING_ROLES: readonly UserRole[] = ['auditor', 'admin'];
+
+/**
+ * Use case for proving that the audit trail of an organization is complete and unaltered
+ */
+export class VerifyAuditLogUseCase {
+  constructor(
+    private readonly auditService: AuditService,
+    private readonly services: ServiceContainer
+  ) {}
+
+  async execute(command: VerifyAuditLogCommand): Promise<Result<VerifyAuditLogResponse, DomainError>> {
+    if (!VERIFYING_ROLES.includes(command.auditContext.userRole)) {
+      return failure({
+        code: 'FORBIDDEN',
+        message: 'Only auditors and admins can verify the audit log',
+        details: { userRole: command.auditContext.userRole }
+      });
+    }
+
+    const verificationResult = await this.auditService.verifyAuditChain(command.organizationId);
+    if (verificationResult.isFailure()) {
+      return failure(verificationResult.error);
+    }
+
+    const verification = verificationResult.value;
+
+    return success({
+      organizationId: command.organizationId,
+      isValid: verification.isValid,
+      totalEntries: verification.totalEntries,
+      verifiedEntries: verification.verifiedEntries,
+      lastSequence: verification.lastSequence,
+      lastSignature: verification.lastSignature,
+      issues: verification.issues,
+      verifiedAt: new Date(),
+      verifiedBy: command.auditContext.userId
+    });
+  }
+}
+
+export interface VerifyAuditLogCommand {
+  readonly organizationId: OrganizationId;
+  readonly auditContext: AuditContext;
+}
+
+export interface VerifyAuditLogResponse {
+  readonly organizationId: OrganizationId;
+  readonly isValid: boolean;
+  readonly totalEntries: number;
+  readonly verifiedEntries: number;
+  readonly lastSequence: number | null;
+  readonly lastSignature: string | null;
+  readonly issues: AuditChainIssue[];
+  readonly verifiedAt: Date;
+  readonly verifiedBy: UserId;
+}
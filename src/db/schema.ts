@@ -10,6 +10,7 @@ import {
   jsonb,
   unique,
   index,
+  foreignKey,
   pgPolicy,
   pgRole,
 } from 'drizzle-orm/pg-core';
@@ -32,6 +33,44 @@ export const currentUserRole = sql`current_user_role()`;
 // Note: tenants table removed - BetterAuth's organization table handles multi-tenancy
 // Note: users table removed - BetterAuth's user + member tables handle user management
 
+// Fiscal years grouping generated accounting periods
+export const fiscalYears = pgTable('fiscal_years', {
+  id: uuid('id').primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: text('organization_id').references(() => organization.id).notNull(),
+  name: varchar('name', { length: 100 }).notNull(),
+  startDate: timestamp('start_date').notNull(),
+  endDate: timestamp('end_date').notNull(),
+  frequency: varchar('frequency', { length: 20 }).notNull(), // monthly, quarterly
+  hasAdjustmentPeriod: boolean('has_adjustment_period').default(false).notNull(),
+  status: varchar('status', { length: 20 }).notNull().default('open'), // open, closed
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  // Indexes and constraints
+  unique().on(table.organizationId, table.name),
+  index('fiscal_years_organization_idx').on(table.organizationId),
+
+  // RLS Policies
+  pgPolicy('fiscal_years_org_policy', {
+    for: 'all',
+    to: [accountantRole, adminRole, auditorRole, integrationBotRole],
+    using: sql`${table.organizationId} = ${currentOrganizationId}`,
+  }),
+
+  pgPolicy('fiscal_years_write_policy', {
+    for: 'insert',
+    to: [accountantRole, adminRole],
+    withCheck: sql`${table.organizationId} = ${currentOrganizationId}`,
+  }),
+
+  pgPolicy('fiscal_years_update_policy', {
+    for: 'update',
+    to: [accountantRole, adminRole],
+    using: sql`${table.organizationId} = ${currentOrganizationId}`,
+    withCheck: sql`${table.organizationId} = ${currentOrganizationId}`,
+  }),
+]);
+
 // Accounting periods
 export const periods = pgTable('periods', {
   id: uuid('id').primaryKey().default(sql`gen_random_uuid()`),
@@ -40,12 +79,15 @@ export const periods = pgTable('periods', {
   startDate: timestamp('start_date').notNull(),
   endDate: timestamp('end_date').notNull(),
   status: varchar('status', { length: 20 }).notNull().default('open'), // open, closing, closed
+  fiscalYearId: uuid('fiscal_year_id').references(() => fiscalYears.id),
+  isAdjustment: boolean('is_adjustment').default(false).notNull(), // 13th period for year-end adjustments
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 }, (table) => [
   // Indexes
   index('periods_organization_idx').on(table.organizationId),
   index('periods_status_idx').on(table.status),
+  index('periods_fiscal_year_idx').on(table.fiscalYearId),
   
   // RLS Policies
   pgPolicy('periods_org_policy', {
@@ -77,14 +119,23 @@ export const accounts = pgTable('accounts', {
   name: varchar('name', { length: 255 }).notNull(),
   type: varchar('type', { length: 50 }).notNull(), // asset, liability, equity, revenue, expense
   currency: varchar('currency', { length: 3 }).notNull().default('EUR'),
+  parentId: uuid('parent_id'), // Group account this account rolls up into; null for top-level accounts
+  specialPurpose: varchar('special_purpose', { length: 50 }), // FX_GAIN_LOSS, RETAINED_EARNINGS, OPENING_BALANCE
   isActive: boolean('is_active').default(true).notNull(),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 }, (table) => [
   // Indexes and constraints
   unique().on(table.organizationId, table.code),
+  unique('accounts_organization_special_purpose_unique').on(table.organizationId, table.specialPurpose),
   index('accounts_organization_idx').on(table.organizationId),
   index('accounts_type_idx').on(table.type),
+  index('accounts_parent_idx').on(table.parentId),
+  foreignKey({
+    name: 'accounts_parent_id_fk',
+    columns: [table.parentId],
+    foreignColumns: [table.id],
+  }),
   
   // RLS policies
   pgPolicy('accounts_select_policy', {
@@ -166,6 +217,7 @@ export const journals = pgTable('journals', {
   reference: varchar('reference', { length: 255 }),
   postingDate: timestamp('posting_date').notNull(),
   status: varchar('status', { length: 20 }).notNull().default('draft'), // draft, posted, reversed
+  kind: varchar('kind', { length: 20 }).notNull().default('standard'), // standard, closing, opening, revaluation
   totalDebit: decimal('total_debit', { precision: 18, scale: 4 }).notNull(),
   totalCredit: decimal('total_credit', { precision: 18, scale: 4 }).notNull(),
   currency: varchar('currency', { length: 3 }).notNull().default('EUR'),
@@ -230,10 +282,12 @@ export const journalLines = pgTable('journal_lines', {
   originalDebitAmount: decimal('original_debit_amount', { precision: 18, scale: 4 }).default('0'),
   originalCreditAmount: decimal('original_credit_amount', { precision: 18, scale: 4 }).default('0'),
   exchangeRate: decimal('exchange_rate', { precision: 18, scale: 6 }).notNull().default('1'),
+  exchangeRateSource: varchar('exchange_rate_source', { length: 50 }),
   // Tax information
   taxCode: varchar('tax_code', { length: 20 }),
   taxAmount: decimal('tax_amount', { precision: 18, scale: 4 }).default('0'),
   taxRate: decimal('tax_rate', { precision: 5, scale: 4 }).default('0'),
+  partnerVatId: varchar('partner_vat_id', { length: 20 }), // VAT ID of the customer or supplier, e.g. for intra-community supplies
   createdAt: timestamp('created_at').defaultNow().notNull(),
 }, (table) => [
   // Indexes and constraints
@@ -300,7 +354,15 @@ export const idempotencyKeys = pgTable('idempotency_keys', {
     to: [accountantRole, auditorRole, adminRole, integrationBotRole],
     withCheck: sql`${table.organizationId} = ${currentOrganizationId}`,
   }),
-  
+
+  // Updates store the response of a reserved key or reclaim an expired one
+  pgPolicy('idempotency_keys_update_policy', {
+    for: 'update',
+    to: [accountantRole, auditorRole, adminRole, integrationBotRole],
+    using: sql`${table.organizationId} = ${currentOrganizationId}`,
+    withCheck: sql`${table.organizationId} = ${currentOrganizationId}`,
+  }),
+
   pgPolicy('idempotency_keys_delete_policy', {
     for: 'delete',
     to: [adminRole],
@@ -321,10 +383,14 @@ export const auditLog = pgTable('audit_log', {
   requestId: varchar('request_id', { length: 100 }),
   ipAddress: varchar('ip_address', { length: 45 }),
   userAgent: text('user_agent'),
+  apiKeyId: text('api_key_id'), // API key the request was authenticated with; user_id holds the key's owner
+  sequence: integer('sequence'), // Position in the organization's audit chain
+  signaturePrev: varchar('signature_prev', { length: 128 }),
   signature: varchar('signature', { length: 128 }), // For immutable logs
   createdAt: timestamp('created_at').defaultNow().notNull(),
 }, (table) => [
   // Indexes and constraints
+  unique('audit_log_organization_sequence_unique').on(table.organizationId, table.sequence),
   index('audit_log_organization_idx').on(table.organizationId),
   index('audit_entity_idx').on(table.entityType, table.entityId),
   index('audit_date_idx').on(table.createdAt),
@@ -341,12 +407,8 @@ export const auditLog = pgTable('audit_log', {
     to: 'public',
     withCheck: sql`${table.organizationId} = ${currentOrganizationId}`,
   }),
-  
-  pgPolicy('audit_log_delete_policy', {
-    for: 'delete',
-    to: [adminRole],
-    using: sql`${table.organizationId} = ${currentOrganizationId}`,
-  })
+
+  // No update or delete policies: audit entries are append-only
 ]).enableRLS();
 
 // Tax configuration for tenant-specific tax rules
@@ -361,12 +423,14 @@ export const taxConfigs = pgTable('tax_configs', {
   validFrom: timestamp('valid_from').notNull(),
   validTo: timestamp('valid_to'), // null means currently valid
   accountId: uuid('account_id').references(() => accounts.id).notNull(), // Tax liability account
+  treatment: varchar('treatment', { length: 30 }).notNull().default('standard'), // standard, exempt, intra_community_supply, intra_community_service, intra_community_acquisition, reverse_charge
+  inputAccountId: uuid('input_account_id').references(() => accounts.id), // Input tax account of self-assessed codes
   isActive: boolean('is_active').default(true).notNull(),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 }, (table) => [
   // Indexes and constraints
-  unique().on(table.organizationId, table.code),
+  unique().on(table.organizationId, table.code, table.validFrom),
   index('tax_configs_organization_idx').on(table.organizationId),
   index('tax_configs_country_idx').on(table.country),
   index('tax_configs_validity_idx').on(table.validFrom, table.validTo),
@@ -499,6 +563,65 @@ export const bankImportDetails = pgTable('bank_import_details', {
   })
 ]).enableRLS();
 
+// Bank reconciliation decisions: confirmed matches of bank transactions to journal lines, and rejected suggestions
+export const bankMatches = pgTable('bank_matches', {
+  id: uuid('id').primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: text('organization_id').references(() => organization.id).notNull(),
+  accountId: uuid('account_id').references(() => accounts.id).notNull(), // Bank account
+  status: varchar('status', { length: 20 }).notNull(), // confirmed, rejected
+  amount: decimal('amount', { precision: 18, scale: 4 }).notNull(),
+  currency: varchar('currency', { length: 3 }).notNull(),
+  clearedDate: timestamp('cleared_date').notNull(), // Latest date of the matched transactions and journal lines
+  createdBy: text('created_by').references(() => user.id).notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  // Indexes
+  index('bank_matches_organization_idx').on(table.organizationId),
+  index('bank_matches_account_idx').on(table.accountId),
+  index('bank_matches_status_idx').on(table.status),
+
+  // RLS policies
+  pgPolicy('bank_matches_select_policy', {
+    for: 'select',
+    to: [accountantRole, auditorRole, adminRole, integrationBotRole],
+    using: sql`${table.organizationId} = ${currentOrganizationId}`,
+  }),
+
+  pgPolicy('bank_matches_insert_policy', {
+    for: 'insert',
+    to: [accountantRole, adminRole, integrationBotRole],
+    withCheck: sql`${table.organizationId} = ${currentOrganizationId}`,
+  })
+]).enableRLS();
+
+// Bank transactions and journal lines of a match; each item references exactly one of them
+export const bankMatchItems = pgTable('bank_match_items', {
+  id: uuid('id').primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: text('organization_id').references(() => organization.id).notNull(),
+  matchId: uuid('match_id').references(() => bankMatches.id).notNull(),
+  bankTransactionId: uuid('bank_transaction_id').references(() => bankImportDetails.id),
+  journalLineId: uuid('journal_line_id').references(() => journalLines.id),
+}, (table) => [
+  // Indexes
+  index('bank_match_items_organization_idx').on(table.organizationId),
+  index('bank_match_items_match_idx').on(table.matchId),
+  index('bank_match_items_transaction_idx').on(table.bankTransactionId),
+  index('bank_match_items_journal_line_idx').on(table.journalLineId),
+
+  // RLS policies
+  pgPolicy('bank_match_items_select_policy', {
+    for: 'select',
+    to: [accountantRole, auditorRole, adminRole, integrationBotRole],
+    using: sql`${table.organizationId} = ${currentOrganizationId}`,
+  }),
+
+  pgPolicy('bank_match_items_insert_policy', {
+    for: 'insert',
+    to: [accountantRole, adminRole, integrationBotRole],
+    withCheck: sql`${table.organizationId} = ${currentOrganizationId}`,
+  })
+]).enableRLS();
+
 // ============================================================================
 // BETTER AUTH TABLES
 // ============================================================================
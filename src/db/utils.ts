@@ -1,6 +1,28 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
 import { db, queryClient } from './connection';
 import { sql } from 'drizzle-orm';
 
+export type Database = typeof db;
+export type Transaction = Parameters<Parameters<Database['transaction']>[0]>[0];
+
+const transactionStorage = new AsyncLocalStorage<Transaction>();
+
+/**
+ * Get the transaction the caller runs in, or the pooled database outside of a transaction
+ * Repositories query through it so that their changes take part in an enclosing withTransaction.
+ */
+export function currentDb(): Database | Transaction {
+  return transactionStorage.getStore() ?? db;
+}
+
+/**
+ * Execute a database operation in a transaction shared by all repositories called within it
+ * Nested calls run in a savepoint of the enclosing transaction; the transaction rolls back when the operation throws.
+ */
+export async function withTransaction<T>(operation: () => Promise<T>): Promise<T> {
+  return await currentDb().transaction(async (tx) => transactionStorage.run(tx, operation));
+}
+
 export interface OrganizationContext {
   organizationId: string;
   userId?: string;
@@ -16,23 +38,24 @@ export async function withOrganizationContext<T>(
   operation: () => Promise<T>
 ): Promise<T> {
   // Set session variables for RLS
-  await db.execute(sql`SELECT set_config('app.organization_id', ${context.organizationId}, true)`);
+  const database = currentDb();
+  await database.execute(sql`SELECT set_config('app.organization_id', ${context.organizationId}, true)`);
   
   if (context.userId) {
-    await db.execute(sql`SELECT set_config('app.user_id', ${context.userId}, true)`);
+    await database.execute(sql`SELECT set_config('app.user_id', ${context.userId}, true)`);
   }
   
   if (context.userRole) {
-    await db.execute(sql`SELECT set_config('app.user_role', ${context.userRole}, true)`);
+    await database.execute(sql`SELECT set_config('app.user_role', ${context.userRole}, true)`);
   }
 
   try {
     return await operation();
   } finally {
     // Clear session variables
-    await db.execute(sql`SELECT set_config('app.organization_id', '', true)`);
-    await db.execute(sql`SELECT set_config('app.user_id', '', true)`);
-    await db.execute(sql`SELECT set_config('app.user_role', '', true)`);
+    await database.execute(sql`SELECT set_config('app.organization_id', '', true)`);
+    await database.execute(sql`SELECT set_config('app.user_id', '', true)`);
+    await database.execute(sql`SELECT set_config('app.user_role', '', true)`);
   }
 }
 
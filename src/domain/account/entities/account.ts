@@ -0,0 +1,260 @@
+import {
+  AccountId,
+  OrganizationId,
+  AccountType,
+  SpecialAccountPurpose,
+  Currency,
+  DomainError,
+  domainError,
+  DomainErrorCodes
+} from '../../shared/types';
+import { Result, success, failure } from '../../shared/result';
+
+export const ACCOUNT_TYPES: readonly AccountType[] = ['asset', 'liability', 'equity', 'revenue', 'expense'];
+export const SPECIAL_ACCOUNT_PURPOSES: readonly SpecialAccountPurpose[] = [
+  'FX_GAIN_LOSS', // Realized and unrealized exchange differences
+  'RETAINED_EARNINGS', // Receives the profit or loss at year-end close
+  'OPENING_BALANCE' // Counter account of opening journals
+];
+
+const ACCOUNT_CODE_PATTERN = /^[A-Za-z0-9][A-Za-z0-9.-]{0,19}$/;
+const MAX_NAME_LENGTH = 255;
+
+/**
+ * Account entity of an organization's chart of accounts
+ */
+export class Account {
+  private constructor(
+    public readonly id: AccountId,
+    public readonly organizationId: OrganizationId,
+    public readonly code: string,
+    public readonly name: string,
+    public readonly type: AccountType,
+    public readonly currency: Currency,
+    public readonly parentId: AccountId | undefined,
+    public readonly specialPurpose: SpecialAccountPurpose | undefined,
+    public readonly isActive: boolean,
+    public readonly createdAt: Date,
+    public readonly updatedAt: Date
+  ) {}
+
+  /**
+   * Create a new active account
+   */
+  static create(props: CreateAccountProps): Result<Account, DomainError> {
+    const validation = Account.validate(props.code, props.name, props.type, props.currency, props.specialPurpose);
+    if (validation.isFailure()) {
+      return failure(validation.error);
+    }
+
+    const now = new Date();
+
+    return success(new Account(
+      props.id,
+      props.organizationId,
+      props.code.trim(),
+      props.name.trim(),
+      props.type,
+      props.currency,
+      props.parentId,
+      props.specialPurpose,
+      true, // New accounts start as active
+      now,
+      now
+    ));
+  }
+
+  /**
+   * Check if journal lines may be posted to this account
+   */
+  allowsPosting(): boolean {
+    return this.isActive;
+  }
+
+  /**
+   * Side on which the balance of this account type increases
+   */
+  getNormalBalance(): 'debit' | 'credit' {
+    return this.type === 'asset' || this.type === 'expense' ? 'debit' : 'credit';
+  }
+
+  /**
+   * Check if this account appears on the balance sheet (vs. profit and loss)
+   */
+  isBalanceSheetAccount(): boolean {
+    return this.type === 'asset' || this.type === 'liability' || this.type === 'equity';
+  }
+
+  /**
+   * Deactivate the account; existing postings stay untouched
+   */
+  deactivate(): Result<Account, DomainError> {
+    if (!this.isActive) {
+      return failure(domainError(
+        DomainErrorCodes.BUSINESS_RULE_VIOLATION,
+        'Account is already inactive'
+      ));
+    }
+
+    return success(this.withChanges({ isActive: false }));
+  }
+
+  /**
+   * Reactivate an inactive account
+   */
+  activate(): Result<Account, DomainError> {
+    if (this.isActive) {
+      return failure(domainError(
+        DomainErrorCodes.BUSINESS_RULE_VIOLATION,
+        'Account is already active'
+      ));
+    }
+
+    return success(this.withChanges({ isActive: true }));
+  }
+
+  /**
+   * Update account properties
+   */
+  update(updates: UpdateAccountProps): Result<Account, DomainError> {
+    const code = updates.code?.trim() ?? this.code;
+    const name = updates.name?.trim() ?? this.name;
+    const type = updates.type ?? this.type;
+    const currency = updates.currency ?? this.currency;
+    const parentId = updates.parentId === undefined ? this.parentId : updates.parentId ?? undefined;
+    const specialPurpose = updates.specialPurpose === undefined
+      ? this.specialPurpose
+      : updates.specialPurpose ?? undefined;
+
+    const validation = Account.validate(code, name, type, currency, specialPurpose);
+    if (validation.isFailure()) {
+      return failure(validation.error);
+    }
+
+    if (parentId === this.id) {
+      return failure(domainError(
+        DomainErrorCodes.VALIDATION_FAILED,
+        'An account cannot be its own parent',
+        { accountId: this.id }
+      ));
+    }
+
+    return success(this.withChanges({ code, name, type, currency, parentId, specialPurpose }));
+  }
+
+  /**
+   * Convert to the plain snapshot stored in the audit log
+   */
+  toAuditData(): Record<string, unknown> {
+    return {
+      id: this.id,
+      code: this.code,
+      name: this.name,
+      type: this.type,
+      currency: this.currency,
+      parentId: this.parentId ?? null,
+      specialPurpose: this.specialPurpose ?? null,
+      isActive: this.isActive
+    };
+  }
+
+  /**
+   * Validate the editable account fields
+   */
+  private static validate(
+    code: string,
+    name: string,
+    type: AccountType,
+    currency: Currency,
+    specialPurpose: SpecialAccountPurpose | undefined
+  ): Result<void, DomainError> {
+    if (!ACCOUNT_CODE_PATTERN.test(code.trim())) {
+      return failure(domainError(
+        DomainErrorCodes.VALIDATION_FAILED,
+        'Account code must be 1-20 letters, digits, dots or dashes',
+        { code }
+      ));
+    }
+
+    if (!name.trim()) {
+      return failure(domainError(
+        DomainErrorCodes.VALIDATION_FAILED,
+        'Account name is required'
+      ));
+    }
+
+    if (name.trim().length > MAX_NAME_LENGTH) {
+      return failure(domainError(
+        DomainErrorCodes.VALIDATION_FAILED,
+        `Account name cannot exceed ${MAX_NAME_LENGTH} characters`
+      ));
+    }
+
+    if (!ACCOUNT_TYPES.includes(type)) {
+      return failure(domainError(
+        DomainErrorCodes.VALIDATION_FAILED,
+        `Account type must be one of: ${ACCOUNT_TYPES.join(', ')}`,
+        { type }
+      ));
+    }
+
+    if (!/^[A-Z]{3}$/.test(currency)) {
+      return failure(domainError(
+        DomainErrorCodes.VALIDATION_FAILED,
+        'Account currency must be an ISO 4217 code',
+        { currency }
+      ));
+    }
+
+    if (specialPurpose !== undefined && !SPECIAL_ACCOUNT_PURPOSES.includes(specialPurpose)) {
+      return failure(domainError(
+        DomainErrorCodes.VALIDATION_FAILED,
+        `Special purpose must be one of: ${SPECIAL_ACCOUNT_PURPOSES.join(', ')}`,
+        { specialPurpose }
+      ));
+    }
+
+    return success(undefined);
+  }
+
+  /**
+   * Copy the account with changed properties
+   */
+  private withChanges(
+    changes: Partial<Pick<Account, 'code' | 'name' | 'type' | 'currency' | 'parentId' | 'specialPurpose' | 'isActive'>>
+  ): Account {
+    return new Account(
+      this.id,
+      this.organizationId,
+      changes.code ?? this.code,
+      changes.name ?? this.name,
+      changes.type ?? this.type,
+      changes.currency ?? this.currency,
+      'parentId' in changes ? changes.parentId : this.parentId,
+      'specialPurpose' in changes ? changes.specialPurpose : this.specialPurpose,
+      changes.isActive ?? this.isActive,
+      this.createdAt,
+      new Date()
+    );
+  }
+}
+
+export interface CreateAccountProps {
+  readonly id: AccountId;
+  readonly organizationId: OrganizationId;
+  readonly code: string;
+  readonly name: string;
+  readonly type: AccountType;
+  readonly currency: Currency;
+  readonly parentId?: AccountId;
+  readonly specialPurpose?: SpecialAccountPurpose;
+}
+
+export interface UpdateAccountProps {
+  readonly code?: string;
+  readonly name?: string;
+  readonly type?: AccountType;
+  readonly currency?: Currency;
+  readonly parentId?: AccountId | null; // null moves the account to the top level
+  readonly specialPurpose?: SpecialAccountPurpose | null; // null removes the purpose
+}
@@ -0,0 +1,77 @@
+import { OrganizationId, AccountId, AccountType, SpecialAccountPurpose, DomainError } from '../../shared/types';
+import { Result } from '../../shared/result';
+import { Account } from '../entities/account';
+
+/**
+ * Account repository interface for data access
+ */
+export interface AccountRepository {
+  /**
+   * Find account by ID
+   */
+  findById(accountId: AccountId, organizationId: OrganizationId): Promise<Result<Account | null, DomainError>>;
+
+  /**
+   * Find accounts by IDs; unknown IDs are omitted from the result
+   */
+  findByIds(accountIds: readonly AccountId[], organizationId: OrganizationId): Promise<Result<Account[], DomainError>>;
+
+  /**
+   * Find account by code
+   */
+  findByCode(code: string, organizationId: OrganizationId): Promise<Result<Account | null, DomainError>>;
+
+  /**
+   * Find the account designated for a special purpose
+   */
+  findBySpecialPurpose(
+    purpose: SpecialAccountPurpose,
+    organizationId: OrganizationId
+  ): Promise<Result<Account | null, DomainError>>;
+
+  /**
+   * Find accounts of an organization ordered by code
+   */
+  findByOrganization(
+    organizationId: OrganizationId,
+    filters?: AccountFilters
+  ): Promise<Result<Account[], DomainError>>;
+
+  /**
+   * Check if an account code is taken, optionally ignoring one account
+   */
+  existsByCode(
+    code: string,
+    organizationId: OrganizationId,
+    excludeAccountId?: AccountId
+  ): Promise<Result<boolean, DomainError>>;
+
+  /**
+   * Check if any journal line references the account
+   */
+  hasJournalLines(accountId: AccountId, organizationId: OrganizationId): Promise<Result<boolean, DomainError>>;
+
+  /**
+   * Find which of the given accounts have child accounts
+   */
+  findGroupAccountIds(
+    accountIds: readonly AccountId[],
+    organizationId: OrganizationId
+  ): Promise<Result<AccountId[], DomainError>>;
+
+  /**
+   * Save account
+   */
+  save(account: Account): Promise<Result<Account, DomainError>>;
+
+  /**
+   * Delete account (only if no journal lines or child accounts reference it)
+   */
+  delete(accountId: AccountId, organizationId: OrganizationId): Promise<Result<void, DomainError>>;
+}
+
+export interface AccountFilters {
+  readonly type?: AccountType;
+  readonly isActive?: boolean;
+  readonly searchTerm?: string; // Matches code prefix or name
+}
@@ -0,0 +1,544 @@
+import {
+  OrganizationId,
+  AccountId,
+  SpecialAccountPurpose,
+  AuditContext,
+  DomainError,
+  domainError,
+  DomainErrorCodes,
+  currency
+} from '../../shared/types';
+import { Result, success, failure } from '../../shared/result';
+import { UnitOfWork } from '../../shared/unit-of-work';
+import { Account, CreateAccountProps, UpdateAccountProps } from '../entities/account';
+import { AccountRepository, AccountFilters } from '../repositories/account-repository';
+import { AccountTree } from '../value-objects/account-tree';
+import { ChartOfAccountsTemplate } from '../templates';
+import { AuditAction } from '../../audit/entities/audit-entry';
+import { AuditService } from '../../audit/services/audit-service';
+
+/**
+ * Account domain service for the chart of accounts
+ */
+export class AccountService {
+  constructor(
+    private readonly accountRepository: AccountRepository,
+    private readonly auditService: AuditService,
+    private readonly unitOfWork: UnitOfWork
+  ) {}
+
+  /**
+   * Create a new account with a unique code
+   */
+  async createAccount(props: CreateAccountProps, auditContext?: AuditContext): Promise<Result<Account, DomainError>> {
+    const accountResult = Account.create(props);
+    if (accountResult.isFailure()) {
+      return failure(accountResult.error);
+    }
+
+    const account = accountResult.value;
+
+    const existsResult = await this.accountRepository.existsByCode(account.code, props.organizationId);
+    if (existsResult.isFailure()) {
+      return failure(existsResult.error);
+    }
+
+    if (existsResult.value) {
+      return failure(domainError(
+        DomainErrorCodes.BUSINESS_RULE_VIOLATION,
+        'Account code already exists',
+        { code: account.code }
+      ));
+    }
+
+    if (account.parentId) {
+      const parentResult = await this.validateParent(account.id, account.parentId, props.organizationId);
+      if (parentResult.isFailure()) {
+        return failure(parentResult.error);
+      }
+    }
+
+    if (account.specialPurpose) {
+      const purposeResult = await this.validateSpecialPurpose(account.id, account.specialPurpose, props.organizationId);
+      if (purposeResult.isFailure()) {
+        return failure(purposeResult.error);
+      }
+    }
+
+    return await this.saveWithAudit('CREATE', account, undefined, auditContext);
+  }
+
+  /**
+   * Update an account; code, type and currency are fixed once journal lines reference it
+   * Moving the account to another parent keeps its postings, which then roll up into the new parent
+   */
+  async updateAccount(
+    accountId: AccountId,
+    organizationId: OrganizationId,
+    updates: UpdateAccountProps,
+    auditContext?: AuditContext
+  ): Promise<Result<Account, DomainError>> {
+    const accountResult = await this.getAccount(accountId, organizationId);
+    if (accountResult.isFailure()) {
+      return failure(accountResult.error);
+    }
+
+    const account = accountResult.value;
+    const updatedResult = account.update(updates);
+    if (updatedResult.isFailure()) {
+      return failure(updatedResult.error);
+    }
+
+    const updated = updatedResult.value;
+    const changesStructure = updated.code !== account.code ||
+      updated.type !== account.type ||
+      updated.currency !== account.currency;
+
+    if (changesStructure) {
+      const usedResult = await this.accountRepository.hasJournalLines(accountId, organizationId);
+      if (usedResult.isFailure()) {
+        return failure(usedResult.error);
+      }
+
+      if (usedResult.value) {
+        return failure(domainError(
+          DomainErrorCodes.BUSINESS_RULE_VIOLATION,
+          'Code, type and currency of an account with journal lines cannot be changed',
+          { accountId, code: account.code }
+        ));
+      }
+    }
+
+    if (updated.code !== account.code) {
+      const existsResult = await this.accountRepository.existsByCode(updated.code, organizationId, accountId);
+      if (existsResult.isFailure()) {
+        return failure(existsResult.error);
+      }
+
+      if (existsResult.value) {
+        return failure(domainError(
+          DomainErrorCodes.BUSINESS_RULE_VIOLATION,
+          'Account code already exists',
+          { code: updated.code }
+        ));
+      }
+    }
+
+    if (updated.parentId && updated.parentId !== account.parentId) {
+      const parentResult = await this.validateParent(accountId, updated.parentId, organizationId);
+      if (parentResult.isFailure()) {
+        return failure(parentResult.error);
+      }
+    }
+
+    if (updated.specialPurpose && updated.specialPurpose !== account.specialPurpose) {
+      const purposeResult = await this.validateSpecialPurpose(accountId, updated.specialPurpose, organizationId);
+      if (purposeResult.isFailure()) {
+        return failure(purposeResult.error);
+      }
+    }
+
+    return await this.saveWithAudit('UPDATE', updated, account, auditContext);
+  }
+
+  /**
+   * Deactivate an account so that no further journals can be posted to it
+   */
+  async deactivateAccount(
+    accountId: AccountId,
+    organizationId: OrganizationId,
+    auditContext?: AuditContext
+  ): Promise<Result<Account, DomainError>> {
+    const accountResult = await this.getAccount(accountId, organizationId);
+    if (accountResult.isFailure()) {
+      return failure(accountResult.error);
+    }
+
+    const deactivatedResult = accountResult.value.deactivate();
+    if (deactivatedResult.isFailure()) {
+      return failure(deactivatedResult.error);
+    }
+
+    return await this.saveWithAudit('DEACTIVATE', deactivatedResult.value, accountResult.value, auditContext);
+  }
+
+  /**
+   * Reactivate an inactive account
+   */
+  async activateAccount(
+    accountId: AccountId,
+    organizationId: OrganizationId,
+    auditContext?: AuditContext
+  ): Promise<Result<Account, DomainError>> {
+    const accountResult = await this.getAccount(accountId, organizationId);
+    if (accountResult.isFailure()) {
+      return failure(accountResult.error);
+    }
+
+    const activatedResult = accountResult.value.activate();
+    if (activatedResult.isFailure()) {
+      return failure(activatedResult.error);
+    }
+
+    return await this.saveWithAudit('ACTIVATE', activatedResult.value, accountResult.value, auditContext);
+  }
+
+  /**
+   * Delete an account that no journal line references
+   */
+  async deleteAccount(
+    accountId: AccountId,
+    organizationId: OrganizationId,
+    auditContext?: AuditContext
+  ): Promise<Result<void, DomainError>> {
+    const accountResult = await this.getAccount(accountId, organizationId);
+    if (accountResult.isFailure()) {
+      return failure(accountResult.error);
+    }
+
+    const usedResult = await this.accountRepository.hasJournalLines(accountId, organizationId);
+    if (usedResult.isFailure()) {
+      return failure(usedResult.error);
+    }
+
+    if (usedResult.value) {
+      return failure(domainError(
+        DomainErrorCodes.BUSINESS_RULE_VIOLATION,
+        'Accounts with journal lines cannot be deleted, deactivate them instead',
+        { accountId, code: accountResult.value.code }
+      ));
+    }
+
+    const groupResult = await this.accountRepository.findGroupAccountIds([accountId], organizationId);
+    if (groupResult.isFailure()) {
+      return failure(groupResult.error);
+    }
+
+    if (groupResult.value.length > 0) {
+      return failure(domainError(
+        DomainErrorCodes.BUSINESS_RULE_VIOLATION,
+        'Accounts with child accounts cannot be deleted',
+        { accountId, code: accountResult.value.code }
+      ));
+    }
+
+    return await this.unitOfWork.run(async () => {
+      const deleteResult = await this.accountRepository.delete(accountId, organizationId);
+      if (deleteResult.isFailure()) {
+        return deleteResult;
+      }
+
+      const auditResult = await this.auditService.record({
+        organizationId,
+        entityType: 'account',
+        entityId: accountId,
+        action: 'DELETE',
+        oldData: accountResult.value.toAuditData(),
+        auditContext
+      });
+
+      if (auditResult.isFailure()) {
+        return failure(auditResult.error);
+      }
+
+      return deleteResult;
+    });
+  }
+
+  /**
+   * Find account by ID
+   */
+  async findAccount(
+    accountId: AccountId,
+    organizationId: OrganizationId
+  ): Promise<Result<Account | null, DomainError>> {
+    return await this.accountRepository.findById(accountId, organizationId);
+  }
+
+  /**
+   * Find account by code
+   */
+  async findByCode(code: string, organizationId: OrganizationId): Promise<Result<Account | null, DomainError>> {
+    return await this.accountRepository.findByCode(code, organizationId);
+  }
+
+  /**
+   * Find the account designated for a special purpose, failing if none is configured
+   */
+  async findSpecialAccount(
+    purpose: SpecialAccountPurpose,
+    organizationId: OrganizationId
+  ): Promise<Result<Account, DomainError>> {
+    const accountResult = await this.accountRepository.findBySpecialPurpose(purpose, organizationId);
+    if (accountResult.isFailure()) {
+      return failure(accountResult.error);
+    }
+
+    if (!accountResult.value) {
+      return failure(domainError(
+        DomainErrorCodes.ENTITY_NOT_FOUND,
+        `No account is designated for ${purpose}`,
+        { specialPurpose: purpose }
+      ));
+    }
+
+    return success(accountResult.value);
+  }
+
+  /**
+   * List the chart of accounts of an organization
+   */
+  async listAccounts(
+    organizationId: OrganizationId,
+    filters?: AccountFilters
+  ): Promise<Result<Account[], DomainError>> {
+    return await this.accountRepository.findByOrganization(organizationId, filters);
+  }
+
+  /**
+   * Create the accounts of a template that the organization does not have yet
+   * Accounts are matched by code, so applying a template again only fills gaps;
+   * special purposes already taken by other accounts are left with them
+   */
+  async applyTemplate(
+    organizationId: OrganizationId,
+    template: ChartOfAccountsTemplate,
+    auditContext?: AuditContext
+  ): Promise<Result<AppliedChartOfAccountsTemplate, DomainError>> {
+    const existingResult = await this.accountRepository.findByOrganization(organizationId);
+    if (existingResult.isFailure()) {
+      return failure(existingResult.error);
+    }
+
+    const accountsByCode = new Map(existingResult.value.map(account => [account.code, account]));
+    const takenPurposes = new Set(existingResult.value.map(account => account.specialPurpose));
+    const created: Account[] = [];
+
+    for (const templateAccount of template.accounts) {
+      if (accountsByCode.has(templateAccount.code)) {
+        continue;
+      }
+
+      const parent = templateAccount.parentCode ? accountsByCode.get(templateAccount.parentCode) : undefined;
+      if (templateAccount.parentCode && !parent) {
+        return failure(domainError(
+          DomainErrorCodes.VALIDATION_FAILED,
+          'Template lists an account before its parent',
+          { templateId: template.id, code: templateAccount.code, parentCode: templateAccount.parentCode }
+        ));
+      }
+
+      const accountResult = Account.create({
+        id: crypto.randomUUID() as AccountId,
+        organizationId,
+        code: templateAccount.code,
+        name: templateAccount.name,
+        type: templateAccount.type,
+        currency: currency(template.currency),
+        parentId: parent?.id,
+        specialPurpose: takenPurposes.has(templateAccount.specialPurpose)
+          ? undefined
+          : templateAccount.specialPurpose
+      });
+
+      if (accountResult.isFailure()) {
+        return failure(accountResult.error);
+      }
+
+      const saveResult = await this.saveWithAudit('CREATE', accountResult.value, undefined, auditContext);
+      if (saveResult.isFailure()) {
+        return failure(saveResult.error);
+      }
+
+      accountsByCode.set(saveResult.value.code, saveResult.value);
+      takenPurposes.add(saveResult.value.specialPurpose);
+      created.push(saveResult.value);
+    }
+
+    return success({ accountsByCode, created });
+  }
+
+  /**
+   * Get the chart of accounts of an organization as a tree
+   */
+  async getAccountTree(organizationId: OrganizationId): Promise<Result<AccountTree, DomainError>> {
+    const accountsResult = await this.accountRepository.findByOrganization(organizationId);
+    if (accountsResult.isFailure()) {
+      return failure(accountsResult.error);
+    }
+
+    return success(AccountTree.build(accountsResult.value));
+  }
+
+  /**
+   * Validate that all accounts exist, are active and are leaf accounts
+   */
+  async validateAccountsForPosting(
+    accountIds: readonly AccountId[],
+    organizationId: OrganizationId
+  ): Promise<Result<void, DomainError>> {
+    const uniqueIds = [...new Set(accountIds)];
+
+    const accountsResult = await this.accountRepository.findByIds(uniqueIds, organizationId);
+    if (accountsResult.isFailure()) {
+      return failure(accountsResult.error);
+    }
+
+    const groupResult = await this.accountRepository.findGroupAccountIds(uniqueIds, organizationId);
+    if (groupResult.isFailure()) {
+      return failure(groupResult.error);
+    }
+
+    const accounts = new Map(accountsResult.value.map(account => [account.id, account]));
+    const groupIds = new Set(groupResult.value);
+    const unknownAccountIds = uniqueIds.filter(id => !accounts.has(id));
+    const inactiveAccounts = accountsResult.value
+      .filter(account => !account.allowsPosting())
+      .map(account => ({ id: account.id, code: account.code }));
+    const groupAccounts = accountsResult.value
+      .filter(account => groupIds.has(account.id))
+      .map(account => ({ id: account.id, code: account.code }));
+
+    if (unknownAccountIds.length > 0 || inactiveAccounts.length > 0 || groupAccounts.length > 0) {
+      return failure(domainError(
+        DomainErrorCodes.INVALID_ACCOUNT,
+        'Journal lines must reference existing, active leaf accounts',
+        { unknownAccountIds, inactiveAccounts, groupAccounts }
+      ));
+    }
+
+    return success(undefined);
+  }
+
+  /**
+   * Validate a new parent: it must exist, must not be a descendant of the account
+   * and must not have journal lines, since group accounts cannot receive postings
+   */
+  private async validateParent(
+    accountId: AccountId,
+    parentId: AccountId,
+    organizationId: OrganizationId
+  ): Promise<Result<void, DomainError>> {
+    const treeResult = await this.getAccountTree(organizationId);
+    if (treeResult.isFailure()) {
+      return failure(treeResult.error);
+    }
+
+    const tree = treeResult.value;
+    if (!tree.get(parentId)) {
+      return failure(domainError(
+        DomainErrorCodes.ENTITY_NOT_FOUND,
+        'Parent account not found',
+        { parentId }
+      ));
+    }
+
+    if (tree.wouldCreateCycle(accountId, parentId)) {
+      return failure(domainError(
+        DomainErrorCodes.BUSINESS_RULE_VIOLATION,
+        'An account cannot be moved below itself or one of its descendants',
+        { accountId, parentId }
+      ));
+    }
+
+    const usedResult = await this.accountRepository.hasJournalLines(parentId, organizationId);
+    if (usedResult.isFailure()) {
+      return failure(usedResult.error);
+    }
+
+    if (usedResult.value) {
+      return failure(domainError(
+        DomainErrorCodes.BUSINESS_RULE_VIOLATION,
+        'An account with journal lines cannot become a group account',
+        { parentId }
+      ));
+    }
+
+    return success(undefined);
+  }
+
+  /**
+   * Validate that no other account is designated for a special purpose
+   */
+  private async validateSpecialPurpose(
+    accountId: AccountId,
+    purpose: SpecialAccountPurpose,
+    organizationId: OrganizationId
+  ): Promise<Result<void, DomainError>> {
+    const existingResult = await this.accountRepository.findBySpecialPurpose(purpose, organizationId);
+    if (existingResult.isFailure()) {
+      return failure(existingResult.error);
+    }
+
+    if (existingResult.value && existingResult.value.id !== accountId) {
+      return failure(domainError(
+        DomainErrorCodes.BUSINESS_RULE_VIOLATION,
+        `Account ${existingResult.value.code} is already designated for ${purpose}`,
+        { specialPurpose: purpose, accountId: existingResult.value.id }
+      ));
+    }
+
+    return success(undefined);
+  }
+
+  /**
+   * Load an account or fail with ENTITY_NOT_FOUND
+   */
+  private async getAccount(
+    accountId: AccountId,
+    organizationId: OrganizationId
+  ): Promise<Result<Account, DomainError>> {
+    const accountResult = await this.accountRepository.findById(accountId, organizationId);
+    if (accountResult.isFailure()) {
+      return failure(accountResult.error);
+    }
+
+    if (!accountResult.value) {
+      return failure(domainError(
+        DomainErrorCodes.ENTITY_NOT_FOUND,
+        'Account not found',
+        { accountId }
+      ));
+    }
+
+    return success(accountResult.value);
+  }
+
+  /**
+   * Save an account and record the mutation in the audit log
+   */
+  private async saveWithAudit(
+    action: AuditAction,
+    account: Account,
+    previous: Account | undefined,
+    auditContext?: AuditContext
+  ): Promise<Result<Account, DomainError>> {
+    return await this.unitOfWork.run(async () => {
+      const saveResult = await this.accountRepository.save(account);
+      if (saveResult.isFailure()) {
+        return saveResult;
+      }
+
+      const auditResult = await this.auditService.record({
+        organizationId: account.organizationId,
+        entityType: 'account',
+        entityId: account.id,
+        action,
+        oldData: previous?.toAuditData(),
+        newData: saveResult.value.toAuditData(),
+        auditContext
+      });
+
+      if (auditResult.isFailure()) {
+        return failure(auditResult.error);
+      }
+
+      return saveResult;
+    });
+  }
+}
+
+export interface AppliedChartOfAccountsTemplate {
+  readonly accountsByCode: ReadonlyMap<string, Account>; // Existing and created accounts
+  readonly created: Account[];
+}
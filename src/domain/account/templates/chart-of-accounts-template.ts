@@ -0,0 +1,35 @@
+import { AccountType, SpecialAccountPurpose } from '../../shared/types';
+import { TaxTreatment } from '../../tax/entities/tax-config';
+
+export type ChartOfAccountsTemplateId = 'EKR' | 'SKR03' | 'SKR04' | 'IFRS';
+
+/**
+ * Predefined chart of accounts used to seed a new organization
+ */
+export interface ChartOfAccountsTemplate {
+  readonly id: ChartOfAccountsTemplateId;
+  readonly name: string;
+  readonly description: string;
+  readonly currency: string;
+  readonly accounts: readonly TemplateAccount[]; // Parents are listed before their children
+  readonly taxConfigs: readonly TemplateTaxConfig[];
+}
+
+export interface TemplateAccount {
+  readonly code: string;
+  readonly name: string;
+  readonly type: AccountType;
+  readonly parentCode?: string;
+  readonly specialPurpose?: SpecialAccountPurpose;
+}
+
+export interface TemplateTaxConfig {
+  readonly code: string;
+  readonly name: string;
+  readonly rate: string;
+  readonly country: string;
+  readonly validFrom: string; // ISO 8601 date
+  readonly accountCode: string; // Account receiving the tax amounts
+  readonly treatment?: TaxTreatment; // Defaults to standard
+  readonly inputAccountCode?: string; // Input tax account of self-assessed codes
+}
@@ -0,0 +1,127 @@
+import { ChartOfAccountsTemplate } from './chart-of-accounts-template';
+
+/**
+ * Austrian Einheitskontenrahmen (EKR) for companies reporting under the UGB
+ * Classes 0–9 are group accounts; the leaf accounts cover the common postings of a trading company
+ */
+export const EKR_TEMPLATE: ChartOfAccountsTemplate = {
+  id: 'EKR',
+  name: 'Einheitskontenrahmen (EKR)',
+  description: 'Austrian standard chart of accounts for UGB financial statements',
+  currency: 'EUR',
+  accounts: [
+    { code: '0', name: 'Anlagevermögen', type: 'asset' },
+    { code: '0200', name: 'Unbebaute Grundstücke', type: 'asset', parentCode: '0' },
+    { code: '0300', name: 'Betriebs- und Geschäftsgebäude', type: 'asset', parentCode: '0' },
+    { code: '0400', name: 'Maschinen und maschinelle Anlagen', type: 'asset', parentCode: '0' },
+    { code: '0630', name: 'PKW und Kombis', type: 'asset', parentCode: '0' },
+    { code: '0660', name: 'Betriebs- und Geschäftsausstattung', type: 'asset', parentCode: '0' },
+
+    { code: '1', name: 'Vorräte', type: 'asset' },
+    { code: '1100', name: 'Rohstoffe', type: 'asset', parentCode: '1' },
+    { code: '1600', name: 'Handelswaren', type: 'asset', parentCode: '1' },
+
+    { code: '2', name: 'Sonstiges Umlaufvermögen, Rechnungsabgrenzungen', type: 'asset' },
+    { code: '2000', name: 'Lieferforderungen Inland', type: 'asset', parentCode: '2' },
+    { code: '2100', name: 'Lieferforderungen EU', type: 'asset', parentCode: '2' },
+    { code: '2500', name: 'Vorsteuer', type: 'asset', parentCode: '2' },
+    { code: '2700', name: 'Kassa', type: 'asset', parentCode: '2' },
+    { code: '2800', name: 'Bank', type: 'asset', parentCode: '2' },
+    { code: '2900', name: 'Aktive Rechnungsabgrenzung', type: 'asset', parentCode: '2' },
+
+    { code: '3', name: 'Rückstellungen, Verbindlichkeiten, Rechnungsabgrenzungen', type: 'liability' },
+    { code: '3000', name: 'Rückstellungen für Abfertigungen', type: 'liability', parentCode: '3' },
+    { code: '3100', name: 'Verbindlichkeiten gegenüber Kreditinstituten', type: 'liability', parentCode: '3' },
+    { code: '3300', name: 'Lieferverbindlichkeiten Inland', type: 'liability', parentCode: '3' },
+    { code: '3500', name: 'Umsatzsteuer', type: 'liability', parentCode: '3' },
+    { code: '3540', name: 'Verrechnung Finanzamt', type: 'liability', parentCode: '3' },
+    { code: '3600', name: 'Verbindlichkeiten Sozialversicherung', type: 'liability', parentCode: '3' },
+
+    { code: '4', name: 'Betriebliche Erträge', type: 'revenue' },
+    { code: '4000', name: 'Umsatzerlöse 20 %', type: 'revenue', parentCode: '4' },
+    { code: '4010', name: 'Umsatzerlöse 10 %', type: 'revenue', parentCode: '4' },
+    { code: '4020', name: 'Umsatzerlöse 13 %', type: 'revenue', parentCode: '4' },
+    { code: '4100', name: 'Innergemeinschaftliche Lieferungen', type: 'revenue', parentCode: '4' },
+    { code: '4860', name: 'Kursdifferenzen', type: 'revenue', parentCode: '4', specialPurpose: 'FX_GAIN_LOSS' },
+
+    { code: '5', name: 'Material- und Herstellungsaufwand', type: 'expense' },
+    { code: '5010', name: 'Handelswareneinsatz', type: 'expense', parentCode: '5' },
+    { code: '5100', name: 'Verbrauch Rohstoffe', type: 'expense', parentCode: '5' },
+
+    { code: '6', name: 'Personalaufwand', type: 'expense' },
+    { code: '6000', name: 'Löhne', type: 'expense', parentCode: '6' },
+    { code: '6200', name: 'Gehälter', type: 'expense', parentCode: '6' },
+    { code: '6500', name: 'Gesetzlicher Sozialaufwand', type: 'expense', parentCode: '6' },
+
+    { code: '7', name: 'Abschreibungen, sonstige betriebliche Aufwendungen', type: 'expense' },
+    { code: '7000', name: 'Abschreibungen auf Sachanlagen', type: 'expense', parentCode: '7' },
+    { code: '7400', name: 'Miet- und Pachtaufwand', type: 'expense', parentCode: '7' },
+    { code: '7600', name: 'Büromaterial', type: 'expense', parentCode: '7' },
+    { code: '7790', name: 'Spesen des Geldverkehrs', type: 'expense', parentCode: '7' },
+
+    { code: '8', name: 'Finanzerträge und -aufwendungen, Steuern', type: 'expense' },
+    { code: '8100', name: 'Zinsenerträge', type: 'revenue', parentCode: '8' },
+    { code: '8280', name: 'Zinsenaufwand', type: 'expense', parentCode: '8' },
+    { code: '8500', name: 'Körperschaftsteuer', type: 'expense', parentCode: '8' },
+
+    { code: '9', name: 'Eigenkapital, Abschlusskonten', type: 'equity' },
+    { code: '9000', name: 'Stammkapital', type: 'equity', parentCode: '9' },
+    { code: '9390', name: 'Bilanzgewinn (-verlust)', type: 'equity', parentCode: '9', specialPurpose: 'RETAINED_EARNINGS' },
+    { code: '9800', name: 'Eröffnungsbilanzkonto', type: 'equity', parentCode: '9', specialPurpose: 'OPENING_BALANCE' },
+  ],
+  taxConfigs: [
+    { code: 'UST20', name: 'Umsatzsteuer 20 %', rate: '0.2000', country: 'AUT', validFrom: '2016-01-01', accountCode: '3500' },
+    { code: 'UST13', name: 'Umsatzsteuer 13 %', rate: '0.1300', country: 'AUT', validFrom: '2016-01-01', accountCode: '3500' },
+    { code: 'UST10', name: 'Umsatzsteuer 10 %', rate: '0.1000', country: 'AUT', validFrom: '2016-01-01', accountCode: '3500' },
+    { code: 'VST20', name: 'Vorsteuer 20 %', rate: '0.2000', country: 'AUT', validFrom: '2016-01-01', accountCode: '2500' },
+    { code: 'VST13', name: 'Vorsteuer 13 %', rate: '0.1300', country: 'AUT', validFrom: '2016-01-01', accountCode: '2500' },
+    { code: 'VST10', name: 'Vorsteuer 10 %', rate: '0.1000', country: 'AUT', validFrom: '2016-01-01', accountCode: '2500' },
+    {
+      code: 'IGE20',
+      name: 'Innergemeinschaftlicher Erwerb 20 %',
+      rate: '0.2000',
+      country: 'AUT',
+      validFrom: '2016-01-01',
+      accountCode: '3500',
+      treatment: 'intra_community_acquisition',
+      inputAccountCode: '2500'
+    },
+    {
+      code: 'RC20',
+      name: 'Reverse Charge 20 % (§ 19 UStG)',
+      rate: '0.2000',
+      country: 'AUT',
+      validFrom: '2016-01-01',
+      accountCode: '3500',
+      treatment: 'reverse_charge',
+      inputAccountCode: '2500'
+    },
+    {
+      code: 'IGL',
+      name: 'Innergemeinschaftliche Lieferung',
+      rate: '0.0000',
+      country: 'AUT',
+      validFrom: '2016-01-01',
+      accountCode: '3500',
+      treatment: 'intra_community_supply'
+    },
+    {
+      code: 'IGDL',
+      name: 'Innergemeinschaftliche sonstige Leistung',
+      rate: '0.0000',
+      country: 'AUT',
+      validFrom: '2016-01-01',
+      accountCode: '3500',
+      treatment: 'intra_community_service'
+    },
+    {
+      code: 'STFREI',
+      name: 'Steuerfreier Umsatz ohne Vorsteuerabzug',
+      rate: '0.0000',
+      country: 'AUT',
+      validFrom: '2016-01-01',
+      accountCode: '3500',
+      treatment: 'exempt'
+    },
+  ],
+};
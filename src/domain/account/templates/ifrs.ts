@@ -0,0 +1,59 @@
+import { ChartOfAccountsTemplate } from './chart-of-accounts-template';
+
+/**
+ * Generic chart of accounts following the IFRS statement of financial position and profit or loss
+ * The default tax codes use Austrian VAT rates; other jurisdictions adjust them after setup
+ */
+export const IFRS_TEMPLATE: ChartOfAccountsTemplate = {
+  id: 'IFRS',
+  name: 'IFRS',
+  description: 'Generic chart of accounts aligned with IAS 1 line items',
+  currency: 'EUR',
+  accounts: [
+    { code: '1', name: 'Assets', type: 'asset' },
+    { code: '10', name: 'Non-current assets', type: 'asset', parentCode: '1' },
+    { code: '1000', name: 'Property, plant and equipment', type: 'asset', parentCode: '10' },
+    { code: '1010', name: 'Intangible assets', type: 'asset', parentCode: '10' },
+    { code: '1020', name: 'Right-of-use assets', type: 'asset', parentCode: '10' },
+    { code: '11', name: 'Current assets', type: 'asset', parentCode: '1' },
+    { code: '1100', name: 'Inventories', type: 'asset', parentCode: '11' },
+    { code: '1110', name: 'Trade receivables', type: 'asset', parentCode: '11' },
+    { code: '1120', name: 'Input VAT', type: 'asset', parentCode: '11' },
+    { code: '1130', name: 'Cash and cash equivalents', type: 'asset', parentCode: '11' },
+
+    { code: '2', name: 'Liabilities', type: 'liability' },
+    { code: '20', name: 'Non-current liabilities', type: 'liability', parentCode: '2' },
+    { code: '2000', name: 'Borrowings', type: 'liability', parentCode: '20' },
+    { code: '2010', name: 'Lease liabilities', type: 'liability', parentCode: '20' },
+    { code: '21', name: 'Current liabilities', type: 'liability', parentCode: '2' },
+    { code: '2100', name: 'Trade payables', type: 'liability', parentCode: '21' },
+    { code: '2110', name: 'Output VAT', type: 'liability', parentCode: '21' },
+    { code: '2120', name: 'Current tax liabilities', type: 'liability', parentCode: '21' },
+    { code: '2130', name: 'Provisions', type: 'liability', parentCode: '21' },
+
+    { code: '3', name: 'Equity', type: 'equity' },
+    { code: '3000', name: 'Share capital', type: 'equity', parentCode: '3' },
+    { code: '3100', name: 'Retained earnings', type: 'equity', parentCode: '3', specialPurpose: 'RETAINED_EARNINGS' },
+    { code: '3900', name: 'Opening balance', type: 'equity', parentCode: '3', specialPurpose: 'OPENING_BALANCE' },
+
+    { code: '4', name: 'Income', type: 'revenue' },
+    { code: '4000', name: 'Revenue from contracts with customers', type: 'revenue', parentCode: '4' },
+    { code: '4100', name: 'Other income', type: 'revenue', parentCode: '4' },
+    { code: '4200', name: 'Finance income', type: 'revenue', parentCode: '4' },
+    { code: '4300', name: 'Foreign exchange gains and losses', type: 'revenue', parentCode: '4', specialPurpose: 'FX_GAIN_LOSS' },
+
+    { code: '5', name: 'Expenses', type: 'expense' },
+    { code: '5000', name: 'Cost of sales', type: 'expense', parentCode: '5' },
+    { code: '5100', name: 'Employee benefits expense', type: 'expense', parentCode: '5' },
+    { code: '5200', name: 'Depreciation and amortisation', type: 'expense', parentCode: '5' },
+    { code: '5300', name: 'Other operating expenses', type: 'expense', parentCode: '5' },
+    { code: '5400', name: 'Finance costs', type: 'expense', parentCode: '5' },
+    { code: '5500', name: 'Income tax expense', type: 'expense', parentCode: '5' },
+  ],
+  taxConfigs: [
+    { code: 'VAT20', name: 'Output VAT 20 %', rate: '0.2000', country: 'AUT', validFrom: '2016-01-01', accountCode: '2110' },
+    { code: 'VAT10', name: 'Output VAT 10 %', rate: '0.1000', country: 'AUT', validFrom: '2016-01-01', accountCode: '2110' },
+    { code: 'INVAT20', name: 'Input VAT 20 %', rate: '0.2000', country: 'AUT', validFrom: '2016-01-01', accountCode: '1120' },
+    { code: 'INVAT10', name: 'Input VAT 10 %', rate: '0.1000', country: 'AUT', validFrom: '2016-01-01', accountCode: '1120' },
+  ],
+};
@@ -0,0 +1,30 @@
+import { ChartOfAccountsTemplate, ChartOfAccountsTemplateId } from './chart-of-accounts-template';
+import { EKR_TEMPLATE } from './ekr';
+import { SKR03_TEMPLATE } from './skr03';
+import { SKR04_TEMPLATE } from './skr04';
+import { IFRS_TEMPLATE } from './ifrs';
+
+export const CHART_OF_ACCOUNTS_TEMPLATES: Readonly<Record<ChartOfAccountsTemplateId, ChartOfAccountsTemplate>> = {
+  EKR: EKR_TEMPLATE,
+  SKR03: SKR03_TEMPLATE,
+  SKR04: SKR04_TEMPLATE,
+  IFRS: IFRS_TEMPLATE,
+};
+
+export const DEFAULT_CHART_OF_ACCOUNTS_TEMPLATE: ChartOfAccountsTemplateId = 'EKR';
+
+/**
+ * Get a chart of accounts template by ID
+ */
+export function getChartOfAccountsTemplate(id: string): ChartOfAccountsTemplate | undefined {
+  return Object.hasOwn(CHART_OF_ACCOUNTS_TEMPLATES, id)
+    ? CHART_OF_ACCOUNTS_TEMPLATES[id as ChartOfAccountsTemplateId]
+    : undefined;
+}
+
+export type {
+  ChartOfAccountsTemplate,
+  ChartOfAccountsTemplateId,
+  TemplateAccount,
+  TemplateTaxConfig
+} from './chart-of-accounts-template';
@@ -0,0 +1,111 @@
+import { ChartOfAccountsTemplate } from './chart-of-accounts-template';
+
+/**
+ * German DATEV Standardkontenrahmen 03 (process-oriented)
+ * Account classes mix balance sheet and P&L accounts, so group types only describe the main content
+ */
+export const SKR03_TEMPLATE: ChartOfAccountsTemplate = {
+  id: 'SKR03',
+  name: 'DATEV SKR 03',
+  description: 'German standard chart of accounts structured by business process',
+  currency: 'EUR',
+  accounts: [
+    { code: '0', name: 'Anlage- und Kapitalkonten', type: 'asset' },
+    { code: '0420', name: 'Technische Anlagen und Maschinen', type: 'asset', parentCode: '0' },
+    { code: '0520', name: 'PKW', type: 'asset', parentCode: '0' },
+    { code: '0650', name: 'Büroeinrichtung', type: 'asset', parentCode: '0' },
+    { code: '0800', name: 'Gezeichnetes Kapital', type: 'equity', parentCode: '0' },
+    { code: '0860', name: 'Gewinnvortrag vor Verwendung', type: 'equity', parentCode: '0', specialPurpose: 'RETAINED_EARNINGS' },
+
+    { code: '1', name: 'Finanz- und Privatkonten', type: 'asset' },
+    { code: '1000', name: 'Kasse', type: 'asset', parentCode: '1' },
+    { code: '1200', name: 'Bank', type: 'asset', parentCode: '1' },
+    { code: '1400', name: 'Forderungen aus Lieferungen und Leistungen', type: 'asset', parentCode: '1' },
+    { code: '1571', name: 'Abziehbare Vorsteuer 7 %', type: 'asset', parentCode: '1' },
+    { code: '1576', name: 'Abziehbare Vorsteuer 19 %', type: 'asset', parentCode: '1' },
+    { code: '1600', name: 'Verbindlichkeiten aus Lieferungen und Leistungen', type: 'liability', parentCode: '1' },
+    { code: '1771', name: 'Umsatzsteuer 7 %', type: 'liability', parentCode: '1' },
+    { code: '1776', name: 'Umsatzsteuer 19 %', type: 'liability', parentCode: '1' },
+
+    { code: '2', name: 'Abgrenzungskonten', type: 'expense' },
+    { code: '2110', name: 'Zinsaufwendungen für kurzfristige Verbindlichkeiten', type: 'expense', parentCode: '2' },
+    { code: '2150', name: 'Aufwendungen aus Kursdifferenzen', type: 'expense', parentCode: '2' },
+    { code: '2650', name: 'Sonstige Zinsen und ähnliche Erträge', type: 'revenue', parentCode: '2' },
+    { code: '2660', name: 'Erträge aus Kursdifferenzen', type: 'revenue', parentCode: '2', specialPurpose: 'FX_GAIN_LOSS' },
+
+    { code: '3', name: 'Wareneingangs- und Bestandskonten', type: 'expense' },
+    { code: '3300', name: 'Wareneingang 7 % Vorsteuer', type: 'expense', parentCode: '3' },
+    { code: '3400', name: 'Wareneingang 19 % Vorsteuer', type: 'expense', parentCode: '3' },
+    { code: '3980', name: 'Bestand Waren', type: 'asset', parentCode: '3' },
+
+    { code: '4', name: 'Betriebliche Aufwendungen', type: 'expense' },
+    { code: '4110', name: 'Löhne', type: 'expense', parentCode: '4' },
+    { code: '4120', name: 'Gehälter', type: 'expense', parentCode: '4' },
+    { code: '4130', name: 'Gesetzliche soziale Aufwendungen', type: 'expense', parentCode: '4' },
+    { code: '4210', name: 'Miete', type: 'expense', parentCode: '4' },
+    { code: '4830', name: 'Abschreibungen auf Sachanlagen', type: 'expense', parentCode: '4' },
+    { code: '4930', name: 'Bürobedarf', type: 'expense', parentCode: '4' },
+    { code: '4970', name: 'Nebenkosten des Geldverkehrs', type: 'expense', parentCode: '4' },
+
+    { code: '8', name: 'Erlöskonten', type: 'revenue' },
+    { code: '8125', name: 'Steuerfreie innergemeinschaftliche Lieferungen', type: 'revenue', parentCode: '8' },
+    { code: '8300', name: 'Erlöse 7 % USt', type: 'revenue', parentCode: '8' },
+    { code: '8400', name: 'Erlöse 19 % USt', type: 'revenue', parentCode: '8' },
+
+    { code: '9', name: 'Vortrags-, Kapital- und statistische Konten', type: 'equity' },
+    { code: '9000', name: 'Saldenvorträge, Sachkonten', type: 'equity', parentCode: '9', specialPurpose: 'OPENING_BALANCE' },
+  ],
+  taxConfigs: [
+    { code: 'UST19', name: 'Umsatzsteuer 19 %', rate: '0.1900', country: 'DEU', validFrom: '2007-01-01', accountCode: '1776' },
+    { code: 'UST7', name: 'Umsatzsteuer 7 %', rate: '0.0700', country: 'DEU', validFrom: '2007-01-01', accountCode: '1771' },
+    { code: 'VST19', name: 'Vorsteuer 19 %', rate: '0.1900', country: 'DEU', validFrom: '2007-01-01', accountCode: '1576' },
+    { code: 'VST7', name: 'Vorsteuer 7 %', rate: '0.0700', country: 'DEU', validFrom: '2007-01-01', accountCode: '1571' },
+    {
+      code: 'IGE19',
+      name: 'Innergemeinschaftlicher Erwerb 19 %',
+      rate: '0.1900',
+      country: 'DEU',
+      validFrom: '2007-01-01',
+      accountCode: '1776',
+      treatment: 'intra_community_acquisition',
+      inputAccountCode: '1576'
+    },
+    {
+      code: 'RC19',
+      name: 'Steuerschuldnerschaft des Leistungsempfängers 19 % (§ 13b UStG)',
+      rate: '0.1900',
+      country: 'DEU',
+      validFrom: '2007-01-01',
+      accountCode: '1776',
+      treatment: 'reverse_charge',
+      inputAccountCode: '1576'
+    },
+    {
+      code: 'IGL',
+      name: 'Innergemeinschaftliche Lieferung',
+      rate: '0.0000',
+      country: 'DEU',
+      validFrom: '2007-01-01',
+      accountCode: '1776',
+      treatment: 'intra_community_supply'
+    },
+    {
+      code: 'IGDL',
+      name: 'Innergemeinschaftliche sonstige Leistung',
+      rate: '0.0000',
+      country: 'DEU',
+      validFrom: '2007-01-01',
+      accountCode: '1776',
+      treatment: 'intra_community_service'
+    },
+    {
+      code: 'STFREI',
+      name: 'Steuerfreier Umsatz ohne Vorsteuerabzug',
+      rate: '0.0000',
+      country: 'DEU',
+      validFrom: '2007-01-01',
+      accountCode: '1776',
+      treatment: 'exempt'
+    },
+  ],
+};
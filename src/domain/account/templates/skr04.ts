@@ -0,0 +1,116 @@
+import { ChartOfAccountsTemplate } from './chart-of-accounts-template';
+
+/**
+ * German DATEV Standardkontenrahmen 04 (structured along the HGB financial statements)
+ */
+export const SKR04_TEMPLATE: ChartOfAccountsTemplate = {
+  id: 'SKR04',
+  name: 'DATEV SKR 04',
+  description: 'German standard chart of accounts structured by balance sheet and income statement',
+  currency: 'EUR',
+  accounts: [
+    { code: '0', name: 'Anlagevermögen', type: 'asset' },
+    { code: '0440', name: 'Maschinen', type: 'asset', parentCode: '0' },
+    { code: '0520', name: 'PKW', type: 'asset', parentCode: '0' },
+    { code: '0650', name: 'Büroeinrichtung', type: 'asset', parentCode: '0' },
+
+    { code: '1', name: 'Umlaufvermögen', type: 'asset' },
+    { code: '1140', name: 'Bestand Waren', type: 'asset', parentCode: '1' },
+    { code: '1200', name: 'Forderungen aus Lieferungen und Leistungen', type: 'asset', parentCode: '1' },
+    { code: '1401', name: 'Abziehbare Vorsteuer 7 %', type: 'asset', parentCode: '1' },
+    { code: '1406', name: 'Abziehbare Vorsteuer 19 %', type: 'asset', parentCode: '1' },
+    { code: '1600', name: 'Kasse', type: 'asset', parentCode: '1' },
+    { code: '1800', name: 'Bank', type: 'asset', parentCode: '1' },
+
+    { code: '2', name: 'Eigenkapital', type: 'equity' },
+    { code: '2900', name: 'Gezeichnetes Kapital', type: 'equity', parentCode: '2' },
+    { code: '2970', name: 'Gewinnvortrag vor Verwendung', type: 'equity', parentCode: '2', specialPurpose: 'RETAINED_EARNINGS' },
+
+    { code: '3', name: 'Fremdkapital', type: 'liability' },
+    { code: '3150', name: 'Verbindlichkeiten gegenüber Kreditinstituten', type: 'liability', parentCode: '3' },
+    { code: '3300', name: 'Verbindlichkeiten aus Lieferungen und Leistungen', type: 'liability', parentCode: '3' },
+    { code: '3801', name: 'Umsatzsteuer 7 %', type: 'liability', parentCode: '3' },
+    { code: '3806', name: 'Umsatzsteuer 19 %', type: 'liability', parentCode: '3' },
+
+    { code: '4', name: 'Betriebliche Erträge', type: 'revenue' },
+    { code: '4125', name: 'Steuerfreie innergemeinschaftliche Lieferungen', type: 'revenue', parentCode: '4' },
+    { code: '4300', name: 'Erlöse 7 % USt', type: 'revenue', parentCode: '4' },
+    { code: '4400', name: 'Erlöse 19 % USt', type: 'revenue', parentCode: '4' },
+    { code: '4840', name: 'Erträge aus Kursdifferenzen', type: 'revenue', parentCode: '4', specialPurpose: 'FX_GAIN_LOSS' },
+
+    { code: '5', name: 'Materialaufwand', type: 'expense' },
+    { code: '5300', name: 'Wareneingang 7 % Vorsteuer', type: 'expense', parentCode: '5' },
+    { code: '5400', name: 'Wareneingang 19 % Vorsteuer', type: 'expense', parentCode: '5' },
+
+    { code: '6', name: 'Betriebliche Aufwendungen', type: 'expense' },
+    { code: '6010', name: 'Löhne', type: 'expense', parentCode: '6' },
+    { code: '6020', name: 'Gehälter', type: 'expense', parentCode: '6' },
+    { code: '6110', name: 'Gesetzliche soziale Aufwendungen', type: 'expense', parentCode: '6' },
+    { code: '6220', name: 'Abschreibungen auf Sachanlagen', type: 'expense', parentCode: '6' },
+    { code: '6310', name: 'Miete', type: 'expense', parentCode: '6' },
+    { code: '6815', name: 'Bürobedarf', type: 'expense', parentCode: '6' },
+    { code: '6855', name: 'Nebenkosten des Geldverkehrs', type: 'expense', parentCode: '6' },
+    { code: '6880', name: 'Aufwendungen aus Kursdifferenzen', type: 'expense', parentCode: '6' },
+
+    { code: '7', name: 'Weitere Erträge und Aufwendungen', type: 'expense' },
+    { code: '7100', name: 'Sonstige Zinsen und ähnliche Erträge', type: 'revenue', parentCode: '7' },
+    { code: '7300', name: 'Zinsen und ähnliche Aufwendungen', type: 'expense', parentCode: '7' },
+    { code: '7600', name: 'Körperschaftsteuer', type: 'expense', parentCode: '7' },
+
+    { code: '9', name: 'Vortrags-, Kapital- und statistische Konten', type: 'equity' },
+    { code: '9000', name: 'Saldenvorträge, Sachkonten', type: 'equity', parentCode: '9', specialPurpose: 'OPENING_BALANCE' },
+  ],
+  taxConfigs: [
+    { code: 'UST19', name: 'Umsatzsteuer 19 %', rate: '0.1900', country: 'DEU', validFrom: '2007-01-01', accountCode: '3806' },
+    { code: 'UST7', name: 'Umsatzsteuer 7 %', rate: '0.0700', country: 'DEU', validFrom: '2007-01-01', accountCode: '3801' },
+    { code: 'VST19', name: 'Vorsteuer 19 %', rate: '0.1900', country: 'DEU', validFrom: '2007-01-01', accountCode: '1406' },
+    { code: 'VST7', name: 'Vorsteuer 7 %', rate: '0.0700', country: 'DEU', validFrom: '2007-01-01', accountCode: '1401' },
+    {
+      code: 'IGE19',
+      name: 'Innergemeinschaftlicher Erwerb 19 %',
+      rate: '0.1900',
+      country: 'DEU',
+      validFrom: '2007-01-01',
+      accountCode: '3806',
+      treatment: 'intra_community_acquisition',
+      inputAccountCode: '1406'
+    },
+    {
+      code: 'RC19',
+      name: 'Steuerschuldnerschaft des Leistungsempfängers 19 % (§ 13b UStG)',
+      rate: '0.1900',
+      country: 'DEU',
+      validFrom: '2007-01-01',
+      accountCode: '3806',
+      treatment: 'reverse_charge',
+      inputAccountCode: '1406'
+    },
+    {
+      code: 'IGL',
+      name: 'Innergemeinschaftliche Lieferung',
+      rate: '0.0000',
+      country: 'DEU',
+      validFrom: '2007-01-01',
+      accountCode: '3806',
+      treatment: 'intra_community_supply'
+    },
+    {
+      code: 'IGDL',
+      name: 'Innergemeinschaftliche sonstige Leistung',
+      rate: '0.0000',
+      country: 'DEU',
+      validFrom: '2007-01-01',
+      accountCode: '3806',
+      treatment: 'intra_community_service'
+    },
+    {
+      code: 'STFREI',
+      name: 'Steuerfreier Umsatz ohne Vorsteuerabzug',
+      rate: '0.0000',
+      country: 'DEU',
+      validFrom: '2007-01-01',
+      accountCode: '3806',
+      treatment: 'exempt'
+    },
+  ],
+};
@@ -0,0 +1,166 @@
+import { AccountId } from '../../shared/types';
+import { Money } from '../../journal/value-objects/money';
+import { Account } from '../entities/account';
+
+/**
+ * Parent/child structure of a chart of accounts
+ * Accounts with children are group accounts; only leaf accounts receive postings.
+ * Accounts whose parent is not part of the tree are treated as top-level accounts.
+ */
+export class AccountTree {
+  private constructor(
+    private readonly accounts: ReadonlyMap<AccountId, Account>,
+    private readonly children: ReadonlyMap<AccountId, Account[]>,
+    private readonly roots: Account[]
+  ) {}
+
+  /**
+   * Build the tree from a flat list of accounts; siblings are ordered by code
+   */
+  static build(accounts: readonly Account[]): AccountTree {
+    const byId = new Map(accounts.map(account => [account.id, account]));
+    const children = new Map<AccountId, Account[]>();
+    const roots: Account[] = [];
+
+    const sorted = [...accounts].sort((a, b) => a.code.localeCompare(b.code, undefined, { numeric: true }));
+    for (const account of sorted) {
+      if (account.parentId && byId.has(account.parentId)) {
+        const siblings = children.get(account.parentId) ?? [];
+        siblings.push(account);
+        children.set(account.parentId, siblings);
+      } else {
+        roots.push(account);
+      }
+    }
+
+    return new AccountTree(byId, children, roots);
+  }
+
+  /**
+   * Get an account of the tree
+   */
+  get(accountId: AccountId): Account | undefined {
+    return this.accounts.get(accountId);
+  }
+
+  /**
+   * Get the top-level accounts
+   */
+  getRoots(): readonly Account[] {
+    return this.roots;
+  }
+
+  /**
+   * Get the direct children of an account
+   */
+  getChildren(accountId: AccountId): readonly Account[] {
+    return this.children.get(accountId) ?? [];
+  }
+
+  /**
+   * Check if an account has no children and may therefore receive postings
+   */
+  isLeaf(accountId: AccountId): boolean {
+    return !this.children.has(accountId);
+  }
+
+  /**
+   * Get the level of an account; top-level accounts are on level 1
+   */
+  getLevel(accountId: AccountId): number {
+    return this.getAncestors(accountId).length + 1;
+  }
+
+  /**
+   * Get the ancestors of an account, nearest parent first
+   */
+  getAncestors(accountId: AccountId): Account[] {
+    const ancestors: Account[] = [];
+    const visited = new Set<AccountId>([accountId]);
+    let parentId = this.accounts.get(accountId)?.parentId;
+
+    while (parentId && !visited.has(parentId)) {
+      const parent = this.accounts.get(parentId);
+      if (!parent) {
+        break;
+      }
+      ancestors.push(parent);
+      visited.add(parentId);
+      parentId = parent.parentId;
+    }
+
+    return ancestors;
+  }
+
+  /**
+   * Get all descendants of an account, depth first
+   */
+  getDescendants(accountId: AccountId): Account[] {
+    return this.getChildren(accountId).flatMap(child => [child, ...this.getDescendants(child.id)]);
+  }
+
+  /**
+   * Check if moving an account below a new parent would create a cycle
+   */
+  wouldCreateCycle(accountId: AccountId, newParentId: AccountId): boolean {
+    return newParentId === accountId ||
+      this.getAncestors(newParentId).some(ancestor => ancestor.id === accountId);
+  }
+
+  /**
+   * Roll balances up the tree: every account gets its own balance plus those of all descendants
+   * Accounts without a balance count as zero
+   */
+  rollUp(balances: ReadonlyMap<AccountId, Money>, currency: string): Map<AccountId, Money> {
+    const rolledUp = new Map<AccountId, Money>();
+
+    const visit = (account: Account): Money => {
+      const total = this.getChildren(account.id).reduce(
+        (sum, child) => sum.add(visit(child)),
+        balances.get(account.id) ?? Money.zero(currency)
+      );
+      rolledUp.set(account.id, total);
+      return total;
+    };
+
+    this.roots.forEach(visit);
+    return rolledUp;
+  }
+
+  /**
+   * Roll balances up to a level: accounts on that level carry the totals of their subtrees,
+   * accounts above it carry their rolled-up totals and deeper accounts are omitted
+   */
+  rollUpToLevel(
+    balances: ReadonlyMap<AccountId, Money>,
+    currency: string,
+    level: number
+  ): Map<AccountId, Money> {
+    const rolledUp = this.rollUp(balances, currency);
+
+    return new Map([...rolledUp].filter(([accountId]) => this.getLevel(accountId) <= level));
+  }
+
+  /**
+   * Convert to nested nodes, optionally cut off below a level
+   */
+  toNodes(maxLevel?: number): AccountTreeNode[] {
+    const toNode = (account: Account, level: number): AccountTreeNode => ({
+      account,
+      level,
+      isLeaf: this.isLeaf(account.id),
+      children: maxLevel !== undefined && level >= maxLevel
+        ? []
+        : this.getChildren(account.id).map(child => toNode(child, level + 1))
+    });
+
+    return this.roots.map(root => toNode(root, 1));
+  }
+}
+
+export interface AccountTreeNode {
+  readonly account: Account;
+  readonly level: number;
+  readonly isLeaf: boolean;
+  readonly children: AccountTreeNode[];
+}
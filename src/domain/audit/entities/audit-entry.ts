@@ -0,0 +1,60 @@
+import { OrganizationId, UserId, AuditContext } from '../../shared/types';
+
+export type AuditEntityType =
+  | 'journal'
+  | 'period'
+  | 'fiscal_year'
+  | 'account'
+  | 'tax_config'
+  | 'exchange_rate'
+  | 'bank_import'
+  | 'bank_match';
+
+export type AuditAction =
+  | 'CREATE'
+  | 'UPDATE'
+  | 'DELETE'
+  | 'POST'
+  | 'REVERSE'
+  | 'START_CLOSING'
+  | 'CLOSE'
+  | 'REOPEN'
+  | 'ACTIVATE'
+  | 'DEACTIVATE'
+  | 'IMPORT'
+  | 'CONFIRM'
+  | 'REJECT';
+
+export type AuditData = Record<string, unknown>;
+
+/**
+ * Immutable record of a single mutation of a domain entity
+ */
+export interface AuditEntry {
+  readonly id: string;
+  readonly organizationId: OrganizationId;
+  readonly userId?: UserId;
+  readonly entityType: AuditEntityType;
+  readonly entityId: string;
+  readonly action: AuditAction;
+  readonly oldData?: AuditData;
+  readonly newData?: AuditData;
+  readonly requestId?: string;
+  readonly ipAddress?: string;
+  readonly userAgent?: string;
+  readonly apiKeyId?: string;
+  readonly createdAt: Date;
+  readonly sequence?: number; // Unset for entries written before signing was introduced
+  readonly signaturePrev?: string;
+  readonly signature?: string;
+}
+
+export interface RecordAuditEntryProps {
+  readonly organizationId: OrganizationId;
+  readonly entityType: AuditEntityType;
+  readonly entityId: string;
+  readonly action: AuditAction;
+  readonly oldData?: AuditData;
+  readonly newData?: AuditData;
+  readonly auditContext?: AuditContext; // Unset for system initiated mutations
+}
@@ -0,0 +1,41 @@
+import { OrganizationId, DomainError } from '../../shared/types';
+import { Result } from '../../shared/result';
+import { AuditEntry, AuditEntityType } from '../entities/audit-entry';
+
+/**
+ * Audit log repository interface; entries are append-only
+ */
+export interface AuditLogRepository {
+  /**
+   * Append an entry to the organization's audit chain
+   * `createEntry` receives the latest chained entry and runs while appends of the
+   * organization are serialized, so that no two entries can claim the same predecessor
+   */
+  append(
+    organizationId: OrganizationId,
+    createEntry: (previous: AuditEntry | null) => AuditEntry
+  ): Promise<Result<AuditEntry, DomainError>>;
+
+  /**
+   * Find all entries for an entity, oldest first
+   */
+  findByEntity(
+    entityType: AuditEntityType,
+    entityId: string,
+    organizationId: OrganizationId
+  ): Promise<Result<AuditEntry[], DomainError>>;
+
+  /**
+   * Find entries of an organization within a date range, oldest first
+   */
+  findByDateRange(
+    startDate: Date,
+    endDate: Date,
+    organizationId: OrganizationId
+  ): Promise<Result<AuditEntry[], DomainError>>;
+
+  /**
+   * Find all entries of an organization in chain order; unsigned entries come first
+   */
+  findChronological(organizationId: OrganizationId): Promise<Result<AuditEntry[], DomainError>>;
+}
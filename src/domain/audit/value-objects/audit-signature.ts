@@ -0,0 +1,137 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * Audit signature value object: HMAC-SHA256 over an audit entry chained to its predecessor
+ * Unlike journal hashes, a signature cannot be recomputed without the signing key
+ */
+export class AuditSignature {
+  private constructor(public readonly value: string) {}
+
+  /**
+   * Create signature from string value
+   */
+  static fromString(value: string): AuditSignature {
+    if (!/^[a-f0-9]{64}$/.test(value)) {
+      throw new Error(`Invalid signature format: ${value}`);
+    }
+    return new AuditSignature(value);
+  }
+
+  /**
+   * Sign audit entry data
+   */
+  static generate(data: AuditSignatureData, key: string): AuditSignature {
+    const serialized = AuditSignature.serialize(data);
+    const signature = createHmac('sha256', key).update(serialized).digest('hex');
+    return new AuditSignature(signature);
+  }
+
+  /**
+   * Sign audit entry data chained to the signature of the previous entry
+   */
+  static generateWithPrevious(
+    data: AuditSignatureData,
+    key: string,
+    previousSignature?: AuditSignature
+  ): AuditSignature {
+    return AuditSignature.generate({ ...data, signaturePrev: previousSignature?.value }, key);
+  }
+
+  /**
+   * Verify signature against data in constant time
+   */
+  verify(data: AuditSignatureData, key: string): boolean {
+    const expected = Buffer.from(AuditSignature.generate(data, key).value, 'hex');
+    const actual = Buffer.from(this.value, 'hex');
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  }
+
+  /**
+   * Check if this signature equals another
+   */
+  equals(other: AuditSignature): boolean {
+    return this.value === other.value;
+  }
+
+  /**
+   * String representation
+   */
+  toString(): string {
+    return this.value;
+  }
+
+  /**
+   * Serialize audit entry data for signing
+   * Order matters for consistent signatures!
+   */
+  private static serialize(data: AuditSignatureData): string {
+    const fields = [
+      data.organizationId,
+      data.sequence.toString(),
+      data.userId || '',
+      data.entityType,
+      data.entityId,
+      data.action,
+      AuditSignature.canonicalJson(data.oldData),
+      AuditSignature.canonicalJson(data.newData),
+      data.requestId || '',
+      data.ipAddress || '',
+      data.userAgent || '',
+      data.createdAt.toISOString(),
+      data.signaturePrev || '',
+    ];
+
+    // Appended only when set so that signatures of entries without an API key stay unchanged
+    if (data.apiKeyId) {
+      fields.push(data.apiKeyId);
+    }
+
+    return fields.join(':');
+  }
+
+  /**
+   * JSON with sorted object keys, since jsonb does not preserve key order
+   */
+  private static canonicalJson(value: unknown): string {
+    if (value === undefined || value === null) {
+      return '';
+    }
+
+    const normalize = (item: unknown): unknown => {
+      if (Array.isArray(item)) {
+        return item.map(normalize);
+      }
+      if (item !== null && typeof item === 'object') {
+        return Object.fromEntries(
+          Object.keys(item)
+            .sort()
+            .filter(key => (item as Record<string, unknown>)[key] !== undefined)
+            .map(key => [key, normalize((item as Record<string, unknown>)[key])])
+        );
+      }
+      return item;
+    };
+
+    return JSON.stringify(normalize(value));
+  }
+}
+
+/**
+ * Data structure for signing audit entries
+ */
+export interface AuditSignatureData {
+  readonly organizationId: string;
+  readonly sequence: number;
+  readonly userId?: string;
+  readonly entityType: string;
+  readonly entityId: string;
+  readonly action: string;
+  readonly oldData?: Record<string, unknown>;
+  readonly newData?: Record<string, unknown>;
+  readonly requestId?: string;
+  readonly ipAddress?: string;
+  readonly userAgent?: string;
+  readonly apiKeyId?: string;
+  readonly createdAt: Date;
+  readonly signaturePrev?: string;
+}
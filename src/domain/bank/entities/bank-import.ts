@@ -0,0 +1,216 @@
+import {
+  BankImportId,
+  OrganizationId,
+  AccountId,
+  UserId,
+  DomainError,
+  domainError,
+  DomainErrorCodes
+} from '../../shared/types';
+import { Result, success, failure } from '../../shared/result';
+
+/**
+ * File formats of bank statements: ISO 20022 CAMT.053 XML, SWIFT MT940 and CSV with a configurable layout
+ */
+export const BANK_STATEMENT_FORMATS = ['camt053', 'mt940', 'csv'] as const;
+
+export type BankStatementFormat = typeof BANK_STATEMENT_FORMATS[number];
+
+export type BankImportStatus = 'processing' | 'completed' | 'failed';
+
+const FILE_HASH_PATTERN = /^[a-f0-9]{64}$/;
+const MAX_FILE_NAME_LENGTH = 255;
+
+/**
+ * Import of a bank statement file into a bank account
+ * A file is imported once per organization, identified by the SHA-256 hash of its content; a failed import is
+ * restarted when the same file is imported again.
+ */
+export class BankImport {
+  private constructor(
+    public readonly id: BankImportId,
+    public readonly organizationId: OrganizationId,
+    public readonly fileName: string,
+    public readonly fileHash: string, // SHA-256 of the file content
+    public readonly fileSize: number, // Bytes
+    public readonly accountId: AccountId, // Bank account
+    public readonly importedBy: UserId,
+    public readonly recordsTotal: number,
+    public readonly recordsImported: number,
+    public readonly recordsSkipped: number, // Transactions imported before
+    public readonly status: BankImportStatus,
+    public readonly errorMessage: string | undefined,
+    public readonly metadata: BankImportMetadata,
+    public readonly createdAt: Date,
+    public readonly completedAt: Date | undefined
+  ) {}
+
+  /**
+   * Start a new import
+   */
+  static create(props: CreateBankImportProps): Result<BankImport, DomainError> {
+    const fileName = props.fileName.trim();
+    if (!fileName || fileName.length > MAX_FILE_NAME_LENGTH) {
+      return failure(domainError(
+        DomainErrorCodes.VALIDATION_FAILED,
+        `File name is required and must be at most ${MAX_FILE_NAME_LENGTH} characters`,
+        { fileName: props.fileName }
+      ));
+    }
+
+    if (!FILE_HASH_PATTERN.test(props.fileHash)) {
+      return failure(domainError(
+        DomainErrorCodes.VALIDATION_FAILED,
+        'File hash must be a SHA-256 hex digest',
+        { fileHash: props.fileHash }
+      ));
+    }
+
+    if (!Number.isInteger(props.fileSize) || props.fileSize <= 0) {
+      return failure(domainError(
+        DomainErrorCodes.VALIDATION_FAILED,
+        'Bank statement file is empty',
+        { fileName }
+      ));
+    }
+
+    return success(new BankImport(
+      props.id,
+      props.organizationId,
+      fileName,
+      props.fileHash,
+      props.fileSize,
+      props.accountId,
+      props.importedBy,
+      0,
+      0,
+      0,
+      'processing',
+      undefined,
+      { format: props.format },
+      new Date(),
+      undefined
+    ));
+  }
+
+  /**
+   * Check if the file has been imported
+   */
+  isCompleted(): boolean {
+    return this.status === 'completed';
+  }
+
+  /**
+   * Restart a failed or interrupted import of the same file
+   */
+  restart(props: RestartBankImportProps): BankImport {
+    return new BankImport(
+      this.id,
+      this.organizationId,
+      props.fileName.trim() || this.fileName,
+      this.fileHash,
+      this.fileSize,
+      props.accountId,
+      props.importedBy,
+      0,
+      0,
+      0,
+      'processing',
+      undefined,
+      { format: props.format },
+      new Date(),
+      undefined
+    );
+  }
+
+  /**
+   * Complete the import with the number of transactions read and newly stored
+   */
+  complete(recordsTotal: number, recordsImported: number, metadata: BankImportMetadata): BankImport {
+    return new BankImport(
+      this.id,
+      this.organizationId,
+      this.fileName,
+      this.fileHash,
+      this.fileSize,
+      this.accountId,
+      this.importedBy,
+      recordsTotal,
+      recordsImported,
+      recordsTotal - recordsImported,
+      'completed',
+      undefined,
+      { ...this.metadata, ...metadata },
+      this.createdAt,
+      new Date()
+    );
+  }
+
+  /**
+   * Mark the import as failed
+   */
+  fail(errorMessage: string): BankImport {
+    return new BankImport(
+      this.id,
+      this.organizationId,
+      this.fileName,
+      this.fileHash,
+      this.fileSize,
+      this.accountId,
+      this.importedBy,
+      this.recordsTotal,
+      0,
+      0,
+      'failed',
+      errorMessage,
+      this.metadata,
+      this.createdAt,
+      new Date()
+    );
+  }
+
+  /**
+   * Convert to audit data
+   */
+  toAuditData(): Record<string, unknown> {
+    return {
+      fileName: this.fileName,
+      fileHash: this.fileHash,
+      fileSize: this.fileSize,
+      accountId: this.accountId,
+      recordsTotal: this.recordsTotal,
+      recordsImported: this.recordsImported,
+      recordsSkipped: this.recordsSkipped,
+      status: this.status,
+      errorMessage: this.errorMessage ?? null,
+      metadata: this.metadata
+    };
+  }
+}
+
+/**
+ * Statement data kept with an import; balances are signed decimals, dates ISO dates
+ */
+export interface BankImportMetadata {
+  readonly format?: BankStatementFormat;
+  readonly iban?: string;
+  readonly statementId?: string;
+  readonly currency?: string;
+  readonly openingBalance?: string;
+  readonly openingDate?: string;
+  readonly closingBalance?: string; // Booked balance per the bank at the closing date
+  readonly closingDate?: string;
+}
+
+export interface CreateBankImportProps {
+  readonly id: BankImportId;
+  readonly organizationId: OrganizationId;
+  readonly fileName: string;
+  readonly fileHash: string;
+  readonly fileSize: number;
+  readonly accountId: AccountId;
+  readonly importedBy: UserId;
+  readonly format: BankStatementFormat;
+}
+
+export type RestartBankImportProps = Pick<CreateBankImportProps, 'fileName' | 'accountId' | 'importedBy' | 'format'>;
@@ -0,0 +1,110 @@
+import {
+  BankMatchId,
+  BankTransactionId,
+  JournalLineId,
+  OrganizationId,
+  AccountId,
+  UserId,
+  DomainError,
+  domainError,
+  DomainErrorCodes
+} from '../../shared/types';
+import { Result, success, failure } from '../../shared/result';
+import { Money } from '../../journal/value-objects/money';
+
+export type BankMatchStatus = 'confirmed' | 'rejected';
+
+/**
+ * Decision on matching bank transactions to journal lines of the bank account
+ * A match pairs one transaction with one or more journal lines, or several transactions with one journal line.
+ * Confirmed matches reconcile their items; rejected matches are kept so the suggestion is not offered again.
+ */
+export class BankMatch {
+  private constructor(
+    public readonly id: BankMatchId,
+    public readonly organizationId: OrganizationId,
+    public readonly accountId: AccountId, // Bank account
+    public readonly status: BankMatchStatus,
+    public readonly transactionIds: readonly BankTransactionId[],
+    public readonly journalLineIds: readonly JournalLineId[],
+    public readonly amount: Money, // Sum of the transactions, in the currency of the bank account
+    public readonly clearedDate: Date, // Latest date of the matched transactions and journal lines
+    public readonly createdBy: UserId,
+    public readonly createdAt: Date
+  ) {}
+
+  /**
+   * Record a decision on a match
+   */
+  static create(props: CreateBankMatchProps): Result<BankMatch, DomainError> {
+    const transactionIds = [...new Set(props.transactionIds)];
+    const journalLineIds = [...new Set(props.journalLineIds)];
+    if (transactionIds.length === 0 || journalLineIds.length === 0) {
+      return failure(domainError(
+        DomainErrorCodes.VALIDATION_FAILED,
+        'A match requires at least one bank transaction and one journal line'
+      ));
+    }
+
+    if (transactionIds.length > 1 && journalLineIds.length > 1) {
+      return failure(domainError(
+        DomainErrorCodes.VALIDATION_FAILED,
+        'A match pairs one bank transaction with several journal lines or several bank transactions with one ' +
+          'journal line',
+        { transactionIds, journalLineIds }
+      ));
+    }
+
+    return success(new BankMatch(
+      props.id,
+      props.organizationId,
+      props.accountId,
+      props.status,
+      transactionIds,
+      journalLineIds,
+      props.amount,
+      props.clearedDate,
+      props.createdBy,
+      new Date()
+    ));
+  }
+
+  /**
+   * Key of the matched items, equal for matches of the same transactions and journal lines
+   */
+  static keyOf(transactionIds: readonly BankTransactionId[], journalLineIds: readonly JournalLineId[]): string {
+    return [[...transactionIds].sort().join(','), [...journalLineIds].sort().join(',')].join('|');
+  }
+
+  getKey(): string {
+    return BankMatch.keyOf(this.transactionIds, this.journalLineIds);
+  }
+
+  isConfirmed(): boolean {
+    return this.status === 'confirmed';
+  }
+
+  toAuditData(): Record<string, unknown> {
+    return {
+      accountId: this.accountId,
+      status: this.status,
+      transactionIds: this.transactionIds,
+      journalLineIds: this.journalLineIds,
+      amount: this.amount.amount,
+      currency: this.amount.currency,
+      clearedDate: this.clearedDate.toISOString()
+    };
+  }
+}
+
+export interface CreateBankMatchProps {
+  readonly id: BankMatchId;
+  readonly organizationId: OrganizationId;
+  readonly accountId: AccountId;
+  readonly status: BankMatchStatus;
+  readonly transactionIds: readonly BankTransactionId[];
+  readonly journalLineIds: readonly JournalLineId[];
+  readonly amount: Money;
+  readonly clearedDate: Date;
+  readonly createdBy: UserId;
+}
@@ -0,0 +1,107 @@
+import {
+  BankTransactionId,
+  BankImportId,
+  OrganizationId,
+  JournalId,
+  Currency,
+  DomainError,
+  domainError,
+  DomainErrorCodes
+} from '../../shared/types';
+import { Result, success, failure } from '../../shared/result';
+import { Money } from '../../journal/value-objects/money';
+
+export type BankTransactionStatus = 'imported' | 'journalized' | 'ignored';
+
+const MAX_FIELD_LENGTH = 255;
+
+/**
+ * Transaction of an imported bank statement, identified across imports by its external UID
+ */
+export class BankTransaction {
+  private constructor(
+    public readonly id: BankTransactionId,
+    public readonly organizationId: OrganizationId,
+    public readonly importId: BankImportId,
+    public readonly extUid: string, // Unique per organization
+    public readonly transactionDate: Date, // Booking date
+    public readonly amount: Money, // Positive for money received, negative for money paid
+    public readonly description: string,
+    public readonly reference: string | undefined, // Payment reference, e.g. the SEPA end-to-end ID
+    public readonly counterparty: string | undefined,
+    public readonly journalId: JournalId | undefined,
+    public readonly status: BankTransactionStatus,
+    public readonly createdAt: Date
+  ) {}
+
+  /**
+   * Create a newly imported transaction
+   */
+  static create(props: CreateBankTransactionProps): Result<BankTransaction, DomainError> {
+    if (!props.extUid || props.extUid.length > MAX_FIELD_LENGTH) {
+      return failure(domainError(
+        DomainErrorCodes.VALIDATION_FAILED,
+        `Bank transaction UID is required and must be at most ${MAX_FIELD_LENGTH} characters`,
+        { extUid: props.extUid }
+      ));
+    }
+
+    let amount: Money;
+    try {
+      amount = Money.create(props.amount, props.currency);
+    } catch (error) {
+      return failure(domainError(
+        DomainErrorCodes.VALIDATION_FAILED,
+        `Invalid bank transaction amount: ${error instanceof Error ? error.message : String(error)}`,
+        { extUid: props.extUid, amount: props.amount }
+      ));
+    }
+
+    const description = props.description.trim();
+    if (!description) {
+      return failure(domainError(
+        DomainErrorCodes.VALIDATION_FAILED,
+        'Bank transaction description is required',
+        { extUid: props.extUid }
+      ));
+    }
+
+    const reference = props.reference?.trim() || undefined;
+    const counterparty = props.counterparty?.trim() || undefined;
+    if ((reference?.length ?? 0) > MAX_FIELD_LENGTH || (counterparty?.length ?? 0) > MAX_FIELD_LENGTH) {
+      return failure(domainError(
+        DomainErrorCodes.VALIDATION_FAILED,
+        `Bank transaction reference and counterparty must be at most ${MAX_FIELD_LENGTH} characters`,
+        { extUid: props.extUid }
+      ));
+    }
+
+    return success(new BankTransaction(
+      props.id,
+      props.organizationId,
+      props.importId,
+      props.extUid,
+      props.transactionDate,
+      amount,
+      description,
+      reference,
+      counterparty,
+      undefined,
+      'imported',
+      new Date()
+    ));
+  }
+}
+
+export interface CreateBankTransactionProps {
+  readonly id: BankTransactionId;
+  readonly organizationId: OrganizationId;
+  readonly importId: BankImportId;
+  readonly extUid: string;
+  readonly transactionDate: Date;
+  readonly amount: string; // Signed decimal
+  readonly currency: Currency;
+  readonly description: string;
+  readonly reference?: string;
+  readonly counterparty?: string;
+}
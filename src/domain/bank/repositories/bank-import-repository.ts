@@ -0,0 +1,36 @@
+import { OrganizationId, DomainError } from '../../shared/types';
+import { Result } from '../../shared/result';
+import { BankImport } from '../entities/bank-import';
+import { BankTransaction } from '../entities/bank-transaction';
+
+/**
+ * Bank import repository interface for data access
+ */
+export interface BankImportRepository {
+  /**
+   * Find the import of a file by the hash of its content
+   */
+  findByFileHash(fileHash: string, organizationId: OrganizationId): Promise<Result<BankImport | null, DomainError>>;
+
+  /**
+   * Insert or update an import
+   */
+  save(bankImport: BankImport): Promise<Result<BankImport, DomainError>>;
+
+  /**
+   * Insert transactions, keeping any transaction already stored with the same external UID
+   * Returns the number of transactions inserted.
+   */
+  saveTransactions(
+    organizationId: OrganizationId,
+    transactions: readonly BankTransaction[]
+  ): Promise<Result<number, DomainError>>;
+
+  /**
+   * Find the transactions still to be reconciled, imported up to and including a date, ordered by date
+   */
+  findUnreconciledTransactions(
+    organizationId: OrganizationId,
+    endDate: Date
+  ): Promise<Result<BankTransaction[], DomainError>>;
+}
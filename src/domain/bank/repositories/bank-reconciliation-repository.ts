@@ -0,0 +1,112 @@
+import {
+  OrganizationId,
+  AccountId,
+  JournalId,
+  BankTransactionId,
+  JournalLineId,
+  JournalStatus,
+  DomainError
+} from '../../shared/types';
+import { Result } from '../../shared/result';
+import { Money } from '../../journal/value-objects/money';
+import { BankTransaction, BankTransactionStatus } from '../entities/bank-transaction';
+import { BankMatch, BankMatchStatus } from '../entities/bank-match';
+
+/**
+ * Bank reconciliation repository interface for data access
+ * Book lines are the lines of posted and reversed journals on the bank account in its currency; opening journals
+ * are left out like in the ledger.
+ */
+export interface BankReconciliationRepository {
+  /**
+   * Find the transactions of completed imports into a bank account, ordered by date
+   * Both date bounds are inclusive; omitted bounds are open-ended.
+   */
+  findTransactions(
+    organizationId: OrganizationId,
+    query: BankTransactionQuery
+  ): Promise<Result<BankTransaction[], DomainError>>;
+
+  /**
+   * Find the book lines of a bank account, ordered by posting date and journal number
+   */
+  findBookLines(
+    organizationId: OrganizationId,
+    query: BookLineQuery
+  ): Promise<Result<BookLine[], DomainError>>;
+
+  /**
+   * Sum the book lines of a bank account up to and including a date, debit minus credit
+   */
+  sumBookBalance(
+    organizationId: OrganizationId,
+    accountId: AccountId,
+    currency: string,
+    cutoffDate: Date
+  ): Promise<Result<Money, DomainError>>;
+
+  /**
+   * Find the latest closing balance of the completed statement imports into a bank account on or before a date
+   */
+  findStatementBalance(
+    organizationId: OrganizationId,
+    accountId: AccountId,
+    currency: string,
+    cutoffDate: Date
+  ): Promise<Result<StatementBalance | null, DomainError>>;
+
+  /**
+   * Find the matches of a bank account with a status
+   */
+  findMatches(
+    organizationId: OrganizationId,
+    accountId: AccountId,
+    status: BankMatchStatus
+  ): Promise<Result<BankMatch[], DomainError>>;
+
+  /**
+   * Insert a match with its items
+   * Confirming a match journalizes its transactions, linking them to the journal of the first journal line, as a
+   * transaction refers to a single journal; the match items keep every journal line. Confirming fails when one of
+   * the transactions or journal lines has been matched or ignored in the meantime.
+   */
+  saveMatch(match: BankMatch, journalId: JournalId): Promise<Result<BankMatch, DomainError>>;
+}
+
+export interface BankTransactionQuery {
+  readonly accountId: AccountId;
+  readonly transactionIds?: readonly BankTransactionId[];
+  readonly statuses?: readonly BankTransactionStatus[];
+  readonly unclearedAt?: Date; // Leave out transactions of confirmed matches cleared on or before this date
+  readonly startDate?: Date;
+  readonly endDate?: Date;
+}
+
+export interface BookLineQuery {
+  readonly accountId: AccountId;
+  readonly currency: string; // Currency of the bank account; amounts are taken in it
+  readonly journalLineIds?: readonly JournalLineId[];
+  readonly unmatchedOnly?: boolean; // Leave out lines of confirmed matches
+  readonly unclearedAt?: Date; // Leave out lines of confirmed matches cleared on or before this date
+  readonly startDate?: Date;
+  readonly endDate?: Date;
+}
+
+export interface BookLine {
+  readonly id: JournalLineId;
+  readonly journalId: JournalId;
+  readonly originalJournalId?: JournalId; // Journal reversed by the journal of this line
+  readonly journalNumber: string;
+  readonly journalStatus: JournalStatus;
+  readonly postingDate: Date;
+  readonly lineNumber: number;
+  readonly description: string; // Journal description and line description
+  readonly reference?: string;
+  readonly amount: Money; // Debit minus credit in the currency of the bank account
+  readonly clearedDate?: Date; // Cleared date of the confirmed match of the line
+}
+
+export interface StatementBalance {
+  readonly amount: Money; // Signed, negative when overdrawn
+  readonly date: Date; // End of the day the balance was reported for
+}
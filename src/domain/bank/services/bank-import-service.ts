@@ -0,0 +1,258 @@
+import { createHash } from 'crypto';
+import {
+  OrganizationId,
+  AccountId,
+  Currency,
+  AuditContext,
+  DomainError,
+  domainError,
+  DomainErrorCodes,
+  bankImportId,
+  bankTransactionId
+} from '../../shared/types';
+import { Result, success, failure } from '../../shared/result';
+import { UnitOfWork } from '../../shared/unit-of-work';
+import { AccountService } from '../../account/services/account-service';
+import { AuditService } from '../../audit/services/audit-service';
+import { BankImport, BankStatementFormat } from '../entities/bank-import';
+import { BankTransaction } from '../entities/bank-transaction';
+import { BankImportRepository } from '../repositories/bank-import-repository';
+import { TransactionFingerprint } from '../value-objects/transaction-fingerprint';
+
+/**
+ * Bank import domain service
+ * A statement file is imported into an active asset account of the same currency. Transactions are stored once
+ * per external UID, the bank's transaction ID or else a content fingerprint, so overlapping statements and
+ * repeated imports add no duplicates; importing a file again returns its completed import unchanged.
+ */
+export class BankImportService {
+  constructor(
+    private readonly bankImportRepository: BankImportRepository,
+    private readonly accountService: AccountService,
+    private readonly auditService: AuditService,
+    private readonly unitOfWork: UnitOfWork
+  ) {}
+
+  /**
+   * Import a statement file into a bank account
+   * Parse failures are recorded on the import before they are returned.
+   */
+  async importStatement(
+    organizationId: OrganizationId,
+    file: BankStatementFile,
+    parser: BankStatementParser,
+    auditContext: AuditContext
+  ): Promise<Result<BankImportResult, DomainError>> {
+    const accountResult = await this.accountService.findAccount(file.accountId, organizationId);
+    if (accountResult.isFailure()) {
+      return failure(accountResult.error);
+    }
+
+    const account = accountResult.value;
+    if (!account || !account.isActive || account.type !== 'asset') {
+      return failure(domainError(
+        DomainErrorCodes.INVALID_ACCOUNT,
+        'Bank statements can only be imported into an active asset account',
+        { accountId: file.accountId }
+      ));
+    }
+
+    const fileHash = createHash('sha256').update(file.content).digest('hex');
+    const existingResult = await this.bankImportRepository.findByFileHash(fileHash, organizationId);
+    if (existingResult.isFailure()) {
+      return failure(existingResult.error);
+    }
+
+    const existing = existingResult.value;
+    if (existing?.isCompleted()) {
+      return success({ bankImport: existing, duplicate: true });
+    }
+
+    let bankImport: BankImport;
+    if (existing) {
+      bankImport = existing.restart({
+        fileName: file.fileName,
+        accountId: account.id,
+        importedBy: auditContext.userId,
+        format: parser.format
+      });
+    } else {
+      const createResult = BankImport.create({
+        id: bankImportId(crypto.randomUUID()),
+        organizationId,
+        fileName: file.fileName,
+        fileHash,
+        fileSize: Buffer.byteLength(file.content, 'utf8'),
+        accountId: account.id,
+        importedBy: auditContext.userId,
+        format: parser.format
+      });
+      if (createResult.isFailure()) {
+        return failure(createResult.error);
+      }
+      bankImport = createResult.value;
+    }
+
+    const startResult = await this.bankImportRepository.save(bankImport);
+    if (startResult.isFailure()) {
+      return failure(startResult.error);
+    }
+
+    const statementResult = parser.parse(file.content);
+    if (statementResult.isFailure()) {
+      return this.failImport(bankImport, statementResult.error);
+    }
+
+    const statement = statementResult.value;
+    const extUids = extUidsOf(account.id, statement.entries);
+    const transactions: BankTransaction[] = [];
+    for (let index = 0; index < statement.entries.length; index++) {
+      const entry = statement.entries[index];
+      if (entry.currency !== account.currency) {
+        return this.failImport(bankImport, domainError(
+          DomainErrorCodes.VALIDATION_FAILED,
+          `Statement entry ${index + 1} is in ${entry.currency}, the bank account in ${account.currency}`,
+          { entry: index + 1, currency: entry.currency, accountCurrency: account.currency }
+        ));
+      }
+
+      const transactionResult = BankTransaction.create({
+        id: bankTransactionId(crypto.randomUUID()),
+        organizationId,
+        importId: bankImport.id,
+        extUid: extUids[index],
+        transactionDate: entry.transactionDate,
+        amount: entry.amount,
+        currency: entry.currency,
+        description: entry.description,
+        reference: entry.reference,
+        counterparty: entry.counterparty
+      });
+      if (transactionResult.isFailure()) {
+        return this.failImport(bankImport, domainError(
+          transactionResult.error.code,
+          `Statement entry ${index + 1}: ${transactionResult.error.message}`,
+          { ...transactionResult.error.details, entry: index + 1 }
+        ));
+      }
+      transactions.push(transactionResult.value);
+    }
+
+    // Transactions, the completed import and its audit entry are stored together or not at all
+    const completeResult = await this.unitOfWork.run(async () => {
+      const insertResult = await this.bankImportRepository.saveTransactions(organizationId, transactions);
+      if (insertResult.isFailure()) {
+        return failure(insertResult.error);
+      }
+
+      const saveResult = await this.bankImportRepository.save(bankImport.complete(
+        transactions.length,
+        insertResult.value,
+        {
+          iban: statement.iban,
+          statementId: statement.statementId,
+          currency: statement.currency,
+          openingBalance: statement.openingBalance?.amount,
+          openingDate: statement.openingBalance?.date.toISOString().slice(0, 10),
+          closingBalance: statement.closingBalance?.amount,
+          closingDate: statement.closingBalance?.date.toISOString().slice(0, 10)
+        }
+      ));
+      if (saveResult.isFailure()) {
+        return saveResult;
+      }
+
+      const auditResult = await this.auditService.record({
+        organizationId,
+        entityType: 'bank_import',
+        entityId: bankImport.id,
+        action: 'IMPORT',
+        newData: saveResult.value.toAuditData(),
+        auditContext
+      });
+      if (auditResult.isFailure()) {
+        return failure(auditResult.error);
+      }
+
+      return saveResult;
+    });
+    if (completeResult.isFailure()) {
+      return this.failImport(bankImport, completeResult.error);
+    }
+
+    return success({ bankImport: completeResult.value, duplicate: false });
+  }
+
+  /**
+   * Record the error of an import and return it
+   */
+  private async failImport(
+    bankImport: BankImport,
+    error: DomainError
+  ): Promise<Result<BankImportResult, DomainError>> {
+    const saveResult = await this.bankImportRepository.save(bankImport.fail(error.message));
+    if (saveResult.isFailure()) {
+      return failure(saveResult.error);
+    }
+
+    return failure(error);
+  }
+}
+
+/**
+ * External UIDs of the entries of a statement: the transaction ID assigned by the bank, scoped to the bank account,
+ * or else the content fingerprint; occurrences are counted among the entries without a transaction ID
+ */
+function extUidsOf(accountId: AccountId, entries: readonly BankStatementEntry[]): string[] {
+  const fingerprints = TransactionFingerprint.generateAll(accountId, entries.filter(entry => !entry.bankReference));
+  let next = 0;
+  return entries.map(entry => entry.bankReference
+    ? `${accountId}:${entry.bankReference}`
+    : fingerprints[next++].toString());
+}
+
+/**
+ * Parser of one bank statement file format
+ */
+export interface BankStatementParser {
+  readonly format: BankStatementFormat;
+  parse(content: string): Result<BankStatement, DomainError>;
+}
+
+export interface BankStatementFile {
+  readonly accountId: AccountId;
+  readonly fileName: string;
+  readonly content: string;
+}
+
+/**
+ * Booked entries of a statement file with the balances the bank reports
+ */
+export interface BankStatement {
+  readonly iban?: string;
+  readonly statementId?: string;
+  readonly currency?: Currency;
+  readonly openingBalance?: BankStatementBalance;
+  readonly closingBalance?: BankStatementBalance;
+  readonly entries: readonly BankStatementEntry[];
+}
+
+export interface BankStatementBalance {
+  readonly amount: string; // Signed decimal, negative when overdrawn
+  readonly date: Date;
+}
+
+export interface BankStatementEntry {
+  readonly bankReference?: string; // Transaction ID assigned by the bank
+  readonly transactionDate: Date; // Booking date
+  readonly amount: string; // Signed decimal, negative for money paid
+  readonly currency: Currency;
+  readonly description: string;
+  readonly reference?: string; // Payment reference, e.g. the SEPA end-to-end ID
+  readonly counterparty?: string;
+}
+
+export interface BankImportResult {
+  readonly bankImport: BankImport;
+  readonly duplicate: boolean; // The file had been imported before; nothing was stored
+}
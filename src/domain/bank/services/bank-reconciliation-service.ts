@@ -0,0 +1,373 @@
+import {
+  OrganizationId,
+  AccountId,
+  BankTransactionId,
+  JournalLineId,
+  AuditContext,
+  DomainError,
+  domainError,
+  DomainErrorCodes,
+  bankMatchId
+} from '../../shared/types';
+import { Result, success, failure } from '../../shared/result';
+import { UnitOfWork } from '../../shared/unit-of-work';
+import { Money } from '../../journal/value-objects/money';
+import { Account } from '../../account/entities/account';
+import { AccountService } from '../../account/services/account-service';
+import { AuditService } from '../../audit/services/audit-service';
+import { BankMatch, BankMatchStatus } from '../entities/bank-match';
+import { BankReconciliationRepository } from '../repositories/bank-reconciliation-repository';
+import { MatchSuggestion } from '../value-objects/match-suggestion';
+import { ReconciliationStatement } from '../value-objects/reconciliation-statement';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_DATE_WINDOW_DAYS = 7;
+
+/**
+ * Bank reconciliation domain service
+ * Imported bank transactions are matched to the posted journal lines of their bank account. Suggestions are worked
+ * out on request; only the decisions on them are stored, confirmed matches journalizing their transactions.
+ */
+export class BankReconciliationService {
+  constructor(
+    private readonly bankReconciliationRepository: BankReconciliationRepository,
+    private readonly accountService: AccountService,
+    private readonly auditService: AuditService,
+    private readonly unitOfWork: UnitOfWork
+  ) {}
+
+  /**
+   * Suggest matches of the open transactions of a bank account to its unmatched journal lines
+   * Lines of reversed journals and of reversals are not suggested, nor are rejected matches.
+   */
+  async suggestMatches(
+    organizationId: OrganizationId,
+    query: MatchSuggestionQuery
+  ): Promise<Result<MatchSuggestion[], DomainError>> {
+    const accountResult = await this.findBankAccount(organizationId, query.accountId);
+    if (accountResult.isFailure()) {
+      return failure(accountResult.error);
+    }
+
+    const account = accountResult.value;
+    const window = query.dateWindowDays ?? DEFAULT_DATE_WINDOW_DAYS;
+
+    const transactionsResult = await this.bankReconciliationRepository.findTransactions(organizationId, {
+      accountId: account.id,
+      statuses: ['imported'],
+      startDate: query.startDate,
+      endDate: query.endDate
+    });
+    if (transactionsResult.isFailure()) {
+      return failure(transactionsResult.error);
+    }
+
+    const linesResult = await this.bankReconciliationRepository.findBookLines(organizationId, {
+      accountId: account.id,
+      currency: account.currency,
+      unmatchedOnly: true,
+      startDate: query.startDate && new Date(query.startDate.getTime() - window * DAY_MS),
+      endDate: query.endDate && new Date(query.endDate.getTime() + window * DAY_MS)
+    });
+    if (linesResult.isFailure()) {
+      return failure(linesResult.error);
+    }
+
+    const rejectedResult = await this.bankReconciliationRepository.findMatches(
+      organizationId,
+      account.id,
+      'rejected'
+    );
+    if (rejectedResult.isFailure()) {
+      return failure(rejectedResult.error);
+    }
+
+    return success(MatchSuggestion.findAll(
+      transactionsResult.value,
+      linesResult.value.filter(line => line.journalStatus === 'posted' && !line.originalJournalId),
+      {
+        dateWindowDays: window,
+        rejectedKeys: new Set(rejectedResult.value.map(match => match.getKey()))
+      }
+    ));
+  }
+
+  /**
+   * Confirm a match; the amounts must agree and none of the items may be matched already
+   */
+  async confirmMatch(
+    organizationId: OrganizationId,
+    decision: BankMatchDecision,
+    auditContext: AuditContext
+  ): Promise<Result<BankMatch, DomainError>> {
+    return this.decide(organizationId, decision, 'confirmed', auditContext);
+  }
+
+  /**
+   * Reject a suggested match so that it is not suggested again
+   */
+  async rejectMatch(
+    organizationId: OrganizationId,
+    decision: BankMatchDecision,
+    auditContext: AuditContext
+  ): Promise<Result<BankMatch, DomainError>> {
+    return this.decide(organizationId, decision, 'rejected', auditContext);
+  }
+
+  /**
+   * Reconcile the book balance of a bank account with the bank balance at a cutoff date
+   * The bank balance requires a statement with a closing balance on or before the cutoff date.
+   */
+  async generateStatement(
+    organizationId: OrganizationId,
+    accountId: AccountId,
+    cutoffDate: Date
+  ): Promise<Result<ReconciliationStatement, DomainError>> {
+    const accountResult = await this.findBankAccount(organizationId, accountId);
+    if (accountResult.isFailure()) {
+      return failure(accountResult.error);
+    }
+
+    const account = accountResult.value;
+    const statementBalanceResult = await this.bankReconciliationRepository.findStatementBalance(
+      organizationId,
+      account.id,
+      account.currency,
+      cutoffDate
+    );
+    if (statementBalanceResult.isFailure()) {
+      return failure(statementBalanceResult.error);
+    }
+
+    const statementBalance = statementBalanceResult.value;
+    if (!statementBalance) {
+      return failure(domainError(
+        DomainErrorCodes.VALIDATION_FAILED,
+        'No bank statement with a closing balance on or before the cutoff date has been imported',
+        { accountId: account.id, cutoffDate: cutoffDate.toISOString() }
+      ));
+    }
+
+    const bookBalanceResult = await this.bankReconciliationRepository.sumBookBalance(
+      organizationId,
+      account.id,
+      account.currency,
+      cutoffDate
+    );
+    if (bookBalanceResult.isFailure()) {
+      return failure(bookBalanceResult.error);
+    }
+
+    const laterTransactionsResult = await this.bankReconciliationRepository.findTransactions(organizationId, {
+      accountId: account.id,
+      startDate: statementBalance.date,
+      endDate: cutoffDate
+    });
+    if (laterTransactionsResult.isFailure()) {
+      return failure(laterTransactionsResult.error);
+    }
+
+    const outstandingTransactionsResult = await this.bankReconciliationRepository.findTransactions(organizationId, {
+      accountId: account.id,
+      unclearedAt: cutoffDate,
+      endDate: cutoffDate
+    });
+    if (outstandingTransactionsResult.isFailure()) {
+      return failure(outstandingTransactionsResult.error);
+    }
+
+    const outstandingLinesResult = await this.bankReconciliationRepository.findBookLines(organizationId, {
+      accountId: account.id,
+      currency: account.currency,
+      unclearedAt: cutoffDate,
+      endDate: cutoffDate
+    });
+    if (outstandingLinesResult.isFailure()) {
+      return failure(outstandingLinesResult.error);
+    }
+
+    return success(ReconciliationStatement.build({
+      accountId: account.id,
+      cutoffDate,
+      bookBalance: bookBalanceResult.value,
+      statementBalance,
+      transactionsAfterStatement: laterTransactionsResult.value,
+      outstandingTransactions: outstandingTransactionsResult.value,
+      outstandingLines: outstandingLinesResult.value
+    }));
+  }
+
+  /**
+   * Record a decision on a match of transactions and journal lines of a bank account
+   */
+  private async decide(
+    organizationId: OrganizationId,
+    decision: BankMatchDecision,
+    status: BankMatchStatus,
+    auditContext: AuditContext
+  ): Promise<Result<BankMatch, DomainError>> {
+    const accountResult = await this.findBankAccount(organizationId, decision.accountId);
+    if (accountResult.isFailure()) {
+      return failure(accountResult.error);
+    }
+
+    const account = accountResult.value;
+    const transactionIds = [...new Set(decision.transactionIds)];
+    const journalLineIds = [...new Set(decision.journalLineIds)];
+
+    const transactionsResult = await this.bankReconciliationRepository.findTransactions(organizationId, {
+      accountId: account.id,
+      transactionIds
+    });
+    if (transactionsResult.isFailure()) {
+      return failure(transactionsResult.error);
+    }
+
+    const transactions = transactionsResult.value;
+    const missingTransactionIds = transactionIds.filter(id =>
+      !transactions.some(transaction => transaction.id === id));
+    if (missingTransactionIds.length > 0) {
+      return failure(domainError(
+        DomainErrorCodes.ENTITY_NOT_FOUND,
+        'Bank transactions not found on the bank account',
+        { accountId: account.id, transactionIds: missingTransactionIds }
+      ));
+    }
+
+    const linesResult = await this.bankReconciliationRepository.findBookLines(organizationId, {
+      accountId: account.id,
+      currency: account.currency,
+      journalLineIds
+    });
+    if (linesResult.isFailure()) {
+      return failure(linesResult.error);
+    }
+
+    const lines = linesResult.value;
+    const missingLineIds = journalLineIds.filter(id => !lines.some(line => line.id === id));
+    if (missingLineIds.length > 0) {
+      return failure(domainError(
+        DomainErrorCodes.ENTITY_NOT_FOUND,
+        'Posted journal lines not found on the bank account',
+        { accountId: account.id, journalLineIds: missingLineIds }
+      ));
+    }
+
+    const amount = transactions.reduce(
+      (sum, transaction) => sum.add(transaction.amount),
+      Money.zero(account.currency)
+    );
+    if (status === 'confirmed') {
+      const matchedTransactions = transactions.filter(transaction => transaction.status !== 'imported');
+      const matchedLines = lines.filter(line => line.clearedDate);
+      if (matchedTransactions.length > 0 || matchedLines.length > 0) {
+        return failure(domainError(
+          DomainErrorCodes.BUSINESS_RULE_VIOLATION,
+          'Bank transactions or journal lines are already matched or ignored',
+          {
+            transactionIds: matchedTransactions.map(transaction => transaction.id),
+            journalLineIds: matchedLines.map(line => line.id)
+          }
+        ));
+      }
+
+      const lineAmount = lines.reduce((sum, line) => sum.add(line.amount), Money.zero(account.currency));
+      if (!amount.equals(lineAmount)) {
+        return failure(domainError(
+          DomainErrorCodes.VALIDATION_FAILED,
+          'Bank transactions and journal lines of a match must add up to the same amount',
+          { transactionAmount: amount.amount, journalLineAmount: lineAmount.amount, currency: account.currency }
+        ));
+      }
+    }
+
+    const dates = [
+      ...transactions.map(transaction => transaction.transactionDate.getTime()),
+      ...lines.map(line => line.postingDate.getTime())
+    ];
+    const matchResult = BankMatch.create({
+      id: bankMatchId(crypto.randomUUID()),
+      organizationId,
+      accountId: account.id,
+      status,
+      transactionIds,
+      journalLineIds,
+      amount,
+      clearedDate: new Date(Math.max(...dates)),
+      createdBy: auditContext.userId
+    });
+    if (matchResult.isFailure()) {
+      return failure(matchResult.error);
+    }
+
+    return await this.unitOfWork.run(async () => {
+      const saveResult = await this.bankReconciliationRepository.saveMatch(matchResult.value, lines[0].journalId);
+      if (saveResult.isFailure()) {
+        return failure(saveResult.error);
+      }
+
+      // Transactions are linked to a single journal, so a 1:n match keeps all of its journals in the audit log
+      const auditResult = await this.auditService.record({
+        organizationId,
+        entityType: 'bank_match',
+        entityId: saveResult.value.id,
+        action: status === 'confirmed' ? 'CONFIRM' : 'REJECT',
+        newData: {
+          ...saveResult.value.toAuditData(),
+          journalIds: [...new Set(lines.map(line => line.journalId))]
+        },
+        auditContext
+      });
+      if (auditResult.isFailure()) {
+        return failure(auditResult.error);
+      }
+
+      return success(saveResult.value);
+    });
+  }
+
+  /**
+   * Find a bank account: an asset account of the organization
+   */
+  private async findBankAccount(
+    organizationId: OrganizationId,
+    accountId: AccountId
+  ): Promise<Result<Account, DomainError>> {
+    const accountResult = await this.accountService.findAccount(accountId, organizationId);
+    if (accountResult.isFailure()) {
+      return failure(accountResult.error);
+    }
+
+    const account = accountResult.value;
+    if (!account) {
+      return failure(domainError(
+        DomainErrorCodes.ENTITY_NOT_FOUND,
+        'Account not found',
+        { accountId }
+      ));
+    }
+
+    if (account.type !== 'asset') {
+      return failure(domainError(
+        DomainErrorCodes.INVALID_ACCOUNT,
+        'Bank reconciliation requires an asset account',
+        { accountId }
+      ));
+    }
+
+    return success(account);
+  }
+}
+
+export interface MatchSuggestionQuery {
+  readonly accountId: AccountId;
+  readonly startDate?: Date; // Transaction dates, inclusive
+  readonly endDate?: Date;
+  readonly dateWindowDays?: number; // Days a journal line may lie before or after a transaction, defaults to 7
+}
+
+export interface BankMatchDecision {
+  readonly accountId: AccountId;
+  readonly transactionIds: readonly BankTransactionId[];
+  readonly journalLineIds: readonly JournalLineId[];
+}
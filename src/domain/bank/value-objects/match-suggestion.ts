@@ -0,0 +1,260 @@
+import { Decimal } from 'decimal.js';
+import { Money } from '../../journal/value-objects/money';
+import { BankTransaction } from '../entities/bank-transaction';
+import { BankMatch } from '../entities/bank-match';
+import { BookLine } from '../repositories/bank-reconciliation-repository';
+
+export type MatchCriterion = 'amount' | 'date' | 'reference' | 'counterparty';
+
+const DEFAULT_DATE_WINDOW_DAYS = 7;
+const MAX_GROUP_SIZE = 4; // Items on the many side of a 1:n or n:1 match
+const MAX_GROUP_CANDIDATES = 12; // Best scored candidates combined into groups
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Score weights, adding up to 100 for an exact match on the same day
+const AMOUNT_SCORE = 20;
+const DATE_SCORE = 20;
+const REFERENCE_SCORE = 40;
+const COUNTERPARTY_SCORE = 20;
+const GROUP_ITEM_PENALTY = 5; // Per additional item, so that 1:1 matches win ties
+
+const MIN_REFERENCE_LENGTH = 4;
+const MIN_TOKEN_LENGTH = 3;
+const LEGAL_FORM_TOKENS = new Set(['GMBH', 'MBH', 'LTD', 'INC', 'LLC', 'UND', 'AND', 'THE']);
+
+interface PairEvaluation {
+  readonly date: number;
+  readonly reference: number;
+  readonly counterparty: number;
+}
+
+interface Candidate<T> {
+  readonly item: T;
+  readonly amount: Decimal;
+  readonly evaluation: PairEvaluation;
+}
+
+/**
+ * Suggested match of bank transactions to book lines of the bank account
+ * The amounts must add up exactly and all dates lie within the date window; matching references and counterparty
+ * names raise the score. Each transaction and line appears in at most one suggestion, the best scored one.
+ */
+export class MatchSuggestion {
+  private constructor(
+    public readonly transactions: readonly BankTransaction[],
+    public readonly lines: readonly BookLine[],
+    public readonly score: number, // 0 to 100
+    public readonly criteria: readonly MatchCriterion[]
+  ) {}
+
+  /**
+   * Suggest matches of open transactions to open book lines: 1:1 first, then one transaction to several lines
+   * and several transactions to one line
+   */
+  static findAll(
+    transactions: readonly BankTransaction[],
+    lines: readonly BookLine[],
+    options: MatchSuggestionOptions = {}
+  ): MatchSuggestion[] {
+    const window = options.dateWindowDays ?? DEFAULT_DATE_WINDOW_DAYS;
+    const bookLines = lines.filter(line => !line.amount.isZero());
+    const candidates: MatchSuggestion[] = [];
+
+    for (const transaction of transactions) {
+      const lineCandidates = bookLines.flatMap(line => {
+        const evaluation = MatchSuggestion.evaluate(transaction, line, window);
+        return evaluation ? [{ item: line, amount: line.amount.toDecimal(), evaluation }] : [];
+      });
+
+      for (const candidate of lineCandidates) {
+        if (candidate.item.amount.equals(transaction.amount)) {
+          candidates.push(MatchSuggestion.build([transaction], [candidate.item], [candidate.evaluation]));
+        }
+      }
+      for (const group of MatchSuggestion.findGroups(transaction.amount.toDecimal(), lineCandidates)) {
+        candidates.push(MatchSuggestion.build(
+          [transaction],
+          group.map(candidate => candidate.item),
+          group.map(candidate => candidate.evaluation)
+        ));
+      }
+    }
+
+    for (const line of bookLines) {
+      const transactionCandidates = transactions.flatMap(transaction => {
+        const evaluation = MatchSuggestion.evaluate(transaction, line, window);
+        return evaluation ? [{ item: transaction, amount: transaction.amount.toDecimal(), evaluation }] : [];
+      });
+      for (const group of MatchSuggestion.findGroups(line.amount.toDecimal(), transactionCandidates)) {
+        candidates.push(MatchSuggestion.build(
+          group.map(candidate => candidate.item),
+          [line],
+          group.map(candidate => candidate.evaluation)
+        ));
+      }
+    }
+
+    const rejected = options.rejectedKeys ?? new Set<string>();
+    const ranked = candidates
+      .filter(candidate => !rejected.has(candidate.getKey()))
+      .sort((a, b) =>
+        b.score - a.score ||
+        a.transactions.length + a.lines.length - (b.transactions.length + b.lines.length) ||
+        a.getDate().getTime() - b.getDate().getTime());
+
+    const usedTransactions = new Set<string>();
+    const usedLines = new Set<string>();
+    const suggestions: MatchSuggestion[] = [];
+    for (const candidate of ranked) {
+      if (candidate.transactions.some(transaction => usedTransactions.has(transaction.id)) ||
+        candidate.lines.some(line => usedLines.has(line.id))) {
+        continue;
+      }
+
+      candidate.transactions.forEach(transaction => usedTransactions.add(transaction.id));
+      candidate.lines.forEach(line => usedLines.add(line.id));
+      suggestions.push(candidate);
+    }
+
+    return suggestions.sort((a, b) => a.getDate().getTime() - b.getDate().getTime());
+  }
+
+  /**
+   * Key of the suggested items, as used for rejected matches
+   */
+  getKey(): string {
+    return BankMatch.keyOf(
+      this.transactions.map(transaction => transaction.id),
+      this.lines.map(line => line.id)
+    );
+  }
+
+  /**
+   * Sum of the suggested transactions
+   */
+  getAmount(): Money {
+    return this.transactions
+      .slice(1)
+      .reduce((sum, transaction) => sum.add(transaction.amount), this.transactions[0].amount);
+  }
+
+  /**
+   * Earliest date of the suggested transactions
+   */
+  getDate(): Date {
+    return new Date(Math.min(...this.transactions.map(transaction => transaction.transactionDate.getTime())));
+  }
+
+  private static build(
+    transactions: readonly BankTransaction[],
+    lines: readonly BookLine[],
+    evaluations: readonly PairEvaluation[]
+  ): MatchSuggestion {
+    const average = (key: keyof PairEvaluation) =>
+      evaluations.reduce((sum, evaluation) => sum + evaluation[key], 0) / evaluations.length;
+    const date = average('date');
+    const reference = average('reference');
+    const counterparty = average('counterparty');
+    const penalty = GROUP_ITEM_PENALTY * (evaluations.length - 1);
+
+    const criteria: MatchCriterion[] = ['amount'];
+    if (date > 0) {
+      criteria.push('date');
+    }
+    if (reference > 0) {
+      criteria.push('reference');
+    }
+    if (counterparty > 0) {
+      criteria.push('counterparty');
+    }
+
+    return new MatchSuggestion(
+      transactions,
+      lines,
+      Math.max(0, Math.round(AMOUNT_SCORE + date + reference + counterparty - penalty)),
+      criteria
+    );
+  }
+
+  /**
+   * Find groups of two or more candidates adding up to a target amount
+   * Only candidates on the same side as the target with a matching reference or counterparty take part, as
+   * amounts alone combine too freely.
+   */
+  private static findGroups<T>(target: Decimal, candidates: readonly Candidate<T>[]): Candidate<T>[][] {
+    const eligible = candidates
+      .filter(candidate =>
+        candidate.amount.isPositive() === target.isPositive() &&
+        candidate.amount.abs().lessThan(target.abs()) &&
+        candidate.evaluation.reference + candidate.evaluation.counterparty > 0)
+      .sort((a, b) => MatchSuggestion.total(b.evaluation) - MatchSuggestion.total(a.evaluation))
+      .slice(0, MAX_GROUP_CANDIDATES);
+
+    const groups: Candidate<T>[][] = [];
+    const search = (start: number, group: Candidate<T>[], sum: Decimal) => {
+      if (group.length >= 2 && sum.equals(target)) {
+        groups.push(group);
+        return;
+      }
+      if (group.length === MAX_GROUP_SIZE) {
+        return;
+      }
+
+      for (let index = start; index < eligible.length; index++) {
+        const next = sum.plus(eligible[index].amount);
+        if (next.abs().lessThanOrEqualTo(target.abs())) {
+          search(index + 1, [...group, eligible[index]], next);
+        }
+      }
+    };
+    search(0, [], new Decimal(0));
+
+    return groups;
+  }
+
+  /**
+   * Score a transaction against a line; undefined when the dates lie further apart than the window
+   */
+  private static evaluate(transaction: BankTransaction, line: BookLine, window: number): PairEvaluation | undefined {
+    const days = Math.round(Math.abs(transaction.transactionDate.getTime() - line.postingDate.getTime()) / DAY_MS);
+    if (days > window) {
+      return undefined;
+    }
+
+    const lineText = MatchSuggestion.compact(`${line.description} ${line.reference ?? ''}`);
+    const transactionText = MatchSuggestion.compact(`${transaction.description} ${transaction.reference ?? ''}`);
+    const transactionReference = MatchSuggestion.compact(transaction.reference ?? '');
+    const lineReference = MatchSuggestion.compact(line.reference ?? '');
+    const referenceFound =
+      (transactionReference.length >= MIN_REFERENCE_LENGTH && lineText.includes(transactionReference)) ||
+      (lineReference.length >= MIN_REFERENCE_LENGTH && transactionText.includes(lineReference));
+
+    const tokens = (transaction.counterparty ?? '')
+      .toUpperCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter(token => token.length >= MIN_TOKEN_LENGTH && !LEGAL_FORM_TOKENS.has(token));
+    const share = tokens.length > 0 ? tokens.filter(token => lineText.includes(token)).length / tokens.length : 0;
+
+    return {
+      date: DATE_SCORE * (1 - days / (window + 1)),
+      reference: referenceFound ? REFERENCE_SCORE : 0,
+      counterparty: share >= 0.5 ? COUNTERPARTY_SCORE * share : 0
+    };
+  }
+
+  private static total(evaluation: PairEvaluation): number {
+    return evaluation.date + evaluation.reference + evaluation.counterparty;
+  }
+
+  /**
+   * Upper-case letters and digits only, so that references compare regardless of spacing and punctuation
+   */
+  private static compact(text: string): string {
+    return text.toUpperCase().replace(/[^\p{L}\p{N}]/gu, '');
+  }
+}
+
+export interface MatchSuggestionOptions {
+  readonly dateWindowDays?: number; // Defaults to 7
+  readonly rejectedKeys?: ReadonlySet<string>; // Keys of rejected matches, not suggested again
+}
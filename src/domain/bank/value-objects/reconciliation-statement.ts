@@ -0,0 +1,92 @@
+import { AccountId } from '../../shared/types';
+import { Money } from '../../journal/value-objects/money';
+import { BankTransaction } from '../entities/bank-transaction';
+import { BookLine, StatementBalance } from '../repositories/bank-reconciliation-repository';
+
+/**
+ * Bank reconciliation statement of a bank account at a cutoff date
+ * The bank balance is the latest statement closing balance plus the transactions imported after it. Bank and book
+ * balance agree once the transactions not yet booked and the lines not yet cleared by the bank are taken out.
+ */
+export class ReconciliationStatement {
+  private constructor(
+    public readonly accountId: AccountId,
+    public readonly cutoffDate: Date,
+    public readonly bookBalance: Money,
+    public readonly bankBalance: Money,
+    public readonly statementBalance: StatementBalance, // Closing balance the bank balance starts from
+    public readonly unmatchedTransactions: readonly BankTransaction[], // In the bank, not yet in the books
+    public readonly unmatchedLines: readonly BookLine[] // In the books, not yet in the bank
+  ) {}
+
+  /**
+   * Build the statement from the balances and the items not cleared at the cutoff date
+   * Lines of a journal and its reversal cancel out and are left out when both are outstanding.
+   */
+  static build(props: ReconciliationStatementProps): ReconciliationStatement {
+    const bankBalance = props.transactionsAfterStatement
+      .filter(transaction => transaction.transactionDate > props.statementBalance.date)
+      .reduce((sum, transaction) => sum.add(transaction.amount), props.statementBalance.amount);
+
+    const journalIds = new Set(props.outstandingLines.map(line => line.journalId));
+    const cancelled = new Set(props.outstandingLines
+      .filter(line => line.originalJournalId && journalIds.has(line.originalJournalId))
+      .flatMap(line => [line.journalId, line.originalJournalId as string]));
+
+    return new ReconciliationStatement(
+      props.accountId,
+      props.cutoffDate,
+      props.bookBalance,
+      bankBalance,
+      props.statementBalance,
+      props.outstandingTransactions,
+      props.outstandingLines.filter(line => !cancelled.has(line.journalId))
+    );
+  }
+
+  getUnmatchedTransactionTotal(): Money {
+    return this.unmatchedTransactions.reduce(
+      (sum, transaction) => sum.add(transaction.amount),
+      Money.zero(this.bankBalance.currency)
+    );
+  }
+
+  getUnmatchedLineTotal(): Money {
+    return this.unmatchedLines.reduce((sum, line) => sum.add(line.amount), Money.zero(this.bookBalance.currency));
+  }
+
+  /**
+   * Bank balance without the transactions not yet booked
+   */
+  getAdjustedBankBalance(): Money {
+    return this.bankBalance.subtract(this.getUnmatchedTransactionTotal());
+  }
+
+  /**
+   * Book balance without the lines not yet cleared by the bank
+   */
+  getAdjustedBookBalance(): Money {
+    return this.bookBalance.subtract(this.getUnmatchedLineTotal());
+  }
+
+  /**
+   * Unexplained difference, adjusted bank balance minus adjusted book balance
+   */
+  getDifference(): Money {
+    return this.getAdjustedBankBalance().subtract(this.getAdjustedBookBalance());
+  }
+
+  isReconciled(): boolean {
+    return this.getDifference().isZero();
+  }
+}
+
+export interface ReconciliationStatementProps {
+  readonly accountId: AccountId;
+  readonly cutoffDate: Date;
+  readonly bookBalance: Money;
+  readonly statementBalance: StatementBalance;
+  readonly transactionsAfterStatement: readonly BankTransaction[]; // Up to the cutoff date
+  readonly outstandingTransactions: readonly BankTransaction[]; // Up to the cutoff date, not cleared by then
+  readonly outstandingLines: readonly BookLine[]; // Up to the cutoff date, not cleared by then
+}
@@ -0,0 +1,85 @@
+import { createHash } from 'crypto';
+import { Decimal } from 'decimal.js';
+import { AccountId } from '../../shared/types';
+
+/**
+ * Content fingerprint of a bank transaction without a bank-provided ID
+ * Built from the booking date, amount, currency, counterparty and reference; the occurrence index tells identical
+ * payments on the same day apart, so overlapping statements yield the same fingerprints for the same entries.
+ */
+export class TransactionFingerprint {
+  private constructor(public readonly value: string) {}
+
+  /**
+   * Generate the fingerprint of one occurrence of a transaction
+   */
+  static generate(
+    accountId: AccountId,
+    fields: TransactionFingerprintFields,
+    occurrence: number
+  ): TransactionFingerprint {
+    const serialized = [TransactionFingerprint.serialize(fields), occurrence.toString()].join('|');
+    const hashValue = createHash('sha256').update(serialized).digest('hex');
+    return new TransactionFingerprint(`${accountId}:${hashValue}`);
+  }
+
+  /**
+   * Generate the fingerprints of the transactions of a statement in order, counting occurrences of equal content
+   */
+  static generateAll(
+    accountId: AccountId,
+    transactions: readonly TransactionFingerprintFields[]
+  ): TransactionFingerprint[] {
+    const occurrences = new Map<string, number>();
+    return transactions.map(fields => {
+      const key = TransactionFingerprint.serialize(fields);
+      const occurrence = (occurrences.get(key) ?? 0) + 1;
+      occurrences.set(key, occurrence);
+      return TransactionFingerprint.generate(accountId, fields, occurrence);
+    });
+  }
+
+  /**
+   * String representation, used as the external UID of the transaction
+   */
+  toString(): string {
+    return this.value;
+  }
+
+  /**
+   * Serialize the content fields; amounts and texts are normalized so that formatting differences between
+   * exports of the same bank do not change the fingerprint
+   */
+  private static serialize(fields: TransactionFingerprintFields): string {
+    return [
+      fields.transactionDate.toISOString().slice(0, 10),
+      TransactionFingerprint.normalizeAmount(fields.amount),
+      fields.currency.toUpperCase(),
+      TransactionFingerprint.normalizeText(fields.counterparty),
+      TransactionFingerprint.normalizeText(fields.reference),
+    ].join('|');
+  }
+
+  private static normalizeAmount(amount: string): string {
+    try {
+      return new Decimal(amount).toFixed(4);
+    } catch {
+      return amount.trim(); // Rejected when the transaction is created
+    }
+  }
+
+  private static normalizeText(text: string | undefined): string {
+    return (text ?? '').normalize('NFC').replace(/\s+/g, ' ').trim().toUpperCase();
+  }
+}
+
+/**
+ * Content fields of a transaction the fingerprint is built from
+ */
+export interface TransactionFingerprintFields {
+  readonly transactionDate: Date; // Booking date
+  readonly amount: string; // Signed decimal
+  readonly currency: string;
+  readonly counterparty?: string;
+  readonly reference?: string;
+}
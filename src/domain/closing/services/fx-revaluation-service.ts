@@ -0,0 +1,241 @@
+import {
+  OrganizationId,
+  PeriodId,
+  JournalId,
+  Currency,
+  AuditContext,
+  DomainError,
+  domainError,
+  DomainErrorCodes
+} from '../../shared/types';
+import { Result, success, failure } from '../../shared/result';
+import { UnitOfWork } from '../../shared/unit-of-work';
+import { Journal } from '../../journal/entities/journal';
+import { JournalLine } from '../../journal/entities/journal-line';
+import { JournalService } from '../../journal/services/journal-service';
+import { PostingService } from '../../journal/services/posting-service';
+import { Period } from '../../period/entities/period';
+import { PeriodService } from '../../period/services/period-service';
+import { AccountService } from '../../account/services/account-service';
+import { LedgerRepository } from '../../reporting/repositories/ledger-repository';
+import { ExchangeRateService, ResolvedExchangeRate } from '../../exchange-rate/services/exchange-rate-service';
+import { FxRevaluationPlan, FxOpenItem, lastBankBusinessDayOfMonth } from '../value-objects/fx-revaluation-plan';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Foreign currency revaluation domain service
+ * Open items are valued at the end of a period with the rates of the last bank business day of its month. The
+ * adjusting journal is dated on the last day of the period and reversed on the following day, the first of the next
+ * month.
+ */
+export class FxRevaluationService {
+  constructor(
+    private readonly ledgerRepository: LedgerRepository,
+    private readonly accountService: AccountService,
+    private readonly periodService: PeriodService,
+    private readonly journalService: JournalService,
+    private readonly postingService: PostingService,
+    private readonly exchangeRateService: ExchangeRateService,
+    private readonly unitOfWork: UnitOfWork
+  ) {}
+
+  /**
+   * Work out the unrealized exchange differences of a period without booking anything
+   */
+  async planRevaluation(
+    organizationId: OrganizationId,
+    periodId: PeriodId,
+    currency: Currency
+  ): Promise<Result<FxRevaluationPlan, DomainError>> {
+    const periodResult = await this.periodService.findPeriod(periodId, organizationId);
+    if (periodResult.isFailure()) {
+      return failure(periodResult.error);
+    }
+
+    const period = periodResult.value;
+    if (!period) {
+      return failure(domainError(
+        DomainErrorCodes.ENTITY_NOT_FOUND,
+        'Period not found',
+        { periodId }
+      ));
+    }
+
+    // Midnight after the last day of the period, whether the period ends at the start or the end of that day
+    const reversalDate = new Date(Math.floor(period.endDate.getTime() / DAY_MS) * DAY_MS + DAY_MS);
+    const reversalPeriodResult = await this.periodService.findPeriodForPosting(reversalDate, organizationId);
+    if (reversalPeriodResult.isFailure()) {
+      return failure(reversalPeriodResult.error);
+    }
+
+    for (const candidate of [period, reversalPeriodResult.value]) {
+      if (!candidate.allowsPosting()) {
+        return failure(domainError(
+          DomainErrorCodes.PERIOD_CLOSED,
+          'FX revaluation requires the period and the period of the reversal to be open',
+          { periodId: candidate.id, periodName: candidate.name, periodStatus: candidate.status }
+        ));
+      }
+    }
+
+    const existingResult = await this.findRevaluationJournal(period, currency);
+    if (existingResult.isFailure()) {
+      return failure(existingResult.error);
+    }
+
+    if (existingResult.value) {
+      return failure(domainError(
+        DomainErrorCodes.BUSINESS_RULE_VIOLATION,
+        'Period is already revalued',
+        { periodId: period.id, currency, journalId: existingResult.value.id }
+      ));
+    }
+
+    const fxGainLossResult = await this.accountService.findSpecialAccount('FX_GAIN_LOSS', organizationId);
+    if (fxGainLossResult.isFailure()) {
+      return failure(fxGainLossResult.error);
+    }
+
+    const openItemsResult = await this.findOpenItems(period, currency);
+    if (openItemsResult.isFailure()) {
+      return failure(openItemsResult.error);
+    }
+
+    const valuationDate = lastBankBusinessDayOfMonth(period.endDate);
+    const rates = new Map<string, ResolvedExchangeRate>();
+    for (const item of openItemsResult.value) {
+      const itemCurrency = item.originalBalance.currency;
+      if (rates.has(itemCurrency)) {
+        continue;
+      }
+
+      const rateResult = await this.exchangeRateService.findRate(
+        itemCurrency,
+        currency,
+        valuationDate,
+        organizationId
+      );
+      if (rateResult.isFailure()) {
+        return failure(rateResult.error);
+      }
+      rates.set(itemCurrency, rateResult.value);
+    }
+
+    return success(FxRevaluationPlan.build(openItemsResult.value, rates, fxGainLossResult.value, {
+      currency,
+      period,
+      valuationDate,
+      reversalDate
+    }));
+  }
+
+  /**
+   * Book a plan: create and post the revaluation journal, then post its reversal, all in one transaction
+   */
+  async executeRevaluation(
+    organizationId: OrganizationId,
+    plan: FxRevaluationPlan,
+    auditContext: AuditContext
+  ): Promise<Result<FxRevaluationJournals, DomainError>> {
+    const month = plan.period.endDate.toISOString().slice(0, 7);
+    const description = `FX revaluation ${month}`;
+
+    return await this.unitOfWork.run(async () => {
+      const numberResult = await this.journalService.getNextJournalNumber(organizationId, `FXREV-${month}`);
+      if (numberResult.isFailure()) {
+        return failure(numberResult.error);
+      }
+
+      const id = crypto.randomUUID() as JournalId;
+      const lines = plan.lines.map((line, index) => JournalLine.create({
+        journalId: id,
+        accountId: line.account.id,
+        lineNumber: index + 1,
+        description,
+        debitAmount: line.debit,
+        creditAmount: line.credit,
+        originalAmount: line.debit.isZero() ? line.credit : line.debit,
+        exchangeRate: '1.0000'
+      }));
+
+      const draftResult = await this.journalService.createDraftJournal({
+        id,
+        organizationId,
+        periodId: plan.period.id,
+        journalNumber: numberResult.value,
+        description,
+        postingDate: plan.period.getLastDay(),
+        currency: plan.currency,
+        lines,
+        kind: 'revaluation',
+        createdBy: auditContext.userId
+      }, auditContext);
+      if (draftResult.isFailure()) {
+        return failure(draftResult.error);
+      }
+
+      const postResult = await this.postingService.postJournal(id, organizationId, auditContext.userId, auditContext);
+      if (postResult.isFailure()) {
+        return failure(postResult.error);
+      }
+
+      const reverseResult = await this.postingService.reverseJournal(
+        id,
+        organizationId,
+        `Reversal of ${description}`,
+        plan.reversalDate,
+        auditContext.userId,
+        auditContext
+      );
+      if (reverseResult.isFailure()) {
+        return failure(reverseResult.error);
+      }
+
+      return success({
+        revaluationJournal: reverseResult.value.original,
+        reversalJournal: reverseResult.value.reversal
+      });
+    });
+  }
+
+  /**
+   * Find the balance sheet accounts holding a foreign currency balance at the end of a period
+   */
+  async findOpenItems(period: Period, currency: Currency): Promise<Result<FxOpenItem[], DomainError>> {
+    const treeResult = await this.accountService.getAccountTree(period.organizationId);
+    if (treeResult.isFailure()) {
+      return failure(treeResult.error);
+    }
+
+    const balancesResult = await this.ledgerRepository.sumForeignCurrencyBalances(period.organizationId, currency, {
+      endDate: period.endDate
+    });
+    if (balancesResult.isFailure()) {
+      return failure(balancesResult.error);
+    }
+
+    return success(FxRevaluationPlan.selectOpenItems(treeResult.value, balancesResult.value));
+  }
+
+  /**
+   * Find the posted revaluation journal of a period in a currency; reversals of revaluations are not counted
+   */
+  async findRevaluationJournal(period: Period, currency: Currency): Promise<Result<Journal | null, DomainError>> {
+    const journalsResult = await this.journalService.findByPeriod(period.id, period.organizationId);
+    if (journalsResult.isFailure()) {
+      return failure(journalsResult.error);
+    }
+
+    return success(journalsResult.value.find(journal =>
+      journal.kind === 'revaluation' &&
+      journal.status !== 'draft' &&
+      !journal.originalJournalId &&
+      journal.currency === currency) ?? null);
+  }
+}
+
+export interface FxRevaluationJournals {
+  readonly revaluationJournal: Journal;
+  readonly reversalJournal: Journal;
+}
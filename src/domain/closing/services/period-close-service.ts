@@ -0,0 +1,342 @@
+import {
+  OrganizationId,
+  PeriodId,
+  Currency,
+  AuditContext,
+  DomainError,
+  domainError,
+  DomainErrorCodes
+} from '../../shared/types';
+import { Result, success, failure } from '../../shared/result';
+import { Period } from '../../period/entities/period';
+import { PeriodService } from '../../period/services/period-service';
+import { JournalRepository } from '../../journal/repositories/journal-repository';
+import { HashService } from '../../journal/services/hash-service';
+import { BankImportRepository } from '../../bank/repositories/bank-import-repository';
+import { ReportingService } from '../../reporting/services/reporting-service';
+import { FxRevaluationService } from './fx-revaluation-service';
+import {
+  PeriodCloseChecklist,
+  PeriodCloseCheckResult,
+  PeriodCloseWaiver,
+  PERIOD_CLOSE_CHECKS
+} from '../value-objects/period-close-checklist';
+
+/**
+ * Period close domain service
+ * Runs the pre-close checks of a period and only closes it once every failed check has been waived with a reason.
+ */
+export class PeriodCloseService {
+  constructor(
+    private readonly periodService: PeriodService,
+    private readonly journalRepository: JournalRepository,
+    private readonly bankImportRepository: BankImportRepository,
+    private readonly hashService: HashService,
+    private readonly reportingService: ReportingService,
+    private readonly fxRevaluationService: FxRevaluationService
+  ) {}
+
+  /**
+   * Build the pre-close validation report of a period
+   */
+  async getChecklist(
+    organizationId: OrganizationId,
+    periodId: PeriodId,
+    currency: Currency,
+    waivers: readonly PeriodCloseWaiver[] = []
+  ): Promise<Result<PeriodCloseChecklist, DomainError>> {
+    const waiverValidation = this.validateWaivers(waivers);
+    if (waiverValidation.isFailure()) {
+      return failure(waiverValidation.error);
+    }
+
+    const periodResult = await this.periodService.findPeriod(periodId, organizationId);
+    if (periodResult.isFailure()) {
+      return failure(periodResult.error);
+    }
+
+    const period = periodResult.value;
+    if (!period) {
+      return failure(domainError(
+        DomainErrorCodes.ENTITY_NOT_FOUND,
+        'Period not found',
+        { periodId }
+      ));
+    }
+
+    const results: PeriodCloseCheckResult[] = [];
+    for (const check of [
+      () => this.checkDraftJournals(period),
+      () => this.checkBankTransactions(period),
+      () => this.checkTrialBalance(period, currency),
+      () => this.checkHashChain(period),
+      () => this.checkFxRevaluation(period, currency)
+    ]) {
+      const checkResult = await check();
+      if (checkResult.isFailure()) {
+        return failure(checkResult.error);
+      }
+      results.push(checkResult.value);
+    }
+
+    return success(PeriodCloseChecklist.build(period, results, waivers));
+  }
+
+  /**
+   * Close a period in closing status after its checklist has passed or been waived
+   */
+  async closePeriod(
+    organizationId: OrganizationId,
+    periodId: PeriodId,
+    currency: Currency,
+    waivers: readonly PeriodCloseWaiver[],
+    auditContext?: AuditContext
+  ): Promise<Result<ClosedPeriod, DomainError>> {
+    const checklistResult = await this.getChecklist(organizationId, periodId, currency, waivers);
+    if (checklistResult.isFailure()) {
+      return failure(checklistResult.error);
+    }
+
+    const checklist = checklistResult.value;
+    if (!checklist.canClose()) {
+      return failure(domainError(
+        DomainErrorCodes.BUSINESS_RULE_VIOLATION,
+        'Period has unresolved pre-close checks; resolve or waive them with a reason',
+        {
+          periodId,
+          blockingItems: checklist.getBlockingItems().map(item => ({
+            code: item.code,
+            message: item.message
+          }))
+        }
+      ));
+    }
+
+    const closeResult = await this.periodService.closePeriod(
+      periodId,
+      organizationId,
+      auditContext,
+      checklist.toAuditData()
+    );
+    if (closeResult.isFailure()) {
+      return failure(closeResult.error);
+    }
+
+    return success({ period: closeResult.value, checklist });
+  }
+
+  /**
+   * Draft journals must be posted or deleted before the period is closed
+   */
+  private async checkDraftJournals(period: Period): Promise<Result<PeriodCloseCheckResult, DomainError>> {
+    const countResult = await this.journalRepository.countDraftJournalsInPeriod(period.id, period.organizationId);
+    if (countResult.isFailure()) {
+      return failure(countResult.error);
+    }
+
+    // count(*) is returned as a string by the driver
+    const draftCount = Number(countResult.value);
+    if (draftCount === 0) {
+      return success({ code: 'DRAFT_JOURNALS', passed: true, message: 'No draft journals in the period' });
+    }
+
+    const journalsResult = await this.journalRepository.findByPeriod(period.id, period.organizationId);
+    if (journalsResult.isFailure()) {
+      return failure(journalsResult.error);
+    }
+
+    const drafts = journalsResult.value.filter(journal => journal.status === 'draft');
+
+    return success({
+      code: 'DRAFT_JOURNALS',
+      passed: false,
+      message: `${draftCount} draft journal(s) remain in the period`,
+      details: {
+        drafts: drafts.map(journal => ({
+          id: journal.id,
+          journalNumber: journal.journalNumber,
+          description: journal.description,
+          postingDate: journal.postingDate.toISOString()
+        }))
+      }
+    });
+  }
+
+  /**
+   * Imported bank transactions up to the end of the period must be reconciled or ignored
+   */
+  private async checkBankTransactions(period: Period): Promise<Result<PeriodCloseCheckResult, DomainError>> {
+    const transactionsResult = await this.bankImportRepository.findUnreconciledTransactions(
+      period.organizationId,
+      period.endDate
+    );
+    if (transactionsResult.isFailure()) {
+      return failure(transactionsResult.error);
+    }
+
+    const transactions = transactionsResult.value;
+    if (transactions.length === 0) {
+      return success({
+        code: 'UNRECONCILED_BANK_TRANSACTIONS',
+        passed: true,
+        message: 'No unreconciled bank transactions up to the end of the period'
+      });
+    }
+
+    return success({
+      code: 'UNRECONCILED_BANK_TRANSACTIONS',
+      passed: false,
+      message: `${transactions.length} bank transaction(s) up to the end of the period are not reconciled`,
+      details: {
+        transactions: transactions.map(transaction => ({
+          id: transaction.id,
+          importId: transaction.importId,
+          transactionDate: transaction.transactionDate.toISOString(),
+          amount: transaction.amount.amount,
+          currency: transaction.amount.currency,
+          description: transaction.description,
+          reference: transaction.reference
+        }))
+      }
+    });
+  }
+
+  /**
+   * The trial balance of the period must balance
+   */
+  private async checkTrialBalance(
+    period: Period,
+    currency: Currency
+  ): Promise<Result<PeriodCloseCheckResult, DomainError>> {
+    const trialBalanceResult = await this.reportingService.getTrialBalance(period.organizationId, {
+      currency,
+      startDate: period.startDate,
+      endDate: period.endDate
+    });
+    if (trialBalanceResult.isFailure()) {
+      return failure(trialBalanceResult.error);
+    }
+
+    const trialBalance = trialBalanceResult.value;
+    if (trialBalance.isBalanced()) {
+      return success({ code: 'TRIAL_BALANCE', passed: true, message: 'Trial balance is balanced' });
+    }
+
+    return success({
+      code: 'TRIAL_BALANCE',
+      passed: false,
+      message: 'Trial balance is not balanced',
+      details: {
+        currency,
+        debit: trialBalance.totals.debit.amount,
+        credit: trialBalance.totals.credit.amount,
+        difference: trialBalance.getDifference().amount,
+        openingBalance: trialBalance.totals.openingBalance.amount,
+        closingBalance: trialBalance.totals.closingBalance.amount
+      }
+    });
+  }
+
+  /**
+   * The journal hash chain of the organization must be intact
+   */
+  private async checkHashChain(period: Period): Promise<Result<PeriodCloseCheckResult, DomainError>> {
+    const issuesResult = await this.hashService.detectHashChainIssues(period.organizationId);
+    if (issuesResult.isFailure()) {
+      return failure(issuesResult.error);
+    }
+
+    const issues = issuesResult.value;
+    if (issues.length === 0) {
+      return success({ code: 'HASH_CHAIN', passed: true, message: 'Journal hash chain is intact' });
+    }
+
+    return success({
+      code: 'HASH_CHAIN',
+      passed: false,
+      message: `${issues.length} hash chain issue(s) found`,
+      details: { issues }
+    });
+  }
+
+  /**
+   * Open foreign currency items must be revalued at the end of the period
+   */
+  private async checkFxRevaluation(
+    period: Period,
+    currency: Currency
+  ): Promise<Result<PeriodCloseCheckResult, DomainError>> {
+    const journalResult = await this.fxRevaluationService.findRevaluationJournal(period, currency);
+    if (journalResult.isFailure()) {
+      return failure(journalResult.error);
+    }
+
+    const journal = journalResult.value;
+    if (journal) {
+      return success({
+        code: 'FX_REVALUATION',
+        passed: true,
+        message: 'Foreign currency items are revalued',
+        details: { journalId: journal.id, journalNumber: journal.journalNumber }
+      });
+    }
+
+    const openItemsResult = await this.fxRevaluationService.findOpenItems(period, currency);
+    if (openItemsResult.isFailure()) {
+      return failure(openItemsResult.error);
+    }
+
+    const openItems = openItemsResult.value;
+    if (openItems.length === 0) {
+      return success({ code: 'FX_REVALUATION', passed: true, message: 'No open foreign currency items' });
+    }
+
+    return success({
+      code: 'FX_REVALUATION',
+      passed: false,
+      message: `${openItems.length} open foreign currency item(s) are not revalued`,
+      details: {
+        openItems: openItems.map(item => ({
+          accountId: item.account.id,
+          code: item.account.code,
+          currency: item.originalBalance.currency,
+          originalBalance: item.originalBalance.amount,
+          bookedBalance: item.bookedBalance.amount
+        }))
+      }
+    });
+  }
+
+  /**
+   * Waivers must name a known check and give a reason
+   */
+  private validateWaivers(waivers: readonly PeriodCloseWaiver[]): Result<void, DomainError> {
+    for (const waiver of waivers) {
+      if (!PERIOD_CLOSE_CHECKS.includes(waiver.code)) {
+        return failure(domainError(
+          DomainErrorCodes.VALIDATION_FAILED,
+          'Unknown pre-close check',
+          { code: waiver.code, checks: [...PERIOD_CLOSE_CHECKS] }
+        ));
+      }
+
+      if (!waiver.reason?.trim()) {
+        return failure(domainError(
+          DomainErrorCodes.VALIDATION_FAILED,
+          'A waiver requires a reason',
+          { code: waiver.code }
+        ));
+      }
+    }
+
+    return success(undefined);
+  }
+}
+
+/**
+ * Closed period with the checklist it was closed on
+ */
+export interface ClosedPeriod {
+  readonly period: Period;
+  readonly checklist: PeriodCloseChecklist;
+}
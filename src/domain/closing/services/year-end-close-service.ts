@@ -0,0 +1,259 @@
+import {
+  OrganizationId,
+  PeriodId,
+  JournalId,
+  JournalKind,
+  Currency,
+  AuditContext,
+  DomainError,
+  domainError,
+  DomainErrorCodes
+} from '../../shared/types';
+import { Result, success, failure } from '../../shared/result';
+import { UnitOfWork } from '../../shared/unit-of-work';
+import { Journal } from '../../journal/entities/journal';
+import { JournalLine } from '../../journal/entities/journal-line';
+import { JournalService } from '../../journal/services/journal-service';
+import { PostingService } from '../../journal/services/posting-service';
+import { Period } from '../../period/entities/period';
+import { PeriodService } from '../../period/services/period-service';
+import { AccountService } from '../../account/services/account-service';
+import { LedgerRepository } from '../../reporting/repositories/ledger-repository';
+import { YearEndClosePlan, ClosePlanLine } from '../value-objects/year-end-close-plan';
+
+/**
+ * Year-end close domain service
+ * The fiscal year is identified by its last period; the closing journal is dated on the last day of that period and
+ * the opening journal at the start of the period that follows it.
+ */
+export class YearEndCloseService {
+  constructor(
+    private readonly ledgerRepository: LedgerRepository,
+    private readonly accountService: AccountService,
+    private readonly periodService: PeriodService,
+    private readonly journalService: JournalService,
+    private readonly postingService: PostingService,
+    private readonly unitOfWork: UnitOfWork
+  ) {}
+
+  /**
+   * Work out the closing and opening entries without booking anything
+   */
+  async planClose(
+    organizationId: OrganizationId,
+    closingPeriodId: PeriodId,
+    currency: Currency
+  ): Promise<Result<YearEndClosePlan, DomainError>> {
+    const closingPeriodResult = await this.periodService.findPeriod(closingPeriodId, organizationId);
+    if (closingPeriodResult.isFailure()) {
+      return failure(closingPeriodResult.error);
+    }
+
+    const closingPeriod = closingPeriodResult.value;
+    if (!closingPeriod) {
+      return failure(domainError(
+        DomainErrorCodes.ENTITY_NOT_FOUND,
+        'Period not found',
+        { periodId: closingPeriodId }
+      ));
+    }
+
+    const openingPeriodResult = await this.periodService.findFollowingPeriod(closingPeriod, organizationId);
+    if (openingPeriodResult.isFailure()) {
+      return failure(openingPeriodResult.error);
+    }
+
+    const openingPeriod = openingPeriodResult.value;
+    if (!openingPeriod) {
+      return failure(domainError(
+        DomainErrorCodes.ENTITY_NOT_FOUND,
+        'No period found after the fiscal year end for the opening journal',
+        { periodId: closingPeriod.id, fiscalYearEnd: closingPeriod.endDate.toISOString() }
+      ));
+    }
+
+    for (const period of [closingPeriod, openingPeriod]) {
+      if (!period.allowsPosting()) {
+        return failure(domainError(
+          DomainErrorCodes.PERIOD_CLOSED,
+          'Year-end close requires the last period of the year and the first period of the next year to be open',
+          { periodId: period.id, periodName: period.name, periodStatus: period.status }
+        ));
+      }
+    }
+
+    const alreadyClosedResult = await this.hasPostedJournalOfKind(closingPeriod, 'closing', currency);
+    if (alreadyClosedResult.isFailure()) {
+      return failure(alreadyClosedResult.error);
+    }
+
+    if (alreadyClosedResult.value) {
+      return failure(domainError(
+        DomainErrorCodes.BUSINESS_RULE_VIOLATION,
+        'Fiscal year is already closed',
+        { periodId: closingPeriod.id, currency }
+      ));
+    }
+
+    const retainedEarningsResult = await this.accountService.findSpecialAccount('RETAINED_EARNINGS', organizationId);
+    if (retainedEarningsResult.isFailure()) {
+      return failure(retainedEarningsResult.error);
+    }
+
+    const openingBalanceResult = await this.accountService.findSpecialAccount('OPENING_BALANCE', organizationId);
+    if (openingBalanceResult.isFailure()) {
+      return failure(openingBalanceResult.error);
+    }
+
+    const treeResult = await this.accountService.getAccountTree(organizationId);
+    if (treeResult.isFailure()) {
+      return failure(treeResult.error);
+    }
+
+    const movementResult = await this.ledgerRepository.sumPostedByAccount(organizationId, currency, {
+      endDate: closingPeriod.endDate
+    });
+    if (movementResult.isFailure()) {
+      return failure(movementResult.error);
+    }
+
+    return success(YearEndClosePlan.build(
+      treeResult.value,
+      movementResult.value,
+      { retainedEarnings: retainedEarningsResult.value, openingBalance: openingBalanceResult.value },
+      { currency, closingPeriod, openingPeriod }
+    ));
+  }
+
+  /**
+   * Book a plan: create and post the closing journal, then the opening journal, in one transaction
+   * Journals without lines are skipped, e.g. the closing journal of a year without income or expenses. When either
+   * journal fails, neither is booked, so the close can be retried.
+   */
+  async executeClose(
+    organizationId: OrganizationId,
+    plan: YearEndClosePlan,
+    auditContext: AuditContext
+  ): Promise<Result<YearEndCloseJournals, DomainError>> {
+    const closingYear = plan.closingPeriod.endDate.getUTCFullYear();
+    const openingYear = plan.openingPeriod.startDate.getUTCFullYear();
+
+    return await this.unitOfWork.run(async () => {
+      const closingResult = await this.bookJournal(organizationId, auditContext, {
+        kind: 'closing',
+        period: plan.closingPeriod,
+        postingDate: plan.closingPeriod.getLastDay(),
+        numberPrefix: `CLOSE-${closingYear}`,
+        description: `Year-end close ${closingYear}`,
+        currency: plan.currency,
+        lines: plan.closingLines
+      });
+      if (closingResult.isFailure()) {
+        return failure(closingResult.error);
+      }
+
+      const openingResult = await this.bookJournal(organizationId, auditContext, {
+        kind: 'opening',
+        period: plan.openingPeriod,
+        postingDate: plan.openingPeriod.startDate,
+        numberPrefix: `OPEN-${openingYear}`,
+        description: `Opening balances ${openingYear}`,
+        currency: plan.currency,
+        lines: plan.openingLines
+      });
+      if (openingResult.isFailure()) {
+        return failure(openingResult.error);
+      }
+
+      return success({
+        closingJournal: closingResult.value,
+        openingJournal: openingResult.value
+      });
+    });
+  }
+
+  /**
+   * Create a draft journal for planned lines and post it
+   */
+  private async bookJournal(
+    organizationId: OrganizationId,
+    auditContext: AuditContext,
+    props: CloseJournalProps
+  ): Promise<Result<Journal | undefined, DomainError>> {
+    if (props.lines.length === 0) {
+      return success(undefined);
+    }
+
+    const numberResult = await this.journalService.getNextJournalNumber(organizationId, props.numberPrefix);
+    if (numberResult.isFailure()) {
+      return failure(numberResult.error);
+    }
+
+    const id = crypto.randomUUID() as JournalId;
+    const lines = props.lines.map((line, index) => JournalLine.create({
+      journalId: id,
+      accountId: line.account.id,
+      lineNumber: index + 1,
+      description: props.description,
+      debitAmount: line.debit,
+      creditAmount: line.credit,
+      originalAmount: line.debit.isZero() ? line.credit : line.debit,
+      exchangeRate: '1.0000'
+    }));
+
+    const draftResult = await this.journalService.createDraftJournal({
+      id,
+      organizationId,
+      periodId: props.period.id,
+      journalNumber: numberResult.value,
+      description: props.description,
+      postingDate: props.postingDate,
+      currency: props.currency,
+      lines,
+      kind: props.kind,
+      createdBy: auditContext.userId
+    }, auditContext);
+    if (draftResult.isFailure()) {
+      return failure(draftResult.error);
+    }
+
+    const postResult = await this.postingService.postJournal(id, organizationId, auditContext.userId, auditContext);
+    if (postResult.isFailure()) {
+      return failure(postResult.error);
+    }
+
+    return success(postResult.value);
+  }
+
+  /**
+   * Check whether a period already holds a posted journal of the given kind in a currency
+   */
+  private async hasPostedJournalOfKind(
+    period: Period,
+    kind: JournalKind,
+    currency: Currency
+  ): Promise<Result<boolean, DomainError>> {
+    const journalsResult = await this.journalService.findByPeriod(period.id, period.organizationId);
+    if (journalsResult.isFailure()) {
+      return failure(journalsResult.error);
+    }
+
+    return success(journalsResult.value.some(journal =>
+      journal.kind === kind && journal.status === 'posted' && journal.currency === currency));
+  }
+}
+
+export interface YearEndCloseJournals {
+  readonly closingJournal?: Journal;
+  readonly openingJournal?: Journal;
+}
+
+interface CloseJournalProps {
+  readonly kind: JournalKind;
+  readonly period: Period;
+  readonly postingDate: Date;
+  readonly numberPrefix: string;
+  readonly description: string;
+  readonly currency: Currency;
+  readonly lines: readonly ClosePlanLine[];
+}
@@ -0,0 +1,173 @@
+import { Currency } from '../../shared/types';
+import { Money } from '../../journal/value-objects/money';
+import { Account } from '../../account/entities/account';
+import { AccountTree } from '../../account/value-objects/account-tree';
+import { Period } from '../../period/entities/period';
+import { ForeignCurrencyBalance } from '../../reporting/repositories/ledger-repository';
+import { ResolvedExchangeRate } from '../../exchange-rate/services/exchange-rate-service';
+import { ClosePlanLine } from './year-end-close-plan';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Month-end revaluation of open foreign currency items
+ * Every balance sheet account holding a foreign currency balance is valued at the rate of the valuation date and
+ * the difference to its booked balance is booked against the FX gain/loss account.
+ */
+export class FxRevaluationPlan {
+  private constructor(
+    public readonly currency: Currency,
+    public readonly period: Period,
+    public readonly valuationDate: Date, // Date of the rates used
+    public readonly reversalDate: Date, // The revaluation is reversed on this date
+    public readonly result: Money, // Net unrealized gain positive, loss negative
+    public readonly items: readonly FxRevaluationItem[],
+    public readonly lines: readonly ClosePlanLine[]
+  ) {}
+
+  /**
+   * Select the balance sheet accounts with a foreign currency balance, ordered by account code and currency
+   */
+  static selectOpenItems(tree: AccountTree, balances: readonly ForeignCurrencyBalance[]): FxOpenItem[] {
+    return balances
+      .flatMap(balance => {
+        const account = tree.get(balance.accountId);
+        return account ? [{ ...balance, account }] : [];
+      })
+      .filter(item => item.account.isBalanceSheetAccount() && !item.originalBalance.isZero())
+      .sort((a, b) => a.account.code.localeCompare(b.account.code, undefined, { numeric: true }) ||
+        a.originalBalance.currency.localeCompare(b.originalBalance.currency));
+  }
+
+  /**
+   * Value open items at the rates of their currencies and plan the adjusting lines
+   */
+  static build(
+    openItems: readonly FxOpenItem[],
+    rates: ReadonlyMap<string, ResolvedExchangeRate>,
+    fxGainLoss: Account,
+    options: FxRevaluationPlanOptions
+  ): FxRevaluationPlan {
+    const items = openItems.flatMap(item => {
+      const rate = rates.get(item.originalBalance.currency);
+      if (!rate) {
+        return [];
+      }
+
+      // Money.create rounds the converted balance to four decimals with banker's rounding
+      const revaluedBalance = Money.create(item.originalBalance.multiply(rate.rate).amount, options.currency);
+      return [{
+        account: item.account,
+        originalBalance: item.originalBalance,
+        bookedBalance: item.bookedBalance,
+        rate,
+        revaluedBalance,
+        difference: revaluedBalance.subtract(item.bookedBalance)
+      }];
+    });
+
+    const lines = items
+      .filter(item => !item.difference.isZero())
+      .flatMap(item => [
+        FxRevaluationPlan.line(item.account, item.difference),
+        FxRevaluationPlan.line(fxGainLoss, item.difference.negate())
+      ]);
+
+    return new FxRevaluationPlan(
+      options.currency,
+      options.period,
+      options.valuationDate,
+      options.reversalDate,
+      items.reduce((sum, item) => sum.add(item.difference), Money.zero(options.currency)),
+      items,
+      lines
+    );
+  }
+
+  /**
+   * Check whether the revaluation has nothing to book
+   */
+  isEmpty(): boolean {
+    return this.lines.length === 0;
+  }
+
+  /**
+   * Line booking a signed debit-positive amount onto an account
+   */
+  private static line(account: Account, amount: Money): ClosePlanLine {
+    const zero = Money.zero(amount.currency);
+    return amount.isNegative()
+      ? { account, debit: zero, credit: amount.abs() }
+      : { account, debit: amount, credit: zero };
+  }
+}
+
+/**
+ * Last TARGET business day of the month of a date, as UTC midnight
+ * Weekends and the TARGET closing days (New Year, Good Friday, Easter Monday, 1 May, 25 and 26 December) are
+ * skipped; the ECB publishes no reference rates on them.
+ */
+export function lastBankBusinessDayOfMonth(date: Date): Date {
+  let day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0));
+  while (!isTargetBusinessDay(day)) {
+    day = new Date(day.getTime() - DAY_MS);
+  }
+  return day;
+}
+
+function isTargetBusinessDay(date: Date): boolean {
+  const weekday = date.getUTCDay();
+  if (weekday === 0 || weekday === 6) {
+    return false;
+  }
+
+  const month = date.getUTCMonth() + 1;
+  const day = date.getUTCDate();
+  if ((month === 1 && day === 1) || (month === 5 && day === 1) || (month === 12 && (day === 25 || day === 26))) {
+    return false;
+  }
+
+  const easter = easterSunday(date.getUTCFullYear()).getTime();
+  return date.getTime() !== easter - 2 * DAY_MS && date.getTime() !== easter + DAY_MS;
+}
+
+/**
+ * Easter Sunday of a year in the Gregorian calendar (anonymous Gregorian algorithm)
+ */
+function easterSunday(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+export interface FxOpenItem extends ForeignCurrencyBalance {
+  readonly account: Account;
+}
+
+export interface FxRevaluationItem {
+  readonly account: Account;
+  readonly originalBalance: Money;
+  readonly bookedBalance: Money;
+  readonly rate: ResolvedExchangeRate;
+  readonly revaluedBalance: Money;
+  readonly difference: Money; // Revalued minus booked balance, debit-positive
+}
+
+export interface FxRevaluationPlanOptions {
+  readonly currency: Currency;
+  readonly period: Period;
+  readonly valuationDate: Date;
+  readonly reversalDate: Date;
+}
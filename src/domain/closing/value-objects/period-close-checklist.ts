@@ -0,0 +1,96 @@
+import { Period } from '../../period/entities/period';
+
+/**
+ * Checks that must pass or be waived before a period can be closed
+ */
+export const PERIOD_CLOSE_CHECKS = [
+  'DRAFT_JOURNALS',
+  'UNRECONCILED_BANK_TRANSACTIONS',
+  'TRIAL_BALANCE',
+  'HASH_CHAIN',
+  'FX_REVALUATION'
+] as const;
+
+export type PeriodCloseCheckCode = typeof PERIOD_CLOSE_CHECKS[number];
+
+export type PeriodCloseCheckStatus = 'passed' | 'failed' | 'waived';
+
+/**
+ * Outcome of running a single pre-close check
+ */
+export interface PeriodCloseCheckResult {
+  readonly code: PeriodCloseCheckCode;
+  readonly passed: boolean;
+  readonly message: string;
+  readonly details?: Record<string, unknown>;
+}
+
+/**
+ * Explicit decision to close a period despite a failed check
+ */
+export interface PeriodCloseWaiver {
+  readonly code: PeriodCloseCheckCode;
+  readonly reason: string;
+}
+
+export interface PeriodCloseChecklistItem extends PeriodCloseCheckResult {
+  readonly status: PeriodCloseCheckStatus;
+  readonly waiverReason?: string;
+}
+
+/**
+ * Pre-close validation report of a period
+ * A waiver only applies to a failed check; waivers for passing checks are ignored.
+ */
+export class PeriodCloseChecklist {
+  private constructor(
+    public readonly period: Period,
+    public readonly items: readonly PeriodCloseChecklistItem[],
+    public readonly generatedAt: Date
+  ) {}
+
+  static build(
+    period: Period,
+    results: readonly PeriodCloseCheckResult[],
+    waivers: readonly PeriodCloseWaiver[] = []
+  ): PeriodCloseChecklist {
+    const items = results.map((result): PeriodCloseChecklistItem => {
+      if (result.passed) {
+        return { ...result, status: 'passed' };
+      }
+
+      const waiver = waivers.find(candidate => candidate.code === result.code);
+      return waiver
+        ? { ...result, status: 'waived', waiverReason: waiver.reason }
+        : { ...result, status: 'failed' };
+    });
+
+    return new PeriodCloseChecklist(period, items, new Date());
+  }
+
+  /**
+   * Failed checks that have not been waived
+   */
+  getBlockingItems(): PeriodCloseChecklistItem[] {
+    return this.items.filter(item => item.status === 'failed');
+  }
+
+  canClose(): boolean {
+    return this.getBlockingItems().length === 0;
+  }
+
+  /**
+   * Convert to the plain snapshot stored with the period close in the audit log
+   */
+  toAuditData(): Record<string, unknown> {
+    return {
+      generatedAt: this.generatedAt.toISOString(),
+      items: this.items.map(item => ({
+        code: item.code,
+        status: item.status,
+        message: item.message,
+        waiverReason: item.waiverReason
+      }))
+    };
+  }
+}
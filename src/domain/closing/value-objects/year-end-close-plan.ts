@@ -0,0 +1,120 @@
+import { Currency } from '../../shared/types';
+import { Money } from '../../journal/value-objects/money';
+import { Account } from '../../account/entities/account';
+import { AccountTree } from '../../account/value-objects/account-tree';
+import { Period } from '../../period/entities/period';
+import { AccountMovement } from '../../reporting/repositories/ledger-repository';
+
+/**
+ * Closing and opening entries of a fiscal year close, derived from the ledger at the fiscal year end
+ * The closing entries zero every revenue and expense account against retained earnings; the opening entries
+ * carry every balance sheet account forward against the opening balance account.
+ */
+export class YearEndClosePlan {
+  private constructor(
+    public readonly currency: Currency,
+    public readonly closingPeriod: Period,
+    public readonly openingPeriod: Period,
+    public readonly result: Money, // Profit positive, loss negative
+    public readonly closingLines: readonly ClosePlanLine[],
+    public readonly openingLines: readonly ClosePlanLine[]
+  ) {}
+
+  /**
+   * Build the plan from the cumulative movements up to the fiscal year end
+   */
+  static build(
+    tree: AccountTree,
+    movements: readonly AccountMovement[],
+    accounts: YearEndCloseAccounts,
+    options: YearEndClosePlanOptions
+  ): YearEndClosePlan {
+    const zero = Money.zero(options.currency);
+    const compareCodes = (a: Account, b: Account) => a.code.localeCompare(b.code, undefined, { numeric: true });
+
+    const balances = movements
+      .flatMap(movement => {
+        const account = tree.get(movement.accountId);
+        return account ? [{ account, balance: movement.debit.subtract(movement.credit) }] : [];
+      })
+      .filter(entry => !entry.balance.isZero())
+      .sort((a, b) => compareCodes(a.account, b.account));
+
+    const incomeBalances = balances.filter(entry => !entry.account.isBalanceSheetAccount());
+    const incomeTotal = incomeBalances.reduce((sum, entry) => sum.add(entry.balance), zero);
+
+    const closingLines = incomeBalances.map(entry => YearEndClosePlan.offsetLine(entry.account, entry.balance));
+    if (!incomeTotal.isZero()) {
+      closingLines.push(YearEndClosePlan.line(accounts.retainedEarnings, incomeTotal));
+    }
+
+    const openingLines = balances
+      .filter(entry => entry.account.isBalanceSheetAccount() && entry.account.id !== accounts.openingBalance.id)
+      .map(entry => entry.account.id === accounts.retainedEarnings.id
+        ? { ...entry, balance: entry.balance.add(incomeTotal) }
+        : entry)
+      .filter(entry => !entry.balance.isZero())
+      .flatMap(entry => [
+        YearEndClosePlan.line(entry.account, entry.balance),
+        YearEndClosePlan.offsetLine(accounts.openingBalance, entry.balance)
+      ]);
+
+    // Retained earnings may have had no balance before the close
+    if (!incomeTotal.isZero() && !balances.some(entry => entry.account.id === accounts.retainedEarnings.id)) {
+      openingLines.push(
+        YearEndClosePlan.line(accounts.retainedEarnings, incomeTotal),
+        YearEndClosePlan.offsetLine(accounts.openingBalance, incomeTotal)
+      );
+    }
+
+    return new YearEndClosePlan(
+      options.currency,
+      options.closingPeriod,
+      options.openingPeriod,
+      incomeTotal.negate(),
+      closingLines,
+      openingLines
+    );
+  }
+
+  /**
+   * Check whether the close has nothing to book
+   */
+  isEmpty(): boolean {
+    return this.closingLines.length === 0 && this.openingLines.length === 0;
+  }
+
+  /**
+   * Line booking a signed debit-positive balance onto an account
+   */
+  private static line(account: Account, balance: Money): ClosePlanLine {
+    const zero = Money.zero(balance.currency);
+    return balance.isNegative()
+      ? { account, debit: zero, credit: balance.abs() }
+      : { account, debit: balance, credit: zero };
+  }
+
+  /**
+   * Line taking a signed debit-positive balance off an account
+   */
+  private static offsetLine(account: Account, balance: Money): ClosePlanLine {
+    return YearEndClosePlan.line(account, balance.negate());
+  }
+}
+
+export interface YearEndCloseAccounts {
+  readonly retainedEarnings: Account;
+  readonly openingBalance: Account;
+}
+
+export interface YearEndClosePlanOptions {
+  readonly currency: Currency;
+  readonly closingPeriod: Period;
+  readonly openingPeriod: Period;
+}
+
+export interface ClosePlanLine {
+  readonly account: Account;
+  readonly debit: Money;
+  readonly credit: Money;
+}
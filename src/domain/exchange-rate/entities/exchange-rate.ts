@@ -0,0 +1,88 @@
+import { Decimal } from 'decimal.js';
+import {
+  ExchangeRateId,
+  OrganizationId,
+  Currency,
+  DomainError,
+  domainError,
+  DomainErrorCodes
+} from '../../shared/types';
+import { Result, success, failure } from '../../shared/result';
+
+export const EXCHANGE_RATE_DECIMAL_PLACES = 6;
+
+/**
+ * Exchange rate effective from a date: one unit of the from currency buys `rate` units of the to currency
+ */
+export class ExchangeRate {
+  private constructor(
+    public readonly id: ExchangeRateId,
+    public readonly organizationId: OrganizationId,
+    public readonly fromCurrency: Currency,
+    public readonly toCurrency: Currency,
+    public readonly rate: string, // Decimal(18,6)
+    public readonly effectiveDate: Date,
+    public readonly source: string, // e.g. ECB
+    public readonly createdAt: Date
+  ) {}
+
+  /**
+   * Create a new exchange rate
+   */
+  static create(props: CreateExchangeRateProps): Result<ExchangeRate, DomainError> {
+    if (props.fromCurrency === props.toCurrency) {
+      return failure(domainError(
+        DomainErrorCodes.VALIDATION_FAILED,
+        'Exchange rate currencies must differ',
+        { currency: props.fromCurrency }
+      ));
+    }
+
+    let rate: Decimal;
+    try {
+      rate = new Decimal(props.rate);
+    } catch {
+      return failure(domainError(
+        DomainErrorCodes.VALIDATION_FAILED,
+        'Exchange rate must be a decimal number',
+        { rate: props.rate }
+      ));
+    }
+
+    if (!rate.isPositive() || rate.isZero() || rate.decimalPlaces() > EXCHANGE_RATE_DECIMAL_PLACES) {
+      return failure(domainError(
+        DomainErrorCodes.VALIDATION_FAILED,
+        `Exchange rate must be positive with at most ${EXCHANGE_RATE_DECIMAL_PLACES} decimal places`,
+        { rate: props.rate }
+      ));
+    }
+
+    if (!props.source.trim()) {
+      return failure(domainError(
+        DomainErrorCodes.VALIDATION_FAILED,
+        'Exchange rate source is required'
+      ));
+    }
+
+    return success(new ExchangeRate(
+      props.id,
+      props.organizationId,
+      props.fromCurrency,
+      props.toCurrency,
+      rate.toFixed(EXCHANGE_RATE_DECIMAL_PLACES),
+      props.effectiveDate,
+      props.source.trim(),
+      new Date()
+    ));
+  }
+}
+
+export interface CreateExchangeRateProps {
+  readonly id: ExchangeRateId;
+  readonly organizationId: OrganizationId;
+  readonly fromCurrency: Currency;
+  readonly toCurrency: Currency;
+  readonly rate: string;
+  readonly effectiveDate: Date;
+  readonly source: string;
+}
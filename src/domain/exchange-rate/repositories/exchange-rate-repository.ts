@@ -0,0 +1,24 @@
+import { OrganizationId, Currency, DomainError } from '../../shared/types';
+import { Result } from '../../shared/result';
+import { ExchangeRate } from '../entities/exchange-rate';
+
+/**
+ * Exchange rate repository interface for data access
+ */
+export interface ExchangeRateRepository {
+  /**
+   * Find the most recent rate of a currency pair effective on or before a date
+   */
+  findLatestRate(
+    fromCurrency: Currency,
+    toCurrency: Currency,
+    onOrBefore: Date,
+    organizationId: OrganizationId
+  ): Promise<Result<ExchangeRate | null, DomainError>>;
+
+  /**
+   * Insert rates, keeping any rate already stored for the same pair and date
+   * Returns the number of rates inserted.
+   */
+  saveMany(organizationId: OrganizationId, rates: readonly ExchangeRate[]): Promise<Result<number, DomainError>>;
+}
@@ -0,0 +1,263 @@
+import { Decimal } from 'decimal.js';
+import {
+  OrganizationId,
+  Currency,
+  AuditContext,
+  DomainError,
+  domainError,
+  DomainErrorCodes,
+  currency,
+  exchangeRateId
+} from '../../shared/types';
+import { Result, success, failure } from '../../shared/result';
+import { UnitOfWork } from '../../shared/unit-of-work';
+import { ExchangeRate, EXCHANGE_RATE_DECIMAL_PLACES } from '../entities/exchange-rate';
+import { ExchangeRateRepository } from '../repositories/exchange-rate-repository';
+import { AuditService } from '../../audit/services/audit-service';
+
+// Reference rates are published against the euro, so cross rates are derived through it
+const TRIANGULATION_CURRENCY = currency('EUR');
+
+export type ExchangeRateMethod = 'identity' | 'direct' | 'inverse' | 'triangulated';
+
+/**
+ * Rate resolved for a currency pair on a date
+ * For inverse and triangulated rates the effective date is that of the oldest rate used.
+ */
+export interface ResolvedExchangeRate {
+  readonly fromCurrency: Currency;
+  readonly toCurrency: Currency;
+  readonly rate: string;
+  readonly effectiveDate: Date;
+  readonly source: string;
+  readonly method: ExchangeRateMethod;
+}
+
+/**
+ * Stored or inverted rate of a currency pair before rounding
+ */
+interface PairRate extends Omit<ResolvedExchangeRate, 'rate'> {
+  readonly rate: Decimal;
+}
+
+/**
+ * Rate read from a rate file before it is stored
+ */
+export interface ExchangeRateQuote {
+  readonly fromCurrency: Currency;
+  readonly toCurrency: Currency;
+  readonly rate: string;
+  readonly effectiveDate: Date;
+}
+
+export interface ExchangeRateImportSummary {
+  readonly importId: string; // Entity ID of the import in the audit log
+  readonly source: string;
+  readonly received: number;
+  readonly imported: number;
+  readonly skipped: number; // Already stored for the same pair and date
+  readonly firstDate?: Date;
+  readonly lastDate?: Date;
+}
+
+/**
+ * Exchange rate domain service for rate lookup and import
+ */
+export class ExchangeRateService {
+  constructor(
+    private readonly exchangeRateRepository: ExchangeRateRepository,
+    private readonly auditService: AuditService,
+    private readonly unitOfWork: UnitOfWork
+  ) {}
+
+  /**
+   * Find the rate effective on or before a date
+   * Falls back to the inverse of the opposite pair and then to a cross rate through the euro.
+   */
+  async findRate(
+    fromCurrency: Currency,
+    toCurrency: Currency,
+    date: Date,
+    organizationId: OrganizationId
+  ): Promise<Result<ResolvedExchangeRate, DomainError>> {
+    if (fromCurrency === toCurrency) {
+      return success({
+        fromCurrency,
+        toCurrency,
+        rate: roundRate(new Decimal(1)),
+        effectiveDate: date,
+        source: 'IDENTITY',
+        method: 'identity'
+      });
+    }
+
+    const pairResult = await this.findPairRate(fromCurrency, toCurrency, date, organizationId);
+    if (pairResult.isFailure()) {
+      return failure(pairResult.error);
+    }
+    if (pairResult.value) {
+      return success({ ...pairResult.value, rate: roundRate(pairResult.value.rate) });
+    }
+
+    if (fromCurrency !== TRIANGULATION_CURRENCY && toCurrency !== TRIANGULATION_CURRENCY) {
+      const firstLegResult = await this.findPairRate(fromCurrency, TRIANGULATION_CURRENCY, date, organizationId);
+      if (firstLegResult.isFailure()) {
+        return failure(firstLegResult.error);
+      }
+
+      const secondLegResult = await this.findPairRate(TRIANGULATION_CURRENCY, toCurrency, date, organizationId);
+      if (secondLegResult.isFailure()) {
+        return failure(secondLegResult.error);
+      }
+
+      const firstLeg = firstLegResult.value;
+      const secondLeg = secondLegResult.value;
+      if (firstLeg && secondLeg) {
+        return success({
+          fromCurrency,
+          toCurrency,
+          rate: roundRate(firstLeg.rate.times(secondLeg.rate)),
+          effectiveDate: firstLeg.effectiveDate < secondLeg.effectiveDate ? firstLeg.effectiveDate : secondLeg.effectiveDate,
+          source: firstLeg.source === secondLeg.source ? firstLeg.source : `${firstLeg.source}/${secondLeg.source}`,
+          method: 'triangulated'
+        });
+      }
+    }
+
+    return failure(domainError(
+      DomainErrorCodes.EXCHANGE_RATE_NOT_FOUND,
+      `No exchange rate from ${fromCurrency} to ${toCurrency} on or before ${date.toISOString().slice(0, 10)}`,
+      { fromCurrency, toCurrency, date: date.toISOString() }
+    ));
+  }
+
+  /**
+   * Store rates from a rate file together with the audit entry of the import; rates already stored for a pair and
+   * date are kept
+   */
+  async importRates(
+    organizationId: OrganizationId,
+    quotes: readonly ExchangeRateQuote[],
+    source: string,
+    auditContext?: AuditContext
+  ): Promise<Result<ExchangeRateImportSummary, DomainError>> {
+    const rates: ExchangeRate[] = [];
+    for (const quote of quotes) {
+      const rateResult = ExchangeRate.create({
+        id: exchangeRateId(crypto.randomUUID()),
+        organizationId,
+        fromCurrency: quote.fromCurrency,
+        toCurrency: quote.toCurrency,
+        rate: quote.rate,
+        effectiveDate: quote.effectiveDate,
+        source
+      });
+      if (rateResult.isFailure()) {
+        return failure(rateResult.error);
+      }
+      rates.push(rateResult.value);
+    }
+
+    let firstDate: Date | undefined;
+    let lastDate: Date | undefined;
+    for (const rate of rates) {
+      if (!firstDate || rate.effectiveDate < firstDate) {
+        firstDate = rate.effectiveDate;
+      }
+      if (!lastDate || rate.effectiveDate > lastDate) {
+        lastDate = rate.effectiveDate;
+      }
+    }
+
+    return await this.unitOfWork.run(async () => {
+      const saveResult = await this.exchangeRateRepository.saveMany(organizationId, rates);
+      if (saveResult.isFailure()) {
+        return failure(saveResult.error);
+      }
+
+      const summary: ExchangeRateImportSummary = {
+        importId: crypto.randomUUID(),
+        source,
+        received: rates.length,
+        imported: saveResult.value,
+        skipped: rates.length - saveResult.value,
+        firstDate,
+        lastDate
+      };
+
+      const auditResult = await this.auditService.record({
+        organizationId,
+        entityType: 'exchange_rate',
+        entityId: summary.importId,
+        action: 'IMPORT',
+        newData: {
+          ...summary,
+          firstDate: firstDate?.toISOString() ?? null,
+          lastDate: lastDate?.toISOString() ?? null
+        },
+        auditContext
+      });
+      if (auditResult.isFailure()) {
+        return failure(auditResult.error);
+      }
+
+      return success(summary);
+    });
+  }
+
+  /**
+   * Find the stored rate of a pair or, failing that, invert the rate of the opposite pair
+   * The more recent of the two wins; on the same date the stored rate is preferred. The rate is left unrounded
+   * so that cross rates are only rounded once.
+   */
+  private async findPairRate(
+    fromCurrency: Currency,
+    toCurrency: Currency,
+    date: Date,
+    organizationId: OrganizationId
+  ): Promise<Result<PairRate | null, DomainError>> {
+    const directResult = await this.exchangeRateRepository.findLatestRate(fromCurrency, toCurrency, date, organizationId);
+    if (directResult.isFailure()) {
+      return failure(directResult.error);
+    }
+
+    const inverseResult = await this.exchangeRateRepository.findLatestRate(toCurrency, fromCurrency, date, organizationId);
+    if (inverseResult.isFailure()) {
+      return failure(inverseResult.error);
+    }
+
+    const direct = directResult.value;
+    const inverse = inverseResult.value;
+
+    if (direct && (!inverse || direct.effectiveDate >= inverse.effectiveDate)) {
+      return success({
+        fromCurrency,
+        toCurrency,
+        rate: new Decimal(direct.rate),
+        effectiveDate: direct.effectiveDate,
+        source: direct.source,
+        method: 'direct'
+      });
+    }
+
+    if (inverse) {
+      return success({
+        fromCurrency,
+        toCurrency,
+        rate: new Decimal(1).dividedBy(inverse.rate),
+        effectiveDate: inverse.effectiveDate,
+        source: inverse.source,
+        method: 'inverse'
+      });
+    }
+
+    return success(null);
+  }
+}
+
+/**
+ * Round a derived rate to the stored precision with banker's rounding
+ */
+function roundRate(rate: Decimal): string {
+  return rate.toDecimalPlaces(EXCHANGE_RATE_DECIMAL_PLACES, Decimal.ROUND_HALF_EVEN).toFixed(EXCHANGE_RATE_DECIMAL_PLACES);
+}
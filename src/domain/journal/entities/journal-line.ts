@@ -1,6 +1,9 @@
 import { AccountId, JournalId } from '../../shared/types';
 import { Money } from '../value-objects/money';
 
+// Two-letter country prefix followed by up to 12 characters, e.g. ATU12345678
+const VAT_ID_PATTERN = /^[A-Z]{2}[A-Z0-9+*]{2,12}$/;
+
 /**
  * Journal line entity representing a single accounting entry
  */
@@ -16,7 +19,9 @@ export class JournalLine {
     public readonly exchangeRate: string,
     public readonly taxCode?: string,
     public readonly taxAmount?: Money,
-    public readonly taxRate?: string
+    public readonly taxRate?: string,
+    public readonly exchangeRateSource?: string, // e.g. ECB, or MANUAL for caller-supplied rates
+    public readonly partnerVatId?: string // VAT ID of the customer or supplier
   ) {}
 
   /**
@@ -56,6 +61,10 @@ export class JournalLine {
       }
     }
 
+    if (props.partnerVatId && !VAT_ID_PATTERN.test(props.partnerVatId)) {
+      throw new Error('Partner VAT ID must start with a two-letter country code, e.g. ATU12345678');
+    }
+
     return new JournalLine(
       props.journalId,
       props.accountId,
@@ -67,7 +76,9 @@ export class JournalLine {
       props.exchangeRate,
       props.taxCode,
       props.taxAmount,
-      props.taxRate
+      props.taxRate,
+      props.exchangeRateSource,
+      props.partnerVatId
     );
   }
 
@@ -119,8 +130,12 @@ export class JournalLine {
    * Validate that original amount converts correctly to booking amount
    */
   validateExchangeCalculation(): boolean {
-    const expectedBookingAmount = this.originalAmount.multiply(this.exchangeRate);
     const actualBookingAmount = this.getAmount();
+    // The converted amount is expressed in the booking currency before comparing
+    const expectedBookingAmount = Money.create(
+      this.originalAmount.multiply(this.exchangeRate).amount,
+      actualBookingAmount.currency
+    );
     
     // Use precise decimal comparison (allow difference up to 0.0001)
     const difference = expectedBookingAmount.subtract(actualBookingAmount).abs();
@@ -144,7 +159,9 @@ export class JournalLine {
       updates.exchangeRate ?? this.exchangeRate,
       updates.taxCode ?? this.taxCode,
       updates.taxAmount ?? this.taxAmount,
-      updates.taxRate ?? this.taxRate
+      updates.taxRate ?? this.taxRate,
+      this.exchangeRateSource,
+      this.partnerVatId
     );
   }
 
@@ -181,6 +198,8 @@ export interface JournalLineProps {
   readonly taxCode?: string;
   readonly taxAmount?: Money;
   readonly taxRate?: string;
+  readonly exchangeRateSource?: string;
+  readonly partnerVatId?: string;
 }
 
 export interface JournalLineUpdateProps {
@@ -4,6 +4,7 @@ import {
   PeriodId, 
   UserId, 
   JournalStatus,
+  JournalKind,
   Currency,
   domainError,
   DomainErrorCodes
@@ -33,6 +34,7 @@ export class Journal {
     public readonly reversalJournalId: JournalId | undefined,
     public readonly originalJournalId: JournalId | undefined,
     public readonly extUid: string | undefined,
+    public readonly kind: JournalKind,
     public readonly createdBy: UserId,
     public readonly postedBy: UserId | undefined,
     public readonly postedAt: Date | undefined,
@@ -66,20 +68,6 @@ export class Journal {
       ));
     }
 
-    // Validate that all lines have the same currency
-    const journalCurrency = props.currency;
-    const invalidCurrencyLines = props.lines.filter(
-      line => line.debitAmount.currency !== journalCurrency || 
-              line.creditAmount.currency !== journalCurrency
-    );
-
-    if (invalidCurrencyLines.length > 0) {
-      return failure(domainError(
-        DomainErrorCodes.VALIDATION_FAILED,
-        'All journal lines must use the same currency as the journal'
-      ));
-    }
-
     const now = new Date();
 
     const journal = new Journal(
@@ -98,6 +86,7 @@ export class Journal {
       undefined,
       undefined,
       props.extUid,
+      props.kind ?? 'standard',
       props.createdBy,
       undefined,
       undefined,
@@ -156,6 +145,7 @@ export class Journal {
       this.reversalJournalId,
       this.originalJournalId,
       this.extUid,
+      this.kind,
       this.createdBy,
       postedBy,
       now,
@@ -167,12 +157,13 @@ export class Journal {
   }
 
   /**
-   * Create a reversal journal
+   * Create a reversal journal in the period of the reversal date
    */
   createReversal(
     reversalJournalId: JournalId,
     reversalDescription: string,
     reversalDate: Date,
+    reversalPeriodId: PeriodId,
     createdBy: UserId
   ): Result<Journal, any> {
     if (this.status !== 'posted') {
@@ -194,7 +185,7 @@ export class Journal {
     const reversalProps: CreateJournalProps = {
       id: reversalJournalId,
       organizationId: this.organizationId,
-      periodId: this.periodId,
+      periodId: reversalPeriodId,
       journalNumber: `${this.journalNumber}-REV`,
       description: reversalDescription,
       reference: `REV-${this.reference || this.journalNumber}`,
@@ -202,6 +193,7 @@ export class Journal {
       currency: this.currency,
       lines: reversedLines,
       originalJournalId: this.id,
+      kind: this.kind,
       createdBy,
     };
 
@@ -222,6 +214,7 @@ export class Journal {
       reversalJournalId,
       this.originalJournalId,
       this.extUid,
+      this.kind,
       this.createdBy,
       this.postedBy,
       this.postedAt,
@@ -264,6 +257,7 @@ export class Journal {
       this.reversalJournalId,
       this.originalJournalId,
       updates.extUid ?? this.extUid,
+      this.kind,
       this.createdBy,
       this.postedBy,
       this.postedAt,
@@ -320,6 +314,19 @@ export class Journal {
    * Validate all business rules
    */
   private validateBusinessRules(): Result<void, any> {
+    // Validate that all lines have the same currency (checked first, totals require it)
+    const invalidCurrencyLines = this.lines.filter(
+      line => line.debitAmount.currency !== this.currency || 
+              line.creditAmount.currency !== this.currency
+    );
+
+    if (invalidCurrencyLines.length > 0) {
+      return failure(domainError(
+        DomainErrorCodes.VALIDATION_FAILED,
+        'All journal lines must use the same currency as the journal'
+      ));
+    }
+
     // Check if balanced
     if (!this.isBalanced()) {
       return failure(domainError(
@@ -356,6 +363,32 @@ export class Journal {
     return success(undefined);
   }
 
+  /**
+   * Convert to the plain snapshot stored in the audit log
+   */
+  toAuditData(): Record<string, unknown> {
+    return {
+      id: this.id,
+      periodId: this.periodId,
+      journalNumber: this.journalNumber,
+      description: this.description,
+      reference: this.reference ?? null,
+      postingDate: this.postingDate.toISOString(),
+      status: this.status,
+      currency: this.currency,
+      totalDebit: this.getTotalDebit().amount,
+      totalCredit: this.getTotalCredit().amount,
+      hashSelf: this.hashSelf?.value ?? null,
+      reversalJournalId: this.reversalJournalId ?? null,
+      originalJournalId: this.originalJournalId ?? null,
+      extUid: this.extUid ?? null,
+      kind: this.kind,
+      postedBy: this.postedBy ?? null,
+      postedAt: this.postedAt?.toISOString() ?? null,
+      lines: this.lines.map(line => line.toHashData())
+    };
+  }
+
   /**
    * Convert to hash data format
    */
@@ -388,6 +421,7 @@ export interface CreateJournalProps {
   readonly lines: readonly JournalLine[];
   readonly originalJournalId?: JournalId;
   readonly extUid?: string;
+  readonly kind?: JournalKind; // Defaults to 'standard'
   readonly createdBy: UserId;
 }
 
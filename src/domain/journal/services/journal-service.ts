@@ -3,16 +3,21 @@ import {
   JournalId, 
   PeriodId,
   UserId,
+  AuditContext,
+  DomainError,
   domainError, 
   DomainErrorCodes 
 } from '../../shared/types';
 import { Result, success, failure } from '../../shared/result';
+import { UnitOfWork } from '../../shared/unit-of-work';
 import { Journal, CreateJournalProps } from '../entities/journal';
 import { JournalLine } from '../entities/journal-line';
 import { Money } from '../value-objects/money';
 import { JournalRepository } from '../repositories/journal-repository';
 import { PeriodService } from '../../period/services/period-service';
 import { PostingService } from './posting-service';
+import { AuditAction } from '../../audit/entities/audit-entry';
+import { AuditService } from '../../audit/services/audit-service';
 
 /**
  * Main journal domain service
@@ -21,13 +26,15 @@ export class JournalService {
   constructor(
     private readonly journalRepository: JournalRepository,
     private readonly periodService: PeriodService,
-    private readonly postingService: PostingService
+    private readonly postingService: PostingService,
+    private readonly auditService: AuditService,
+    private readonly unitOfWork: UnitOfWork
   ) {}
 
   /**
    * Create a new draft journal with validation
    */
-  async createDraftJournal(props: CreateJournalProps): Promise<Result<Journal, any>> {
+  async createDraftJournal(props: CreateJournalProps, auditContext?: AuditContext): Promise<Result<Journal, any>> {
     // Validate period exists and allows posting
     const periodValidation = await this.periodService.validatePeriodForPosting(
       props.periodId,
@@ -97,7 +104,7 @@ export class JournalService {
     }
 
     // Save the journal
-    return await this.journalRepository.save(journalResult.value);
+    return await this.saveWithAudit('CREATE', journalResult.value, undefined, auditContext);
   }
 
   /**
@@ -112,7 +119,8 @@ export class JournalService {
       reference?: string;
       postingDate?: Date;
       lines?: JournalLine[];
-    }
+    },
+    auditContext?: AuditContext
   ): Promise<Result<Journal, any>> {
     // Get the journal
     const journalResult = await this.journalRepository.findById(journalId, organizationId);
@@ -188,7 +196,7 @@ export class JournalService {
     }
 
     // Save the updated journal
-    return await this.journalRepository.save(updatedResult.value);
+    return await this.saveWithAudit('UPDATE', updatedResult.value, journal, auditContext);
   }
 
   /**
@@ -197,9 +205,10 @@ export class JournalService {
   async postJournal(
     journalId: JournalId,
     organizationId: OrganizationId,
-    postedBy: UserId
+    postedBy: UserId,
+    auditContext?: AuditContext
   ): Promise<Result<Journal, any>> {
-    return await this.postingService.postJournal(journalId, organizationId, postedBy);
+    return await this.postingService.postJournal(journalId, organizationId, postedBy, auditContext);
   }
 
   /**
@@ -210,14 +219,16 @@ export class JournalService {
     organizationId: OrganizationId,
     reversalDescription: string,
     reversalDate: Date,
-    createdBy: UserId
+    createdBy: UserId,
+    auditContext?: AuditContext
   ): Promise<Result<{ original: Journal; reversal: Journal }, any>> {
     return await this.postingService.reverseJournal(
       journalId,
       organizationId,
       reversalDescription,
       reversalDate,
-      createdBy
+      createdBy,
+      auditContext
     );
   }
 
@@ -226,7 +237,8 @@ export class JournalService {
    */
   async deleteDraftJournal(
     journalId: JournalId,
-    organizationId: OrganizationId
+    organizationId: OrganizationId,
+    auditContext?: AuditContext
   ): Promise<Result<void, any>> {
     // Get the journal to verify it's a draft
     const journalResult = await this.journalRepository.findById(journalId, organizationId);
@@ -249,7 +261,27 @@ export class JournalService {
       ));
     }
 
-    return await this.journalRepository.delete(journalId, organizationId);
+    return await this.unitOfWork.run(async () => {
+      const deleteResult = await this.journalRepository.delete(journalId, organizationId);
+      if (deleteResult.isFailure()) {
+        return deleteResult;
+      }
+
+      const auditResult = await this.auditService.record({
+        organizationId,
+        entityType: 'journal',
+        entityId: journalId,
+        action: 'DELETE',
+        oldData: journal.toAuditData(),
+        auditContext
+      });
+
+      if (auditResult.isFailure()) {
+        return failure(auditResult.error);
+      }
+
+      return deleteResult;
+    });
   }
 
   /**
@@ -386,6 +418,39 @@ export class JournalService {
       issues
     });
   }
+
+  /**
+   * Save a journal and record the mutation in the audit log in one transaction
+   */
+  private async saveWithAudit(
+    action: AuditAction,
+    journal: Journal,
+    previous: Journal | undefined,
+    auditContext?: AuditContext
+  ): Promise<Result<Journal, DomainError>> {
+    return await this.unitOfWork.run(async () => {
+      const saveResult = await this.journalRepository.save(journal);
+      if (saveResult.isFailure()) {
+        return saveResult;
+      }
+
+      const auditResult = await this.auditService.record({
+        organizationId: journal.organizationId,
+        entityType: 'journal',
+        entityId: journal.id,
+        action,
+        oldData: previous?.toAuditData(),
+        newData: saveResult.value.toAuditData(),
+        auditContext
+      });
+
+      if (auditResult.isFailure()) {
+        return failure(auditResult.error);
+      }
+
+      return saveResult;
+    });
+  }
 }
 
 export interface ValidationResult {
@@ -2,14 +2,18 @@ import {
   OrganizationId, 
   JournalId, 
   UserId, 
+  AuditContext,
   domainError, 
   DomainErrorCodes 
 } from '../../shared/types';
 import { Result, success, failure } from '../../shared/result';
+import { UnitOfWork } from '../../shared/unit-of-work';
 import { Journal } from '../entities/journal';
 import { JournalRepository } from '../repositories/journal-repository';
 import { PeriodRepository } from '../../period/repositories/period-repository';
 import { HashService } from './hash-service';
+import { AccountService } from '../../account/services/account-service';
+import { AuditService } from '../../audit/services/audit-service';
 
 /**
  * Posting service for journal posting business logic
@@ -18,7 +22,10 @@ export class PostingService {
   constructor(
     private readonly journalRepository: JournalRepository,
     private readonly periodRepository: PeriodRepository,
-    private readonly hashService: HashService
+    private readonly hashService: HashService,
+    private readonly accountService: AccountService,
+    private readonly auditService: AuditService,
+    private readonly unitOfWork: UnitOfWork
   ) {}
 
   /**
@@ -27,7 +34,8 @@ export class PostingService {
   async postJournal(
     journalId: JournalId,
     organizationId: OrganizationId,
-    postedBy: UserId
+    postedBy: UserId,
+    auditContext?: AuditContext
   ): Promise<Result<Journal, any>> {
     // 1. Get the journal
     const journalResult = await this.journalRepository.findById(journalId, organizationId);
@@ -87,8 +95,29 @@ export class PostingService {
       return postedResult;
     }
 
-    // 6. Save the posted journal
-    return await this.journalRepository.save(postedResult.value);
+    // 6. Save the posted journal and record the posting in the audit log in one transaction
+    return await this.unitOfWork.run(async () => {
+      const saveResult = await this.journalRepository.save(postedResult.value);
+      if (saveResult.isFailure()) {
+        return saveResult;
+      }
+
+      const auditResult = await this.auditService.record({
+        organizationId,
+        entityType: 'journal',
+        entityId: journal.id,
+        action: 'POST',
+        oldData: journal.toAuditData(),
+        newData: saveResult.value.toAuditData(),
+        auditContext
+      });
+
+      if (auditResult.isFailure()) {
+        return failure(auditResult.error);
+      }
+
+      return saveResult;
+    });
   }
 
   /**
@@ -99,7 +128,8 @@ export class PostingService {
     organizationId: OrganizationId,
     reversalDescription: string,
     reversalDate: Date,
-    createdBy: UserId
+    createdBy: UserId,
+    auditContext?: AuditContext
   ): Promise<Result<{ original: Journal; reversal: Journal }, any>> {
     // 1. Get the original journal
     const originalResult = await this.journalRepository.findById(originalJournalId, organizationId);
@@ -163,6 +193,7 @@ export class PostingService {
       reversalJournalId,
       reversalDescription,
       reversalDate,
+      reversalPeriod.id,
       createdBy
     );
 
@@ -200,6 +231,7 @@ export class PostingService {
       reversalJournalId,
       original.originalJournalId,
       original.extUid,
+      original.kind,
       original.createdBy,
       original.postedBy,
       original.postedAt,
@@ -207,21 +239,51 @@ export class PostingService {
       new Date()
     );
 
-    // 8. Save both journals in transaction
-    const saveResult = await this.journalRepository.saveMultiple([
-      reversedOriginal,
-      postedReversalResult.value
-    ]);
+    // 8. Save both journals and record the reversal and the new reversal journal in the audit log in one
+    // transaction
+    return await this.unitOfWork.run(async () => {
+      const saveResult = await this.journalRepository.saveMultiple([
+        reversedOriginal,
+        postedReversalResult.value
+      ]);
 
-    if (saveResult.isFailure()) {
-      return saveResult;
-    }
+      if (saveResult.isFailure()) {
+        return failure(saveResult.error);
+      }
+
+      const [savedOriginal, savedReversal] = saveResult.value;
 
-    const [savedOriginal, savedReversal] = saveResult.value;
+      const reverseAuditResult = await this.auditService.record({
+        organizationId,
+        entityType: 'journal',
+        entityId: savedOriginal.id,
+        action: 'REVERSE',
+        oldData: original.toAuditData(),
+        newData: savedOriginal.toAuditData(),
+        auditContext
+      });
 
-    return success({
-      original: savedOriginal,
-      reversal: savedReversal
+      if (reverseAuditResult.isFailure()) {
+        return failure(reverseAuditResult.error);
+      }
+
+      const createAuditResult = await this.auditService.record({
+        organizationId,
+        entityType: 'journal',
+        entityId: savedReversal.id,
+        action: 'CREATE',
+        newData: savedReversal.toAuditData(),
+        auditContext
+      });
+
+      if (createAuditResult.isFailure()) {
+        return failure(createAuditResult.error);
+      }
+
+      return success({
+        original: savedOriginal,
+        reversal: savedReversal
+      });
     });
   }
 
@@ -257,17 +319,27 @@ export class PostingService {
       ));
     }
 
-    // Check for duplicate journal number
-    const existsResult = await this.journalRepository.existsByJournalNumber(
+    // Check all lines point at existing, active accounts
+    const accountsResult = await this.accountService.validateAccountsForPosting(
+      journal.lines.map(line => line.accountId),
+      journal.organizationId
+    );
+
+    if (accountsResult.isFailure()) {
+      return accountsResult;
+    }
+
+    // Check for duplicate journal number (the draft itself holds its number)
+    const existingResult = await this.journalRepository.findByJournalNumber(
       journal.journalNumber,
       journal.organizationId
     );
 
-    if (existsResult.isFailure()) {
-      return existsResult;
+    if (existingResult.isFailure()) {
+      return failure(existingResult.error);
     }
 
-    if (existsResult.value) {
+    if (existingResult.value && existingResult.value.id !== journal.id) {
       return failure(domainError(
         DomainErrorCodes.BUSINESS_RULE_VIOLATION,
         'Journal number already exists',
@@ -277,16 +349,16 @@ export class PostingService {
 
     // Check external UID uniqueness if provided
     if (journal.extUid) {
-      const extUidExistsResult = await this.journalRepository.existsByExtUid(
+      const extUidResult = await this.journalRepository.findByExtUid(
         journal.extUid,
         journal.organizationId
       );
 
-      if (extUidExistsResult.isFailure()) {
-        return extUidExistsResult;
+      if (extUidResult.isFailure()) {
+        return failure(extUidResult.error);
       }
 
-      if (extUidExistsResult.value) {
+      if (extUidResult.value && extUidResult.value.id !== journal.id) {
         return failure(domainError(
           DomainErrorCodes.BUSINESS_RULE_VIOLATION,
           'External UID already exists',
@@ -331,11 +403,10 @@ export class PostingService {
   }
 
   /**
-   * Generate a new journal ID (placeholder - would use UUID in real implementation)
+   * Generate a new journal ID
    */
   private async generateJournalId(): Promise<JournalId> {
-    // This would typically use a UUID generator
-    return `journal_${Date.now()}_${Math.random().toString(36).substr(2, 9)}` as JournalId;
+    return crypto.randomUUID() as JournalId;
   }
 }
 
@@ -0,0 +1,177 @@
+import {
+  FiscalYearId,
+  OrganizationId,
+  PeriodId,
+  FiscalYearStatus,
+  PeriodFrequency,
+  DomainError,
+  domainError,
+  DomainErrorCodes
+} from '../../shared/types';
+import { Result, success, failure } from '../../shared/result';
+import { CreatePeriodProps } from './period';
+
+const MONTHS_PER_YEAR = 12;
+const MONTHS_PER_PERIOD: Record<PeriodFrequency, number> = { monthly: 1, quarterly: 3 };
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Fiscal year of twelve months starting on the first day of any month
+ * Periods start at midnight UTC on their first day and end at the last millisecond of their last day, so that
+ * postings at any time of that day fall into them; the next period starts on the following day.
+ */
+export class FiscalYear {
+  private constructor(
+    public readonly id: FiscalYearId,
+    public readonly organizationId: OrganizationId,
+    public readonly name: string,
+    public readonly startDate: Date,
+    public readonly endDate: Date, // Last day of the year
+    public readonly frequency: PeriodFrequency,
+    public readonly hasAdjustmentPeriod: boolean,
+    public readonly status: FiscalYearStatus,
+    public readonly createdAt: Date,
+    public readonly updatedAt: Date
+  ) {}
+
+  /**
+   * Create a new open fiscal year
+   * Without a name, calendar years are named by their year (2025) and other years by both years (2025/26).
+   */
+  static create(props: CreateFiscalYearProps): Result<FiscalYear, DomainError> {
+    const start = props.startDate;
+    if (start.getUTCDate() !== 1 || start.getTime() % DAY_MS !== 0) {
+      return failure(domainError(
+        DomainErrorCodes.VALIDATION_FAILED,
+        'Fiscal year must start at midnight UTC on the first day of a month',
+        { startDate: start.toISOString() }
+      ));
+    }
+
+    if (!MONTHS_PER_PERIOD[props.frequency]) {
+      return failure(domainError(
+        DomainErrorCodes.VALIDATION_FAILED,
+        'Period frequency must be monthly or quarterly',
+        { frequency: props.frequency }
+      ));
+    }
+
+    const endDate = new Date(addMonths(start, MONTHS_PER_YEAR).getTime() - DAY_MS);
+    const startYear = start.getUTCFullYear();
+    const endYear = endDate.getUTCFullYear();
+    const name = props.name?.trim() ||
+      (startYear === endYear ? `${startYear}` : `${startYear}/${String(endYear % 100).padStart(2, '0')}`);
+
+    const now = new Date();
+
+    return success(new FiscalYear(
+      props.id,
+      props.organizationId,
+      name,
+      start,
+      endDate,
+      props.frequency,
+      props.hasAdjustmentPeriod ?? false,
+      'open', // New fiscal years start as open
+      now,
+      now
+    ));
+  }
+
+  /**
+   * Lay out the periods covering the year back to back, plus the adjustment period if the year has one
+   * The adjustment period spans the last day of the year and is only booked into by choosing it explicitly.
+   */
+  generatePeriods(generateId: () => PeriodId): CreatePeriodProps[] {
+    const step = MONTHS_PER_PERIOD[this.frequency];
+    const periods: CreatePeriodProps[] = [];
+
+    for (let index = 0; index < MONTHS_PER_YEAR / step; index++) {
+      const startDate = addMonths(this.startDate, index * step);
+      const endDate = new Date(addMonths(startDate, step).getTime() - 1);
+      const label = this.frequency === 'monthly'
+        ? `P${String(index + 1).padStart(2, '0')}`
+        : `Q${index + 1}`;
+
+      periods.push({
+        id: generateId(),
+        organizationId: this.organizationId,
+        name: `${this.name} ${label}`,
+        startDate,
+        endDate,
+        fiscalYearId: this.id
+      });
+    }
+
+    if (this.hasAdjustmentPeriod) {
+      periods.push({
+        id: generateId(),
+        organizationId: this.organizationId,
+        name: `${this.name} P13`,
+        startDate: this.endDate,
+        endDate: new Date(this.endDate.getTime() + DAY_MS - 1),
+        fiscalYearId: this.id,
+        isAdjustment: true
+      });
+    }
+
+    return periods;
+  }
+
+  /**
+   * Close the fiscal year; its periods must have been closed beforehand
+   */
+  close(): Result<FiscalYear, DomainError> {
+    if (this.status !== 'open') {
+      return failure(domainError(
+        DomainErrorCodes.BUSINESS_RULE_VIOLATION,
+        'Fiscal year is already closed',
+        { fiscalYearId: this.id }
+      ));
+    }
+
+    return success(new FiscalYear(
+      this.id,
+      this.organizationId,
+      this.name,
+      this.startDate,
+      this.endDate,
+      this.frequency,
+      this.hasAdjustmentPeriod,
+      'closed',
+      this.createdAt,
+      new Date()
+    ));
+  }
+
+  /**
+   * Convert to the plain snapshot stored in the audit log
+   */
+  toAuditData(): Record<string, unknown> {
+    return {
+      id: this.id,
+      name: this.name,
+      startDate: this.startDate.toISOString(),
+      endDate: this.endDate.toISOString(),
+      frequency: this.frequency,
+      hasAdjustmentPeriod: this.hasAdjustmentPeriod,
+      status: this.status
+    };
+  }
+}
+
+/**
+ * Add calendar months to a first-of-month UTC date
+ */
+function addMonths(date: Date, months: number): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+}
+
+export interface CreateFiscalYearProps {
+  readonly id: FiscalYearId;
+  readonly organizationId: OrganizationId;
+  readonly name?: string;
+  readonly startDate: Date;
+  readonly frequency: PeriodFrequency;
+  readonly hasAdjustmentPeriod?: boolean;
+}
@@ -2,11 +2,14 @@ import {
   PeriodId, 
   OrganizationId, 
   PeriodStatus,
+  FiscalYearId,
   domainError,
   DomainErrorCodes
 } from '../../shared/types';
 import { Result, success, failure } from '../../shared/result';
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 /**
  * Period entity representing an accounting period
  */
@@ -18,6 +21,8 @@ export class Period {
     public readonly startDate: Date,
     public readonly endDate: Date,
     public readonly status: PeriodStatus,
+    public readonly fiscalYearId: FiscalYearId | undefined,
+    public readonly isAdjustment: boolean, // 13th period for year-end adjustments, only booked into explicitly
     public readonly createdAt: Date,
     public readonly updatedAt: Date
   ) {}
@@ -60,6 +65,8 @@ export class Period {
       props.startDate,
       props.endDate,
       'open', // New periods start as open
+      props.fiscalYearId,
+      props.isAdjustment ?? false,
       now,
       now
     );
@@ -120,6 +127,8 @@ export class Period {
       this.startDate,
       this.endDate,
       'closing',
+      this.fiscalYearId,
+      this.isAdjustment,
       this.createdAt,
       new Date()
     ));
@@ -143,6 +152,8 @@ export class Period {
       this.startDate,
       this.endDate,
       'closed',
+      this.fiscalYearId,
+      this.isAdjustment,
       this.createdAt,
       new Date()
     ));
@@ -166,6 +177,8 @@ export class Period {
       this.startDate,
       this.endDate,
       'open',
+      this.fiscalYearId,
+      this.isAdjustment,
       this.createdAt,
       new Date()
     ));
@@ -186,6 +199,15 @@ export class Period {
     return Math.ceil(diffTime / (1000 * 60 * 60 * 24));
   }
 
+  /**
+   * Get the start of the last day of the period, the posting date of journals booked at its end
+   * Date-only report filters end at the start of a day, so a journal dated later on that day would be left out
+   */
+  getLastDay(): Date {
+    const lastDay = new Date(Math.floor(this.endDate.getTime() / DAY_MS) * DAY_MS);
+    return lastDay < this.startDate ? this.startDate : lastDay;
+  }
+
   /**
    * Check if this is a current period (contains today)
    */
@@ -194,6 +216,21 @@ export class Period {
     return this.containsDate(today);
   }
 
+  /**
+   * Convert to the plain snapshot stored in the audit log
+   */
+  toAuditData(): Record<string, unknown> {
+    return {
+      id: this.id,
+      name: this.name,
+      startDate: this.startDate.toISOString(),
+      endDate: this.endDate.toISOString(),
+      status: this.status,
+      fiscalYearId: this.fiscalYearId ?? null,
+      isAdjustment: this.isAdjustment
+    };
+  }
+
   /**
    * Update period properties
    */
@@ -208,6 +245,16 @@ export class Period {
 
     const updatedStartDate = updates.startDate ?? this.startDate;
     const updatedEndDate = updates.endDate ?? this.endDate;
+
+    // Generated periods must keep covering their fiscal year without gaps
+    if (this.fiscalYearId &&
+      (updatedStartDate.getTime() !== this.startDate.getTime() || updatedEndDate.getTime() !== this.endDate.getTime())) {
+      return failure(domainError(
+        DomainErrorCodes.BUSINESS_RULE_VIOLATION,
+        'Dates of a period belonging to a fiscal year cannot be changed',
+        { periodId: this.id, fiscalYearId: this.fiscalYearId }
+      ));
+    }
     const updatedName = updates.name ?? this.name;
 
     // Validate updated date range
@@ -233,6 +280,8 @@ export class Period {
       updatedStartDate,
       updatedEndDate,
       this.status,
+      this.fiscalYearId,
+      this.isAdjustment,
       this.createdAt,
       new Date()
     );
@@ -247,6 +296,8 @@ export interface CreatePeriodProps {
   readonly name: string;
   readonly startDate: Date;
   readonly endDate: Date;
+  readonly fiscalYearId?: FiscalYearId;
+  readonly isAdjustment?: boolean;
 }
 
 export interface UpdatePeriodProps {
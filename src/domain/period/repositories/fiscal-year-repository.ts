@@ -0,0 +1,38 @@
+import { OrganizationId, FiscalYearId, DomainError } from '../../shared/types';
+import { Result } from '../../shared/result';
+import { FiscalYear } from '../entities/fiscal-year';
+import { Period } from '../entities/period';
+
+/**
+ * Fiscal year repository interface for data access
+ */
+export interface FiscalYearRepository {
+  /**
+   * Find fiscal year by ID
+   */
+  findById(fiscalYearId: FiscalYearId, organizationId: OrganizationId): Promise<Result<FiscalYear | null, DomainError>>;
+
+  /**
+   * Find all fiscal years of an organization ordered by start date
+   */
+  findByOrganization(organizationId: OrganizationId): Promise<Result<FiscalYear[], DomainError>>;
+
+  /**
+   * Find fiscal years overlapping a date range (both bounds inclusive)
+   */
+  findOverlapping(
+    startDate: Date,
+    endDate: Date,
+    organizationId: OrganizationId
+  ): Promise<Result<FiscalYear[], DomainError>>;
+
+  /**
+   * Insert a new fiscal year together with its periods in one transaction
+   */
+  createWithPeriods(fiscalYear: FiscalYear, periods: readonly Period[]): Promise<Result<FiscalYear, DomainError>>;
+
+  /**
+   * Save fiscal year
+   */
+  save(fiscalYear: FiscalYear): Promise<Result<FiscalYear, DomainError>>;
+}
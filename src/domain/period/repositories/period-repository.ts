@@ -1,4 +1,4 @@
-import { OrganizationId, PeriodId } from '../../shared/types';
+import { OrganizationId, PeriodId, FiscalYearId, DomainError } from '../../shared/types';
 import { Result } from '../../shared/result';
 import { Period } from '../entities/period';
 
@@ -17,7 +17,7 @@ export interface PeriodRepository {
   findByOrganization(organizationId: OrganizationId): Promise<Result<Period[], any>>;
 
   /**
-   * Find period that contains a specific date
+   * Find the regular period that contains a specific date; adjustment periods are never matched
    */
   findByDate(date: Date, organizationId: OrganizationId): Promise<Result<Period | null, any>>;
 
@@ -26,6 +26,16 @@ export interface PeriodRepository {
    */
   findOpenPeriods(organizationId: OrganizationId): Promise<Result<Period[], any>>;
 
+  /**
+   * Find the periods of a fiscal year ordered by start date, the adjustment period last
+   */
+  findByFiscalYear(fiscalYearId: FiscalYearId, organizationId: OrganizationId): Promise<Result<Period[], DomainError>>;
+
+  /**
+   * Find the earliest regular open period starting after a date
+   */
+  findNextOpenPeriod(after: Date, organizationId: OrganizationId): Promise<Result<Period | null, DomainError>>;
+
   /**
    * Check if periods overlap with given date range
    */
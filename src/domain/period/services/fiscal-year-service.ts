@@ -0,0 +1,234 @@
+import {
+  OrganizationId,
+  FiscalYearId,
+  AuditContext,
+  DomainError,
+  domainError,
+  DomainErrorCodes,
+  periodId
+} from '../../shared/types';
+import { Result, success, failure } from '../../shared/result';
+import { UnitOfWork } from '../../shared/unit-of-work';
+import { FiscalYear, CreateFiscalYearProps } from '../entities/fiscal-year';
+import { Period } from '../entities/period';
+import { FiscalYearRepository } from '../repositories/fiscal-year-repository';
+import { PeriodRepository } from '../repositories/period-repository';
+import { AuditService } from '../../audit/services/audit-service';
+
+/**
+ * Fiscal year with the periods generated for it
+ */
+export interface GeneratedFiscalYear {
+  readonly fiscalYear: FiscalYear;
+  readonly periods: readonly Period[];
+}
+
+/**
+ * Fiscal year domain service for generating and finalizing fiscal years
+ */
+export class FiscalYearService {
+  constructor(
+    private readonly fiscalYearRepository: FiscalYearRepository,
+    private readonly periodRepository: PeriodRepository,
+    private readonly auditService: AuditService,
+    private readonly unitOfWork: UnitOfWork
+  ) {}
+
+  /**
+   * Create a fiscal year and all of its periods, refusing to overlap existing years or periods
+   */
+  async generateFiscalYear(
+    props: CreateFiscalYearProps,
+    auditContext?: AuditContext
+  ): Promise<Result<GeneratedFiscalYear, DomainError>> {
+    const fiscalYearResult = FiscalYear.create(props);
+    if (fiscalYearResult.isFailure()) {
+      return failure(fiscalYearResult.error);
+    }
+
+    const fiscalYear = fiscalYearResult.value;
+
+    const overlappingYearsResult = await this.fiscalYearRepository.findOverlapping(
+      fiscalYear.startDate,
+      fiscalYear.endDate,
+      fiscalYear.organizationId
+    );
+    if (overlappingYearsResult.isFailure()) {
+      return failure(overlappingYearsResult.error);
+    }
+
+    if (overlappingYearsResult.value.length > 0) {
+      return failure(domainError(
+        DomainErrorCodes.BUSINESS_RULE_VIOLATION,
+        'Fiscal year overlaps with existing fiscal years',
+        {
+          overlappingFiscalYears: overlappingYearsResult.value.map(year => ({
+            id: year.id,
+            name: year.name,
+            startDate: year.startDate,
+            endDate: year.endDate
+          }))
+        }
+      ));
+    }
+
+    const overlappingPeriodsResult = await this.periodRepository.findOverlappingPeriods(
+      fiscalYear.startDate,
+      fiscalYear.endDate,
+      fiscalYear.organizationId
+    );
+    if (overlappingPeriodsResult.isFailure()) {
+      return failure(overlappingPeriodsResult.error);
+    }
+
+    if (overlappingPeriodsResult.value.length > 0) {
+      return failure(domainError(
+        DomainErrorCodes.BUSINESS_RULE_VIOLATION,
+        'Fiscal year overlaps with existing periods',
+        {
+          overlappingPeriods: overlappingPeriodsResult.value.map(p => ({
+            id: p.id,
+            name: p.name,
+            startDate: p.startDate,
+            endDate: p.endDate
+          }))
+        }
+      ));
+    }
+
+    const periods: Period[] = [];
+    for (const periodProps of fiscalYear.generatePeriods(() => periodId(crypto.randomUUID()))) {
+      const periodResult = Period.create(periodProps);
+      if (periodResult.isFailure()) {
+        return failure(periodResult.error);
+      }
+      periods.push(periodResult.value);
+    }
+
+    return await this.unitOfWork.run(async () => {
+      const createResult = await this.fiscalYearRepository.createWithPeriods(fiscalYear, periods);
+      if (createResult.isFailure()) {
+        return failure(createResult.error);
+      }
+
+      const auditResult = await this.auditService.record({
+        organizationId: fiscalYear.organizationId,
+        entityType: 'fiscal_year',
+        entityId: fiscalYear.id,
+        action: 'CREATE',
+        newData: { ...createResult.value.toAuditData(), periodIds: periods.map(period => period.id) },
+        auditContext
+      });
+      if (auditResult.isFailure()) {
+        return failure(auditResult.error);
+      }
+
+      for (const period of periods) {
+        const periodAuditResult = await this.auditService.record({
+          organizationId: period.organizationId,
+          entityType: 'period',
+          entityId: period.id,
+          action: 'CREATE',
+          newData: period.toAuditData(),
+          auditContext
+        });
+        if (periodAuditResult.isFailure()) {
+          return failure(periodAuditResult.error);
+        }
+      }
+
+      return success({ fiscalYear: createResult.value, periods });
+    });
+  }
+
+  /**
+   * Close a fiscal year once every one of its periods, including the adjustment period, is closed
+   */
+  async finalizeFiscalYear(
+    fiscalYearId: FiscalYearId,
+    organizationId: OrganizationId,
+    auditContext?: AuditContext
+  ): Promise<Result<FiscalYear, DomainError>> {
+    const fiscalYearResult = await this.fiscalYearRepository.findById(fiscalYearId, organizationId);
+    if (fiscalYearResult.isFailure()) {
+      return failure(fiscalYearResult.error);
+    }
+
+    const fiscalYear = fiscalYearResult.value;
+    if (!fiscalYear) {
+      return failure(domainError(
+        DomainErrorCodes.ENTITY_NOT_FOUND,
+        'Fiscal year not found',
+        { fiscalYearId }
+      ));
+    }
+
+    const periodsResult = await this.periodRepository.findByFiscalYear(fiscalYearId, organizationId);
+    if (periodsResult.isFailure()) {
+      return failure(periodsResult.error);
+    }
+
+    const unclosedPeriods = periodsResult.value.filter(period => period.status !== 'closed');
+    if (unclosedPeriods.length > 0) {
+      return failure(domainError(
+        DomainErrorCodes.BUSINESS_RULE_VIOLATION,
+        'All periods of the fiscal year must be closed before it can be closed',
+        {
+          fiscalYearId,
+          unclosedPeriods: unclosedPeriods.map(period => ({
+            id: period.id,
+            name: period.name,
+            status: period.status
+          }))
+        }
+      ));
+    }
+
+    const closedResult = fiscalYear.close();
+    if (closedResult.isFailure()) {
+      return failure(closedResult.error);
+    }
+
+    return await this.unitOfWork.run(async () => {
+      const saveResult = await this.fiscalYearRepository.save(closedResult.value);
+      if (saveResult.isFailure()) {
+        return failure(saveResult.error);
+      }
+
+      const auditResult = await this.auditService.record({
+        organizationId,
+        entityType: 'fiscal_year',
+        entityId: fiscalYearId,
+        action: 'CLOSE',
+        oldData: fiscalYear.toAuditData(),
+        newData: saveResult.value.toAuditData(),
+        auditContext
+      });
+      if (auditResult.isFailure()) {
+        return failure(auditResult.error);
+      }
+
+      return saveResult;
+    });
+  }
+
+  /**
+   * Find fiscal year by ID
+   */
+  async findFiscalYear(
+    fiscalYearId: FiscalYearId,
+    organizationId: OrganizationId
+  ): Promise<Result<FiscalYear | null, DomainError>> {
+    return await this.fiscalYearRepository.findById(fiscalYearId, organizationId);
+  }
+
+  /**
+   * Find the periods of a fiscal year, regular periods first
+   */
+  async findPeriods(
+    fiscalYearId: FiscalYearId,
+    organizationId: OrganizationId
+  ): Promise<Result<Period[], DomainError>> {
+    return await this.periodRepository.findByFiscalYear(fiscalYearId, organizationId);
+  }
+}
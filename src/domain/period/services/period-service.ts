@@ -1,18 +1,25 @@
-import { OrganizationId, PeriodId, domainError, DomainErrorCodes } from '../../shared/types';
+import { OrganizationId, PeriodId, AuditContext, DomainError, domainError, DomainErrorCodes } from '../../shared/types';
 import { Result, success, failure } from '../../shared/result';
+import { UnitOfWork } from '../../shared/unit-of-work';
 import { Period, CreatePeriodProps } from '../entities/period';
 import { PeriodRepository } from '../repositories/period-repository';
+import { AuditAction } from '../../audit/entities/audit-entry';
+import { AuditService } from '../../audit/services/audit-service';
 
 /**
  * Period domain service for business logic
  */
 export class PeriodService {
-  constructor(private readonly periodRepository: PeriodRepository) {}
+  constructor(
+    private readonly periodRepository: PeriodRepository,
+    private readonly auditService: AuditService,
+    private readonly unitOfWork: UnitOfWork
+  ) {}
 
   /**
    * Create a new period with overlap validation
    */
-  async createPeriod(props: CreatePeriodProps): Promise<Result<Period, any>> {
+  async createPeriod(props: CreatePeriodProps, auditContext?: AuditContext): Promise<Result<Period, any>> {
     // First validate the period entity
     const periodResult = Period.create(props);
     if (periodResult.isFailure()) {
@@ -48,7 +55,7 @@ export class PeriodService {
     }
 
     // Save the period
-    return await this.periodRepository.save(period);
+    return await this.saveWithAudit('CREATE', period, undefined, auditContext);
   }
 
   /**
@@ -117,7 +124,8 @@ export class PeriodService {
    */
   async startClosingPeriod(
     periodId: PeriodId, 
-    organizationId: OrganizationId
+    organizationId: OrganizationId,
+    auditContext?: AuditContext
   ): Promise<Result<Period, any>> {
     const periodResult = await this.periodRepository.findById(periodId, organizationId);
     
@@ -141,15 +149,18 @@ export class PeriodService {
       return closingResult;
     }
 
-    return await this.periodRepository.save(closingResult.value);
+    return await this.saveWithAudit('START_CLOSING', closingResult.value, period, auditContext);
   }
 
   /**
    * Close a period permanently
+   * The pre-close checklist, if given, is stored with the audit entry.
    */
   async closePeriod(
     periodId: PeriodId, 
-    organizationId: OrganizationId
+    organizationId: OrganizationId,
+    auditContext?: AuditContext,
+    closeChecklist?: Record<string, unknown>
   ): Promise<Result<Period, any>> {
     const periodResult = await this.periodRepository.findById(periodId, organizationId);
     
@@ -170,7 +181,7 @@ export class PeriodService {
       return closedResult;
     }
 
-    return await this.periodRepository.save(closedResult.value);
+    return await this.saveWithAudit('CLOSE', closedResult.value, period, auditContext, closeChecklist && { closeChecklist });
   }
 
   /**
@@ -178,7 +189,8 @@ export class PeriodService {
    */
   async reopenPeriod(
     periodId: PeriodId, 
-    organizationId: OrganizationId
+    organizationId: OrganizationId,
+    auditContext?: AuditContext
   ): Promise<Result<Period, any>> {
     const periodResult = await this.periodRepository.findById(periodId, organizationId);
     
@@ -199,7 +211,43 @@ export class PeriodService {
       return reopenResult;
     }
 
-    return await this.periodRepository.save(reopenResult.value);
+    return await this.saveWithAudit('REOPEN', reopenResult.value, period, auditContext);
+  }
+
+  /**
+   * Find period by ID
+   */
+  async findPeriod(periodId: PeriodId, organizationId: OrganizationId): Promise<Result<Period | null, any>> {
+    return await this.periodRepository.findById(periodId, organizationId);
+  }
+
+  /**
+   * Find the earliest regular period starting after the given period ends
+   */
+  async findFollowingPeriod(
+    period: Period,
+    organizationId: OrganizationId
+  ): Promise<Result<Period | null, DomainError>> {
+    const periodsResult = await this.periodRepository.findByOrganization(organizationId);
+    if (periodsResult.isFailure()) {
+      return failure(periodsResult.error);
+    }
+
+    const following = periodsResult.value
+      .filter(candidate => !candidate.isAdjustment && candidate.startDate > period.endDate)
+      .sort((a, b) => a.startDate.getTime() - b.startDate.getTime());
+
+    return success(following[0] ?? null);
+  }
+
+  /**
+   * Find the earliest open period starting after a date
+   */
+  async findNextOpenPeriod(
+    after: Date,
+    organizationId: OrganizationId
+  ): Promise<Result<Period | null, DomainError>> {
+    return await this.periodRepository.findNextOpenPeriod(after, organizationId);
   }
 
   /**
@@ -215,7 +263,8 @@ export class PeriodService {
   async updatePeriod(
     periodId: PeriodId,
     organizationId: OrganizationId,
-    updates: { name?: string; startDate?: Date; endDate?: Date }
+    updates: { name?: string; startDate?: Date; endDate?: Date },
+    auditContext?: AuditContext
   ): Promise<Result<Period, any>> {
     const periodResult = await this.periodRepository.findById(periodId, organizationId);
     
@@ -265,6 +314,40 @@ export class PeriodService {
       ));
     }
 
-    return await this.periodRepository.save(updatedPeriod);
+    return await this.saveWithAudit('UPDATE', updatedPeriod, period, auditContext);
+  }
+
+  /**
+   * Save a period and record the mutation in the audit log in one transaction
+   */
+  private async saveWithAudit(
+    action: AuditAction,
+    period: Period,
+    previous: Period | undefined,
+    auditContext?: AuditContext,
+    auditDetails?: Record<string, unknown>
+  ): Promise<Result<Period, DomainError>> {
+    return await this.unitOfWork.run(async () => {
+      const saveResult = await this.periodRepository.save(period);
+      if (saveResult.isFailure()) {
+        return saveResult;
+      }
+
+      const auditResult = await this.auditService.record({
+        organizationId: period.organizationId,
+        entityType: 'period',
+        entityId: period.id,
+        action,
+        oldData: previous?.toAuditData(),
+        newData: { ...saveResult.value.toAuditData(), ...auditDetails },
+        auditContext
+      });
+
+      if (auditResult.isFailure()) {
+        return failure(auditResult.error);
+      }
+
+      return saveResult;
+    });
   }
 }
\ No newline at end of file
@@ -0,0 +1,40 @@
+import { AccountType } from '../../shared/types';
+
+export type FinancialStatementType = 'BALANCE_SHEET' | 'INCOME_STATEMENT';
+
+export type FinancialStatementLayoutId = 'UGB_BALANCE_SHEET' | 'UGB_INCOME_STATEMENT';
+
+/**
+ * Presentation layout of a financial statement and the mapping of accounts onto its lines
+ */
+export interface FinancialStatementLayout {
+  readonly id: FinancialStatementLayoutId;
+  readonly name: string;
+  readonly description: string;
+  readonly statement: FinancialStatementType;
+  readonly lines: readonly LayoutLine[]; // In display order
+  readonly mappings: readonly LayoutMapping[]; // The first matching mapping wins
+  readonly defaultLines: Readonly<Partial<Record<AccountType, string>>>; // Lines for accounts no mapping matches
+  readonly balanceCheck?: readonly [string, string]; // Keys of two totals that must be equal
+}
+
+/**
+ * Kind of a layout line: mapped accounts, a sum of other lines or the result of the unclosed fiscal years
+ */
+export type LayoutLineKind = 'accounts' | 'total' | 'currentResult';
+
+export interface LayoutLine {
+  readonly key: string;
+  readonly label: string;
+  readonly level: number;
+  readonly kind: LayoutLineKind;
+  readonly normalBalance?: 'debit' | 'credit'; // Balance shown as positive amount; defaults to credit
+  readonly sumOf?: readonly string[]; // Keys of the lines a total adds up
+}
+
+export interface LayoutMapping {
+  readonly lineKey: string;
+  readonly fromCode: string; // Inclusive, compared numerically
+  readonly toCode: string;
+  readonly accountTypes?: readonly AccountType[];
+}
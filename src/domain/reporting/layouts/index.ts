@@ -0,0 +1,35 @@
+import {
+  FinancialStatementLayout,
+  FinancialStatementLayoutId,
+  FinancialStatementType
+} from './financial-statement-layout';
+import { UGB_BALANCE_SHEET_LAYOUT } from './ugb-balance-sheet';
+import { UGB_INCOME_STATEMENT_LAYOUT } from './ugb-income-statement';
+
+export const FINANCIAL_STATEMENT_LAYOUTS: Readonly<Record<FinancialStatementLayoutId, FinancialStatementLayout>> = {
+  UGB_BALANCE_SHEET: UGB_BALANCE_SHEET_LAYOUT,
+  UGB_INCOME_STATEMENT: UGB_INCOME_STATEMENT_LAYOUT,
+};
+
+export const DEFAULT_FINANCIAL_STATEMENT_LAYOUTS: Readonly<Record<FinancialStatementType, FinancialStatementLayoutId>> = {
+  BALANCE_SHEET: 'UGB_BALANCE_SHEET',
+  INCOME_STATEMENT: 'UGB_INCOME_STATEMENT',
+};
+
+/**
+ * Get a financial statement layout by ID
+ */
+export function getFinancialStatementLayout(id: string): FinancialStatementLayout | undefined {
+  return Object.hasOwn(FINANCIAL_STATEMENT_LAYOUTS, id)
+    ? FINANCIAL_STATEMENT_LAYOUTS[id as FinancialStatementLayoutId]
+    : undefined;
+}
+
+export type {
+  FinancialStatementLayout,
+  FinancialStatementLayoutId,
+  FinancialStatementType,
+  LayoutLine,
+  LayoutLineKind,
+  LayoutMapping
+} from './financial-statement-layout';
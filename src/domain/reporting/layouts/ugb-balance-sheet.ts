@@ -0,0 +1,88 @@
+import { FinancialStatementLayout } from './financial-statement-layout';
+
+/**
+ * Austrian balance sheet layout according to § 224 UGB
+ * The mappings follow the account classes of the Einheitskontenrahmen (EKR); accounts of other charts
+ * fall back to one line per account type.
+ */
+export const UGB_BALANCE_SHEET_LAYOUT: FinancialStatementLayout = {
+  id: 'UGB_BALANCE_SHEET',
+  name: 'Bilanz gemäß § 224 UGB',
+  description: 'Austrian balance sheet layout with the current result of unclosed fiscal years in equity',
+  statement: 'BALANCE_SHEET',
+  lines: [
+    { key: 'AKTIVA', label: 'Aktiva', level: 1, kind: 'total', sumOf: ['AKTIVA.A', 'AKTIVA.B', 'AKTIVA.C', 'AKTIVA.D'] },
+    { key: 'AKTIVA.A', label: 'A. Anlagevermögen', level: 2, kind: 'total', sumOf: ['AKTIVA.A.I', 'AKTIVA.A.II', 'AKTIVA.A.III'] },
+    { key: 'AKTIVA.A.I', label: 'I. Immaterielle Vermögensgegenstände', level: 3, kind: 'accounts', normalBalance: 'debit' },
+    { key: 'AKTIVA.A.II', label: 'II. Sachanlagen', level: 3, kind: 'accounts', normalBalance: 'debit' },
+    { key: 'AKTIVA.A.III', label: 'III. Finanzanlagen', level: 3, kind: 'accounts', normalBalance: 'debit' },
+    {
+      key: 'AKTIVA.B',
+      label: 'B. Umlaufvermögen',
+      level: 2,
+      kind: 'total',
+      sumOf: ['AKTIVA.B.I', 'AKTIVA.B.II', 'AKTIVA.B.III', 'AKTIVA.B.IV']
+    },
+    { key: 'AKTIVA.B.I', label: 'I. Vorräte', level: 3, kind: 'accounts', normalBalance: 'debit' },
+    { key: 'AKTIVA.B.II', label: 'II. Forderungen und sonstige Vermögensgegenstände', level: 3, kind: 'accounts', normalBalance: 'debit' },
+    { key: 'AKTIVA.B.III', label: 'III. Wertpapiere und Anteile', level: 3, kind: 'accounts', normalBalance: 'debit' },
+    {
+      key: 'AKTIVA.B.IV',
+      label: 'IV. Kassenbestand, Schecks, Guthaben bei Kreditinstituten',
+      level: 3,
+      kind: 'accounts',
+      normalBalance: 'debit'
+    },
+    { key: 'AKTIVA.C', label: 'C. Rechnungsabgrenzungsposten', level: 2, kind: 'accounts', normalBalance: 'debit' },
+    { key: 'AKTIVA.D', label: 'D. Aktive latente Steuern', level: 2, kind: 'accounts', normalBalance: 'debit' },
+
+    {
+      key: 'PASSIVA',
+      label: 'Passiva',
+      level: 1,
+      kind: 'total',
+      sumOf: ['PASSIVA.A', 'PASSIVA.B', 'PASSIVA.C', 'PASSIVA.D', 'PASSIVA.E']
+    },
+    {
+      key: 'PASSIVA.A',
+      label: 'A. Eigenkapital',
+      level: 2,
+      kind: 'total',
+      sumOf: ['PASSIVA.A.I', 'PASSIVA.A.II', 'PASSIVA.A.III', 'PASSIVA.A.IV', 'PASSIVA.A.V']
+    },
+    { key: 'PASSIVA.A.I', label: 'I. Eingefordertes Nennkapital', level: 3, kind: 'accounts' },
+    { key: 'PASSIVA.A.II', label: 'II. Kapitalrücklagen', level: 3, kind: 'accounts' },
+    { key: 'PASSIVA.A.III', label: 'III. Gewinnrücklagen', level: 3, kind: 'accounts' },
+    { key: 'PASSIVA.A.IV', label: 'IV. Bilanzgewinn (Bilanzverlust)', level: 3, kind: 'accounts' },
+    { key: 'PASSIVA.A.V', label: 'V. Jahresergebnis nicht abgeschlossener Geschäftsjahre', level: 3, kind: 'currentResult' },
+    { key: 'PASSIVA.B', label: 'B. Rückstellungen', level: 2, kind: 'accounts' },
+    { key: 'PASSIVA.C', label: 'C. Verbindlichkeiten', level: 2, kind: 'accounts' },
+    { key: 'PASSIVA.D', label: 'D. Rechnungsabgrenzungsposten', level: 2, kind: 'accounts' },
+    { key: 'PASSIVA.E', label: 'E. Passive latente Steuern', level: 2, kind: 'accounts' },
+  ],
+  mappings: [
+    { lineKey: 'AKTIVA.A.I', fromCode: '0000', toCode: '0199', accountTypes: ['asset'] },
+    { lineKey: 'AKTIVA.A.II', fromCode: '0200', toCode: '0799', accountTypes: ['asset'] },
+    { lineKey: 'AKTIVA.A.III', fromCode: '0800', toCode: '0999', accountTypes: ['asset'] },
+    { lineKey: 'AKTIVA.B.I', fromCode: '1000', toCode: '1999', accountTypes: ['asset'] },
+    { lineKey: 'AKTIVA.B.II', fromCode: '2000', toCode: '2599', accountTypes: ['asset'] },
+    { lineKey: 'AKTIVA.B.III', fromCode: '2600', toCode: '2699', accountTypes: ['asset'] },
+    { lineKey: 'AKTIVA.B.IV', fromCode: '2700', toCode: '2899', accountTypes: ['asset'] },
+    { lineKey: 'AKTIVA.C', fromCode: '2900', toCode: '2959', accountTypes: ['asset'] },
+    { lineKey: 'AKTIVA.D', fromCode: '2960', toCode: '2999', accountTypes: ['asset'] },
+    { lineKey: 'PASSIVA.B', fromCode: '3000', toCode: '3099', accountTypes: ['liability'] },
+    { lineKey: 'PASSIVA.C', fromCode: '3100', toCode: '3899', accountTypes: ['liability'] },
+    { lineKey: 'PASSIVA.D', fromCode: '3900', toCode: '3949', accountTypes: ['liability'] },
+    { lineKey: 'PASSIVA.E', fromCode: '3950', toCode: '3999', accountTypes: ['liability'] },
+    { lineKey: 'PASSIVA.A.I', fromCode: '9000', toCode: '9199', accountTypes: ['equity'] },
+    { lineKey: 'PASSIVA.A.II', fromCode: '9200', toCode: '9299', accountTypes: ['equity'] },
+    { lineKey: 'PASSIVA.A.III', fromCode: '9300', toCode: '9389', accountTypes: ['equity'] },
+    { lineKey: 'PASSIVA.A.IV', fromCode: '9390', toCode: '9999', accountTypes: ['equity'] },
+  ],
+  defaultLines: {
+    asset: 'AKTIVA.B.II',
+    liability: 'PASSIVA.C',
+    equity: 'PASSIVA.A.IV',
+  },
+  balanceCheck: ['AKTIVA', 'PASSIVA'],
+};
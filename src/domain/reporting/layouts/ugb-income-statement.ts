@@ -0,0 +1,87 @@
+import { FinancialStatementLayout } from './financial-statement-layout';
+
+/**
+ * Austrian income statement layout (Gesamtkostenverfahren) according to § 231 Abs. 2 UGB
+ * Amounts are shown credit-positive, so expenses reduce the subtotals. The mappings follow the EKR account classes.
+ */
+export const UGB_INCOME_STATEMENT_LAYOUT: FinancialStatementLayout = {
+  id: 'UGB_INCOME_STATEMENT',
+  name: 'Gewinn- und Verlustrechnung gemäß § 231 Abs. 2 UGB',
+  description: 'Austrian income statement using the nature of expense method',
+  statement: 'INCOME_STATEMENT',
+  lines: [
+    { key: '1', label: '1. Umsatzerlöse', level: 2, kind: 'accounts' },
+    {
+      key: '2',
+      label: '2. Veränderung des Bestands an fertigen und unfertigen Erzeugnissen sowie an noch nicht abrechenbaren Leistungen',
+      level: 2,
+      kind: 'accounts'
+    },
+    { key: '3', label: '3. Andere aktivierte Eigenleistungen', level: 2, kind: 'accounts' },
+    { key: '4', label: '4. Sonstige betriebliche Erträge', level: 2, kind: 'accounts' },
+    { key: '5', label: '5. Aufwendungen für Material und sonstige bezogene Herstellungsleistungen', level: 2, kind: 'accounts' },
+    { key: '6', label: '6. Personalaufwand', level: 2, kind: 'accounts' },
+    { key: '7', label: '7. Abschreibungen', level: 2, kind: 'accounts' },
+    { key: '8', label: '8. Sonstige betriebliche Aufwendungen', level: 2, kind: 'accounts' },
+    {
+      key: '9',
+      label: '9. Zwischensumme aus Z 1 bis 8 (Betriebserfolg)',
+      level: 1,
+      kind: 'total',
+      sumOf: ['1', '2', '3', '4', '5', '6', '7', '8']
+    },
+    { key: '10', label: '10. Erträge aus Beteiligungen', level: 2, kind: 'accounts' },
+    {
+      key: '11',
+      label: '11. Erträge aus anderen Wertpapieren und Ausleihungen des Finanzanlagevermögens',
+      level: 2,
+      kind: 'accounts'
+    },
+    { key: '12', label: '12. Sonstige Zinsen und ähnliche Erträge', level: 2, kind: 'accounts' },
+    {
+      key: '13',
+      label: '13. Erträge aus dem Abgang von und der Zuschreibung zu Finanzanlagen und Wertpapieren des Umlaufvermögens',
+      level: 2,
+      kind: 'accounts'
+    },
+    {
+      key: '14',
+      label: '14. Aufwendungen aus Finanzanlagen und aus Wertpapieren des Umlaufvermögens',
+      level: 2,
+      kind: 'accounts'
+    },
+    { key: '15', label: '15. Zinsen und ähnliche Aufwendungen', level: 2, kind: 'accounts' },
+    {
+      key: '16',
+      label: '16. Zwischensumme aus Z 10 bis 15 (Finanzerfolg)',
+      level: 1,
+      kind: 'total',
+      sumOf: ['10', '11', '12', '13', '14', '15']
+    },
+    { key: '17', label: '17. Ergebnis vor Steuern', level: 1, kind: 'total', sumOf: ['9', '16'] },
+    { key: '18', label: '18. Steuern vom Einkommen und vom Ertrag', level: 2, kind: 'accounts' },
+    { key: '19', label: '19. Ergebnis nach Steuern', level: 1, kind: 'total', sumOf: ['17', '18'] },
+    { key: '20', label: '20. Jahresüberschuss/Jahresfehlbetrag', level: 1, kind: 'total', sumOf: ['19'] },
+  ],
+  mappings: [
+    { lineKey: '1', fromCode: '4000', toCode: '4499' },
+    { lineKey: '2', fromCode: '4500', toCode: '4579' },
+    { lineKey: '3', fromCode: '4580', toCode: '4599' },
+    { lineKey: '4', fromCode: '4600', toCode: '4999' },
+    { lineKey: '5', fromCode: '5000', toCode: '5999' },
+    { lineKey: '6', fromCode: '6000', toCode: '6999' },
+    { lineKey: '7', fromCode: '7000', toCode: '7099' },
+    { lineKey: '8', fromCode: '7100', toCode: '7999' },
+    { lineKey: '10', fromCode: '8000', toCode: '8049', accountTypes: ['revenue'] },
+    { lineKey: '11', fromCode: '8050', toCode: '8099', accountTypes: ['revenue'] },
+    { lineKey: '12', fromCode: '8100', toCode: '8199', accountTypes: ['revenue'] },
+    { lineKey: '13', fromCode: '8200', toCode: '8499', accountTypes: ['revenue'] },
+    { lineKey: '14', fromCode: '8200', toCode: '8279', accountTypes: ['expense'] },
+    { lineKey: '15', fromCode: '8280', toCode: '8499', accountTypes: ['expense'] },
+    { lineKey: '18', fromCode: '8500', toCode: '8599', accountTypes: ['expense'] },
+  ],
+  defaultLines: {
+    revenue: '4',
+    expense: '8',
+  },
+};
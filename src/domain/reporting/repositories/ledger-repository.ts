@@ -0,0 +1,119 @@
+import { OrganizationId, AccountId, JournalId, DomainError } from '../../shared/types';
+import { Result } from '../../shared/result';
+import { Money } from '../../journal/value-objects/money';
+
+/**
+ * Read-only access to posted journal lines for reporting
+ * Draft journals never contribute to ledger figures. Opening journals are left out as well: balances already
+ * carry forward cumulatively, the opening journal only documents them in the new fiscal year.
+ */
+export interface LedgerRepository {
+  /**
+   * Sum debit and credit per account over posted and reversed journals in a currency
+   * Both range bounds are inclusive; omitted bounds are open-ended
+   */
+  sumPostedByAccount(
+    organizationId: OrganizationId,
+    currency: string,
+    range: LedgerDateRange
+  ): Promise<Result<AccountMovement[], DomainError>>;
+
+  /**
+   * Sum the original and booked amounts per account and original currency over posted and reversed journals in a
+   * currency, taking only lines whose original currency differs from the journal currency
+   */
+  sumForeignCurrencyBalances(
+    organizationId: OrganizationId,
+    currency: string,
+    range: LedgerDateRange
+  ): Promise<Result<ForeignCurrencyBalance[], DomainError>>;
+
+  /**
+   * Sum the taxable amounts and tax amounts per tax code and rate over posted and reversed journals in a currency
+   * Amounts are credit-positive, so reversals and credit notes reduce the totals of their tax code.
+   */
+  sumTaxByCode(
+    organizationId: OrganizationId,
+    currency: string,
+    range: LedgerDateRange
+  ): Promise<Result<TaxCodeTotal[], DomainError>>;
+
+  /**
+   * Sum the posted taxed lines in a date range by the VAT ID of the customer and tax code
+   * Lines without a VAT ID are left out.
+   */
+  sumTaxedSalesByPartner(
+    organizationId: OrganizationId,
+    currency: string,
+    range: LedgerDateRange
+  ): Promise<Result<PartnerSalesTotal[], DomainError>>;
+
+  /**
+   * Find a page of posted and reversed journal lines of the given accounts in a currency
+   * Lines are ordered by account code, posting date, journal number and line number; the running movement
+   * of each line covers all lines of its account in the range up to and including the line.
+   */
+  findPostedLines(
+    organizationId: OrganizationId,
+    currency: string,
+    query: LedgerLineQuery
+  ): Promise<Result<LedgerLinePage, DomainError>>;
+}
+
+export interface LedgerDateRange {
+  readonly startDate?: Date;
+  readonly endDate?: Date;
+  readonly excludeClosing?: boolean; // Leave out year-end closing journals, e.g. for income statement movements
+}
+
+export interface AccountMovement {
+  readonly accountId: AccountId;
+  readonly debit: Money;
+  readonly credit: Money;
+}
+
+export interface ForeignCurrencyBalance {
+  readonly accountId: AccountId;
+  readonly originalBalance: Money; // Debit minus credit in the original currency
+  readonly bookedBalance: Money; // Debit minus credit in the journal currency
+}
+
+export interface TaxCodeTotal {
+  readonly taxCode: string;
+  readonly taxRate: string; // Rate stored on the lines
+  readonly base: Money; // Credit minus debit of the taxed lines
+  readonly tax: Money; // Tax amounts of the taxed lines, signed like the base
+}
+
+export interface PartnerSalesTotal {
+  readonly partnerVatId: string;
+  readonly taxCode: string;
+  readonly amount: Money; // Credit minus debit of the taxed lines
+}
+
+export interface LedgerLineQuery {
+  readonly accountIds: readonly AccountId[];
+  readonly startDate: Date;
+  readonly endDate: Date;
+  readonly limit: number;
+  readonly offset: number;
+}
+
+export interface LedgerLine {
+  readonly accountId: AccountId;
+  readonly journalId: JournalId;
+  readonly journalNumber: string;
+  readonly postingDate: Date;
+  readonly lineNumber: number;
+  readonly description: string;
+  readonly reference?: string;
+  readonly debit: Money;
+  readonly credit: Money;
+  readonly runningMovement: Money; // Debit minus credit since the start of the range
+  readonly counterAccountIds: AccountId[]; // Accounts on the opposite side of the same journal
+}
+
+export interface LedgerLinePage {
+  readonly lines: LedgerLine[];
+  readonly totalCount: number;
+}
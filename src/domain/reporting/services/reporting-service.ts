@@ -0,0 +1,226 @@
+import {
+  OrganizationId,
+  AccountId,
+  DomainError,
+  domainError,
+  DomainErrorCodes
+} from '../../shared/types';
+import { Result, success, failure } from '../../shared/result';
+import { Account } from '../../account/entities/account';
+import { AccountService } from '../../account/services/account-service';
+import { AccountTree } from '../../account/value-objects/account-tree';
+import { Money } from '../../journal/value-objects/money';
+import { LedgerRepository } from '../repositories/ledger-repository';
+import { TrialBalance, TrialBalanceOptions } from '../value-objects/trial-balance';
+import { GeneralLedger, GeneralLedgerOptions } from '../value-objects/general-ledger';
+import { FinancialStatement, StatementColumn } from '../value-objects/financial-statement';
+import { FinancialStatementLayout } from '../layouts';
+
+/**
+ * Reporting domain service for figures derived from posted journals
+ */
+export class ReportingService {
+  constructor(
+    private readonly ledgerRepository: LedgerRepository,
+    private readonly accountService: AccountService
+  ) {}
+
+  /**
+   * Build the trial balance of an organization for a date range
+   * The opening balance covers all postings before the start date.
+   */
+  async getTrialBalance(
+    organizationId: OrganizationId,
+    options: TrialBalanceOptions
+  ): Promise<Result<TrialBalance, DomainError>> {
+    const rangeValidation = this.validateDateRange(options.startDate, options.endDate);
+    if (rangeValidation.isFailure()) {
+      return failure(rangeValidation.error);
+    }
+
+    const treeResult = await this.accountService.getAccountTree(organizationId);
+    if (treeResult.isFailure()) {
+      return failure(treeResult.error);
+    }
+
+    const openingResult = await this.ledgerRepository.sumPostedByAccount(organizationId, options.currency, {
+      endDate: new Date(options.startDate.getTime() - 1)
+    });
+    if (openingResult.isFailure()) {
+      return failure(openingResult.error);
+    }
+
+    const movementResult = await this.ledgerRepository.sumPostedByAccount(organizationId, options.currency, {
+      startDate: options.startDate,
+      endDate: options.endDate
+    });
+    if (movementResult.isFailure()) {
+      return failure(movementResult.error);
+    }
+
+    return success(TrialBalance.build(treeResult.value, openingResult.value, movementResult.value, options));
+  }
+
+  /**
+   * Build a page of the general ledger of one account (including its sub-accounts) or an account code range
+   * Without a selection the ledger covers all accounts.
+   */
+  async getGeneralLedger(
+    organizationId: OrganizationId,
+    query: GeneralLedgerQuery
+  ): Promise<Result<GeneralLedger, DomainError>> {
+    const rangeValidation = this.validateDateRange(query.startDate, query.endDate);
+    if (rangeValidation.isFailure()) {
+      return failure(rangeValidation.error);
+    }
+
+    const treeResult = await this.accountService.getAccountTree(organizationId);
+    if (treeResult.isFailure()) {
+      return failure(treeResult.error);
+    }
+
+    const tree = treeResult.value;
+    const accountsResult = this.selectAccounts(tree, query);
+    if (accountsResult.isFailure()) {
+      return failure(accountsResult.error);
+    }
+
+    const accountIds = accountsResult.value.map(account => account.id);
+
+    const openingResult = await this.ledgerRepository.sumPostedByAccount(organizationId, query.currency, {
+      endDate: new Date(query.startDate.getTime() - 1)
+    });
+    if (openingResult.isFailure()) {
+      return failure(openingResult.error);
+    }
+
+    const movementResult = await this.ledgerRepository.sumPostedByAccount(organizationId, query.currency, {
+      startDate: query.startDate,
+      endDate: query.endDate
+    });
+    if (movementResult.isFailure()) {
+      return failure(movementResult.error);
+    }
+
+    const pageResult = await this.ledgerRepository.findPostedLines(organizationId, query.currency, {
+      accountIds,
+      startDate: query.startDate,
+      endDate: query.endDate,
+      limit: query.limit,
+      offset: query.offset
+    });
+    if (pageResult.isFailure()) {
+      return failure(pageResult.error);
+    }
+
+    return success(GeneralLedger.build(
+      tree,
+      accountIds,
+      openingResult.value,
+      movementResult.value,
+      pageResult.value,
+      query
+    ));
+  }
+
+  /**
+   * Build a balance sheet or income statement with optional comparative columns
+   * Balance sheet columns use all postings up to their end date, income statement columns the postings within them
+   * apart from year-end closing journals, so a closed fiscal year still shows its result.
+   */
+  async getFinancialStatement(
+    organizationId: OrganizationId,
+    layout: FinancialStatementLayout,
+    currency: string,
+    columns: readonly StatementColumn[]
+  ): Promise<Result<FinancialStatement, DomainError>> {
+    for (const column of columns) {
+      const rangeValidation = this.validateDateRange(column.startDate, column.endDate);
+      if (rangeValidation.isFailure()) {
+        return failure(rangeValidation.error);
+      }
+    }
+
+    const treeResult = await this.accountService.getAccountTree(organizationId);
+    if (treeResult.isFailure()) {
+      return failure(treeResult.error);
+    }
+
+    const isBalanceSheet = layout.statement === 'BALANCE_SHEET';
+    const balances: Map<AccountId, Money>[] = [];
+    for (const column of columns) {
+      const movementResult = await this.ledgerRepository.sumPostedByAccount(organizationId, currency, {
+        startDate: isBalanceSheet ? undefined : column.startDate,
+        endDate: column.endDate,
+        excludeClosing: !isBalanceSheet
+      });
+      if (movementResult.isFailure()) {
+        return failure(movementResult.error);
+      }
+
+      balances.push(new Map(movementResult.value.map(movement =>
+        [movement.accountId, movement.debit.subtract(movement.credit)])));
+    }
+
+    return success(FinancialStatement.build(layout, treeResult.value, columns, balances, currency));
+  }
+
+  /**
+   * Resolve the accounts a general ledger covers, ordered by code
+   */
+  private selectAccounts(tree: AccountTree, query: GeneralLedgerQuery): Result<Account[], DomainError> {
+    if (query.accountId) {
+      const account = tree.get(query.accountId);
+      if (!account) {
+        return failure(domainError(
+          DomainErrorCodes.ENTITY_NOT_FOUND,
+          'Account not found',
+          { accountId: query.accountId }
+        ));
+      }
+
+      return success([account, ...tree.getDescendants(account.id)]);
+    }
+
+    const compareCodes = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true });
+    const { fromCode, toCode } = query;
+
+    if (fromCode && toCode && compareCodes(fromCode, toCode) > 0) {
+      return failure(domainError(
+        DomainErrorCodes.VALIDATION_FAILED,
+        'Account range start must not be after its end',
+        { fromCode, toCode }
+      ));
+    }
+
+    return success(
+      tree.getRoots()
+        .flatMap(root => [root, ...tree.getDescendants(root.id)])
+        .filter(account => (!fromCode || compareCodes(account.code, fromCode) >= 0) &&
+          (!toCode || compareCodes(account.code, toCode) <= 0))
+    );
+  }
+
+  /**
+   * Validate that a report range does not end before it starts
+   */
+  private validateDateRange(startDate: Date, endDate: Date): Result<void, DomainError> {
+    if (startDate > endDate) {
+      return failure(domainError(
+        DomainErrorCodes.VALIDATION_FAILED,
+        'Start date must not be after end date',
+        { startDate, endDate }
+      ));
+    }
+
+    return success(undefined);
+  }
+}
+
+export interface GeneralLedgerQuery extends GeneralLedgerOptions {
+  readonly accountId?: AccountId; // Includes the sub-accounts of a group account
+  readonly fromCode?: string;
+  readonly toCode?: string;
+  readonly limit: number;
+  readonly offset: number;
+}
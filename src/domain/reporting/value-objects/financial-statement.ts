@@ -0,0 +1,171 @@
+import { AccountId } from '../../shared/types';
+import { Money } from '../../journal/value-objects/money';
+import { Account } from '../../account/entities/account';
+import { AccountTree } from '../../account/value-objects/account-tree';
+import {
+  FinancialStatementLayout,
+  FinancialStatementLayoutId,
+  FinancialStatementType,
+  LayoutLine,
+  LayoutLineKind
+} from '../layouts';
+
+/**
+ * Balance sheet or income statement laid out according to a financial statement layout
+ * Each column is one reporting range; the first column is the current range, the others are comparatives.
+ * Balance sheet columns show balances at the end of their range, income statement columns the movements within it.
+ */
+export class FinancialStatement {
+  private constructor(
+    public readonly layoutId: FinancialStatementLayoutId,
+    public readonly statement: FinancialStatementType,
+    public readonly currency: string,
+    public readonly columns: readonly StatementColumn[],
+    public readonly lines: readonly FinancialStatementLine[],
+    public readonly unmappedAccounts: readonly Account[],
+    private readonly balanceCheck?: readonly [string, string]
+  ) {}
+
+  /**
+   * Build the statement from signed debit-positive balances per column
+   * The current result line carries the balance of all revenue and expense accounts, which stays on those
+   * accounts until the year-end close transfers it to equity.
+   */
+  static build(
+    layout: FinancialStatementLayout,
+    tree: AccountTree,
+    columns: readonly StatementColumn[],
+    balances: readonly ReadonlyMap<AccountId, Money>[],
+    currency: string
+  ): FinancialStatement {
+    const zero = Money.zero(currency);
+    const lineKeys = new Set(layout.lines.filter(line => line.kind === 'accounts').map(line => line.key));
+    const accounts = tree.getRoots().flatMap(root => [root, ...tree.getDescendants(root.id)]);
+    const balanceOf = (account: Account) => balances.map(columnBalances => columnBalances.get(account.id) ?? zero);
+    const hasBalance = (account: Account) => balanceOf(account).some(balance => !balance.isZero());
+
+    const relevantAccounts = accounts.filter(account =>
+      account.isBalanceSheetAccount() === (layout.statement === 'BALANCE_SHEET'));
+
+    const accountsByLine = new Map<string, Account[]>();
+    const unmappedAccounts: Account[] = [];
+    for (const account of relevantAccounts) {
+      const lineKey = FinancialStatement.mapAccount(layout, account);
+      if (lineKey && lineKeys.has(lineKey)) {
+        accountsByLine.set(lineKey, [...accountsByLine.get(lineKey) ?? [], account]);
+      } else if (hasBalance(account)) {
+        unmappedAccounts.push(account);
+      }
+    }
+
+    const sign = (line: LayoutLine) => (line.normalBalance ?? 'credit') === 'debit' ? 1 : -1;
+    const sumColumns = (rows: Money[][]) => balances.map((_, column) =>
+      rows.reduce((sum, row) => sum.add(row[column]), zero));
+
+    const incomeAccounts = accounts.filter(account => !account.isBalanceSheetAccount());
+    const amountsByKey = new Map<string, Money[]>();
+    const linesByKey = new Map(layout.lines.map(line => [line.key, line]));
+
+    const amountsOf = (line: LayoutLine, visiting: Set<string>): Money[] => {
+      const cached = amountsByKey.get(line.key);
+      if (cached) {
+        return cached;
+      }
+
+      let amounts: Money[];
+      if (line.kind === 'total') {
+        const parts = (line.sumOf ?? []).flatMap(key => {
+          const part = linesByKey.get(key);
+          return part && !visiting.has(key) ? [amountsOf(part, new Set([...visiting, key]))] : [];
+        });
+        amounts = sumColumns(parts);
+      } else {
+        const lineAccounts = line.kind === 'currentResult' ? incomeAccounts : accountsByLine.get(line.key) ?? [];
+        amounts = sumColumns(lineAccounts.map(balanceOf)).map(amount => amount.multiply(sign(line)));
+      }
+
+      amountsByKey.set(line.key, amounts);
+      return amounts;
+    };
+
+    const lines = layout.lines.map(line => ({
+      key: line.key,
+      label: line.label,
+      level: line.level,
+      kind: line.kind,
+      amounts: amountsOf(line, new Set([line.key])),
+      accounts: (accountsByLine.get(line.key) ?? [])
+        .filter(hasBalance)
+        .map(account => ({
+          account,
+          amounts: balanceOf(account).map(amount => amount.multiply(sign(line)))
+        }))
+    }));
+
+    return new FinancialStatement(
+      layout.id,
+      layout.statement,
+      currency,
+      columns,
+      lines,
+      unmappedAccounts,
+      layout.balanceCheck
+    );
+  }
+
+  /**
+   * Find the layout line an account is reported on
+   */
+  static mapAccount(layout: FinancialStatementLayout, account: Account): string | undefined {
+    const compareCodes = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true });
+    const mapping = layout.mappings.find(candidate =>
+      compareCodes(account.code, candidate.fromCode) >= 0 &&
+      compareCodes(account.code, candidate.toCode) <= 0 &&
+      (!candidate.accountTypes || candidate.accountTypes.includes(account.type)));
+
+    return mapping?.lineKey ?? layout.defaultLines[account.type];
+  }
+
+  /**
+   * Get a line by its layout key
+   */
+  getLine(key: string): FinancialStatementLine | undefined {
+    return this.lines.find(line => line.key === key);
+  }
+
+  /**
+   * Check that the totals named by the layout's balance check agree in every column
+   * Statements without a balance check, such as the income statement, are always balanced.
+   */
+  isBalanced(): boolean {
+    if (!this.balanceCheck) {
+      return true;
+    }
+
+    const [left, right] = this.balanceCheck.map(key => this.getLine(key));
+    if (!left || !right) {
+      return false;
+    }
+
+    return left.amounts.every((amount, column) => amount.equals(right.amounts[column]));
+  }
+}
+
+export interface StatementColumn {
+  readonly startDate: Date;
+  readonly endDate: Date;
+}
+
+export interface FinancialStatementLine {
+  readonly key: string;
+  readonly label: string;
+  readonly level: number;
+  readonly kind: LayoutLineKind;
+  readonly amounts: Money[]; // One per column
+  readonly accounts: FinancialStatementAccount[];
+}
+
+export interface FinancialStatementAccount {
+  readonly account: Account;
+  readonly amounts: Money[];
+}
@@ -0,0 +1,102 @@
+import { AccountId } from '../../shared/types';
+import { Money } from '../../journal/value-objects/money';
+import { Account } from '../../account/entities/account';
+import { AccountTree } from '../../account/value-objects/account-tree';
+import { AccountMovement, LedgerLine, LedgerLinePage } from '../repositories/ledger-repository';
+
+/**
+ * Page of the general ledger of one or more accounts over a date range
+ * Every account starts from the balance carried forward from before the range; running balances are
+ * signed debit-positive and continue across pages.
+ */
+export class GeneralLedger {
+  private constructor(
+    public readonly currency: string,
+    public readonly startDate: Date,
+    public readonly endDate: Date,
+    public readonly accounts: readonly GeneralLedgerAccount[],
+    public readonly entries: readonly GeneralLedgerEntry[],
+    public readonly totalCount: number
+  ) {}
+
+  /**
+   * Build the ledger page of the selected accounts
+   * Accounts without opening balance and movement in the range are omitted from the account summaries.
+   */
+  static build(
+    tree: AccountTree,
+    accountIds: readonly AccountId[],
+    openingMovements: readonly AccountMovement[],
+    periodMovements: readonly AccountMovement[],
+    page: LedgerLinePage,
+    options: GeneralLedgerOptions
+  ): GeneralLedger {
+    const zero = Money.zero(options.currency);
+    const opening = new Map(openingMovements.map(movement => [movement.accountId, movement]));
+    const movements = new Map(periodMovements.map(movement => [movement.accountId, movement]));
+
+    const openingBalances = new Map(accountIds.map(accountId => {
+      const movement = opening.get(accountId);
+      return [accountId, movement ? movement.debit.subtract(movement.credit) : zero];
+    }));
+
+    const accounts = accountIds
+      .flatMap(accountId => {
+        const account = tree.get(accountId);
+        return account ? [account] : [];
+      })
+      .map(account => {
+        const openingBalance = openingBalances.get(account.id) ?? zero;
+        const debit = movements.get(account.id)?.debit ?? zero;
+        const credit = movements.get(account.id)?.credit ?? zero;
+
+        return {
+          account,
+          openingBalance,
+          debit,
+          credit,
+          closingBalance: openingBalance.add(debit).subtract(credit)
+        };
+      })
+      .filter(summary => !summary.openingBalance.isZero() || !summary.debit.isZero() || !summary.credit.isZero());
+
+    const entries = page.lines.flatMap(line => {
+      const account = tree.get(line.accountId);
+      if (!account) {
+        return [];
+      }
+
+      return [{
+        ...line,
+        account,
+        counterAccounts: line.counterAccountIds.flatMap(accountId => {
+          const counterAccount = tree.get(accountId);
+          return counterAccount ? [counterAccount] : [];
+        }),
+        runningBalance: (openingBalances.get(line.accountId) ?? zero).add(line.runningMovement)
+      }];
+    });
+
+    return new GeneralLedger(options.currency, options.startDate, options.endDate, accounts, entries, page.totalCount);
+  }
+}
+
+export interface GeneralLedgerOptions {
+  readonly currency: string;
+  readonly startDate: Date;
+  readonly endDate: Date;
+}
+
+export interface GeneralLedgerAccount {
+  readonly account: Account;
+  readonly openingBalance: Money;
+  readonly debit: Money;
+  readonly credit: Money;
+  readonly closingBalance: Money;
+}
+
+export interface GeneralLedgerEntry extends LedgerLine {
+  readonly account: Account;
+  readonly counterAccounts: Account[];
+  readonly runningBalance: Money;
+}
@@ -0,0 +1,125 @@
+import { AccountId } from '../../shared/types';
+import { Money } from '../../journal/value-objects/money';
+import { Account } from '../../account/entities/account';
+import { AccountTree, AccountTreeNode } from '../../account/value-objects/account-tree';
+import { AccountMovement } from '../repositories/ledger-repository';
+
+/**
+ * Trial balance of posted journals over a date range
+ * Balances are signed debit-positive: credit balances are negative.
+ */
+export class TrialBalance {
+  private constructor(
+    public readonly currency: string,
+    public readonly startDate: Date,
+    public readonly endDate: Date,
+    public readonly level: number | undefined,
+    public readonly lines: readonly TrialBalanceLine[],
+    public readonly totals: TrialBalanceTotals
+  ) {}
+
+  /**
+   * Build the trial balance from the movements before and within the range
+   * Without a level every account is listed with its own figures; with a level, accounts on that level
+   * (and shallower leaf accounts) carry the totals of their subtrees.
+   */
+  static build(
+    tree: AccountTree,
+    openingMovements: readonly AccountMovement[],
+    periodMovements: readonly AccountMovement[],
+    options: TrialBalanceOptions
+  ): TrialBalance {
+    const { currency, level } = options;
+
+    let openingBalances: ReadonlyMap<AccountId, Money> = new Map(
+      openingMovements.map(movement => [movement.accountId, movement.debit.subtract(movement.credit)])
+    );
+    let debits: ReadonlyMap<AccountId, Money> = new Map(periodMovements.map(movement => [movement.accountId, movement.debit]));
+    let credits: ReadonlyMap<AccountId, Money> = new Map(periodMovements.map(movement => [movement.accountId, movement.credit]));
+
+    if (level !== undefined) {
+      openingBalances = tree.rollUp(openingBalances, currency);
+      debits = tree.rollUp(debits, currency);
+      credits = tree.rollUp(credits, currency);
+    }
+
+    const flatten = (node: AccountTreeNode): AccountTreeNode[] =>
+      node.children.length === 0 || level === undefined
+        ? [node, ...node.children.flatMap(flatten)]
+        : node.children.flatMap(flatten);
+
+    const zero = Money.zero(currency);
+    const lines = tree.toNodes(level)
+      .flatMap(flatten)
+      .map(node => {
+        const openingBalance = openingBalances.get(node.account.id) ?? zero;
+        const debit = debits.get(node.account.id) ?? zero;
+        const credit = credits.get(node.account.id) ?? zero;
+
+        return {
+          account: node.account,
+          level: node.level,
+          isLeaf: node.isLeaf,
+          openingBalance,
+          debit,
+          credit,
+          closingBalance: openingBalance.add(debit).subtract(credit)
+        };
+      })
+      .filter(line => options.includeZeroBalances ||
+        !line.openingBalance.isZero() || !line.debit.isZero() || !line.credit.isZero());
+
+    const totals = lines.reduce(
+      (sum, line) => ({
+        openingBalance: sum.openingBalance.add(line.openingBalance),
+        debit: sum.debit.add(line.debit),
+        credit: sum.credit.add(line.credit),
+        closingBalance: sum.closingBalance.add(line.closingBalance)
+      }),
+      { openingBalance: zero, debit: zero, credit: zero, closingBalance: zero }
+    );
+
+    return new TrialBalance(currency, options.startDate, options.endDate, level, lines, totals);
+  }
+
+  /**
+   * Get the difference between total debits and total credits of the range
+   */
+  getDifference(): Money {
+    return this.totals.debit.subtract(this.totals.credit);
+  }
+
+  /**
+   * Check that debits equal credits and that opening and closing balances net to zero
+   */
+  isBalanced(): boolean {
+    return this.getDifference().isZero() &&
+      this.totals.openingBalance.isZero() &&
+      this.totals.closingBalance.isZero();
+  }
+}
+
+export interface TrialBalanceOptions {
+  readonly currency: string;
+  readonly startDate: Date;
+  readonly endDate: Date;
+  readonly level?: number; // Roll balances up to this account level
+  readonly includeZeroBalances?: boolean;
+}
+
+export interface TrialBalanceLine {
+  readonly account: Account;
+  readonly level: number;
+  readonly isLeaf: boolean;
+  readonly openingBalance: Money;
+  readonly debit: Money;
+  readonly credit: Money;
+  readonly closingBalance: Money;
+}
+
+export interface TrialBalanceTotals {
+  readonly openingBalance: Money;
+  readonly debit: Money;
+  readonly credit: Money;
+  readonly closingBalance: Money;
+}
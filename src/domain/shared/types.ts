@@ -10,7 +10,14 @@ export type OrganizationId = Brand<string, 'OrganizationId'>;
 export type UserId = Brand<string, 'UserId'>;
 export type JournalId = Brand<string, 'JournalId'>;
 export type PeriodId = Brand<string, 'PeriodId'>;
+export type FiscalYearId = Brand<string, 'FiscalYearId'>;
 export type AccountId = Brand<string, 'AccountId'>;
+export type TaxConfigId = Brand<string, 'TaxConfigId'>;
+export type ExchangeRateId = Brand<string, 'ExchangeRateId'>;
+export type BankImportId = Brand<string, 'BankImportId'>;
+export type BankTransactionId = Brand<string, 'BankTransactionId'>;
+export type BankMatchId = Brand<string, 'BankMatchId'>;
+export type JournalLineId = Brand<string, 'JournalLineId'>;
 
 // Value object types
 export type Currency = Brand<string, 'Currency'>;
@@ -19,8 +26,12 @@ export type Hash = Brand<string, 'Hash'>;
 
 // Domain enums
 export type JournalStatus = 'draft' | 'posted' | 'reversed';
+export type JournalKind = 'standard' | 'closing' | 'opening' | 'revaluation';
 export type PeriodStatus = 'open' | 'closing' | 'closed';
+export type FiscalYearStatus = 'open' | 'closed';
+export type PeriodFrequency = 'monthly' | 'quarterly';
 export type AccountType = 'asset' | 'liability' | 'equity' | 'revenue' | 'expense';
+export type SpecialAccountPurpose = 'FX_GAIN_LOSS' | 'RETAINED_EARNINGS' | 'OPENING_BALANCE';
 export type UserRole = 'accountant' | 'auditor' | 'admin' | 'integration-bot';
 
 // Helper functions for creating branded types
@@ -28,7 +39,14 @@ export const organizationId = (value: string): OrganizationId => value as Organi
 export const userId = (value: string): UserId => value as UserId;
 export const journalId = (value: string): JournalId => value as JournalId;
 export const periodId = (value: string): PeriodId => value as PeriodId;
+export const fiscalYearId = (value: string): FiscalYearId => value as FiscalYearId;
 export const accountId = (value: string): AccountId => value as AccountId;
+export const taxConfigId = (value: string): TaxConfigId => value as TaxConfigId;
+export const exchangeRateId = (value: string): ExchangeRateId => value as ExchangeRateId;
+export const bankImportId = (value: string): BankImportId => value as BankImportId;
+export const bankTransactionId = (value: string): BankTransactionId => value as BankTransactionId;
+export const bankMatchId = (value: string): BankMatchId => value as BankMatchId;
+export const journalLineId = (value: string): JournalLineId => value as JournalLineId;
 export const currency = (value: string): Currency => value as Currency;
 export const amount = (value: string): Amount => value as Amount;
 export const hash = (value: string): Hash => value as Hash;
@@ -59,6 +77,11 @@ export const DomainErrorCodes = {
   JOURNAL_ALREADY_POSTED: 'JOURNAL_ALREADY_POSTED',
   UNBALANCED_JOURNAL: 'UNBALANCED_JOURNAL',
   INVALID_HASH_CHAIN: 'INVALID_HASH_CHAIN',
+  INVALID_ACCOUNT: 'INVALID_ACCOUNT',
+  EXCHANGE_RATE_NOT_FOUND: 'EXCHANGE_RATE_NOT_FOUND',
+  FX_001: 'FX_001', // Exchange rate or original amount of a posted line changed
+  TAX_CONFIG_NOT_FOUND: 'TAX_CONFIG_NOT_FOUND',
+  TAX_MISMATCH: 'TAX_MISMATCH', // Manual tax rate or amount contradicts the configured rate
 } as const;
 
 // Audit context for tracking changes
@@ -68,6 +91,8 @@ export interface AuditContext {
   readonly timestamp: Date;
   readonly requestId?: string;
   readonly ipAddress?: string;
+  readonly userAgent?: string;
+  readonly apiKeyId?: string; // Set when the request was authenticated with an API key of the user
 }
 
 // Organization context for multi-tenancy
@@ -0,0 +1,12 @@
+import { Result } from './result';
+
+/**
+ * Unit of work for changes that must be stored together, such as a mutation and its audit entry
+ */
+export interface UnitOfWork {
+  /**
+   * Run work in one transaction; all of its changes are rolled back when it returns a failure or throws
+   * Work run within other work takes part in the enclosing transaction and can be rolled back on its own.
+   */
+  run<T, E>(work: () => Promise<Result<T, E>>): Promise<Result<T, E>>;
+}
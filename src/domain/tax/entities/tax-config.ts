@@ -0,0 +1,252 @@
+import { Decimal } from 'decimal.js';
+import {
+  TaxConfigId,
+  OrganizationId,
+  AccountId,
+  DomainError,
+  domainError,
+  DomainErrorCodes
+} from '../../shared/types';
+import { Result, success, failure } from '../../shared/result';
+import { Money } from '../../journal/value-objects/money';
+
+const TAX_CODE_PATTERN = /^[A-Za-z0-9_-]{1,20}$/;
+
+/**
+ * How a tax code is taxed: at its rate, tax free, or self-assessed by the recipient
+ * Intra-community acquisitions and reverse-charge purchases book the output tax and the deductible input tax at
+ * once; exempt supplies and intra-community supplies and services are zero-rated.
+ */
+export const TAX_TREATMENTS = [
+  'standard',
+  'exempt',
+  'intra_community_supply',
+  'intra_community_service',
+  'intra_community_acquisition',
+  'reverse_charge'
+] as const;
+
+export type TaxTreatment = typeof TAX_TREATMENTS[number];
+
+export const SELF_ASSESSED_TREATMENTS: readonly TaxTreatment[] = ['intra_community_acquisition', 'reverse_charge'];
+const ZERO_RATED_TREATMENTS: readonly TaxTreatment[] = ['exempt', 'intra_community_supply', 'intra_community_service'];
+// Reported per customer in the EC Sales List
+const INTRA_COMMUNITY_SALES_TREATMENTS: readonly TaxTreatment[] = ['intra_community_supply', 'intra_community_service'];
+
+/**
+ * Tax configuration of an organization: a tax code with its rate, validity window and liability account
+ */
+export class TaxConfig {
+  private constructor(
+    public readonly id: TaxConfigId,
+    public readonly organizationId: OrganizationId,
+    public readonly code: string,
+    public readonly name: string,
+    public readonly rate: string, // Decimal fraction, e.g. 0.2000 for 20 %
+    public readonly country: string, // ISO 3166-1 alpha-3
+    public readonly region: string | undefined,
+    public readonly validFrom: Date,
+    public readonly validTo: Date | undefined,
+    public readonly accountId: AccountId, // Output tax account of self-assessed codes
+    public readonly treatment: TaxTreatment,
+    public readonly inputAccountId: AccountId | undefined, // Input tax account of self-assessed codes
+    public readonly isActive: boolean,
+    public readonly createdAt: Date,
+    public readonly updatedAt: Date
+  ) {}
+
+  /**
+   * Create a new active tax configuration
+   */
+  static create(props: CreateTaxConfigProps): Result<TaxConfig, DomainError> {
+    if (!TAX_CODE_PATTERN.test(props.code)) {
+      return failure(domainError(
+        DomainErrorCodes.VALIDATION_FAILED,
+        'Tax code must be 1-20 letters, digits, underscores or dashes',
+        { code: props.code }
+      ));
+    }
+
+    if (!props.name.trim()) {
+      return failure(domainError(
+        DomainErrorCodes.VALIDATION_FAILED,
+        'Tax name is required'
+      ));
+    }
+
+    let rate: Decimal;
+    try {
+      rate = new Decimal(props.rate);
+    } catch {
+      return failure(domainError(
+        DomainErrorCodes.VALIDATION_FAILED,
+        'Tax rate must be a decimal number',
+        { rate: props.rate }
+      ));
+    }
+
+    if (rate.isNegative() || rate.greaterThanOrEqualTo(1) || rate.decimalPlaces() > 4) {
+      return failure(domainError(
+        DomainErrorCodes.VALIDATION_FAILED,
+        'Tax rate must be a fraction between 0 and 1 with at most 4 decimal places',
+        { rate: props.rate }
+      ));
+    }
+
+    if (!/^[A-Z]{3}$/.test(props.country)) {
+      return failure(domainError(
+        DomainErrorCodes.VALIDATION_FAILED,
+        'Tax country must be an ISO 3166-1 alpha-3 code',
+        { country: props.country }
+      ));
+    }
+
+    const treatment = props.treatment ?? 'standard';
+    if (!TAX_TREATMENTS.includes(treatment)) {
+      return failure(domainError(
+        DomainErrorCodes.VALIDATION_FAILED,
+        `Tax treatment must be one of: ${TAX_TREATMENTS.join(', ')}`,
+        { treatment }
+      ));
+    }
+
+    if (ZERO_RATED_TREATMENTS.includes(treatment) && !rate.isZero()) {
+      return failure(domainError(
+        DomainErrorCodes.VALIDATION_FAILED,
+        'Exempt and intra-community supplies must have a tax rate of 0',
+        { treatment, rate: props.rate }
+      ));
+    }
+
+    const selfAssessed = SELF_ASSESSED_TREATMENTS.includes(treatment);
+    if (selfAssessed !== !!props.inputAccountId) {
+      return failure(domainError(
+        DomainErrorCodes.VALIDATION_FAILED,
+        selfAssessed
+          ? 'Self-assessed tax codes require an input tax account'
+          : 'Only self-assessed tax codes have an input tax account',
+        { treatment }
+      ));
+    }
+
+    if (props.validTo && props.validTo <= props.validFrom) {
+      return failure(domainError(
+        DomainErrorCodes.VALIDATION_FAILED,
+        'Tax validity must end after it starts'
+      ));
+    }
+
+    const now = new Date();
+
+    return success(new TaxConfig(
+      props.id,
+      props.organizationId,
+      props.code,
+      props.name.trim(),
+      rate.toFixed(4),
+      props.country,
+      props.region,
+      props.validFrom,
+      props.validTo,
+      props.accountId,
+      treatment,
+      props.inputAccountId,
+      true, // New tax configurations start as active
+      now,
+      now
+    ));
+  }
+
+  /**
+   * Check if the configuration applies on a date
+   */
+  isValidOn(date: Date): boolean {
+    return this.isActive && date >= this.validFrom && (!this.validTo || date < this.validTo);
+  }
+
+  /**
+   * Check if the tax is self-assessed: output and input tax are booked together
+   */
+  isSelfAssessed(): boolean {
+    return SELF_ASSESSED_TREATMENTS.includes(this.treatment);
+  }
+
+  /**
+   * Check if lines with this code must name the VAT ID of the customer, as intra-community sales are reported per
+   * customer in the EC Sales List
+   */
+  requiresPartnerVatId(): boolean {
+    return INTRA_COMMUNITY_SALES_TREATMENTS.includes(this.treatment);
+  }
+
+  /**
+   * Split a tax amount into the tax lines to book
+   * Self-assessed codes book the input tax on the side of the taxed line and the output tax on the opposite side,
+   * so both cancel out; other codes book the tax on the side of the taxed line.
+   */
+  getTaxPostings(taxAmount: Money): TaxPosting[] {
+    if (taxAmount.isZero()) {
+      return [];
+    }
+
+    if (this.isSelfAssessed() && this.inputAccountId) {
+      return [
+        { accountId: this.inputAccountId, amount: taxAmount, oppositeSide: false },
+        { accountId: this.accountId, amount: taxAmount, oppositeSide: true }
+      ];
+    }
+
+    return [{ accountId: this.accountId, amount: taxAmount, oppositeSide: false }];
+  }
+
+  /**
+   * Check if the validity window overlaps another window; an open end runs indefinitely
+   */
+  overlaps(validFrom: Date, validTo: Date | undefined): boolean {
+    return (!validTo || this.validFrom < validTo) && (!this.validTo || validFrom < this.validTo);
+  }
+
+  /**
+   * Convert to the plain snapshot stored in the audit log
+   */
+  toAuditData(): Record<string, unknown> {
+    return {
+      id: this.id,
+      code: this.code,
+      name: this.name,
+      rate: this.rate,
+      country: this.country,
+      region: this.region ?? null,
+      validFrom: this.validFrom.toISOString(),
+      validTo: this.validTo?.toISOString() ?? null,
+      accountId: this.accountId,
+      treatment: this.treatment,
+      inputAccountId: this.inputAccountId ?? null,
+      isActive: this.isActive
+    };
+  }
+}
+
+export interface CreateTaxConfigProps {
+  readonly id: TaxConfigId;
+  readonly organizationId: OrganizationId;
+  readonly code: string;
+  readonly name: string;
+  readonly rate: string;
+  readonly country: string;
+  readonly region?: string;
+  readonly validFrom: Date;
+  readonly validTo?: Date;
+  readonly accountId: AccountId;
+  readonly treatment?: TaxTreatment; // Defaults to standard
+  readonly inputAccountId?: AccountId; // Required for self-assessed treatments
+}
+
+/**
+ * Tax line to book for a taxed journal line
+ */
+export interface TaxPosting {
+  readonly accountId: AccountId;
+  readonly amount: Money;
+  readonly oppositeSide: boolean; // Booked on the opposite side of the taxed line
+}
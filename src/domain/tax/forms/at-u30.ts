@@ -0,0 +1,76 @@
+import { VatReturnForm } from './vat-return-form';
+
+const SUPPLIES = 'LIEFERUNGEN_LEISTUNGEN_EIGENVERBRAUCH';
+const ACQUISITIONS = 'INNERGEMEINSCHAFTLICHE_ERWERBE';
+
+/**
+ * Austrian VAT return U30 (Umsatzsteuervoranmeldung) as submitted to FinanzOnline
+ * Output tax codes are reported by rate, input tax codes in the total of deductible input tax. Intra-community
+ * services are taxed in the country of the customer and only reported in the EC Sales List. The tax payable is
+ * computed by FinanzOnline and therefore not part of the XML export.
+ */
+export const AT_U30_FORM: VatReturnForm = {
+  id: 'AT_U30',
+  name: 'Umsatzsteuervoranmeldung U30',
+  country: 'AUT',
+  exportFormat: 'xml',
+  periodMonths: [1, 3],
+  fields: [
+    {
+      key: '000',
+      label: 'Gesamtbetrag der Bemessungsgrundlagen für Lieferungen und sonstige Leistungen einschließlich Anzahlungen',
+      kind: 'base',
+      required: true,
+      group: [SUPPLIES]
+    },
+    { key: '017', label: 'Davon steuerfrei: Innergemeinschaftliche Lieferungen', kind: 'base', group: [SUPPLIES, 'STEUERFREI'] },
+    {
+      key: '020',
+      label: 'Davon steuerfrei: Übrige steuerfreie Umsätze ohne Vorsteuerabzug',
+      kind: 'base',
+      group: [SUPPLIES, 'STEUERFREI']
+    },
+    { key: '022', label: 'Davon zu versteuern mit 20 % Normalsteuersatz', kind: 'base', group: [SUPPLIES, 'VERSTEUERT'] },
+    { key: '029', label: 'Davon zu versteuern mit 10 % ermäßigtem Steuersatz', kind: 'base', group: [SUPPLIES, 'VERSTEUERT'] },
+    { key: '006', label: 'Davon zu versteuern mit 13 % ermäßigtem Steuersatz', kind: 'base', group: [SUPPLIES, 'VERSTEUERT'] },
+    { key: '037', label: 'Davon zu versteuern mit 19 % für Jungholz und Mittelberg', kind: 'base', group: [SUPPLIES, 'VERSTEUERT'] },
+    {
+      key: '057',
+      label: 'Steuerschuld gemäß § 19 Abs. 1 zweiter Satz, Abs. 1c, 1e sowie Art. 25 Abs. 5',
+      kind: 'outputTax',
+      group: [SUPPLIES, 'STEUERSCHULD']
+    },
+    {
+      key: '070',
+      label: 'Gesamtbetrag der Bemessungsgrundlagen für innergemeinschaftliche Erwerbe',
+      kind: 'base',
+      group: [ACQUISITIONS]
+    },
+    { key: '072', label: 'Davon zu versteuern mit 20 % Normalsteuersatz', kind: 'base', group: [ACQUISITIONS, 'VERSTEUERT_IGE'] },
+    { key: '073', label: 'Davon zu versteuern mit 10 % ermäßigtem Steuersatz', kind: 'base', group: [ACQUISITIONS, 'VERSTEUERT_IGE'] },
+    { key: '008', label: 'Davon zu versteuern mit 13 % ermäßigtem Steuersatz', kind: 'base', group: [ACQUISITIONS, 'VERSTEUERT_IGE'] },
+    { key: '060', label: 'Gesamtbetrag der Vorsteuern', kind: 'inputTax', group: ['VORSTEUER'] },
+    { key: '065', label: 'Vorsteuern aus dem innergemeinschaftlichen Erwerb', kind: 'inputTax', group: ['VORSTEUER'] },
+    {
+      key: '066',
+      label: 'Vorsteuern betreffend die Steuerschuld gemäß § 19 Abs. 1 zweiter Satz, Abs. 1c, 1e sowie Art. 25 Abs. 5',
+      kind: 'inputTax',
+      group: ['VORSTEUER']
+    },
+    { key: '095', label: 'Vorauszahlung (Zahllast) bzw. Überschuss', kind: 'payable' }
+  ],
+  mappings: [
+    { direction: 'output', rate: '0.2000', fieldKeys: ['000', '022'] },
+    { direction: 'output', rate: '0.1000', fieldKeys: ['000', '029'] },
+    { direction: 'output', rate: '0.1300', fieldKeys: ['000', '006'] },
+    { direction: 'output', rate: '0.1900', fieldKeys: ['000', '037'] },
+    { direction: 'input', fieldKeys: ['060'] },
+    { treatment: 'exempt', fieldKeys: ['000', '020'] },
+    { treatment: 'intra_community_supply', fieldKeys: ['000', '017'] },
+    { treatment: 'intra_community_service', fieldKeys: [] },
+    { treatment: 'intra_community_acquisition', rate: '0.2000', fieldKeys: ['070', '072', '065'] },
+    { treatment: 'intra_community_acquisition', rate: '0.1000', fieldKeys: ['070', '073', '065'] },
+    { treatment: 'intra_community_acquisition', rate: '0.1300', fieldKeys: ['070', '008', '065'] },
+    { treatment: 'reverse_charge', fieldKeys: ['057', '066'] }
+  ]
+};
@@ -0,0 +1,44 @@
+import { VatReturnForm } from './vat-return-form';
+
+/**
+ * German VAT return (Umsatzsteuer-Voranmeldung) with the Kennzahlen of the ELSTER form
+ * Taxable bases are reported in whole euros with the cents dropped, tax amounts in euros and cents.
+ */
+export const DE_USTVA_FORM: VatReturnForm = {
+  id: 'DE_USTVA',
+  name: 'Umsatzsteuer-Voranmeldung',
+  country: 'DEU',
+  exportFormat: 'csv',
+  periodMonths: [1, 3],
+  fields: [
+    { key: '81', label: 'Steuerpflichtige Umsätze zum Steuersatz von 19 %', kind: 'base', wholeUnits: true },
+    { key: '86', label: 'Steuerpflichtige Umsätze zum Steuersatz von 7 %', kind: 'base', wholeUnits: true },
+    { key: '41', label: 'Innergemeinschaftliche Lieferungen an Abnehmer mit USt-IdNr.', kind: 'base', wholeUnits: true },
+    { key: '21', label: 'Nicht steuerbare sonstige Leistungen gem. § 18b Satz 1 Nr. 2 UStG', kind: 'base', wholeUnits: true },
+    { key: '48', label: 'Steuerfreie Umsätze ohne Vorsteuerabzug', kind: 'base', wholeUnits: true },
+    { key: '89', label: 'Innergemeinschaftliche Erwerbe zum Steuersatz von 19 %', kind: 'base', wholeUnits: true },
+    { key: '93', label: 'Innergemeinschaftliche Erwerbe zum Steuersatz von 7 %', kind: 'base', wholeUnits: true },
+    {
+      key: '46',
+      label: 'Sonstige Leistungen eines im übrigen Gemeinschaftsgebiet ansässigen Unternehmers (§ 13b Abs. 1 UStG)',
+      kind: 'base',
+      wholeUnits: true
+    },
+    { key: '47', label: 'Steuer auf sonstige Leistungen nach § 13b Abs. 1 UStG', kind: 'outputTax' },
+    { key: '66', label: 'Vorsteuerbeträge aus Rechnungen von anderen Unternehmern', kind: 'inputTax' },
+    { key: '61', label: 'Vorsteuerbeträge aus dem innergemeinschaftlichen Erwerb von Gegenständen', kind: 'inputTax' },
+    { key: '67', label: 'Vorsteuerbeträge aus Leistungen im Sinne des § 13b UStG', kind: 'inputTax' },
+    { key: '83', label: 'Verbleibende Umsatzsteuer-Vorauszahlung bzw. verbleibender Überschuss', kind: 'payable' }
+  ],
+  mappings: [
+    { direction: 'output', rate: '0.1900', fieldKeys: ['81'] },
+    { direction: 'output', rate: '0.0700', fieldKeys: ['86'] },
+    { direction: 'input', fieldKeys: ['66'] },
+    { treatment: 'intra_community_supply', fieldKeys: ['41'] },
+    { treatment: 'intra_community_service', fieldKeys: ['21'] },
+    { treatment: 'exempt', fieldKeys: ['48'] },
+    { treatment: 'intra_community_acquisition', rate: '0.1900', fieldKeys: ['89', '61'] },
+    { treatment: 'intra_community_acquisition', rate: '0.0700', fieldKeys: ['93', '61'] },
+    { treatment: 'reverse_charge', fieldKeys: ['46', '47', '67'] }
+  ]
+};
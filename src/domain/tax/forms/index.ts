@@ -0,0 +1,25 @@
+import { VatReturnForm, VatReturnFormId } from './vat-return-form';
+import { AT_U30_FORM } from './at-u30';
+import { DE_USTVA_FORM } from './de-ustva';
+
+export const VAT_RETURN_FORMS: Readonly<Record<VatReturnFormId, VatReturnForm>> = {
+  AT_U30: AT_U30_FORM,
+  DE_USTVA: DE_USTVA_FORM,
+};
+
+/**
+ * Get the VAT return form of a country (ISO 3166-1 alpha-3)
+ */
+export function getVatReturnForm(country: string): VatReturnForm | undefined {
+  return Object.values(VAT_RETURN_FORMS).find(form => form.country === country);
+}
+
+export type {
+  VatReturnForm,
+  VatReturnFormId,
+  VatReturnExportFormat,
+  TaxDirection,
+  VatReturnField,
+  VatReturnFieldKind,
+  VatReturnMapping
+} from './vat-return-form';
@@ -0,0 +1,45 @@
+import { TaxTreatment } from '../entities/tax-config';
+
+export type VatReturnFormId = 'AT_U30' | 'DE_USTVA';
+
+export type VatReturnExportFormat = 'xml' | 'csv';
+
+/**
+ * Whether a tax code applies to sales or to purchases
+ */
+export type TaxDirection = 'output' | 'input';
+
+/**
+ * Official VAT return (Umsatzsteuervoranmeldung) of a country and the mapping of tax codes onto its fields
+ */
+export interface VatReturnForm {
+  readonly id: VatReturnFormId;
+  readonly name: string;
+  readonly country: string; // ISO 3166-1 alpha-3, matched against the country of the tax configurations
+  readonly exportFormat: VatReturnExportFormat;
+  readonly periodMonths: readonly number[]; // Lengths in months a return may cover, e.g. monthly or quarterly
+  readonly fields: readonly VatReturnField[]; // In form order
+  readonly mappings: readonly VatReturnMapping[]; // The first matching mapping wins
+}
+
+/**
+ * Kind of a form field: the taxable base, output tax or input tax of the mapped codes, or the tax payable (output
+ * tax of all mapped codes less their input tax, negative for a refund)
+ */
+export type VatReturnFieldKind = 'base' | 'outputTax' | 'inputTax' | 'payable';
+
+export interface VatReturnField {
+  readonly key: string; // Kennzahl
+  readonly label: string;
+  readonly kind: VatReturnFieldKind;
+  readonly wholeUnits?: boolean; // Reported in whole currency units, cents dropped
+  readonly required?: boolean; // Declared in the XML export even when zero
+  readonly group?: readonly string[]; // Element path of the field in the XML export
+}
+
+export interface VatReturnMapping {
+  readonly treatment?: TaxTreatment; // Defaults to standard
+  readonly direction?: TaxDirection; // Omitted matches both
+  readonly rate?: string; // Decimal fraction; omitted matches any rate
+  readonly fieldKeys: readonly string[]; // Fields the code is reported in, none if it is not reported on the form
+}
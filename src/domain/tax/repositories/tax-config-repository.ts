@@ -0,0 +1,29 @@
+import { OrganizationId, DomainError } from '../../shared/types';
+import { Result } from '../../shared/result';
+import { TaxConfig } from '../entities/tax-config';
+
+/**
+ * Tax configuration repository interface for data access
+ */
+export interface TaxConfigRepository {
+  /**
+   * Find all configurations of a tax code ordered by start of validity
+   * A code has one configuration per validity window, e.g. after a change of rate.
+   */
+  findByCode(code: string, organizationId: OrganizationId): Promise<Result<TaxConfig[], DomainError>>;
+
+  /**
+   * Find the active configuration of a tax code that is valid on a date
+   */
+  findValidByCode(code: string, date: Date, organizationId: OrganizationId): Promise<Result<TaxConfig | null, DomainError>>;
+
+  /**
+   * Find all tax configurations of an organization ordered by code
+   */
+  findByOrganization(organizationId: OrganizationId): Promise<Result<TaxConfig[], DomainError>>;
+
+  /**
+   * Save tax configuration
+   */
+  save(taxConfig: TaxConfig): Promise<Result<TaxConfig, DomainError>>;
+}
@@ -0,0 +1,172 @@
+import { Decimal } from 'decimal.js';
+import {
+  OrganizationId,
+  AuditContext,
+  DomainError,
+  domainError,
+  DomainErrorCodes
+} from '../../shared/types';
+import { Result, success, failure } from '../../shared/result';
+import { UnitOfWork } from '../../shared/unit-of-work';
+import { TaxConfig, CreateTaxConfigProps, TaxPosting } from '../entities/tax-config';
+import { TaxConfigRepository } from '../repositories/tax-config-repository';
+import { TaxCalculation } from '../value-objects/tax-calculation';
+import { AuditService } from '../../audit/services/audit-service';
+import { Money } from '../../journal/value-objects/money';
+
+// Manual tax amounts may be rounded to whole cents
+const MANUAL_TAX_TOLERANCE = '0.01';
+
+/**
+ * Tax domain service managing the tax configurations of an organization and calculating taxes from them
+ */
+export class TaxService {
+  constructor(
+    private readonly taxConfigRepository: TaxConfigRepository,
+    private readonly auditService: AuditService,
+    private readonly unitOfWork: UnitOfWork
+  ) {}
+
+  /**
+   * Create a tax configuration; configurations of the same code must not overlap in validity
+   */
+  async createTaxConfig(
+    props: CreateTaxConfigProps,
+    auditContext?: AuditContext
+  ): Promise<Result<TaxConfig, DomainError>> {
+    const taxConfigResult = TaxConfig.create(props);
+    if (taxConfigResult.isFailure()) {
+      return failure(taxConfigResult.error);
+    }
+
+    const existingResult = await this.taxConfigRepository.findByCode(props.code, props.organizationId);
+    if (existingResult.isFailure()) {
+      return failure(existingResult.error);
+    }
+
+    const overlapping = existingResult.value.find(existing => existing.overlaps(props.validFrom, props.validTo));
+    if (overlapping) {
+      return failure(domainError(
+        DomainErrorCodes.BUSINESS_RULE_VIOLATION,
+        'Tax code already has a configuration in this validity period',
+        { code: props.code, taxConfigId: overlapping.id }
+      ));
+    }
+
+    return await this.unitOfWork.run(async () => {
+      const saveResult = await this.taxConfigRepository.save(taxConfigResult.value);
+      if (saveResult.isFailure()) {
+        return saveResult;
+      }
+
+      const auditResult = await this.auditService.record({
+        organizationId: props.organizationId,
+        entityType: 'tax_config',
+        entityId: saveResult.value.id,
+        action: 'CREATE',
+        newData: saveResult.value.toAuditData(),
+        auditContext
+      });
+
+      if (auditResult.isFailure()) {
+        return failure(auditResult.error);
+      }
+
+      return saveResult;
+    });
+  }
+
+  /**
+   * Resolve the configuration of a tax code that is valid on a date
+   */
+  async resolveTaxConfig(
+    code: string,
+    date: Date,
+    organizationId: OrganizationId
+  ): Promise<Result<TaxConfig, DomainError>> {
+    const taxConfigResult = await this.taxConfigRepository.findValidByCode(code, date, organizationId);
+    if (taxConfigResult.isFailure()) {
+      return failure(taxConfigResult.error);
+    }
+
+    if (!taxConfigResult.value) {
+      return failure(domainError(
+        DomainErrorCodes.TAX_CONFIG_NOT_FOUND,
+        `No tax configuration for code ${code} on ${date.toISOString().slice(0, 10)}`,
+        { code, date: date.toISOString() }
+      ));
+    }
+
+    return success(taxConfigResult.value);
+  }
+
+  /**
+   * Calculate the tax on a net amount with the configuration of a tax code valid on a date
+   * A manual rate must equal the configured rate and a manual amount may only differ from the calculated tax by
+   * rounding; an accepted manual amount is the one booked.
+   */
+  async calculateTax(
+    code: string,
+    net: Money,
+    date: Date,
+    organizationId: OrganizationId,
+    manual: ManualTax = {}
+  ): Promise<Result<AppliedTax, DomainError>> {
+    const taxConfigResult = await this.resolveTaxConfig(code, date, organizationId);
+    if (taxConfigResult.isFailure()) {
+      return failure(taxConfigResult.error);
+    }
+
+    const taxConfig = taxConfigResult.value;
+    const calculation = TaxCalculation.fromNet(net, taxConfig.rate);
+
+    if (manual.rate !== undefined && !new Decimal(manual.rate).equals(taxConfig.rate)) {
+      return failure(domainError(
+        DomainErrorCodes.TAX_MISMATCH,
+        `Tax rate ${manual.rate} does not match the rate ${taxConfig.rate} of tax code ${code}`,
+        { code, taxRate: manual.rate, configuredRate: taxConfig.rate }
+      ));
+    }
+
+    if (manual.amount) {
+      const difference = manual.amount.subtract(calculation.tax).abs();
+      if (difference.greaterThan(Money.create(MANUAL_TAX_TOLERANCE, net.currency))) {
+        return failure(domainError(
+          DomainErrorCodes.TAX_MISMATCH,
+          `Tax amount ${manual.amount.amount} does not match ${calculation.tax.amount} at the rate of tax code ${code}`,
+          { code, taxAmount: manual.amount.amount, expectedTaxAmount: calculation.tax.amount, rate: taxConfig.rate }
+        ));
+      }
+    }
+
+    const taxAmount = manual.amount ?? calculation.tax;
+    return success({
+      taxConfig,
+      calculation,
+      taxAmount,
+      postings: taxConfig.getTaxPostings(taxAmount)
+    });
+  }
+
+  /**
+   * List the tax configurations of an organization
+   */
+  async listTaxConfigs(organizationId: OrganizationId): Promise<Result<TaxConfig[], DomainError>> {
+    return await this.taxConfigRepository.findByOrganization(organizationId);
+  }
+}
+
+export interface ManualTax {
+  readonly rate?: string;
+  readonly amount?: Money;
+}
+
+/**
+ * Tax of an amount under the configuration valid on its date
+ */
+export interface AppliedTax {
+  readonly taxConfig: TaxConfig;
+  readonly calculation: TaxCalculation;
+  readonly taxAmount: Money; // Manual amount if given, otherwise the calculated tax
+  readonly postings: readonly TaxPosting[]; // Tax lines to book, none for a zero tax
+}
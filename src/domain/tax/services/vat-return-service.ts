@@ -0,0 +1,203 @@
+import { Decimal } from 'decimal.js';
+import {
+  OrganizationId,
+  Currency,
+  DomainError,
+  domainError,
+  DomainErrorCodes
+} from '../../shared/types';
+import { Result, success, failure } from '../../shared/result';
+import { Account } from '../../account/entities/account';
+import { AccountService } from '../../account/services/account-service';
+import { LedgerRepository } from '../../reporting/repositories/ledger-repository';
+import { TaxService } from './tax-service';
+import { TaxConfig, TaxTreatment } from '../entities/tax-config';
+import { TaxDirection, getVatReturnForm } from '../forms';
+import { VatReturn, ClassifiedTaxCodeTotal } from '../value-objects/vat-return';
+import { EcSalesList, EcSalesKind, ClassifiedPartnerSalesTotal } from '../value-objects/ec-sales-list';
+
+// Intra-community sales reported in the EC Sales List
+const EC_SALES_KINDS: Partial<Record<TaxTreatment, EcSalesKind>> = {
+  intra_community_supply: 'goods',
+  intra_community_service: 'services'
+};
+
+/**
+ * VAT return domain service
+ * Tax code totals of the posted journals are reported in the return of the country of their tax configuration. A
+ * standard code books output tax if its tax account is a liability and input tax if it is an asset; exempt and
+ * intra-community sales are output codes, self-assessed codes are input codes. Intra-community sales are also
+ * reported per customer VAT ID in the EC Sales List.
+ */
+export class VatReturnService {
+  constructor(
+    private readonly ledgerRepository: LedgerRepository,
+    private readonly taxService: TaxService,
+    private readonly accountService: AccountService
+  ) {}
+
+  /**
+   * Generate the VAT return of a date range; the country defaults to the only country the organization has tax
+   * configurations for
+   */
+  async generateVatReturn(
+    organizationId: OrganizationId,
+    query: VatReturnQuery
+  ): Promise<Result<VatReturn, DomainError>> {
+    const taxConfigsResult = await this.loadTaxConfigs(organizationId, query);
+    if (taxConfigsResult.isFailure()) {
+      return failure(taxConfigsResult.error);
+    }
+
+    const { taxConfigs, country } = taxConfigsResult.value;
+    const form = getVatReturnForm(country);
+    if (!form) {
+      return failure(domainError(
+        DomainErrorCodes.VALIDATION_FAILED,
+        `No VAT return form for country ${country}`,
+        { country }
+      ));
+    }
+
+    const treeResult = await this.accountService.getAccountTree(organizationId);
+    if (treeResult.isFailure()) {
+      return failure(treeResult.error);
+    }
+
+    const totalsResult = await this.ledgerRepository.sumTaxByCode(organizationId, query.currency, {
+      startDate: query.startDate,
+      endDate: query.endDate
+    });
+    if (totalsResult.isFailure()) {
+      return failure(totalsResult.error);
+    }
+
+    const tree = treeResult.value;
+    const totals = totalsResult.value.flatMap((total): ClassifiedTaxCodeTotal[] => {
+      const taxConfig = findTaxConfig(taxConfigs, total.taxCode, total.taxRate);
+      if (!taxConfig) {
+        return [total];
+      }
+      if (taxConfig.country !== country) {
+        return [];
+      }
+      return [{
+        ...total,
+        treatment: taxConfig.treatment,
+        direction: taxDirection(taxConfig, tree.get(taxConfig.accountId))
+      }];
+    });
+
+    return success(VatReturn.build(form, totals, {
+      currency: query.currency,
+      startDate: query.startDate,
+      endDate: query.endDate
+    }));
+  }
+
+  /**
+   * Generate the EC Sales List of a date range; the country defaults as for the VAT return
+   */
+  async generateEcSalesList(
+    organizationId: OrganizationId,
+    query: VatReturnQuery
+  ): Promise<Result<EcSalesList, DomainError>> {
+    const taxConfigsResult = await this.loadTaxConfigs(organizationId, query);
+    if (taxConfigsResult.isFailure()) {
+      return failure(taxConfigsResult.error);
+    }
+
+    const totalsResult = await this.ledgerRepository.sumTaxedSalesByPartner(organizationId, query.currency, {
+      startDate: query.startDate,
+      endDate: query.endDate
+    });
+    if (totalsResult.isFailure()) {
+      return failure(totalsResult.error);
+    }
+
+    const { taxConfigs, country } = taxConfigsResult.value;
+    const totals = totalsResult.value.flatMap((total): ClassifiedPartnerSalesTotal[] => {
+      // Every version of a code has the same treatment, so the latest one classifies it
+      const taxConfig = findTaxConfig(taxConfigs, total.taxCode, '0');
+      const kind = taxConfig && EC_SALES_KINDS[taxConfig.treatment];
+      return kind && taxConfig.country === country ? [{ ...total, kind }] : [];
+    });
+
+    return success(EcSalesList.build(totals, {
+      country,
+      currency: query.currency,
+      startDate: query.startDate,
+      endDate: query.endDate
+    }));
+  }
+
+  /**
+   * Load the tax configurations of an organization and resolve the country to report for
+   */
+  private async loadTaxConfigs(
+    organizationId: OrganizationId,
+    query: VatReturnQuery
+  ): Promise<Result<{ taxConfigs: TaxConfig[]; country: string }, DomainError>> {
+    if (query.startDate > query.endDate) {
+      return failure(domainError(
+        DomainErrorCodes.VALIDATION_FAILED,
+        'Start date must not be after end date',
+        { startDate: query.startDate.toISOString(), endDate: query.endDate.toISOString() }
+      ));
+    }
+
+    const taxConfigsResult = await this.taxService.listTaxConfigs(organizationId);
+    if (taxConfigsResult.isFailure()) {
+      return failure(taxConfigsResult.error);
+    }
+
+    const taxConfigs = taxConfigsResult.value;
+    const countries = [...new Set(taxConfigs.map(taxConfig => taxConfig.country))];
+    const country = query.country ?? (countries.length === 1 ? countries[0] : undefined);
+    if (!country) {
+      return failure(domainError(
+        DomainErrorCodes.VALIDATION_FAILED,
+        'Country of the VAT return is required when tax configurations exist for several or no countries',
+        { countries }
+      ));
+    }
+
+    return success({ taxConfigs, country });
+  }
+}
+
+/**
+ * Find the configuration a tax code total was booked with: the version of the code with the same rate, otherwise
+ * its latest version
+ */
+function findTaxConfig(taxConfigs: readonly TaxConfig[], code: string, rate: string): TaxConfig | undefined {
+  const versions = taxConfigs
+    .filter(taxConfig => taxConfig.code === code)
+    .sort((a, b) => b.validFrom.getTime() - a.validFrom.getTime());
+  return versions.find(taxConfig => new Decimal(taxConfig.rate).equals(rate)) ?? versions[0];
+}
+
+/**
+ * Direction of a tax code, for standard codes the direction of the tax booked onto its tax account
+ */
+function taxDirection(taxConfig: TaxConfig, account: Account | undefined): TaxDirection | undefined {
+  if (taxConfig.treatment !== 'standard') {
+    return taxConfig.isSelfAssessed() ? 'input' : 'output';
+  }
+
+  switch (account?.type) {
+    case 'liability':
+      return 'output';
+    case 'asset':
+      return 'input';
+    default:
+      return undefined;
+  }
+}
+
+export interface VatReturnQuery {
+  readonly currency: Currency;
+  readonly startDate: Date;
+  readonly endDate: Date;
+  readonly country?: string; // ISO 3166-1 alpha-3
+}
@@ -0,0 +1,88 @@
+import { Decimal } from 'decimal.js';
+import { Currency } from '../../shared/types';
+import { Money } from '../../journal/value-objects/money';
+import { PartnerSalesTotal } from '../../reporting/repositories/ledger-repository';
+
+// Amounts are declared in cents
+const REPORTED_DECIMAL_PLACES = 2;
+
+/**
+ * Whether an intra-community sale is a supply of goods or a service
+ */
+export type EcSalesKind = 'goods' | 'services';
+
+/**
+ * EC Sales List (Zusammenfassende Meldung) of a country for a period: the intra-community sales per customer VAT ID
+ * Credit notes net against the sales of their customer; customers netting to zero are not reported. Amounts are
+ * rounded to cents with banker's rounding.
+ */
+export class EcSalesList {
+  private constructor(
+    public readonly country: string, // ISO 3166-1 alpha-3 of the reporting organization
+    public readonly currency: Currency,
+    public readonly startDate: Date,
+    public readonly endDate: Date,
+    public readonly entries: readonly EcSalesListEntry[] // Ordered by VAT ID, goods before services
+  ) {}
+
+  /**
+   * Sum classified partner sales by customer VAT ID and kind
+   */
+  static build(totals: readonly ClassifiedPartnerSalesTotal[], options: EcSalesListOptions): EcSalesList {
+    const sums = new Map<string, { partnerVatId: string; kind: EcSalesKind; amount: Money }>();
+    for (const total of totals) {
+      const key = `${total.partnerVatId}|${total.kind}`;
+      const sum = sums.get(key);
+      sums.set(key, {
+        partnerVatId: total.partnerVatId,
+        kind: total.kind,
+        amount: sum ? sum.amount.add(total.amount) : total.amount
+      });
+    }
+
+    const entries = [...sums.values()]
+      .map(sum => ({
+        partnerVatId: sum.partnerVatId,
+        countryCode: sum.partnerVatId.slice(0, 2),
+        kind: sum.kind,
+        amount: Money.create(
+          sum.amount.toDecimal().toDecimalPlaces(REPORTED_DECIMAL_PLACES, Decimal.ROUND_HALF_EVEN).toFixed(),
+          options.currency
+        )
+      }))
+      .filter(entry => !entry.amount.isZero())
+      .sort((a, b) => a.partnerVatId.localeCompare(b.partnerVatId) || a.kind.localeCompare(b.kind));
+
+    return new EcSalesList(options.country, options.currency, options.startDate, options.endDate, entries);
+  }
+
+  /**
+   * Get the total of all entries, or of the entries of one kind
+   */
+  getTotal(kind?: EcSalesKind): Money {
+    return this.entries
+      .filter(entry => !kind || entry.kind === kind)
+      .reduce((sum, entry) => sum.add(entry.amount), Money.zero(this.currency));
+  }
+}
+
+/**
+ * Partner sales total of an intra-community sales tax code
+ */
+export interface ClassifiedPartnerSalesTotal extends PartnerSalesTotal {
+  readonly kind: EcSalesKind;
+}
+
+export interface EcSalesListEntry {
+  readonly partnerVatId: string;
+  readonly countryCode: string; // VAT ID prefix, e.g. EL for Greece
+  readonly kind: EcSalesKind;
+  readonly amount: Money;
+}
+
+export interface EcSalesListOptions {
+  readonly country: string;
+  readonly currency: Currency;
+  readonly startDate: Date;
+  readonly endDate: Date;
+}
@@ -0,0 +1,47 @@
+import { Decimal } from 'decimal.js';
+import { Money } from '../../journal/value-objects/money';
+
+/**
+ * Net, tax and gross split of an amount at a tax rate
+ * The calculated amount is rounded to the minor unit of the currency (cents for EUR) with banker's rounding; the
+ * gross amount is always the exact sum of the net and tax amounts.
+ */
+export class TaxCalculation {
+  private constructor(
+    public readonly net: Money,
+    public readonly tax: Money,
+    public readonly gross: Money,
+    public readonly rate: string // Decimal fraction, e.g. 0.2000 for 20 %
+  ) {}
+
+  /**
+   * Split starting from a net amount: the tax is the rounded product of net and rate
+   */
+  static fromNet(net: Money, rate: string): TaxCalculation {
+    const decimalPlaces = minorUnitDecimalPlaces(net.currency);
+    const tax = net.toDecimal()
+      .times(rate)
+      .toDecimalPlaces(decimalPlaces, Decimal.ROUND_HALF_EVEN);
+    const roundedTax = Money.create(tax.toFixed(decimalPlaces), net.currency);
+    return new TaxCalculation(net, roundedTax, net.add(roundedTax), rate);
+  }
+
+  /**
+   * Split starting from a gross amount: the net is rounded and the tax takes the remainder
+   */
+  static fromGross(gross: Money, rate: string): TaxCalculation {
+    const decimalPlaces = minorUnitDecimalPlaces(gross.currency);
+    const net = new Decimal(gross.amount)
+      .dividedBy(new Decimal(1).plus(rate))
+      .toDecimalPlaces(decimalPlaces, Decimal.ROUND_HALF_EVEN);
+    const roundedNet = Money.create(net.toFixed(decimalPlaces), gross.currency);
+    return new TaxCalculation(roundedNet, gross.subtract(roundedNet), gross, rate);
+  }
+}
+
+/**
+ * Decimal places of the minor unit of a currency according to ISO 4217, e.g. 2 for EUR and 0 for JPY
+ */
+function minorUnitDecimalPlaces(currency: string): number {
+  return new Intl.NumberFormat('en', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2;
+}
@@ -0,0 +1,170 @@
+import { Decimal } from 'decimal.js';
+import { Currency } from '../../shared/types';
+import { Money } from '../../journal/value-objects/money';
+import { TaxCodeTotal } from '../../reporting/repositories/ledger-repository';
+import { TaxTreatment, SELF_ASSESSED_TREATMENTS } from '../entities/tax-config';
+import { VatReturnForm, VatReturnField, VatReturnMapping, TaxDirection } from '../forms';
+
+// Amounts are declared in cents
+const REPORTED_DECIMAL_PLACES = 2;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * VAT return of a country for a period: the tax code totals of the posted journals mapped onto the form fields
+ * Sales are credit-positive and purchases debit-positive, so both count positive in their fields. Self-assessed
+ * codes (intra-community acquisitions, reverse charge) report their tax both as output tax and as deductible input
+ * tax. Field amounts are rounded to cents with banker's rounding, whole unit fields drop the cents.
+ */
+export class VatReturn {
+  private constructor(
+    public readonly form: VatReturnForm,
+    public readonly currency: Currency,
+    public readonly startDate: Date,
+    public readonly endDate: Date,
+    public readonly fields: readonly VatReturnFieldAmount[], // In form order
+    public readonly codes: readonly VatReturnCode[],
+    public readonly unmappedCodes: readonly VatReturnCode[] // Codes no mapping of the form matches, not in any field
+  ) {}
+
+  /**
+   * Map classified tax code totals onto the fields of a form
+   */
+  static build(form: VatReturnForm, totals: readonly ClassifiedTaxCodeTotal[], options: VatReturnOptions): VatReturn {
+    const mapped: VatReturnCode[] = [];
+    const unmapped: VatReturnCode[] = [];
+
+    for (const total of totals) {
+      const sign = total.direction === 'input' ? -1 : 1;
+      const tax = total.tax.multiply(sign);
+      const zero = Money.zero(options.currency);
+      const selfAssessed = total.treatment !== undefined && SELF_ASSESSED_TREATMENTS.includes(total.treatment);
+      const mapping = total.direction && form.mappings.find(candidate => VatReturn.matches(candidate, total));
+
+      const code = {
+        taxCode: total.taxCode,
+        taxRate: total.taxRate,
+        treatment: total.treatment,
+        direction: total.direction,
+        base: total.base.multiply(sign),
+        outputTax: selfAssessed || total.direction === 'output' ? tax : zero,
+        inputTax: selfAssessed || total.direction === 'input' ? tax : zero,
+        fieldKeys: mapping ? mapping.fieldKeys : []
+      };
+      (mapping ? mapped : unmapped).push(code);
+    }
+
+    const sumOf = (selected: readonly VatReturnCode[], amount: (code: VatReturnCode) => Money) =>
+      selected.reduce((sum, code) => sum.add(amount(code)), Money.zero(options.currency));
+
+    const fields = form.fields.map(field => {
+      let amount: Money;
+      if (field.kind === 'payable') {
+        amount = sumOf(mapped, code => code.outputTax).subtract(sumOf(mapped, code => code.inputTax));
+      } else {
+        const fieldCodes = mapped.filter(code => code.fieldKeys.includes(field.key));
+        amount = sumOf(fieldCodes, code => code[field.kind as 'base' | 'outputTax' | 'inputTax']);
+      }
+
+      return { field, amount: VatReturn.round(amount, field) };
+    });
+
+    return new VatReturn(
+      form,
+      options.currency,
+      options.startDate,
+      options.endDate,
+      fields,
+      mapped,
+      unmapped
+    );
+  }
+
+  /**
+   * Get the amount of a field by its Kennzahl
+   */
+  getField(key: string): VatReturnFieldAmount | undefined {
+    return this.fields.find(amount => amount.field.key === key);
+  }
+
+  /**
+   * Get the tax payable, negative for a refund
+   */
+  getPayable(): Money {
+    const payable = this.fields.find(amount => amount.field.kind === 'payable');
+    return payable ? payable.amount : Money.zero(this.currency);
+  }
+
+  /**
+   * Get the number of calendar months the return covers, or undefined if it does not span whole months
+   */
+  getPeriodMonths(): number | undefined {
+    const nextDay = new Date(this.endDate.getTime() + DAY_MS);
+    if (this.startDate.getUTCDate() !== 1 || nextDay.getUTCDate() !== 1) {
+      return undefined;
+    }
+
+    const months = (nextDay.getUTCFullYear() - this.startDate.getUTCFullYear()) * 12 +
+      nextDay.getUTCMonth() - this.startDate.getUTCMonth();
+    return months > 0 ? months : undefined;
+  }
+
+  /**
+   * Check if the return covers a period it can be filed for: a month or a calendar quarter, as the form allows
+   */
+  isFilingPeriod(): boolean {
+    const months = this.getPeriodMonths();
+    return months !== undefined &&
+      this.form.periodMonths.includes(months) &&
+      this.startDate.getUTCMonth() % months === 0;
+  }
+
+  /**
+   * Check if a mapping applies to a tax code total by its treatment, direction and rate
+   */
+  private static matches(mapping: VatReturnMapping, total: ClassifiedTaxCodeTotal): boolean {
+    return (mapping.treatment ?? 'standard') === total.treatment &&
+      (!mapping.direction || mapping.direction === total.direction) &&
+      (!mapping.rate || new Decimal(mapping.rate).equals(total.taxRate));
+  }
+
+  /**
+   * Round a field amount to the precision it is declared in
+   */
+  private static round(amount: Money, field: VatReturnField): Money {
+    const rounded = field.wholeUnits
+      ? amount.toDecimal().toDecimalPlaces(0, Decimal.ROUND_DOWN)
+      : amount.toDecimal().toDecimalPlaces(REPORTED_DECIMAL_PLACES, Decimal.ROUND_HALF_EVEN);
+    return Money.create(rounded.toFixed(REPORTED_DECIMAL_PLACES), amount.currency);
+  }
+}
+
+/**
+ * Tax code total with the treatment and direction of its tax configuration; codes without configuration have
+ * neither
+ */
+export interface ClassifiedTaxCodeTotal extends TaxCodeTotal {
+  readonly treatment?: TaxTreatment;
+  readonly direction?: TaxDirection;
+}
+
+export interface VatReturnCode {
+  readonly taxCode: string;
+  readonly taxRate: string;
+  readonly treatment?: TaxTreatment;
+  readonly direction?: TaxDirection;
+  readonly base: Money; // Positive for sales and purchases
+  readonly outputTax: Money; // Tax owed
+  readonly inputTax: Money; // Deductible tax
+  readonly fieldKeys: readonly string[];
+}
+
+export interface VatReturnFieldAmount {
+  readonly field: VatReturnField;
+  readonly amount: Money;
+}
+
+export interface VatReturnOptions {
+  readonly currency: Currency;
+  readonly startDate: Date;
+  readonly endDate: Date;
+}
@@ -0,0 +1,250 @@
+import {
+  DomainError,
+  domainError,
+  DomainErrorCodes,
+  currency
+} from '../../domain/shared/types';
+import { Result, success, failure } from '../../domain/shared/result';
+import { BankStatementFormat } from '../../domain/bank/entities/bank-import';
+import {
+  BankStatementParser,
+  BankStatement,
+  BankStatementEntry
+} from '../../domain/bank/services/bank-import-service';
+
+export const BANK_CSV_DATE_FORMATS = ['DD.MM.YYYY', 'YYYY-MM-DD', 'DD/MM/YYYY', 'MM/DD/YYYY'] as const;
+
+export type BankCsvDateFormat = typeof BANK_CSV_DATE_FORMATS[number];
+
+/**
+ * Layout of a bank's CSV export; columns are named by their header
+ * Amounts come from one signed amount column or from separate debit and credit columns.
+ */
+export interface BankCsvLayout {
+  readonly delimiter?: string; // Defaults to ;
+  readonly decimalSeparator?: '.' | ','; // Defaults to ,
+  readonly dateFormat?: BankCsvDateFormat; // Defaults to DD.MM.YYYY
+  readonly skipRows?: number; // Rows before the header, e.g. account details
+  readonly currency?: string; // Currency of all rows when there is no currency column
+  readonly columns: BankCsvColumns;
+}
+
+export interface BankCsvColumns {
+  readonly date: string; // Booking date
+  readonly amount?: string; // Signed, negative for money paid
+  readonly debit?: string; // Money paid, with or without sign
+  readonly credit?: string; // Money received
+  readonly currency?: string;
+  readonly description: readonly string[]; // Joined with spaces
+  readonly reference?: string;
+  readonly counterparty?: string;
+  readonly transactionId?: string; // Transaction ID assigned by the bank
+}
+
+/**
+ * Parser for bank statement CSV exports with a configurable layout
+ * Fields may be quoted with double quotes, doubling quotes inside; empty rows are skipped. Amounts may use
+ * thousands separators and a trailing minus sign.
+ */
+export class BankCsvParser implements BankStatementParser {
+  readonly format: BankStatementFormat = 'csv';
+
+  constructor(private readonly layout: BankCsvLayout) {}
+
+  /**
+   * Parse the content of a CSV export
+   */
+  parse(content: string): Result<BankStatement, DomainError> {
+    const records = this.parseRecords(content.replace(/^\uFEFF/, ''))
+      .slice(this.layout.skipRows ?? 0)
+      .filter(record => record.some(cell => cell.trim()));
+    if (records.length === 0) {
+      return failure(this.invalidFile('CSV file has no header row'));
+    }
+
+    const { columns } = this.layout;
+    const header = records[0].map(cell => cell.trim());
+    const indexOf = (name: string | undefined): Result<number | undefined, DomainError> => {
+      if (name === undefined) {
+        return success(undefined);
+      }
+      const index = header.indexOf(name);
+      return index >= 0
+        ? success(index)
+        : failure(this.invalidFile(`CSV file has no column "${name}"`, { columns: header }));
+    };
+
+    if (!columns.amount && !(columns.debit && columns.credit)) {
+      return failure(this.invalidFile('CSV layout requires an amount column or debit and credit columns'));
+    }
+    if (!columns.currency && !this.layout.currency) {
+      return failure(this.invalidFile('CSV layout requires a currency column or a currency'));
+    }
+
+    const names = {
+      date: columns.date,
+      amount: columns.amount,
+      debit: columns.debit,
+      credit: columns.credit,
+      currency: columns.currency,
+      reference: columns.reference,
+      counterparty: columns.counterparty,
+      transactionId: columns.transactionId
+    };
+    const indexes: Partial<Record<keyof typeof names, number>> = {};
+    for (const [key, name] of Object.entries(names) as [keyof typeof names, string | undefined][]) {
+      const indexResult = indexOf(name);
+      if (indexResult.isFailure()) {
+        return failure(indexResult.error);
+      }
+      indexes[key] = indexResult.value;
+    }
+
+    const descriptionIndexes: number[] = [];
+    for (const name of columns.description) {
+      const indexResult = indexOf(name);
+      if (indexResult.isFailure()) {
+        return failure(indexResult.error);
+      }
+      descriptionIndexes.push(indexResult.value as number);
+    }
+
+    const entries: BankStatementEntry[] = [];
+    for (let row = 1; row < records.length; row++) {
+      const record = records[row];
+      const cell = (index: number | undefined) => index === undefined ? '' : (record[index] ?? '').trim();
+      const position = { row: row + 1 + (this.layout.skipRows ?? 0) };
+
+      const transactionDate = this.parseDate(cell(indexes.date));
+      if (!transactionDate) {
+        return failure(this.invalidFile(`Row ${position.row}: invalid date "${cell(indexes.date)}"`, position));
+      }
+
+      const amount = indexes.amount !== undefined
+        ? this.parseAmount(cell(indexes.amount))
+        : this.combineAmounts(cell(indexes.debit), cell(indexes.credit));
+      if (amount === undefined) {
+        return failure(this.invalidFile(`Row ${position.row}: invalid amount`, position));
+      }
+
+      const code = (cell(indexes.currency) || this.layout.currency || '').toUpperCase();
+      if (!/^[A-Z]{3}$/.test(code)) {
+        return failure(this.invalidFile(`Row ${position.row}: invalid currency "${code}"`, position));
+      }
+
+      const reference = cell(indexes.reference) || undefined;
+      const counterparty = cell(indexes.counterparty) || undefined;
+      const description = descriptionIndexes.map(cell).filter(Boolean).join(' ');
+
+      entries.push({
+        bankReference: cell(indexes.transactionId) || undefined,
+        transactionDate,
+        amount,
+        currency: currency(code),
+        description: description || counterparty || reference || 'Bank transaction',
+        reference,
+        counterparty
+      });
+    }
+
+    return success({ entries });
+  }
+
+  /**
+   * Split CSV content into records, honouring quoted fields with delimiters and line breaks
+   */
+  private parseRecords(content: string): string[][] {
+    const delimiter = this.layout.delimiter ?? ';';
+    const records: string[][] = [];
+    let record: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let index = 0; index < content.length; index++) {
+      const char = content[index];
+      if (quoted) {
+        if (char === '"' && content[index + 1] === '"') {
+          field += '"';
+          index++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          field += char;
+        }
+      } else if (char === '"') {
+        quoted = true;
+      } else if (content.startsWith(delimiter, index)) {
+        record.push(field);
+        field = '';
+        index += delimiter.length - 1;
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && content[index + 1] === '\n') {
+          index++;
+        }
+        records.push([...record, field]);
+        record = [];
+        field = '';
+      } else {
+        field += char;
+      }
+    }
+
+    if (field || record.length > 0) {
+      records.push([...record, field]);
+    }
+    return records;
+  }
+
+  /**
+   * Parse a signed amount, e.g. -1.234,56 or 1.234,56- with a decimal comma
+   */
+  private parseAmount(value: string): string | undefined {
+    const thousands = (this.layout.decimalSeparator ?? ',') === ',' ? /[.\s'’]/g : /[,\s'’]/g;
+    const normalized = value.replace(thousands, '').replace(',', '.');
+    const match = /^([+-]?)(\d+(?:\.\d+)?)(-?)$/.exec(normalized);
+    if (!match) {
+      return undefined;
+    }
+
+    const negative = (match[1] === '-') !== (match[3] === '-');
+    return negative && !/^0+(\.0+)?$/.test(match[2]) ? `-${match[2]}` : match[2];
+  }
+
+  /**
+   * Combine separate debit and credit cells; a debit is money paid whatever its sign
+   */
+  private combineAmounts(debit: string, credit: string): string | undefined {
+    const debitAmount = debit ? this.parseAmount(debit) : undefined;
+    const creditAmount = credit ? this.parseAmount(credit) : undefined;
+    if (debitAmount && !/^-?0+(\.0+)?$/.test(debitAmount)) {
+      return `-${debitAmount.replace(/^-/, '')}`;
+    }
+    return creditAmount ?? debitAmount;
+  }
+
+  /**
+   * Parse a date in the layout's format as UTC midnight
+   */
+  private parseDate(value: string): Date | undefined {
+    const format = this.layout.dateFormat ?? 'DD.MM.YYYY';
+    const parts = /^(\d{1,4})[./-](\d{1,2})[./-](\d{1,4})/.exec(value);
+    if (!parts) {
+      return undefined;
+    }
+
+    const [first, second, third] = [Number(parts[1]), Number(parts[2]), Number(parts[3])];
+    const [year, month, day] = format === 'YYYY-MM-DD'
+      ? [first, second, third]
+      : format === 'MM/DD/YYYY' ? [third, first, second] : [third, second, first];
+    if (year < 1000) {
+      return undefined;
+    }
+
+    const date = new Date(Date.UTC(year, month - 1, day));
+    return date.getUTCMonth() === month - 1 && date.getUTCDate() === day ? date : undefined;
+  }
+
+  private invalidFile(message: string, details?: Record<string, unknown>): DomainError {
+    return domainError(DomainErrorCodes.VALIDATION_FAILED, message, details);
+  }
+}
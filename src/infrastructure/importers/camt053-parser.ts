@@ -0,0 +1,238 @@
+import {
+  DomainError,
+  domainError,
+  DomainErrorCodes,
+  currency
+} from '../../domain/shared/types';
+import { Result, success, failure } from '../../domain/shared/result';
+import { BankStatementFormat } from '../../domain/bank/entities/bank-import';
+import {
+  BankStatementParser,
+  BankStatement,
+  BankStatementBalance,
+  BankStatementEntry
+} from '../../domain/bank/services/bank-import-service';
+
+// Placeholder ISO 20022 uses for references the originator did not provide
+const NOT_PROVIDED = 'NOTPROVIDED';
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: '\'' };
+
+interface XmlElement {
+  readonly attributes: string;
+  readonly content: string;
+}
+
+/**
+ * Parser for ISO 20022 bank to customer statements (CAMT.053, versions 02 to 08)
+ * Booked entries (`Ntry`) of all statements in the file are read; pending entries are left out. A batch entry
+ * with several transaction details is imported as one transaction with the remittance texts joined. Namespace
+ * prefixes are ignored.
+ */
+export class Camt053Parser implements BankStatementParser {
+  readonly format: BankStatementFormat = 'camt053';
+
+  /**
+   * Parse the XML content of a statement file
+   */
+  parse(content: string): Result<BankStatement, DomainError> {
+    const text = content.replace(/^\uFEFF/, '').trim();
+    if (!this.elements(text, 'BkToCstmrStmt').length) {
+      return failure(this.invalidFile('File is not a CAMT.053 bank to customer statement'));
+    }
+
+    const statements = this.elements(text, 'Stmt').map(statement => statement.content);
+    if (statements.length === 0) {
+      return failure(this.invalidFile('CAMT.053 file contains no statement'));
+    }
+
+    const ibans = [...new Set(statements.map(statement => this.text(statement, 'Acct', 'Id', 'IBAN')))];
+    if (ibans.length > 1) {
+      return failure(this.invalidFile('CAMT.053 file contains statements of several accounts', { ibans }));
+    }
+
+    const accountCurrency = this.text(statements[0], 'Acct', 'Ccy');
+    const entries: BankStatementEntry[] = [];
+    let openingBalance: BankStatementBalance | undefined;
+    let closingBalance: BankStatementBalance | undefined;
+
+    for (const statement of statements) {
+      for (const balance of this.elements(statement, 'Bal')) {
+        const type = this.text(balance.content, 'Tp', 'CdOrPrtry', 'Cd');
+        const balanceResult = this.parseBalance(balance.content);
+        if (balanceResult.isFailure()) {
+          return failure(balanceResult.error);
+        }
+
+        // The opening balance of the first statement and the closing balance of the last one cover the file
+        if ((type === 'OPBD' || type === 'PRCD') && !openingBalance) {
+          openingBalance = balanceResult.value;
+        } else if (type === 'CLBD') {
+          closingBalance = balanceResult.value;
+        }
+      }
+
+      for (const entry of this.elements(statement, 'Ntry')) {
+        const status = this.stripTags(this.elements(entry.content, 'Sts')[0]?.content ?? 'BOOK');
+        if (status !== 'BOOK') {
+          continue;
+        }
+
+        const entryResult = this.parseEntry(entry.content, accountCurrency, entries.length + 1);
+        if (entryResult.isFailure()) {
+          return failure(entryResult.error);
+        }
+        entries.push(entryResult.value);
+      }
+    }
+
+    return success({
+      iban: ibans[0],
+      statementId: this.text(statements[statements.length - 1], 'Id'),
+      currency: accountCurrency ? currency(accountCurrency) : undefined,
+      openingBalance,
+      closingBalance,
+      entries
+    });
+  }
+
+  /**
+   * Parse a booked entry with its transaction details
+   */
+  private parseEntry(
+    entry: string,
+    accountCurrency: string | undefined,
+    position: number
+  ): Result<BankStatementEntry, DomainError> {
+    const amountElement = this.elements(entry, 'Amt')[0];
+    const amount = amountElement ? this.decode(amountElement.content).trim() : '';
+    const code = this.attribute(amountElement?.attributes ?? '', 'Ccy') ?? accountCurrency ?? '';
+    if (!/^\d+(\.\d+)?$/.test(amount) || !/^[A-Z]{3}$/.test(code)) {
+      return failure(this.invalidFile(`Entry ${position} has no valid amount and currency`, { entry: position }));
+    }
+
+    const indicator = this.text(entry, 'CdtDbtInd');
+    if (indicator !== 'CRDT' && indicator !== 'DBIT') {
+      return failure(this.invalidFile(`Entry ${position} has no credit/debit indicator`, { entry: position }));
+    }
+
+    // A reversal entry keeps the indicator of the entry it reverses
+    const reversal = this.text(entry, 'RvslInd') === 'true';
+    const credit = (indicator === 'CRDT') !== reversal;
+
+    const transactionDate = this.parseDate(this.elements(entry, 'BookgDt')[0]?.content) ??
+      this.parseDate(this.elements(entry, 'ValDt')[0]?.content);
+    if (!transactionDate) {
+      return failure(this.invalidFile(`Entry ${position} has no booking date`, { entry: position }));
+    }
+
+    const details = this.elements(entry, 'TxDtls').map(detail => detail.content);
+    const single = details.length === 1 ? details[0] : undefined;
+    const remittance = details
+      .flatMap(detail => this.elements(detail, 'Ustrd').map(element => this.decode(element.content).trim()))
+      .filter(Boolean)
+      .join(' ');
+
+    const reference = single && (
+      this.provided(this.text(single, 'Refs', 'EndToEndId')) ??
+      this.text(single, 'RmtInf', 'Strd', 'CdtrRefInf', 'Ref')
+    );
+    const counterparty = single && this.text(single, 'RltdPties', indicator === 'CRDT' ? 'Dbtr' : 'Cdtr', 'Nm');
+
+    return success({
+      bankReference: this.provided(this.text(entry, 'AcctSvcrRef')) ??
+        (single && this.provided(this.text(single, 'Refs', 'AcctSvcrRef'))),
+      transactionDate,
+      amount: credit ? amount : `-${amount}`,
+      currency: currency(code),
+      description: remittance ||
+        (single && this.text(single, 'AddtlTxInf')) ||
+        this.text(entry, 'AddtlNtryInf') ||
+        counterparty ||
+        reference ||
+        'Bank transaction',
+      reference,
+      counterparty
+    });
+  }
+
+  /**
+   * Parse a balance, signed by its credit/debit indicator
+   */
+  private parseBalance(balance: string): Result<BankStatementBalance, DomainError> {
+    const amount = this.text(balance, 'Amt') ?? '';
+    const date = this.parseDate(this.elements(balance, 'Dt')[0]?.content);
+    if (!/^\d+(\.\d+)?$/.test(amount) || !date) {
+      return failure(this.invalidFile('Statement balance has no valid amount and date'));
+    }
+
+    return success({
+      amount: this.text(balance, 'CdtDbtInd') === 'DBIT' ? `-${amount}` : amount,
+      date
+    });
+  }
+
+  /**
+   * Find the elements with a tag name in XML content, any namespace prefix; same-named elements must not nest
+   */
+  private elements(xml: string, tag: string): XmlElement[] {
+    const pattern = new RegExp(
+      `<(?:[\\w.-]+:)?${tag}(\\s[^>]*?)?(?<!/)>([\\s\\S]*?)</(?:[\\w.-]+:)?${tag}>`,
+      'g'
+    );
+    return [...xml.matchAll(pattern)].map(match => ({ attributes: match[1] ?? '', content: match[2] }));
+  }
+
+  /**
+   * Read the text of the first element along a path of tag names
+   */
+  private text(xml: string, ...path: string[]): string | undefined {
+    let content: string | undefined = xml;
+    for (const tag of path) {
+      content = content === undefined ? undefined : this.elements(content, tag)[0]?.content;
+    }
+
+    const value = content === undefined ? '' : this.decode(this.stripTags(content));
+    return value || undefined;
+  }
+
+  private attribute(attributes: string, name: string): string | undefined {
+    const match = new RegExp(`\\b${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`).exec(attributes);
+    return match ? match[1] ?? match[2] : undefined;
+  }
+
+  private stripTags(xml: string): string {
+    return xml.replace(/<[^>]*>/g, '').trim();
+  }
+
+  private decode(text: string): string {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, name: string) => {
+      if (name.startsWith('#')) {
+        const code = name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+        return String.fromCodePoint(code);
+      }
+      return XML_ENTITIES[name] ?? entity;
+    });
+  }
+
+  private provided(reference: string | undefined): string | undefined {
+    return reference && reference !== NOT_PROVIDED ? reference : undefined;
+  }
+
+  /**
+   * Parse the first ISO date of a date (`Dt`) or date time (`DtTm`) choice as UTC midnight
+   */
+  private parseDate(xml: string | undefined): Date | undefined {
+    const match = xml && /(\d{4})-(\d{2})-(\d{2})/.exec(xml);
+    if (!match) {
+      return undefined;
+    }
+
+    const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+    return date.getUTCDate() === Number(match[3]) ? date : undefined;
+  }
+
+  private invalidFile(message: string, details?: Record<string, unknown>): DomainError {
+    return domainError(DomainErrorCodes.VALIDATION_FAILED, message, details);
+  }
+}
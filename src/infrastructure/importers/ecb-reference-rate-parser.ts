@@ -0,0 +1,167 @@
+import {
+  Currency,
+  DomainError,
+  domainError,
+  DomainErrorCodes,
+  currency
+} from '../../domain/shared/types';
+import { Result, success, failure } from '../../domain/shared/result';
+import { ExchangeRateQuote } from '../../domain/exchange-rate/services/exchange-rate-service';
+
+const EURO = currency('EUR');
+
+const MONTHS = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december'
+];
+
+/**
+ * Parser for the ECB euro foreign exchange reference rate files (eurofxref)
+ * Reads the daily and historical XML (`eurofxref-daily.xml`, `eurofxref-hist.xml`) and CSV
+ * (`eurofxref.csv`, `eurofxref-hist.csv`) formats from their content; nothing is downloaded.
+ * Every rate is quoted as units of the currency per euro.
+ */
+export class EcbReferenceRateParser {
+  /**
+   * Parse file content, detecting XML or CSV
+   */
+  parse(content: string): Result<ExchangeRateQuote[], DomainError> {
+    const text = content.replace(/^\uFEFF/, '').trim();
+    if (!text) {
+      return failure(this.invalidFile('Rate file is empty'));
+    }
+
+    return text.startsWith('<') ? this.parseXml(text) : this.parseCsv(text);
+  }
+
+  /**
+   * Parse the nested Cube elements of the XML format
+   */
+  private parseXml(text: string): Result<ExchangeRateQuote[], DomainError> {
+    const quotes: ExchangeRateQuote[] = [];
+    let effectiveDate: Date | undefined;
+
+    for (const match of text.matchAll(/<Cube\b([^>]*)>/g)) {
+      const attributes = this.parseAttributes(match[1]);
+
+      if (attributes.time) {
+        const date = this.parseDate(attributes.time);
+        if (!date) {
+          return failure(this.invalidFile(`Invalid rate date "${attributes.time}"`));
+        }
+        effectiveDate = date;
+      } else if (attributes.currency && attributes.rate) {
+        if (!effectiveDate) {
+          return failure(this.invalidFile(`Rate for ${attributes.currency} has no date`));
+        }
+
+        const quote = this.toQuote(attributes.currency, attributes.rate, effectiveDate);
+        if (quote.isFailure()) {
+          return failure(quote.error);
+        }
+        quotes.push(quote.value);
+      }
+    }
+
+    if (quotes.length === 0) {
+      return failure(this.invalidFile('No reference rates found in XML file'));
+    }
+
+    return success(quotes);
+  }
+
+  /**
+   * Parse the CSV format: a header row of currencies followed by one row per date
+   * Currencies without a rate on a date are given as N/A or left empty.
+   */
+  private parseCsv(text: string): Result<ExchangeRateQuote[], DomainError> {
+    const [header, ...rows] = text.split(/\r?\n/).filter(line => line.trim());
+    const columns = header.split(',').map(column => column.trim());
+
+    if (columns[0].toLowerCase() !== 'date') {
+      return failure(this.invalidFile('CSV rate file must start with a "Date" column'));
+    }
+
+    const quotes: ExchangeRateQuote[] = [];
+    for (const row of rows) {
+      const cells = row.split(',').map(cell => cell.trim());
+      const effectiveDate = this.parseDate(cells[0]);
+      if (!effectiveDate) {
+        return failure(this.invalidFile(`Invalid rate date "${cells[0]}"`));
+      }
+
+      for (let index = 1; index < columns.length; index++) {
+        const code = columns[index];
+        const rate = cells[index];
+        if (!code || !rate || rate.toUpperCase() === 'N/A') {
+          continue;
+        }
+
+        const quote = this.toQuote(code, rate, effectiveDate);
+        if (quote.isFailure()) {
+          return failure(quote.error);
+        }
+        quotes.push(quote.value);
+      }
+    }
+
+    if (quotes.length === 0) {
+      return failure(this.invalidFile('No reference rates found in CSV file'));
+    }
+
+    return success(quotes);
+  }
+
+  /**
+   * Build a EUR based quote for a currency
+   */
+  private toQuote(code: string, rate: string, effectiveDate: Date): Result<ExchangeRateQuote, DomainError> {
+    if (!/^[A-Z]{3}$/.test(code)) {
+      return failure(this.invalidFile(`Invalid currency code "${code}"`));
+    }
+    if (!/^\d+(\.\d+)?$/.test(rate)) {
+      return failure(this.invalidFile(`Invalid rate "${rate}" for ${code}`));
+    }
+
+    const toCurrency: Currency = currency(code);
+    return success({ fromCurrency: EURO, toCurrency, rate, effectiveDate });
+  }
+
+  /**
+   * Read the attributes of an XML tag, accepting single and double quotes
+   */
+  private parseAttributes(source: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    for (const match of source.matchAll(/([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+      attributes[match[1]] = match[2] ?? match[3];
+    }
+    return attributes;
+  }
+
+  /**
+   * Parse an ISO date (2025-01-10) or the long form of the daily CSV (10 January 2025) as UTC midnight
+   */
+  private parseDate(value: string): Date | undefined {
+    const iso = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+    if (iso) {
+      return this.utcDate(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3]));
+    }
+
+    const long = /^(\d{1,2}) ([A-Za-z]+) (\d{4})$/.exec(value);
+    if (long) {
+      const month = MONTHS.indexOf(long[2].toLowerCase());
+      return month >= 0 ? this.utcDate(Number(long[3]), month, Number(long[1])) : undefined;
+    }
+
+    return undefined;
+  }
+
+  private utcDate(year: number, month: number, day: number): Date | undefined {
+    const date = new Date(Date.UTC(year, month, day));
+    return date.getUTCMonth() === month && date.getUTCDate() === day ? date : undefined;
+  }
+
+  private invalidFile(message: string): DomainError {
+    return domainError(DomainErrorCodes.VALIDATION_FAILED, message);
+  }
+}
@@ -0,0 +1,273 @@
+import {
+  DomainError,
+  domainError,
+  DomainErrorCodes,
+  currency
+} from '../../domain/shared/types';
+import { Result, success, failure } from '../../domain/shared/result';
+import { BankStatementFormat } from '../../domain/bank/entities/bank-import';
+import {
+  BankStatementParser,
+  BankStatement,
+  BankStatementBalance,
+  BankStatementEntry
+} from '../../domain/bank/services/bank-import-service';
+
+// Placeholder for references the originator did not provide
+const NO_REFERENCE = 'NONREF';
+
+// :61: value date, entry date, (reversal) credit/debit mark, funds code, amount, transaction type,
+// customer reference, bank reference after //, supplementary details on the next line
+const STATEMENT_LINE_PATTERN =
+  /^(\d{2})(\d{2})(\d{2})(\d{4})?(RC|RD|C|D)([A-Z])?(\d+,\d*)([A-Z][A-Z0-9]{3})([^/\n]*?)(?:\/\/([^\n]*))?(?:\n([\s\S]*))?$/;
+
+// :60F:, :62F: and their intermediate variants: credit/debit mark, date, currency, amount
+const BALANCE_PATTERN = /^([CD])(\d{2})(\d{2})(\d{2})([A-Z]{3})(\d+,\d*)$/;
+
+interface Mt940Field {
+  readonly tag: string;
+  readonly value: string;
+}
+
+/**
+ * Parser for SWIFT MT940 customer statements, including the structured `:86:` subfields (?00 to ?63) of German and
+ * Austrian banks
+ * The SWIFT block envelope is optional. Several statements in one file are read in order. The booking date is the
+ * entry date of a statement line, its value date otherwise.
+ */
+export class Mt940Parser implements BankStatementParser {
+  readonly format: BankStatementFormat = 'mt940';
+
+  /**
+   * Parse the content of a statement file
+   */
+  parse(content: string): Result<BankStatement, DomainError> {
+    const fields = this.parseFields(content);
+    if (!fields.some(field => field.tag === '20') || !fields.some(field => field.tag.startsWith('60'))) {
+      return failure(this.invalidFile('File is not an MT940 statement'));
+    }
+
+    const entries: BankStatementEntry[] = [];
+    const accounts = new Set<string>();
+    let statementId: string | undefined;
+    let openingBalance: (BankStatementBalance & { currency: string }) | undefined;
+    let closingBalance: BankStatementBalance | undefined;
+    let statementCurrency: string | undefined;
+    let line: Omit<BankStatementEntry, 'description'> & { description?: string } | undefined;
+
+    const pushLine = () => {
+      if (line) {
+        entries.push({
+          ...line,
+          description: line.description || line.counterparty || line.reference || 'Bank transaction'
+        });
+        line = undefined;
+      }
+    };
+
+    for (const field of fields) {
+      switch (field.tag) {
+        case '20':
+          pushLine();
+          statementId = field.value.trim();
+          break;
+        case '25':
+          accounts.add(field.value.trim());
+          break;
+        case '60F':
+        case '60M': {
+          const balance = this.parseBalance(field.value);
+          if (!balance) {
+            return failure(this.invalidFile(`Invalid opening balance "${field.value}"`));
+          }
+          statementCurrency = balance.currency;
+          openingBalance = openingBalance ?? balance;
+          break;
+        }
+        case '61': {
+          pushLine();
+          if (!statementCurrency) {
+            return failure(this.invalidFile('Statement line before the opening balance'));
+          }
+
+          const parsed = this.parseStatementLine(field.value, statementCurrency);
+          if (!parsed) {
+            return failure(this.invalidFile(`Invalid statement line "${field.value.split('\n')[0]}"`, {
+              entry: entries.length + 1
+            }));
+          }
+          line = parsed;
+          break;
+        }
+        case '86':
+          if (line) {
+            line = { ...line, ...this.parseInformation(field.value) };
+          }
+          break;
+        case '62F':
+        case '62M': {
+          pushLine();
+          const balance = this.parseBalance(field.value);
+          if (!balance) {
+            return failure(this.invalidFile(`Invalid closing balance "${field.value}"`));
+          }
+          closingBalance = { amount: balance.amount, date: balance.date };
+          break;
+        }
+      }
+    }
+    pushLine();
+
+    if (accounts.size > 1) {
+      return failure(this.invalidFile('MT940 file contains statements of several accounts', {
+        accounts: [...accounts]
+      }));
+    }
+
+    const account = [...accounts][0]?.replace(/\s/g, '');
+    return success({
+      iban: account && /^[A-Z]{2}\d{2}[A-Z0-9]{10,30}$/.test(account) ? account : undefined,
+      statementId,
+      currency: statementCurrency ? currency(statementCurrency) : undefined,
+      openingBalance: openingBalance && { amount: openingBalance.amount, date: openingBalance.date },
+      closingBalance,
+      entries
+    });
+  }
+
+  /**
+   * Split the text block of the file into its tagged fields; a field continues until the next tag
+   */
+  private parseFields(content: string): Mt940Field[] {
+    const text = content
+      .replace(/^\uFEFF/, '')
+      .replace(/\r\n?/g, '\n')
+      .replace(/\{[1235]:[^{}]*(\{[^{}]*\}[^{}]*)*\}/g, '')
+      .replace(/\{4:\n?/g, '')
+      .replace(/\n-\}/g, '\n');
+
+    const fields: { tag: string; lines: string[] }[] = [];
+    for (const row of text.split('\n')) {
+      const tag = /^:(\d{2}[A-Z]?):(.*)$/.exec(row);
+      if (tag) {
+        fields.push({ tag: tag[1], lines: [tag[2]] });
+      } else if (fields.length > 0 && row.trim() !== '-') {
+        fields[fields.length - 1].lines.push(row);
+      }
+    }
+
+    return fields.map(field => ({ tag: field.tag, value: field.lines.join('\n').trimEnd() }));
+  }
+
+  /**
+   * Parse a :61: statement line; a reversal of a credit is money paid and a reversal of a debit money received
+   */
+  private parseStatementLine(
+    value: string,
+    statementCurrency: string
+  ): Omit<BankStatementEntry, 'description'> | undefined {
+    const match = STATEMENT_LINE_PATTERN.exec(value);
+    if (!match) {
+      return undefined;
+    }
+
+    const year = 2000 + Number(match[1]);
+    const valueDate = this.utcDate(year, Number(match[2]) - 1, Number(match[3]));
+    let transactionDate = valueDate;
+    if (valueDate && match[4]) {
+      // The entry date has no year; it lies within a few days of the value date, possibly across a year end
+      const month = Number(match[4].slice(0, 2)) - 1;
+      const day = Number(match[4].slice(2));
+      const candidates = [year - 1, year, year + 1]
+        .map(candidate => this.utcDate(candidate, month, day))
+        .filter((date): date is Date => date !== undefined);
+      transactionDate = candidates.sort((a, b) =>
+        Math.abs(a.getTime() - valueDate.getTime()) - Math.abs(b.getTime() - valueDate.getTime()))[0];
+    }
+
+    const amount = match[7].replace(',', '.').replace(/\.$/, '');
+    if (!transactionDate || !/\d/.test(amount)) {
+      return undefined;
+    }
+
+    const credit = match[5] === 'C' || match[5] === 'RD';
+    const customerReference = match[9].trim();
+    const bankReference = match[10]?.trim();
+
+    return {
+      bankReference: bankReference && bankReference !== NO_REFERENCE ? bankReference : undefined,
+      transactionDate,
+      amount: credit ? amount : `-${amount}`,
+      currency: currency(statementCurrency),
+      reference: customerReference && customerReference !== NO_REFERENCE ? customerReference : undefined
+    };
+  }
+
+  /**
+   * Parse the :86: information to account owner, structured into ?xx subfields or free text
+   */
+  private parseInformation(value: string): Pick<BankStatementEntry, 'description' | 'reference' | 'counterparty'> {
+    const text = value.replace(/\n/g, '');
+    if (!/^\d{3}\?/.test(text)) {
+      return { description: value.replace(/\n/g, ' ').trim() };
+    }
+
+    const subfields = new Map<number, string>();
+    for (const match of text.slice(3).matchAll(/\?(\d{2})([^?]*)/g)) {
+      subfields.set(Number(match[1]), match[2]);
+    }
+
+    const join = (from: number, to: number) => [...subfields.entries()]
+      .filter(([code]) => code >= from && code <= to)
+      .sort(([a], [b]) => a - b)
+      .map(([, part]) => part)
+      .join('');
+
+    // Purpose lines ?20-?29 and ?60-?63 may carry SEPA tags such as EREF+ and SVWZ+
+    const purpose = join(20, 29) + join(60, 63);
+    const sepa = this.parseSepaTags(purpose);
+    const counterparty = join(32, 33).trim();
+
+    return {
+      description: (sepa.SVWZ ?? purpose).trim() || subfields.get(0)?.trim() || '',
+      reference: sepa.EREF && sepa.EREF !== 'NOTPROVIDED' ? sepa.EREF : undefined,
+      counterparty: counterparty || undefined
+    };
+  }
+
+  /**
+   * Split purpose text into its SEPA tags (EREF+, KREF+, MREF+, CRED+, SVWZ+, ...)
+   */
+  private parseSepaTags(purpose: string): Record<string, string> {
+    const tags: Record<string, string> = {};
+    const matches = [...purpose.matchAll(/\b(EREF|KREF|MREF|CRED|DEBT|SVWZ|ABWA|ABWE)\+/g)];
+    matches.forEach((match, index) => {
+      const end = index + 1 < matches.length ? matches[index + 1].index : purpose.length;
+      tags[match[1]] = purpose.slice((match.index ?? 0) + match[0].length, end).trim();
+    });
+    return tags;
+  }
+
+  /**
+   * Parse a balance field, signed by its credit/debit mark
+   */
+  private parseBalance(value: string): (BankStatementBalance & { currency: string }) | undefined {
+    const match = BALANCE_PATTERN.exec(value.trim());
+    const date = match && this.utcDate(2000 + Number(match[2]), Number(match[3]) - 1, Number(match[4]));
+    if (!match || !date) {
+      return undefined;
+    }
+
+    const amount = match[6].replace(',', '.').replace(/\.$/, '');
+    return { amount: match[1] === 'D' ? `-${amount}` : amount, date, currency: match[5] };
+  }
+
+  private utcDate(year: number, month: number, day: number): Date | undefined {
+    const date = new Date(Date.UTC(year, month, day));
+    return date.getUTCMonth() === month && date.getUTCDate() === day ? date : undefined;
+  }
+
+  private invalidFile(message: string, details?: Record<string, unknown>): DomainError {
+    return domainError(DomainErrorCodes.VALIDATION_FAILED, message, details);
+  }
+}
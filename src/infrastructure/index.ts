@@ -6,29 +6,226 @@
 // Repository exports
 export { RepositoryFactory, createRepositoryContainer } from './repositories/repository-factory';
 export { DrizzlePeriodRepository } from './repositories/drizzle-period-repository';
+export { DrizzleFiscalYearRepository } from './repositories/drizzle-fiscal-year-repository';
 export { DrizzleJournalRepository } from './repositories/drizzle-journal-repository';
+export { DrizzleAccountRepository } from './repositories/drizzle-account-repository';
+export { DrizzleTaxConfigRepository } from './repositories/drizzle-tax-config-repository';
+export { DrizzleExchangeRateRepository } from './repositories/drizzle-exchange-rate-repository';
+export { DrizzleAuditLogRepository } from './repositories/drizzle-audit-log-repository';
+export { DrizzleLedgerRepository } from './repositories/drizzle-ledger-repository';
+export { DrizzleIdempotencyRepository } from './repositories/drizzle-idempotency-repository';
+export { DrizzleBankImportRepository } from './repositories/drizzle-bank-import-repository';
+export { DrizzleBankReconciliationRepository } from './repositories/drizzle-bank-reconciliation-repository';
+
+// Importer exports
+export { EcbReferenceRateParser } from './importers/ecb-reference-rate-parser';
+export { Camt053Parser } from './importers/camt053-parser';
+export { Mt940Parser } from './importers/mt940-parser';
+export { BankCsvParser, BANK_CSV_DATE_FORMATS } from './importers/bank-csv-parser';
 
 // Service exports
 export { ServiceFactory, createServiceContainer } from './services/service-factory';
 
 // Type exports
 export type { RepositoryContainer } from './repositories/repository-factory';
+export type {
+  IdempotencyRepository,
+  IdempotencyRecord,
+  StoredResponse
+} from './repositories/drizzle-idempotency-repository';
 export type { ServiceContainer } from './services/service-factory';
+export type { FiscalYearRepository } from '../domain/period/repositories/fiscal-year-repository';
+export type { CreateFiscalYearProps } from '../domain/period/entities/fiscal-year';
+export type { GeneratedFiscalYear } from '../domain/period/services/fiscal-year-service';
+export type { AccountRepository, AccountFilters } from '../domain/account/repositories/account-repository';
+export type { CreateAccountProps, UpdateAccountProps } from '../domain/account/entities/account';
+export type { AccountTreeNode } from '../domain/account/value-objects/account-tree';
+export type { AppliedChartOfAccountsTemplate } from '../domain/account/services/account-service';
+export type { ChartOfAccountsTemplate, ChartOfAccountsTemplateId } from '../domain/account/templates';
+export type { TaxConfigRepository } from '../domain/tax/repositories/tax-config-repository';
+export type { CreateTaxConfigProps, TaxTreatment, TaxPosting } from '../domain/tax/entities/tax-config';
+export type { ManualTax, AppliedTax } from '../domain/tax/services/tax-service';
+export type { VatReturnQuery } from '../domain/tax/services/vat-return-service';
+export type {
+  ClassifiedTaxCodeTotal,
+  VatReturnCode,
+  VatReturnFieldAmount,
+  VatReturnOptions
+} from '../domain/tax/value-objects/vat-return';
+export type {
+  EcSalesKind,
+  ClassifiedPartnerSalesTotal,
+  EcSalesListEntry,
+  EcSalesListOptions
+} from '../domain/tax/value-objects/ec-sales-list';
+export type {
+  VatReturnForm,
+  VatReturnFormId,
+  VatReturnExportFormat,
+  TaxDirection,
+  VatReturnField,
+  VatReturnFieldKind,
+  VatReturnMapping
+} from '../domain/tax/forms';
+export type { ExchangeRateRepository } from '../domain/exchange-rate/repositories/exchange-rate-repository';
+export type { CreateExchangeRateProps } from '../domain/exchange-rate/entities/exchange-rate';
+export type {
+  ResolvedExchangeRate,
+  ExchangeRateMethod,
+  ExchangeRateQuote,
+  ExchangeRateImportSummary
+} from '../domain/exchange-rate/services/exchange-rate-service';
+export type { BankImportRepository } from '../domain/bank/repositories/bank-import-repository';
+export type {
+  BankStatementFormat,
+  BankImportStatus,
+  BankImportMetadata,
+  CreateBankImportProps
+} from '../domain/bank/entities/bank-import';
+export type { BankTransactionStatus, CreateBankTransactionProps } from '../domain/bank/entities/bank-transaction';
+export type {
+  BankStatementParser,
+  BankStatementFile,
+  BankStatement,
+  BankStatementBalance,
+  BankStatementEntry,
+  BankImportResult
+} from '../domain/bank/services/bank-import-service';
+export type { TransactionFingerprintFields } from '../domain/bank/value-objects/transaction-fingerprint';
+export type {
+  BankReconciliationRepository,
+  BankTransactionQuery,
+  BookLineQuery,
+  BookLine,
+  StatementBalance
+} from '../domain/bank/repositories/bank-reconciliation-repository';
+export type { BankMatchStatus, CreateBankMatchProps } from '../domain/bank/entities/bank-match';
+export type { MatchSuggestionQuery, BankMatchDecision } from '../domain/bank/services/bank-reconciliation-service';
+export type { MatchCriterion, MatchSuggestionOptions } from '../domain/bank/value-objects/match-suggestion';
+export type { ReconciliationStatementProps } from '../domain/bank/value-objects/reconciliation-statement';
+export type { BankCsvLayout, BankCsvColumns, BankCsvDateFormat } from './importers/bank-csv-parser';
+export type { AuditLogRepository } from '../domain/audit/repositories/audit-log-repository';
+export type {
+  LedgerRepository,
+  LedgerDateRange,
+  AccountMovement,
+  ForeignCurrencyBalance,
+  TaxCodeTotal,
+  PartnerSalesTotal,
+  LedgerLineQuery,
+  LedgerLine,
+  LedgerLinePage
+} from '../domain/reporting/repositories/ledger-repository';
+export type {
+  TrialBalanceOptions,
+  TrialBalanceLine,
+  TrialBalanceTotals
+} from '../domain/reporting/value-objects/trial-balance';
+export type {
+  GeneralLedgerOptions,
+  GeneralLedgerAccount,
+  GeneralLedgerEntry
+} from '../domain/reporting/value-objects/general-ledger';
+export type { GeneralLedgerQuery } from '../domain/reporting/services/reporting-service';
+export type {
+  StatementColumn,
+  FinancialStatementLine,
+  FinancialStatementAccount
+} from '../domain/reporting/value-objects/financial-statement';
+export type {
+  FinancialStatementLayout,
+  FinancialStatementLayoutId,
+  FinancialStatementType,
+  LayoutLine,
+  LayoutLineKind,
+  LayoutMapping
+} from '../domain/reporting/layouts';
+export type {
+  YearEndCloseAccounts,
+  YearEndClosePlanOptions,
+  ClosePlanLine
+} from '../domain/closing/value-objects/year-end-close-plan';
+export type { YearEndCloseJournals } from '../domain/closing/services/year-end-close-service';
+export type { ClosedPeriod } from '../domain/closing/services/period-close-service';
+export type {
+  FxOpenItem,
+  FxRevaluationItem,
+  FxRevaluationPlanOptions
+} from '../domain/closing/value-objects/fx-revaluation-plan';
+export type { FxRevaluationJournals } from '../domain/closing/services/fx-revaluation-service';
+export type {
+  PeriodCloseCheckCode,
+  PeriodCloseCheckStatus,
+  PeriodCloseCheckResult,
+  PeriodCloseWaiver,
+  PeriodCloseChecklistItem
+} from '../domain/closing/value-objects/period-close-checklist';
+export type {
+  AuditEntry,
+  AuditAction,
+  AuditEntityType,
+  RecordAuditEntryProps
+} from '../domain/audit/entities/audit-entry';
+export type { AuditChainVerificationResult, AuditChainIssue } from '../domain/audit/services/audit-service';
 
 // Domain service re-exports for convenience
 export { PeriodService } from '../domain/period/services/period-service';
+export { FiscalYearService } from '../domain/period/services/fiscal-year-service';
 export { JournalService } from '../domain/journal/services/journal-service';
 export { HashService } from '../domain/journal/services/hash-service';
 export { PostingService } from '../domain/journal/services/posting-service';
+export { AuditService } from '../domain/audit/services/audit-service';
+export { AccountService } from '../domain/account/services/account-service';
+export { TaxService } from '../domain/tax/services/tax-service';
+export { VatReturnService } from '../domain/tax/services/vat-return-service';
+export { ExchangeRateService } from '../domain/exchange-rate/services/exchange-rate-service';
+export { ReportingService } from '../domain/reporting/services/reporting-service';
+export { YearEndCloseService } from '../domain/closing/services/year-end-close-service';
+export { PeriodCloseService } from '../domain/closing/services/period-close-service';
+export { FxRevaluationService } from '../domain/closing/services/fx-revaluation-service';
+export { BankImportService } from '../domain/bank/services/bank-import-service';
+export { BankReconciliationService } from '../domain/bank/services/bank-reconciliation-service';
 
 // Domain entity re-exports
 export { Period } from '../domain/period/entities/period';
+export { FiscalYear } from '../domain/period/entities/fiscal-year';
 export { Journal } from '../domain/journal/entities/journal';
 export { JournalLine } from '../domain/journal/entities/journal-line';
+export { Account, ACCOUNT_TYPES, SPECIAL_ACCOUNT_PURPOSES } from '../domain/account/entities/account';
+export { AccountTree } from '../domain/account/value-objects/account-tree';
+export { TaxConfig, TAX_TREATMENTS } from '../domain/tax/entities/tax-config';
+export { ExchangeRate } from '../domain/exchange-rate/entities/exchange-rate';
+export { BankImport, BANK_STATEMENT_FORMATS } from '../domain/bank/entities/bank-import';
+export { BankTransaction } from '../domain/bank/entities/bank-transaction';
+export {
+  CHART_OF_ACCOUNTS_TEMPLATES,
+  DEFAULT_CHART_OF_ACCOUNTS_TEMPLATE,
+  getChartOfAccountsTemplate
+} from '../domain/account/templates';
+export {
+  FINANCIAL_STATEMENT_LAYOUTS,
+  DEFAULT_FINANCIAL_STATEMENT_LAYOUTS,
+  getFinancialStatementLayout
+} from '../domain/reporting/layouts';
+export { VAT_RETURN_FORMS, getVatReturnForm } from '../domain/tax/forms';
 
 // Value object re-exports
 export { Money } from '../domain/journal/value-objects/money';
 export { JournalHash } from '../domain/journal/value-objects/journal-hash';
+export { AuditSignature } from '../domain/audit/value-objects/audit-signature';
+export { TrialBalance } from '../domain/reporting/value-objects/trial-balance';
+export { GeneralLedger } from '../domain/reporting/value-objects/general-ledger';
+export { FinancialStatement } from '../domain/reporting/value-objects/financial-statement';
+export { YearEndClosePlan } from '../domain/closing/value-objects/year-end-close-plan';
+export { PeriodCloseChecklist, PERIOD_CLOSE_CHECKS } from '../domain/closing/value-objects/period-close-checklist';
+export { FxRevaluationPlan, lastBankBusinessDayOfMonth } from '../domain/closing/value-objects/fx-revaluation-plan';
+export { TaxCalculation } from '../domain/tax/value-objects/tax-calculation';
+export { VatReturn } from '../domain/tax/value-objects/vat-return';
+export { EcSalesList } from '../domain/tax/value-objects/ec-sales-list';
+export { TransactionFingerprint } from '../domain/bank/value-objects/transaction-fingerprint';
+export { BankMatch } from '../domain/bank/entities/bank-match';
+export { MatchSuggestion } from '../domain/bank/value-objects/match-suggestion';
+export { ReconciliationStatement } from '../domain/bank/value-objects/reconciliation-statement';
 
 // Shared types re-exports
 export * from '../domain/shared/types';
@@ -0,0 +1,342 @@
+import { and, asc, eq, ilike, inArray, ne, or, SQL } from 'drizzle-orm';
+import { accounts, journalLines } from '../../db/schema';
+import { currentDb, withOrganizationContext, OrganizationContext } from '../../db/utils';
+import {
+  OrganizationId,
+  AccountId,
+  AccountType,
+  SpecialAccountPurpose,
+  DomainError,
+  organizationId,
+  accountId,
+  currency
+} from '../../domain/shared/types';
+import { Result, asyncResult } from '../../domain/shared/result';
+import { Account } from '../../domain/account/entities/account';
+import { AccountRepository, AccountFilters } from '../../domain/account/repositories/account-repository';
+
+/**
+ * Drizzle implementation of AccountRepository
+ */
+export class DrizzleAccountRepository implements AccountRepository {
+  /**
+   * Find account by ID
+   */
+  async findById(
+    accountId: AccountId,
+    organizationId: OrganizationId
+  ): Promise<Result<Account | null, DomainError>> {
+    return asyncResult(async () => {
+      const context: OrganizationContext = { organizationId };
+
+      return await withOrganizationContext(context, async () => {
+        const rows = await currentDb()
+          .select()
+          .from(accounts)
+          .where(
+            and(
+              eq(accounts.id, accountId),
+              eq(accounts.organizationId, organizationId)
+            )
+          )
+          .limit(1);
+
+        return rows.length > 0 ? this.mapRowToAccount(rows[0]) : null;
+      });
+    });
+  }
+
+  /**
+   * Find accounts by IDs; unknown IDs are omitted from the result
+   */
+  async findByIds(
+    accountIds: readonly AccountId[],
+    organizationId: OrganizationId
+  ): Promise<Result<Account[], DomainError>> {
+    return asyncResult(async () => {
+      if (accountIds.length === 0) {
+        return [];
+      }
+
+      const context: OrganizationContext = { organizationId };
+
+      return await withOrganizationContext(context, async () => {
+        const rows = await currentDb()
+          .select()
+          .from(accounts)
+          .where(
+            and(
+              inArray(accounts.id, [...accountIds]),
+              eq(accounts.organizationId, organizationId)
+            )
+          );
+
+        return rows.map(row => this.mapRowToAccount(row));
+      });
+    });
+  }
+
+  /**
+   * Find account by code
+   */
+  async findByCode(code: string, organizationId: OrganizationId): Promise<Result<Account | null, DomainError>> {
+    return asyncResult(async () => {
+      const context: OrganizationContext = { organizationId };
+
+      return await withOrganizationContext(context, async () => {
+        const rows = await currentDb()
+          .select()
+          .from(accounts)
+          .where(
+            and(
+              eq(accounts.code, code),
+              eq(accounts.organizationId, organizationId)
+            )
+          )
+          .limit(1);
+
+        return rows.length > 0 ? this.mapRowToAccount(rows[0]) : null;
+      });
+    });
+  }
+
+  /**
+   * Find the account designated for a special purpose
+   */
+  async findBySpecialPurpose(
+    purpose: SpecialAccountPurpose,
+    organizationId: OrganizationId
+  ): Promise<Result<Account | null, DomainError>> {
+    return asyncResult(async () => {
+      const context: OrganizationContext = { organizationId };
+
+      return await withOrganizationContext(context, async () => {
+        const rows = await currentDb()
+          .select()
+          .from(accounts)
+          .where(
+            and(
+              eq(accounts.specialPurpose, purpose),
+              eq(accounts.organizationId, organizationId)
+            )
+          )
+          .limit(1);
+
+        return rows.length > 0 ? this.mapRowToAccount(rows[0]) : null;
+      });
+    });
+  }
+
+  /**
+   * Find accounts of an organization ordered by code
+   */
+  async findByOrganization(
+    organizationId: OrganizationId,
+    filters: AccountFilters = {}
+  ): Promise<Result<Account[], DomainError>> {
+    return asyncResult(async () => {
+      const context: OrganizationContext = { organizationId };
+
+      return await withOrganizationContext(context, async () => {
+        const conditions: SQL[] = [eq(accounts.organizationId, organizationId)];
+
+        if (filters.type) {
+          conditions.push(eq(accounts.type, filters.type));
+        }
+
+        if (filters.isActive !== undefined) {
+          conditions.push(eq(accounts.isActive, filters.isActive));
+        }
+
+        if (filters.searchTerm) {
+          conditions.push(or(
+            ilike(accounts.code, `${filters.searchTerm}%`),
+            ilike(accounts.name, `%${filters.searchTerm}%`)
+          )!);
+        }
+
+        const rows = await currentDb()
+          .select()
+          .from(accounts)
+          .where(and(...conditions))
+          .orderBy(asc(accounts.code));
+
+        return rows.map(row => this.mapRowToAccount(row));
+      });
+    });
+  }
+
+  /**
+   * Check if an account code is taken, optionally ignoring one account
+   */
+  async existsByCode(
+    code: string,
+    organizationId: OrganizationId,
+    excludeAccountId?: AccountId
+  ): Promise<Result<boolean, DomainError>> {
+    return asyncResult(async () => {
+      const context: OrganizationContext = { organizationId };
+
+      return await withOrganizationContext(context, async () => {
+        const conditions: SQL[] = [
+          eq(accounts.code, code),
+          eq(accounts.organizationId, organizationId)
+        ];
+
+        if (excludeAccountId) {
+          conditions.push(ne(accounts.id, excludeAccountId));
+        }
+
+        const rows = await currentDb()
+          .select({ id: accounts.id })
+          .from(accounts)
+          .where(and(...conditions))
+          .limit(1);
+
+        return rows.length > 0;
+      });
+    });
+  }
+
+  /**
+   * Check if any journal line references the account
+   */
+  async hasJournalLines(
+    accountId: AccountId,
+    organizationId: OrganizationId
+  ): Promise<Result<boolean, DomainError>> {
+    return asyncResult(async () => {
+      const context: OrganizationContext = { organizationId };
+
+      return await withOrganizationContext(context, async () => {
+        const rows = await currentDb()
+          .select({ id: journalLines.id })
+          .from(journalLines)
+          .where(
+            and(
+              eq(journalLines.accountId, accountId),
+              eq(journalLines.organizationId, organizationId)
+            )
+          )
+          .limit(1);
+
+        return rows.length > 0;
+      });
+    });
+  }
+
+  /**
+   * Find which of the given accounts have child accounts
+   */
+  async findGroupAccountIds(
+    accountIds: readonly AccountId[],
+    organizationId: OrganizationId
+  ): Promise<Result<AccountId[], DomainError>> {
+    return asyncResult(async () => {
+      if (accountIds.length === 0) {
+        return [];
+      }
+
+      const context: OrganizationContext = { organizationId };
+
+      return await withOrganizationContext(context, async () => {
+        const rows = await currentDb()
+          .selectDistinct({ parentId: accounts.parentId })
+          .from(accounts)
+          .where(
+            and(
+              inArray(accounts.parentId, [...accountIds]),
+              eq(accounts.organizationId, organizationId)
+            )
+          );
+
+        return rows.map(row => accountId(row.parentId!));
+      });
+    });
+  }
+
+  /**
+   * Save account (insert or update)
+   */
+  async save(account: Account): Promise<Result<Account, DomainError>> {
+    return asyncResult(async () => {
+      const context: OrganizationContext = { organizationId: account.organizationId };
+
+      return await withOrganizationContext(context, async () => {
+        const accountData = {
+          id: account.id,
+          organizationId: account.organizationId,
+          code: account.code,
+          name: account.name,
+          type: account.type,
+          currency: account.currency,
+          parentId: account.parentId ?? null,
+          specialPurpose: account.specialPurpose ?? null,
+          isActive: account.isActive,
+          createdAt: account.createdAt,
+          updatedAt: account.updatedAt
+        };
+
+        const rows = await currentDb()
+          .insert(accounts)
+          .values(accountData)
+          .onConflictDoUpdate({
+            target: accounts.id,
+            set: {
+              code: accountData.code,
+              name: accountData.name,
+              type: accountData.type,
+              currency: accountData.currency,
+              parentId: accountData.parentId,
+              specialPurpose: accountData.specialPurpose,
+              isActive: accountData.isActive,
+              updatedAt: accountData.updatedAt
+            }
+          })
+          .returning();
+
+        return this.mapRowToAccount(rows[0]);
+      });
+    });
+  }
+
+  /**
+   * Delete account (only if no journal lines reference it)
+   */
+  async delete(accountId: AccountId, organizationId: OrganizationId): Promise<Result<void, DomainError>> {
+    return asyncResult(async () => {
+      const context: OrganizationContext = { organizationId };
+
+      await withOrganizationContext(context, async () => {
+        await currentDb()
+          .delete(accounts)
+          .where(
+            and(
+              eq(accounts.id, accountId),
+              eq(accounts.organizationId, organizationId)
+            )
+          );
+      });
+    });
+  }
+
+  /**
+   * Map database row to Account entity
+   */
+  private mapRowToAccount(row: typeof accounts.$inferSelect): Account {
+    // Rows bypass Account.create so that stored state (e.g. inactive) is kept
+    return new (Account as unknown as new (...args: unknown[]) => Account)(
+      accountId(row.id),
+      organizationId(row.organizationId),
+      row.code,
+      row.name,
+      row.type as AccountType,
+      currency(row.currency),
+      row.parentId ? accountId(row.parentId) : undefined,
+      (row.specialPurpose as SpecialAccountPurpose | null) ?? undefined,
+      row.isActive,
+      row.createdAt,
+      row.updatedAt
+    );
+  }
+}
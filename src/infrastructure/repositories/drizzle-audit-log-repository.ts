@@ -0,0 +1,181 @@
+import { and, asc, desc, eq, gte, isNotNull, lte, sql } from 'drizzle-orm';
+import { auditLog } from '../../db/schema';
+import { currentDb, withOrganizationContext, OrganizationContext } from '../../db/utils';
+import {
+  OrganizationId,
+  DomainError,
+  organizationId,
+  userId
+} from '../../domain/shared/types';
+import { Result, asyncResult } from '../../domain/shared/result';
+import {
+  AuditEntry,
+  AuditEntityType,
+  AuditAction,
+  AuditData
+} from '../../domain/audit/entities/audit-entry';
+import { AuditLogRepository } from '../../domain/audit/repositories/audit-log-repository';
+
+/**
+ * Drizzle implementation of AuditLogRepository
+ * Only inserts and reads; the audit_log_append_only trigger rejects updates and deletes
+ */
+export class DrizzleAuditLogRepository implements AuditLogRepository {
+  /**
+   * Append an entry to the organization's audit chain
+   * A transaction scoped advisory lock serializes appends per organization
+   */
+  async append(
+    organizationId: OrganizationId,
+    createEntry: (previous: AuditEntry | null) => AuditEntry
+  ): Promise<Result<AuditEntry, DomainError>> {
+    return asyncResult(async () => {
+      const context: OrganizationContext = { organizationId };
+
+      return await withOrganizationContext(context, async () => {
+        return await currentDb().transaction(async (tx) => {
+          await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${'audit_log:' + organizationId}))`);
+
+          const [latest] = await tx
+            .select()
+            .from(auditLog)
+            .where(
+              and(
+                eq(auditLog.organizationId, organizationId),
+                isNotNull(auditLog.sequence)
+              )
+            )
+            .orderBy(desc(auditLog.sequence))
+            .limit(1);
+
+          const entry = createEntry(latest ? this.mapRowToEntry(latest) : null);
+
+          const [row] = await tx
+            .insert(auditLog)
+            .values({
+              id: entry.id,
+              organizationId: entry.organizationId,
+              userId: entry.userId ?? null,
+              entityType: entry.entityType,
+              entityId: entry.entityId,
+              action: entry.action,
+              oldData: entry.oldData ?? null,
+              newData: entry.newData ?? null,
+              requestId: entry.requestId ?? null,
+              ipAddress: entry.ipAddress ?? null,
+              userAgent: entry.userAgent ?? null,
+              apiKeyId: entry.apiKeyId ?? null,
+              sequence: entry.sequence ?? null,
+              signaturePrev: entry.signaturePrev ?? null,
+              signature: entry.signature ?? null,
+              createdAt: entry.createdAt
+            })
+            .returning();
+
+          return this.mapRowToEntry(row);
+        });
+      });
+    });
+  }
+
+  /**
+   * Find all entries for an entity, oldest first
+   */
+  async findByEntity(
+    entityType: AuditEntityType,
+    entityId: string,
+    organizationId: OrganizationId
+  ): Promise<Result<AuditEntry[], DomainError>> {
+    return asyncResult(async () => {
+      const context: OrganizationContext = { organizationId };
+
+      return await withOrganizationContext(context, async () => {
+        const rows = await currentDb()
+          .select()
+          .from(auditLog)
+          .where(
+            and(
+              eq(auditLog.organizationId, organizationId),
+              eq(auditLog.entityType, entityType),
+              eq(auditLog.entityId, entityId)
+            )
+          )
+          .orderBy(asc(auditLog.createdAt));
+
+        return rows.map(row => this.mapRowToEntry(row));
+      });
+    });
+  }
+
+  /**
+   * Find entries of an organization within a date range, oldest first
+   */
+  async findByDateRange(
+    startDate: Date,
+    endDate: Date,
+    organizationId: OrganizationId
+  ): Promise<Result<AuditEntry[], DomainError>> {
+    return asyncResult(async () => {
+      const context: OrganizationContext = { organizationId };
+
+      return await withOrganizationContext(context, async () => {
+        const rows = await currentDb()
+          .select()
+          .from(auditLog)
+          .where(
+            and(
+              eq(auditLog.organizationId, organizationId),
+              gte(auditLog.createdAt, startDate),
+              lte(auditLog.createdAt, endDate)
+            )
+          )
+          .orderBy(asc(auditLog.createdAt));
+
+        return rows.map(row => this.mapRowToEntry(row));
+      });
+    });
+  }
+
+  /**
+   * Find all entries of an organization in chain order; unsigned entries come first
+   */
+  async findChronological(organizationId: OrganizationId): Promise<Result<AuditEntry[], DomainError>> {
+    return asyncResult(async () => {
+      const context: OrganizationContext = { organizationId };
+
+      return await withOrganizationContext(context, async () => {
+        const rows = await currentDb()
+          .select()
+          .from(auditLog)
+          .where(eq(auditLog.organizationId, organizationId))
+          .orderBy(sql`${auditLog.sequence} ASC NULLS FIRST`, asc(auditLog.createdAt));
+
+        return rows.map(row => this.mapRowToEntry(row));
+      });
+    });
+  }
+
+  /**
+   * Map database row to audit entry
+   */
+  private mapRowToEntry(row: typeof auditLog.$inferSelect): AuditEntry {
+    return {
+      id: row.id,
+      organizationId: organizationId(row.organizationId),
+      userId: row.userId ? userId(row.userId) : undefined,
+      entityType: row.entityType as AuditEntityType,
+      entityId: row.entityId,
+      action: row.action as AuditAction,
+      oldData: (row.oldData as AuditData | null) ?? undefined,
+      newData: (row.newData as AuditData | null) ?? undefined,
+      requestId: row.requestId ?? undefined,
+      ipAddress: row.ipAddress ?? undefined,
+      userAgent: row.userAgent ?? undefined,
+      apiKeyId: row.apiKeyId ?? undefined,
+      createdAt: row.createdAt,
+      sequence: row.sequence ?? undefined,
+      signaturePrev: row.signaturePrev ?? undefined,
+      signature: row.signature ?? undefined
+    };
+  }
+}
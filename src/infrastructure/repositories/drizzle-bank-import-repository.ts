@@ -0,0 +1,227 @@
+import { and, asc, eq, lte } from 'drizzle-orm';
+import { bankImports, bankImportDetails } from '../../db/schema';
+import { currentDb, withOrganizationContext, OrganizationContext } from '../../db/utils';
+import {
+  OrganizationId,
+  DomainError,
+  organizationId,
+  accountId,
+  userId,
+  bankImportId,
+  bankTransactionId,
+  journalId
+} from '../../domain/shared/types';
+import { Result, asyncResult } from '../../domain/shared/result';
+import {
+  BankImport,
+  BankImportStatus,
+  BankImportMetadata
+} from '../../domain/bank/entities/bank-import';
+import { Money } from '../../domain/journal/value-objects/money';
+import { BankTransaction, BankTransactionStatus } from '../../domain/bank/entities/bank-transaction';
+import { BankImportRepository } from '../../domain/bank/repositories/bank-import-repository';
+
+const INSERT_BATCH_SIZE = 1000;
+
+/**
+ * Drizzle implementation of BankImportRepository
+ */
+export class DrizzleBankImportRepository implements BankImportRepository {
+  /**
+   * Find the import of a file by the hash of its content
+   */
+  async findByFileHash(
+    fileHash: string,
+    organizationId: OrganizationId
+  ): Promise<Result<BankImport | null, DomainError>> {
+    return asyncResult(async () => {
+      const context: OrganizationContext = { organizationId };
+
+      return await withOrganizationContext(context, async () => {
+        const rows = await currentDb()
+          .select()
+          .from(bankImports)
+          .where(
+            and(
+              eq(bankImports.fileHash, fileHash),
+              eq(bankImports.organizationId, organizationId)
+            )
+          )
+          .limit(1);
+
+        return rows.length > 0 ? this.mapRowToBankImport(rows[0]) : null;
+      });
+    });
+  }
+
+  /**
+   * Insert or update an import
+   */
+  async save(bankImport: BankImport): Promise<Result<BankImport, DomainError>> {
+    return asyncResult(async () => {
+      const context: OrganizationContext = { organizationId: bankImport.organizationId };
+
+      return await withOrganizationContext(context, async () => {
+        const bankImportData = {
+          id: bankImport.id,
+          organizationId: bankImport.organizationId,
+          fileName: bankImport.fileName,
+          fileHash: bankImport.fileHash,
+          fileSize: bankImport.fileSize,
+          accountId: bankImport.accountId,
+          importedBy: bankImport.importedBy,
+          recordsTotal: bankImport.recordsTotal,
+          recordsImported: bankImport.recordsImported,
+          recordsSkipped: bankImport.recordsSkipped,
+          status: bankImport.status,
+          errorMessage: bankImport.errorMessage ?? null,
+          metadata: bankImport.metadata,
+          createdAt: bankImport.createdAt,
+          completedAt: bankImport.completedAt ?? null
+        };
+
+        const rows = await currentDb()
+          .insert(bankImports)
+          .values(bankImportData)
+          .onConflictDoUpdate({
+            target: bankImports.id,
+            set: {
+              fileName: bankImportData.fileName,
+              accountId: bankImportData.accountId,
+              importedBy: bankImportData.importedBy,
+              recordsTotal: bankImportData.recordsTotal,
+              recordsImported: bankImportData.recordsImported,
+              recordsSkipped: bankImportData.recordsSkipped,
+              status: bankImportData.status,
+              errorMessage: bankImportData.errorMessage,
+              metadata: bankImportData.metadata,
+              createdAt: bankImportData.createdAt,
+              completedAt: bankImportData.completedAt
+            }
+          })
+          .returning();
+
+        return this.mapRowToBankImport(rows[0]);
+      });
+    });
+  }
+
+  /**
+   * Insert transactions, skipping external UIDs already stored
+   */
+  async saveTransactions(
+    organizationId: OrganizationId,
+    transactions: readonly BankTransaction[]
+  ): Promise<Result<number, DomainError>> {
+    return asyncResult(async () => {
+      const context: OrganizationContext = { organizationId };
+
+      return await withOrganizationContext(context, async () => {
+        return await currentDb().transaction(async (tx) => {
+          let inserted = 0;
+
+          for (let offset = 0; offset < transactions.length; offset += INSERT_BATCH_SIZE) {
+            const rows = await tx
+              .insert(bankImportDetails)
+              .values(transactions.slice(offset, offset + INSERT_BATCH_SIZE).map(transaction => ({
+                id: transaction.id,
+                organizationId: transaction.organizationId,
+                importId: transaction.importId,
+                extUid: transaction.extUid,
+                transactionDate: transaction.transactionDate,
+                amount: transaction.amount.amount,
+                currency: transaction.amount.currency,
+                description: transaction.description,
+                reference: transaction.reference ?? null,
+                counterparty: transaction.counterparty ?? null,
+                journalId: transaction.journalId ?? null,
+                status: transaction.status,
+                createdAt: transaction.createdAt
+              })))
+              .onConflictDoNothing({
+                target: [bankImportDetails.organizationId, bankImportDetails.extUid]
+              })
+              .returning({ id: bankImportDetails.id });
+
+            inserted += rows.length;
+          }
+
+          return inserted;
+        });
+      });
+    });
+  }
+
+  /**
+   * Find the transactions in imported status dated up to and including a date
+   */
+  async findUnreconciledTransactions(
+    organizationId: OrganizationId,
+    endDate: Date
+  ): Promise<Result<BankTransaction[], DomainError>> {
+    return asyncResult(async () => {
+      const context: OrganizationContext = { organizationId };
+
+      return await withOrganizationContext(context, async () => {
+        const rows = await currentDb()
+          .select()
+          .from(bankImportDetails)
+          .where(
+            and(
+              eq(bankImportDetails.organizationId, organizationId),
+              eq(bankImportDetails.status, 'imported'),
+              lte(bankImportDetails.transactionDate, endDate)
+            )
+          )
+          .orderBy(asc(bankImportDetails.transactionDate), asc(bankImportDetails.extUid));
+
+        return rows.map(row => this.mapRowToBankTransaction(row));
+      });
+    });
+  }
+
+  /**
+   * Map database row to BankImport entity
+   */
+  private mapRowToBankImport(row: typeof bankImports.$inferSelect): BankImport {
+    // Rows bypass BankImport.create so that the stored progress is kept
+    return new (BankImport as unknown as new (...args: unknown[]) => BankImport)(
+      bankImportId(row.id),
+      organizationId(row.organizationId),
+      row.fileName,
+      row.fileHash,
+      row.fileSize,
+      accountId(row.accountId),
+      userId(row.importedBy),
+      row.recordsTotal,
+      row.recordsImported,
+      row.recordsSkipped,
+      row.status as BankImportStatus,
+      row.errorMessage ?? undefined,
+      (row.metadata ?? {}) as BankImportMetadata,
+      row.createdAt,
+      row.completedAt ?? undefined
+    );
+  }
+
+  /**
+   * Map database row to BankTransaction entity
+   */
+  private mapRowToBankTransaction(row: typeof bankImportDetails.$inferSelect): BankTransaction {
+    // Rows bypass BankTransaction.create so that the stored status and journal are kept
+    return new (BankTransaction as unknown as new (...args: unknown[]) => BankTransaction)(
+      bankTransactionId(row.id),
+      organizationId(row.organizationId),
+      bankImportId(row.importId),
+      row.extUid,
+      row.transactionDate,
+      Money.create(row.amount, row.currency),
+      row.description,
+      row.reference ?? undefined,
+      row.counterparty ?? undefined,
+      row.journalId ? journalId(row.journalId) : undefined,
+      row.status as BankTransactionStatus,
+      row.createdAt
+    );
+  }
+}
@@ -0,0 +1,476 @@
+import { Decimal } from 'decimal.js';
+import { and, asc, desc, eq, gte, inArray, isNotNull, lte, ne, notExists, sql, SQL } from 'drizzle-orm';
+import { PgColumn } from 'drizzle-orm/pg-core';
+import {
+  bankImports,
+  bankImportDetails,
+  bankMatches,
+  bankMatchItems,
+  journals,
+  journalLines
+} from '../../db/schema';
+import { currentDb, withOrganizationContext, OrganizationContext } from '../../db/utils';
+import {
+  OrganizationId,
+  AccountId,
+  JournalId,
+  JournalStatus,
+  DomainError,
+  domainError,
+  DomainErrorCodes,
+  organizationId,
+  accountId,
+  journalId,
+  userId,
+  bankImportId,
+  bankTransactionId,
+  bankMatchId,
+  journalLineId
+} from '../../domain/shared/types';
+import { Result, asyncResult } from '../../domain/shared/result';
+import { Money } from '../../domain/journal/value-objects/money';
+import { BankTransaction, BankTransactionStatus } from '../../domain/bank/entities/bank-transaction';
+import { BankMatch, BankMatchStatus } from '../../domain/bank/entities/bank-match';
+import { BankImportMetadata } from '../../domain/bank/entities/bank-import';
+import {
+  BankReconciliationRepository,
+  BankTransactionQuery,
+  BookLineQuery,
+  BookLine,
+  StatementBalance
+} from '../../domain/bank/repositories/bank-reconciliation-repository';
+
+// Reversed journals stay in the ledger; their reversal journal offsets them
+const LEDGER_STATUSES = ['posted', 'reversed'];
+
+/**
+ * Drizzle implementation of BankReconciliationRepository
+ */
+export class DrizzleBankReconciliationRepository implements BankReconciliationRepository {
+  /**
+   * Find the transactions of completed imports into a bank account
+   */
+  async findTransactions(
+    organizationId: OrganizationId,
+    query: BankTransactionQuery
+  ): Promise<Result<BankTransaction[], DomainError>> {
+    return asyncResult(async () => {
+      if (query.transactionIds?.length === 0) {
+        return [];
+      }
+
+      const context: OrganizationContext = { organizationId };
+
+      return await withOrganizationContext(context, async () => {
+        const conditions: SQL[] = [
+          eq(bankImportDetails.organizationId, organizationId),
+          eq(bankImports.accountId, query.accountId),
+          eq(bankImports.status, 'completed')
+        ];
+
+        if (query.transactionIds) {
+          conditions.push(inArray(bankImportDetails.id, [...query.transactionIds]));
+        }
+        if (query.statuses) {
+          conditions.push(inArray(bankImportDetails.status, [...query.statuses]));
+        }
+        if (query.unclearedAt) {
+          conditions.push(notExists(
+            this.confirmedMatchItems(bankMatchItems.bankTransactionId, bankImportDetails.id, query.unclearedAt)
+          ));
+        }
+        if (query.startDate) {
+          conditions.push(gte(bankImportDetails.transactionDate, query.startDate));
+        }
+        if (query.endDate) {
+          conditions.push(lte(bankImportDetails.transactionDate, query.endDate));
+        }
+
+        const rows = await currentDb()
+          .select({ transaction: bankImportDetails })
+          .from(bankImportDetails)
+          .innerJoin(bankImports, eq(bankImportDetails.importId, bankImports.id))
+          .where(and(...conditions))
+          .orderBy(asc(bankImportDetails.transactionDate), asc(bankImportDetails.extUid));
+
+        return rows.map(row => this.mapRowToBankTransaction(row.transaction));
+      });
+    });
+  }
+
+  /**
+   * Find the book lines of a bank account with the cleared date of their confirmed match
+   */
+  async findBookLines(
+    organizationId: OrganizationId,
+    query: BookLineQuery
+  ): Promise<Result<BookLine[], DomainError>> {
+    return asyncResult(async () => {
+      if (query.journalLineIds?.length === 0) {
+        return [];
+      }
+
+      const context: OrganizationContext = { organizationId };
+
+      return await withOrganizationContext(context, async () => {
+        const conditions = this.buildBookConditions(organizationId, query.accountId, query.currency);
+
+        if (query.journalLineIds) {
+          conditions.push(inArray(journalLines.id, [...query.journalLineIds]));
+        }
+        if (query.unmatchedOnly) {
+          conditions.push(notExists(this.confirmedMatchItems(bankMatchItems.journalLineId, journalLines.id)));
+        }
+        if (query.unclearedAt) {
+          conditions.push(notExists(
+            this.confirmedMatchItems(bankMatchItems.journalLineId, journalLines.id, query.unclearedAt)
+          ));
+        }
+        if (query.startDate) {
+          conditions.push(gte(journals.postingDate, query.startDate));
+        }
+        if (query.endDate) {
+          conditions.push(lte(journals.postingDate, query.endDate));
+        }
+
+        const rows = await currentDb()
+          .select({
+            id: journalLines.id,
+            journalId: journals.id,
+            originalJournalId: journals.originalJournalId,
+            journalNumber: journals.journalNumber,
+            journalStatus: journals.status,
+            journalDescription: journals.description,
+            postingDate: journals.postingDate,
+            lineNumber: journalLines.lineNumber,
+            description: journalLines.description,
+            reference: journals.reference,
+            debit: journalLines.originalDebitAmount,
+            credit: journalLines.originalCreditAmount,
+            clearedDate: sql<Date | null>`(
+              select max(${bankMatches.clearedDate})
+              from ${bankMatchItems}
+              inner join ${bankMatches} on ${bankMatches.id} = ${bankMatchItems.matchId}
+              where ${bankMatchItems.journalLineId} = ${journalLines.id}
+                and ${bankMatches.status} = 'confirmed'
+            )`.mapWith(bankMatches.clearedDate)
+          })
+          .from(journalLines)
+          .innerJoin(journals, eq(journalLines.journalId, journals.id))
+          .where(and(...conditions))
+          .orderBy(asc(journals.postingDate), asc(journals.journalNumber), asc(journalLines.lineNumber));
+
+        return rows.map(row => ({
+          id: journalLineId(row.id),
+          journalId: journalId(row.journalId),
+          originalJournalId: row.originalJournalId ? journalId(row.originalJournalId) : undefined,
+          journalNumber: row.journalNumber,
+          journalStatus: row.journalStatus as JournalStatus,
+          postingDate: row.postingDate,
+          lineNumber: row.lineNumber,
+          description: row.description === row.journalDescription
+            ? row.description
+            : `${row.journalDescription} - ${row.description}`,
+          reference: row.reference ?? undefined,
+          amount: Money.create(
+            new Decimal(row.debit ?? 0).minus(row.credit ?? 0).toFixed(),
+            query.currency
+          ),
+          clearedDate: row.clearedDate ?? undefined
+        }));
+      });
+    });
+  }
+
+  /**
+   * Sum the book lines of a bank account up to and including a date
+   */
+  async sumBookBalance(
+    organizationId: OrganizationId,
+    accountId: AccountId,
+    currency: string,
+    cutoffDate: Date
+  ): Promise<Result<Money, DomainError>> {
+    return asyncResult(async () => {
+      const context: OrganizationContext = { organizationId };
+
+      return await withOrganizationContext(context, async () => {
+        const conditions = [
+          ...this.buildBookConditions(organizationId, accountId, currency),
+          lte(journals.postingDate, cutoffDate)
+        ];
+
+        const rows = await currentDb()
+          .select({
+            balance: sql<string>`coalesce(sum(
+              coalesce(${journalLines.originalDebitAmount}, 0) - coalesce(${journalLines.originalCreditAmount}, 0)
+            ), 0)`
+          })
+          .from(journalLines)
+          .innerJoin(journals, eq(journalLines.journalId, journals.id))
+          .where(and(...conditions));
+
+        return Money.create(rows[0]?.balance ?? '0', currency);
+      });
+    });
+  }
+
+  /**
+   * Find the latest closing balance of the completed statement imports into a bank account on or before a date
+   */
+  async findStatementBalance(
+    organizationId: OrganizationId,
+    accountId: AccountId,
+    currency: string,
+    cutoffDate: Date
+  ): Promise<Result<StatementBalance | null, DomainError>> {
+    return asyncResult(async () => {
+      const context: OrganizationContext = { organizationId };
+
+      return await withOrganizationContext(context, async () => {
+        const closingDate = sql<string>`${bankImports.metadata}->>'closingDate'`;
+
+        const rows = await currentDb()
+          .select({ metadata: bankImports.metadata })
+          .from(bankImports)
+          .where(
+            and(
+              eq(bankImports.organizationId, organizationId),
+              eq(bankImports.accountId, accountId),
+              eq(bankImports.status, 'completed'),
+              isNotNull(sql`${bankImports.metadata}->>'closingBalance'`),
+              lte(closingDate, cutoffDate.toISOString().slice(0, 10))
+            )
+          )
+          .orderBy(desc(closingDate), desc(bankImports.createdAt))
+          .limit(1);
+
+        if (rows.length === 0) {
+          return null;
+        }
+
+        const metadata = rows[0].metadata as BankImportMetadata;
+        return {
+          amount: Money.create(metadata.closingBalance as string, currency),
+          date: new Date(`${metadata.closingDate}T00:00:00.000Z`)
+        };
+      });
+    });
+  }
+
+  /**
+   * Find the matches of a bank account with a status
+   */
+  async findMatches(
+    organizationId: OrganizationId,
+    accountId: AccountId,
+    status: BankMatchStatus
+  ): Promise<Result<BankMatch[], DomainError>> {
+    return asyncResult(async () => {
+      const context: OrganizationContext = { organizationId };
+
+      return await withOrganizationContext(context, async () => {
+        const matchRows = await currentDb()
+          .select()
+          .from(bankMatches)
+          .where(
+            and(
+              eq(bankMatches.organizationId, organizationId),
+              eq(bankMatches.accountId, accountId),
+              eq(bankMatches.status, status)
+            )
+          )
+          .orderBy(asc(bankMatches.createdAt));
+
+        if (matchRows.length === 0) {
+          return [];
+        }
+
+        const itemRows = await currentDb()
+          .select()
+          .from(bankMatchItems)
+          .where(
+            and(
+              eq(bankMatchItems.organizationId, organizationId),
+              inArray(bankMatchItems.matchId, matchRows.map(row => row.id))
+            )
+          );
+
+        return matchRows.map(row => this.mapRowToBankMatch(
+          row,
+          itemRows.filter(item => item.matchId === row.id)
+        ));
+      });
+    });
+  }
+
+  /**
+   * Insert a match with its items, journalizing the transactions of a confirmed match
+   * A transaction scoped advisory lock serializes confirmations per bank account, so that the journal lines can be
+   * checked against the confirmed matches committed in the meantime
+   */
+  async saveMatch(match: BankMatch, journalId: JournalId): Promise<Result<BankMatch, DomainError>> {
+    return asyncResult(async () => {
+      const context: OrganizationContext = { organizationId: match.organizationId };
+
+      return await withOrganizationContext(context, async () => {
+        return await currentDb().transaction(async (tx) => {
+          if (match.isConfirmed()) {
+            await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${'bank_match:' + match.accountId}))`);
+
+            const clearedRows = await tx
+              .select({ journalLineId: bankMatchItems.journalLineId })
+              .from(bankMatchItems)
+              .innerJoin(bankMatches, eq(bankMatches.id, bankMatchItems.matchId))
+              .where(
+                and(
+                  eq(bankMatchItems.organizationId, match.organizationId),
+                  eq(bankMatches.status, 'confirmed'),
+                  inArray(bankMatchItems.journalLineId, [...match.journalLineIds])
+                )
+              );
+
+            if (clearedRows.length > 0) {
+              throw domainError(
+                DomainErrorCodes.BUSINESS_RULE_VIOLATION,
+                'Journal lines have been matched in the meantime',
+                { matchId: match.id, journalLineIds: clearedRows.map(row => row.journalLineId) }
+              );
+            }
+          }
+
+          const [matchRow] = await tx
+            .insert(bankMatches)
+            .values({
+              id: match.id,
+              organizationId: match.organizationId,
+              accountId: match.accountId,
+              status: match.status,
+              amount: match.amount.amount,
+              currency: match.amount.currency,
+              clearedDate: match.clearedDate,
+              createdBy: match.createdBy,
+              createdAt: match.createdAt
+            })
+            .returning();
+
+          const itemRows = await tx
+            .insert(bankMatchItems)
+            .values([
+              ...match.transactionIds.map(id => ({
+                organizationId: match.organizationId,
+                matchId: match.id,
+                bankTransactionId: id
+              })),
+              ...match.journalLineIds.map(id => ({
+                organizationId: match.organizationId,
+                matchId: match.id,
+                journalLineId: id
+              }))
+            ])
+            .returning();
+
+          if (match.isConfirmed()) {
+            const updated = await tx
+              .update(bankImportDetails)
+              .set({ status: 'journalized', journalId })
+              .where(
+                and(
+                  eq(bankImportDetails.organizationId, match.organizationId),
+                  inArray(bankImportDetails.id, [...match.transactionIds]),
+                  eq(bankImportDetails.status, 'imported')
+                )
+              )
+              .returning({ id: bankImportDetails.id });
+
+            if (updated.length !== match.transactionIds.length) {
+              throw domainError(
+                DomainErrorCodes.BUSINESS_RULE_VIOLATION,
+                'Bank transactions have been matched or ignored in the meantime',
+                { matchId: match.id }
+              );
+            }
+          }
+
+          return this.mapRowToBankMatch(matchRow, itemRows);
+        });
+      });
+    });
+  }
+
+  /**
+   * Build the filter of book lines: own organization, ledger statuses, no opening journals, bank account and
+   * lines in its currency
+   */
+  private buildBookConditions(organizationId: OrganizationId, accountId: AccountId, currency: string): SQL[] {
+    return [
+      eq(journalLines.organizationId, organizationId),
+      eq(journals.organizationId, organizationId),
+      inArray(journals.status, LEDGER_STATUSES),
+      ne(journals.kind, 'opening'),
+      eq(journalLines.accountId, accountId),
+      eq(journalLines.originalCurrency, currency)
+    ];
+  }
+
+  /**
+   * Items of confirmed matches referencing a row, optionally only matches cleared on or before a date
+   */
+  private confirmedMatchItems(itemColumn: PgColumn, rowColumn: PgColumn, clearedBy?: Date) {
+    const conditions: SQL[] = [
+      eq(itemColumn, rowColumn),
+      eq(bankMatches.status, 'confirmed')
+    ];
+    if (clearedBy) {
+      conditions.push(lte(bankMatches.clearedDate, clearedBy));
+    }
+
+    return currentDb()
+      .select({ id: bankMatchItems.id })
+      .from(bankMatchItems)
+      .innerJoin(bankMatches, eq(bankMatchItems.matchId, bankMatches.id))
+      .where(and(...conditions));
+  }
+
+  /**
+   * Map database row to BankTransaction entity
+   */
+  private mapRowToBankTransaction(row: typeof bankImportDetails.$inferSelect): BankTransaction {
+    // Rows bypass BankTransaction.create so that the stored status and journal are kept
+    return new (BankTransaction as unknown as new (...args: unknown[]) => BankTransaction)(
+      bankTransactionId(row.id),
+      organizationId(row.organizationId),
+      bankImportId(row.importId),
+      row.extUid,
+      row.transactionDate,
+      Money.create(row.amount, row.currency),
+      row.description,
+      row.reference ?? undefined,
+      row.counterparty ?? undefined,
+      row.journalId ? journalId(row.journalId) : undefined,
+      row.status as BankTransactionStatus,
+      row.createdAt
+    );
+  }
+
+  /**
+   * Map database rows to BankMatch entity
+   */
+  private mapRowToBankMatch(
+    row: typeof bankMatches.$inferSelect,
+    itemRows: (typeof bankMatchItems.$inferSelect)[]
+  ): BankMatch {
+    return new (BankMatch as unknown as new (...args: unknown[]) => BankMatch)(
+      bankMatchId(row.id),
+      organizationId(row.organizationId),
+      accountId(row.accountId),
+      row.status as BankMatchStatus,
+      itemRows.flatMap(item => item.bankTransactionId ? [bankTransactionId(item.bankTransactionId)] : []),
+      itemRows.flatMap(item => item.journalLineId ? [journalLineId(item.journalLineId)] : []),
+      Money.create(row.amount, row.currency),
+      row.clearedDate,
+      userId(row.createdBy),
+      row.createdAt
+    );
+  }
+}
@@ -0,0 +1,113 @@
+import { and, desc, eq, lte } from 'drizzle-orm';
+import { exchangeRates } from '../../db/schema';
+import { currentDb, withOrganizationContext, OrganizationContext } from '../../db/utils';
+import {
+  OrganizationId,
+  Currency,
+  DomainError,
+  organizationId,
+  exchangeRateId,
+  currency
+} from '../../domain/shared/types';
+import { Result, asyncResult } from '../../domain/shared/result';
+import { ExchangeRate } from '../../domain/exchange-rate/entities/exchange-rate';
+import { ExchangeRateRepository } from '../../domain/exchange-rate/repositories/exchange-rate-repository';
+
+// Keeps each insert well below the PostgreSQL bind parameter limit
+const INSERT_BATCH_SIZE = 1000;
+
+/**
+ * Drizzle implementation of ExchangeRateRepository
+ */
+export class DrizzleExchangeRateRepository implements ExchangeRateRepository {
+  /**
+   * Find the most recent rate of a currency pair effective on or before a date
+   */
+  async findLatestRate(
+    fromCurrency: Currency,
+    toCurrency: Currency,
+    onOrBefore: Date,
+    organizationId: OrganizationId
+  ): Promise<Result<ExchangeRate | null, DomainError>> {
+    return asyncResult(async () => {
+      const context: OrganizationContext = { organizationId };
+
+      return await withOrganizationContext(context, async () => {
+        const rows = await currentDb()
+          .select()
+          .from(exchangeRates)
+          .where(
+            and(
+              eq(exchangeRates.organizationId, organizationId),
+              eq(exchangeRates.fromCurrency, fromCurrency),
+              eq(exchangeRates.toCurrency, toCurrency),
+              lte(exchangeRates.effectiveDate, onOrBefore)
+            )
+          )
+          .orderBy(desc(exchangeRates.effectiveDate))
+          .limit(1);
+
+        return rows.length > 0 ? this.mapRowToExchangeRate(rows[0]) : null;
+      });
+    });
+  }
+
+  /**
+   * Insert rates, keeping any rate already stored for the same pair and date
+   */
+  async saveMany(organizationId: OrganizationId, rates: readonly ExchangeRate[]): Promise<Result<number, DomainError>> {
+    return asyncResult(async () => {
+      const context: OrganizationContext = { organizationId };
+
+      return await withOrganizationContext(context, async () => {
+        return await currentDb().transaction(async (tx) => {
+          let inserted = 0;
+
+          for (let offset = 0; offset < rates.length; offset += INSERT_BATCH_SIZE) {
+            const rows = await tx
+              .insert(exchangeRates)
+              .values(rates.slice(offset, offset + INSERT_BATCH_SIZE).map(rate => ({
+                id: rate.id,
+                organizationId: rate.organizationId,
+                fromCurrency: rate.fromCurrency,
+                toCurrency: rate.toCurrency,
+                rate: rate.rate,
+                effectiveDate: rate.effectiveDate,
+                source: rate.source,
+                createdAt: rate.createdAt
+              })))
+              .onConflictDoNothing({
+                target: [
+                  exchangeRates.organizationId,
+                  exchangeRates.fromCurrency,
+                  exchangeRates.toCurrency,
+                  exchangeRates.effectiveDate
+                ]
+              })
+              .returning({ id: exchangeRates.id });
+
+            inserted += rows.length;
+          }
+
+          return inserted;
+        });
+      });
+    });
+  }
+
+  /**
+   * Map database row to ExchangeRate entity
+   */
+  private mapRowToExchangeRate(row: typeof exchangeRates.$inferSelect): ExchangeRate {
+    return new (ExchangeRate as unknown as new (...args: unknown[]) => ExchangeRate)(
+      exchangeRateId(row.id),
+      organizationId(row.organizationId),
+      currency(row.fromCurrency),
+      currency(row.toCurrency),
+      row.rate,
+      row.effectiveDate,
+      row.source,
+      row.createdAt
+    );
+  }
+}
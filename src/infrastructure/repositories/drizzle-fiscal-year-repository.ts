@@ -0,0 +1,199 @@
+import { and, asc, eq, gte, lte } from 'drizzle-orm';
+import { fiscalYears, periods } from '../../db/schema';
+import { currentDb, withOrganizationContext, OrganizationContext } from '../../db/utils';
+import {
+  OrganizationId,
+  FiscalYearId,
+  FiscalYearStatus,
+  PeriodFrequency,
+  DomainError,
+  organizationId,
+  fiscalYearId
+} from '../../domain/shared/types';
+import { Result, asyncResult } from '../../domain/shared/result';
+import { FiscalYear } from '../../domain/period/entities/fiscal-year';
+import { Period } from '../../domain/period/entities/period';
+import { FiscalYearRepository } from '../../domain/period/repositories/fiscal-year-repository';
+
+/**
+ * Drizzle implementation of FiscalYearRepository
+ */
+export class DrizzleFiscalYearRepository implements FiscalYearRepository {
+  /**
+   * Find fiscal year by ID
+   */
+  async findById(
+    fiscalYearId: FiscalYearId,
+    organizationId: OrganizationId
+  ): Promise<Result<FiscalYear | null, DomainError>> {
+    return asyncResult(async () => {
+      const context: OrganizationContext = { organizationId };
+
+      return await withOrganizationContext(context, async () => {
+        const rows = await currentDb()
+          .select()
+          .from(fiscalYears)
+          .where(
+            and(
+              eq(fiscalYears.id, fiscalYearId),
+              eq(fiscalYears.organizationId, organizationId)
+            )
+          )
+          .limit(1);
+
+        return rows.length > 0 ? this.mapRowToFiscalYear(rows[0]) : null;
+      });
+    });
+  }
+
+  /**
+   * Find all fiscal years of an organization ordered by start date
+   */
+  async findByOrganization(organizationId: OrganizationId): Promise<Result<FiscalYear[], DomainError>> {
+    return asyncResult(async () => {
+      const context: OrganizationContext = { organizationId };
+
+      return await withOrganizationContext(context, async () => {
+        const rows = await currentDb()
+          .select()
+          .from(fiscalYears)
+          .where(eq(fiscalYears.organizationId, organizationId))
+          .orderBy(asc(fiscalYears.startDate));
+
+        return rows.map(row => this.mapRowToFiscalYear(row));
+      });
+    });
+  }
+
+  /**
+   * Find fiscal years overlapping a date range (both bounds inclusive)
+   */
+  async findOverlapping(
+    startDate: Date,
+    endDate: Date,
+    organizationId: OrganizationId
+  ): Promise<Result<FiscalYear[], DomainError>> {
+    return asyncResult(async () => {
+      const context: OrganizationContext = { organizationId };
+
+      return await withOrganizationContext(context, async () => {
+        const rows = await currentDb()
+          .select()
+          .from(fiscalYears)
+          .where(
+            and(
+              eq(fiscalYears.organizationId, organizationId),
+              lte(fiscalYears.startDate, endDate),
+              gte(fiscalYears.endDate, startDate)
+            )
+          )
+          .orderBy(asc(fiscalYears.startDate));
+
+        return rows.map(row => this.mapRowToFiscalYear(row));
+      });
+    });
+  }
+
+  /**
+   * Insert a new fiscal year together with its periods in one transaction
+   */
+  async createWithPeriods(
+    fiscalYear: FiscalYear,
+    yearPeriods: readonly Period[]
+  ): Promise<Result<FiscalYear, DomainError>> {
+    return asyncResult(async () => {
+      const context: OrganizationContext = { organizationId: fiscalYear.organizationId };
+
+      return await withOrganizationContext(context, async () => {
+        return await currentDb().transaction(async (tx) => {
+          const rows = await tx
+            .insert(fiscalYears)
+            .values(this.toRow(fiscalYear))
+            .returning();
+
+          if (yearPeriods.length > 0) {
+            await tx.insert(periods).values(yearPeriods.map(period => ({
+              id: period.id,
+              organizationId: period.organizationId,
+              name: period.name,
+              startDate: period.startDate,
+              endDate: period.endDate,
+              status: period.status,
+              fiscalYearId: period.fiscalYearId,
+              isAdjustment: period.isAdjustment,
+              createdAt: period.createdAt,
+              updatedAt: period.updatedAt
+            })));
+          }
+
+          return this.mapRowToFiscalYear(rows[0]);
+        });
+      });
+    });
+  }
+
+  /**
+   * Save fiscal year (insert or update)
+   */
+  async save(fiscalYear: FiscalYear): Promise<Result<FiscalYear, DomainError>> {
+    return asyncResult(async () => {
+      const context: OrganizationContext = { organizationId: fiscalYear.organizationId };
+
+      return await withOrganizationContext(context, async () => {
+        const fiscalYearData = this.toRow(fiscalYear);
+
+        const rows = await currentDb()
+          .insert(fiscalYears)
+          .values(fiscalYearData)
+          .onConflictDoUpdate({
+            target: fiscalYears.id,
+            set: {
+              name: fiscalYearData.name,
+              status: fiscalYearData.status,
+              updatedAt: fiscalYearData.updatedAt
+            }
+          })
+          .returning();
+
+        return this.mapRowToFiscalYear(rows[0]);
+      });
+    });
+  }
+
+  /**
+   * Map FiscalYear entity to database row
+   */
+  private toRow(fiscalYear: FiscalYear): typeof fiscalYears.$inferInsert {
+    return {
+      id: fiscalYear.id,
+      organizationId: fiscalYear.organizationId,
+      name: fiscalYear.name,
+      startDate: fiscalYear.startDate,
+      endDate: fiscalYear.endDate,
+      frequency: fiscalYear.frequency,
+      hasAdjustmentPeriod: fiscalYear.hasAdjustmentPeriod,
+      status: fiscalYear.status,
+      createdAt: fiscalYear.createdAt,
+      updatedAt: fiscalYear.updatedAt
+    };
+  }
+
+  /**
+   * Map database row to FiscalYear entity
+   */
+  private mapRowToFiscalYear(row: typeof fiscalYears.$inferSelect): FiscalYear {
+    // Rows bypass FiscalYear.create so that stored state (e.g. closed) is kept
+    return new (FiscalYear as unknown as new (...args: unknown[]) => FiscalYear)(
+      fiscalYearId(row.id),
+      organizationId(row.organizationId),
+      row.name,
+      row.startDate,
+      row.endDate,
+      row.frequency as PeriodFrequency,
+      row.hasAdjustmentPeriod,
+      row.status as FiscalYearStatus,
+      row.createdAt,
+      row.updatedAt
+    );
+  }
+}
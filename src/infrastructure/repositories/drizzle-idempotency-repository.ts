@@ -0,0 +1,184 @@
+import { and, eq, lt } from 'drizzle-orm';
+import { idempotencyKeys } from '../../db/schema';
+import { currentDb, withOrganizationContext, OrganizationContext } from '../../db/utils';
+import { OrganizationId, DomainError } from '../../domain/shared/types';
+import { Result, asyncResult } from '../../domain/shared/result';
+
+/**
+ * Stored idempotency key with the response of its first request
+ */
+export interface IdempotencyRecord {
+  readonly key: string;
+  readonly requestHash: string;
+  readonly response?: StoredResponse; // Unset while the first request is in flight
+  readonly createdAt: Date;
+  readonly expiresAt: Date; // End of the reservation lease until completed, then end of the retention period
+}
+
+export interface StoredResponse {
+  readonly status: number;
+  readonly body: unknown;
+  readonly headers?: Readonly<Record<string, string>>; // Replayed response headers, e.g. Allow or Location
+}
+
+/**
+ * Repository for idempotency keys of mutating API requests
+ */
+export interface IdempotencyRepository {
+  /**
+   * Reserve a key for a request until the lease expires; reclaims the key when its previous reservation expired.
+   * Returns null when the key is already held by a live reservation.
+   */
+  reserve(
+    organizationId: OrganizationId,
+    key: string,
+    requestHash: string,
+    leaseExpiresAt: Date
+  ): Promise<Result<IdempotencyRecord | null, DomainError>>;
+
+  /**
+   * Find a key that has not expired yet
+   */
+  findActive(organizationId: OrganizationId, key: string): Promise<Result<IdempotencyRecord | null, DomainError>>;
+
+  /**
+   * Store the response of the request holding a key and keep it until the key expires
+   */
+  complete(
+    organizationId: OrganizationId,
+    key: string,
+    response: StoredResponse,
+    expiresAt: Date
+  ): Promise<Result<void, DomainError>>;
+
+  /**
+   * Release a key so that the request can be retried
+   */
+  release(organizationId: OrganizationId, key: string): Promise<Result<void, DomainError>>;
+}
+
+/**
+ * Drizzle implementation of IdempotencyRepository
+ */
+export class DrizzleIdempotencyRepository implements IdempotencyRepository {
+  async reserve(
+    organizationId: OrganizationId,
+    key: string,
+    requestHash: string,
+    leaseExpiresAt: Date
+  ): Promise<Result<IdempotencyRecord | null, DomainError>> {
+    return asyncResult(async () => {
+      const context: OrganizationContext = { organizationId };
+
+      return await withOrganizationContext(context, async () => {
+        const inserted = await currentDb()
+          .insert(idempotencyKeys)
+          .values({ organizationId, key, requestHash, expiresAt: leaseExpiresAt })
+          .onConflictDoNothing()
+          .returning();
+
+        if (inserted.length > 0) {
+          return this.mapRowToRecord(inserted[0]);
+        }
+
+        // The unique (organization_id, key) constraint keeps expired rows around until cleanup
+        const reclaimed = await currentDb()
+          .update(idempotencyKeys)
+          .set({ requestHash, responseData: null, createdAt: new Date(), expiresAt: leaseExpiresAt })
+          .where(
+            and(
+              eq(idempotencyKeys.organizationId, organizationId),
+              eq(idempotencyKeys.key, key),
+              lt(idempotencyKeys.expiresAt, new Date())
+            )
+          )
+          .returning();
+
+        return reclaimed.length > 0 ? this.mapRowToRecord(reclaimed[0]) : null;
+      });
+    });
+  }
+
+  async findActive(
+    organizationId: OrganizationId,
+    key: string
+  ): Promise<Result<IdempotencyRecord | null, DomainError>> {
+    return asyncResult(async () => {
+      const context: OrganizationContext = { organizationId };
+
+      return await withOrganizationContext(context, async () => {
+        const rows = await currentDb()
+          .select()
+          .from(idempotencyKeys)
+          .where(
+            and(
+              eq(idempotencyKeys.organizationId, organizationId),
+              eq(idempotencyKeys.key, key)
+            )
+          )
+          .limit(1);
+
+        if (rows.length === 0 || rows[0].expiresAt < new Date()) {
+          return null;
+        }
+
+        return this.mapRowToRecord(rows[0]);
+      });
+    });
+  }
+
+  async complete(
+    organizationId: OrganizationId,
+    key: string,
+    response: StoredResponse,
+    expiresAt: Date
+  ): Promise<Result<void, DomainError>> {
+    return asyncResult(async () => {
+      const context: OrganizationContext = { organizationId };
+
+      await withOrganizationContext(context, async () => {
+        await currentDb()
+          .update(idempotencyKeys)
+          .set({ responseData: response, expiresAt })
+          .where(
+            and(
+              eq(idempotencyKeys.organizationId, organizationId),
+              eq(idempotencyKeys.key, key)
+            )
+          );
+      });
+    });
+  }
+
+  async release(organizationId: OrganizationId, key: string): Promise<Result<void, DomainError>> {
+    return asyncResult(async () => {
+      const context: OrganizationContext = { organizationId };
+
+      // Expiring the reservation lets the next attempt reclaim the key
+      await withOrganizationContext(context, async () => {
+        await currentDb()
+          .update(idempotencyKeys)
+          .set({ expiresAt: new Date(0) })
+          .where(
+            and(
+              eq(idempotencyKeys.organizationId, organizationId),
+              eq(idempotencyKeys.key, key)
+            )
+          );
+      });
+    });
+  }
+
+  /**
+   * Map database row to idempotency record
+   */
+  private mapRowToRecord(row: typeof idempotencyKeys.$inferSelect): IdempotencyRecord {
+    return {
+      key: row.key,
+      requestHash: row.requestHash,
+      response: (row.responseData as StoredResponse | null) ?? undefined,
+      createdAt: row.createdAt,
+      expiresAt: row.expiresAt
+    };
+  }
+}
@@ -1,7 +1,7 @@
+import { Decimal } from 'decimal.js';
 import { and, eq, desc, asc, like, gte, lte, or, inArray, sql } from 'drizzle-orm';
-import { db } from '../../db/connection';
 import { journals, journalLines } from '../../db/schema';
-import { withOrganizationContext, OrganizationContext } from '../../db/utils';
+import { currentDb, withOrganizationContext, OrganizationContext } from '../../db/utils';
 import { 
   OrganizationId, 
   JournalId, 
@@ -9,13 +9,16 @@ import {
   AccountId,
   UserId,
   JournalStatus,
+  JournalKind,
   Currency,
   organizationId, 
   journalId,
   periodId,
   accountId,
   userId,
-  currency
+  currency,
+  domainError,
+  DomainErrorCodes
 } from '../../domain/shared/types';
 import { Result, success, failure, asyncResult } from '../../domain/shared/result';
 import { Journal, CreateJournalProps } from '../../domain/journal/entities/journal';
@@ -40,7 +43,7 @@ export class DrizzleJournalRepository implements JournalRepository {
       
       return await withOrganizationContext(context, async () => {
         // Get journal
-        const journalRows = await db
+        const journalRows = await currentDb()
           .select()
           .from(journals)
           .where(
@@ -56,7 +59,7 @@ export class DrizzleJournalRepository implements JournalRepository {
         }
 
         // Get journal lines
-        const lineRows = await db
+        const lineRows = await currentDb()
           .select()
           .from(journalLines)
           .where(
@@ -83,7 +86,7 @@ export class DrizzleJournalRepository implements JournalRepository {
       const context: OrganizationContext = { organizationId };
       
       return await withOrganizationContext(context, async () => {
-        const journalRows = await db
+        const journalRows = await currentDb()
           .select()
           .from(journals)
           .where(
@@ -98,7 +101,7 @@ export class DrizzleJournalRepository implements JournalRepository {
           return null;
         }
 
-        const lineRows = await db
+        const lineRows = await currentDb()
           .select()
           .from(journalLines)
           .where(
@@ -125,7 +128,7 @@ export class DrizzleJournalRepository implements JournalRepository {
       const context: OrganizationContext = { organizationId };
       
       return await withOrganizationContext(context, async () => {
-        const journalRows = await db
+        const journalRows = await currentDb()
           .select()
           .from(journals)
           .where(
@@ -140,7 +143,7 @@ export class DrizzleJournalRepository implements JournalRepository {
           return null;
         }
 
-        const lineRows = await db
+        const lineRows = await currentDb()
           .select()
           .from(journalLines)
           .where(
@@ -167,7 +170,7 @@ export class DrizzleJournalRepository implements JournalRepository {
       const context: OrganizationContext = { organizationId };
       
       return await withOrganizationContext(context, async () => {
-        const journalRows = await db
+        const journalRows = await currentDb()
           .select()
           .from(journals)
           .where(
@@ -180,7 +183,7 @@ export class DrizzleJournalRepository implements JournalRepository {
 
         // Get all journal lines for these journals
         const journalIds = journalRows.map(j => j.id);
-        const lineRows = journalIds.length > 0 ? await db
+        const lineRows = journalIds.length > 0 ? await currentDb()
           .select()
           .from(journalLines)
           .where(
@@ -218,7 +221,7 @@ export class DrizzleJournalRepository implements JournalRepository {
       const context: OrganizationContext = { organizationId };
       
       return await withOrganizationContext(context, async () => {
-        let query = db
+        let query = currentDb()
           .select()
           .from(journals)
           .where(
@@ -237,7 +240,7 @@ export class DrizzleJournalRepository implements JournalRepository {
 
         // Get lines for these journals
         const journalIds = journalRows.map(j => j.id);
-        const lineRows = journalIds.length > 0 ? await db
+        const lineRows = journalIds.length > 0 ? await currentDb()
           .select()
           .from(journalLines)
           .where(
@@ -271,7 +274,7 @@ export class DrizzleJournalRepository implements JournalRepository {
       const context: OrganizationContext = { organizationId };
       
       return await withOrganizationContext(context, async () => {
-        const journalRows = await db
+        const journalRows = await currentDb()
           .select()
           .from(journals)
           .where(
@@ -287,7 +290,7 @@ export class DrizzleJournalRepository implements JournalRepository {
           return null;
         }
 
-        const lineRows = await db
+        const lineRows = await currentDb()
           .select()
           .from(journalLines)
           .where(
@@ -314,7 +317,7 @@ export class DrizzleJournalRepository implements JournalRepository {
       const context: OrganizationContext = { organizationId };
       
       return await withOrganizationContext(context, async () => {
-        const journalRows = await db
+        const journalRows = await currentDb()
           .select()
           .from(journals)
           .where(
@@ -327,7 +330,7 @@ export class DrizzleJournalRepository implements JournalRepository {
           .orderBy(desc(journals.createdAt));
 
         const journalIds = journalRows.map(j => j.id);
-        const lineRows = journalIds.length > 0 ? await db
+        const lineRows = journalIds.length > 0 ? await currentDb()
           .select()
           .from(journalLines)
           .where(
@@ -365,7 +368,7 @@ export class DrizzleJournalRepository implements JournalRepository {
       const context: OrganizationContext = { organizationId };
       
       return await withOrganizationContext(context, async () => {
-        const journalRows = await db
+        const journalRows = await currentDb()
           .select()
           .from(journals)
           .where(
@@ -378,7 +381,7 @@ export class DrizzleJournalRepository implements JournalRepository {
           .orderBy(desc(journals.postingDate), desc(journals.journalNumber));
 
         const journalIds = journalRows.map(j => j.id);
-        const lineRows = journalIds.length > 0 ? await db
+        const lineRows = journalIds.length > 0 ? await currentDb()
           .select()
           .from(journalLines)
           .where(
@@ -415,7 +418,7 @@ export class DrizzleJournalRepository implements JournalRepository {
       const context: OrganizationContext = { organizationId };
       
       return await withOrganizationContext(context, async () => {
-        const result = await db
+        const result = await currentDb()
           .select({ count: sql<number>`count(*)` })
           .from(journals)
           .where(
@@ -441,7 +444,7 @@ export class DrizzleJournalRepository implements JournalRepository {
       const context: OrganizationContext = { organizationId };
       
       return await withOrganizationContext(context, async () => {
-        const result = await db
+        const result = await currentDb()
           .select({ count: sql<number>`count(*)` })
           .from(journals)
           .where(
@@ -467,7 +470,7 @@ export class DrizzleJournalRepository implements JournalRepository {
       const context: OrganizationContext = { organizationId };
       
       return await withOrganizationContext(context, async () => {
-        const result = await db
+        const result = await currentDb()
           .select({ count: sql<number>`count(*)` })
           .from(journals)
           .where(
@@ -492,7 +495,7 @@ export class DrizzleJournalRepository implements JournalRepository {
       
       return await withOrganizationContext(context, async () => {
         // Use transaction to ensure consistency
-        return await db.transaction(async (tx) => {
+        return await currentDb().transaction(async (tx) => {
           // Prepare journal data
           const journalData = {
             id: journal.id,
@@ -503,6 +506,7 @@ export class DrizzleJournalRepository implements JournalRepository {
             reference: journal.reference,
             postingDate: journal.postingDate,
             status: journal.status,
+            kind: journal.kind,
             totalDebit: journal.getTotalDebit().amount,
             totalCredit: journal.getTotalCredit().amount,
             currency: journal.currency,
@@ -518,6 +522,44 @@ export class DrizzleJournalRepository implements JournalRepository {
             updatedAt: journal.updatedAt
           };
 
+          // Lines of posted and reversed journals are never replaced; their exchange rates and
+          // original amounts must match the stored lines (also enforced by a database trigger)
+          const storedRows = await tx
+            .select({ status: journals.status })
+            .from(journals)
+            .where(
+              and(
+                eq(journals.id, journal.id),
+                eq(journals.organizationId, journal.organizationId)
+              )
+            )
+            .for('update');
+          const storedStatus = storedRows[0]?.status;
+          const linesLocked = storedStatus !== undefined && storedStatus !== 'draft';
+
+          if (linesLocked) {
+            const storedLineRows = await tx
+              .select()
+              .from(journalLines)
+              .where(
+                and(
+                  eq(journalLines.journalId, journal.id),
+                  eq(journalLines.organizationId, journal.organizationId)
+                )
+              );
+            this.assertExchangeRatesUnchanged(journal, storedLineRows);
+          } else if (storedStatus !== undefined) {
+            // Delete existing draft lines while the journal is still a draft
+            await tx
+              .delete(journalLines)
+              .where(
+                and(
+                  eq(journalLines.journalId, journal.id),
+                  eq(journalLines.organizationId, journal.organizationId)
+                )
+              );
+          }
+
           // Try to update journal first
           const updateResult = await tx
             .update(journals)
@@ -559,18 +601,8 @@ export class DrizzleJournalRepository implements JournalRepository {
             savedJournal = insertResult[0];
           }
 
-          // Delete existing lines
-          await tx
-            .delete(journalLines)
-            .where(
-              and(
-                eq(journalLines.journalId, journal.id),
-                eq(journalLines.organizationId, journal.organizationId)
-              )
-            );
-
           // Insert new lines
-          if (journal.lines.length > 0) {
+          if (!linesLocked && journal.lines.length > 0) {
             const lineData = journal.lines.map(line => ({
               id: crypto.randomUUID(), // Generate new ID for lines
               organizationId: journal.organizationId,
@@ -584,9 +616,11 @@ export class DrizzleJournalRepository implements JournalRepository {
               originalDebitAmount: line.isDebit() ? line.originalAmount.amount : '0.0000',
               originalCreditAmount: line.isCredit() ? line.originalAmount.amount : '0.0000',
               exchangeRate: line.exchangeRate,
+              exchangeRateSource: line.exchangeRateSource ?? null,
               taxCode: line.taxCode,
               taxAmount: line.taxAmount?.amount || '0.0000',
               taxRate: line.taxRate || '0.0000',
+              partnerVatId: line.partnerVatId ?? null,
               createdAt: new Date()
             }));
 
@@ -611,6 +645,38 @@ export class DrizzleJournalRepository implements JournalRepository {
     });
   }
 
+  /**
+   * Reject changes to the exchange rate or original amounts of stored posted lines
+   */
+  private assertExchangeRatesUnchanged(journal: Journal, lineRows: (typeof journalLines.$inferSelect)[]): void {
+    const storedLines = new Map(lineRows.map(row => [row.lineNumber, row]));
+
+    for (const line of journal.lines) {
+      const stored = storedLines.get(line.lineNumber);
+      const unchanged = !!stored &&
+        stored.originalCurrency === line.originalAmount.currency &&
+        new Decimal(stored.exchangeRate).equals(line.exchangeRate) &&
+        new Decimal(stored.originalDebitAmount ?? 0).equals(line.isDebit() ? line.originalAmount.amount : 0) &&
+        new Decimal(stored.originalCreditAmount ?? 0).equals(line.isCredit() ? line.originalAmount.amount : 0);
+
+      if (!unchanged) {
+        throw domainError(
+          DomainErrorCodes.FX_001,
+          'Exchange rates of posted journals are immutable',
+          { journalId: journal.id, lineNumber: line.lineNumber }
+        );
+      }
+    }
+
+    if (journal.lines.length !== lineRows.length) {
+      throw domainError(
+        DomainErrorCodes.FX_001,
+        'Exchange rates of posted journals are immutable',
+        { journalId: journal.id }
+      );
+    }
+  }
+
   /**
    * Save multiple journals in a transaction (for reversals)
    */
@@ -623,7 +689,7 @@ export class DrizzleJournalRepository implements JournalRepository {
       const context: OrganizationContext = { organizationId: journals[0].organizationId };
       
       return await withOrganizationContext(context, async () => {
-        return await db.transaction(async (tx) => {
+        return await currentDb().transaction(async (tx) => {
           const savedJournals: Journal[] = [];
 
           for (const journal of journals) {
@@ -649,7 +715,7 @@ export class DrizzleJournalRepository implements JournalRepository {
       const context: OrganizationContext = { organizationId };
       
       return await withOrganizationContext(context, async () => {
-        await db.transaction(async (tx) => {
+        await currentDb().transaction(async (tx) => {
           // Delete lines first (foreign key constraint)
           await tx
             .delete(journalLines)
@@ -692,7 +758,7 @@ export class DrizzleJournalRepository implements JournalRepository {
         const basePrefix = prefix || `JRN-${currentYear}`;
         
         // Find the highest number with this prefix
-        const result = await db
+        const result = await currentDb()
           .select({ 
             journalNumber: journals.journalNumber 
           })
@@ -728,7 +794,7 @@ export class DrizzleJournalRepository implements JournalRepository {
    * Map database rows to Journal entity
    */
   private mapRowsToJournal(journalRow: any, lineRows: any[]): Journal {
-    // Map lines first
+    // Map lines first (JournalLine.create throws on invalid stored data)
     const lines = lineRows.map(lineRow => {
       const debitAmount = Money.create(lineRow.debitAmount, journalRow.currency);
       const creditAmount = Money.create(lineRow.creditAmount, journalRow.currency);
@@ -750,16 +816,12 @@ export class DrizzleJournalRepository implements JournalRepository {
         exchangeRate: lineRow.exchangeRate,
         taxCode: lineRow.taxCode || undefined,
         taxAmount,
-        taxRate: lineRow.taxRate !== '0.0000' ? lineRow.taxRate : undefined
+        taxRate: lineRow.taxRate !== '0.0000' ? lineRow.taxRate : undefined,
+        exchangeRateSource: lineRow.exchangeRateSource ?? undefined,
+        partnerVatId: lineRow.partnerVatId ?? undefined
       });
     });
 
-    // Validate all lines were created successfully
-    const validLines = lines.filter(lineResult => lineResult.isSuccess()).map(lineResult => lineResult.value);
-    if (validLines.length !== lines.length) {
-      throw new Error('Failed to map journal lines from database');
-    }
-
     // Create journal props
     const journalProps: CreateJournalProps = {
       id: journalId(journalRow.id),
@@ -770,9 +832,10 @@ export class DrizzleJournalRepository implements JournalRepository {
       reference: journalRow.reference || undefined,
       postingDate: journalRow.postingDate,
       currency: currency(journalRow.currency),
-      lines: validLines,
+      lines: lines,
       originalJournalId: journalRow.originalJournalId ? journalId(journalRow.originalJournalId) : undefined,
       extUid: journalRow.extUid || undefined,
+      kind: journalRow.kind as JournalKind,
       createdBy: userId(journalRow.createdBy)
     };
 
@@ -795,12 +858,13 @@ export class DrizzleJournalRepository implements JournalRepository {
       journalRow.postingDate,
       journalRow.status as JournalStatus,
       currency(journalRow.currency),
-      validLines,
+      lines,
       hashPrev,
       hashSelf,
       journalRow.reversalJournalId ? journalId(journalRow.reversalJournalId) : undefined,
       journalRow.originalJournalId ? journalId(journalRow.originalJournalId) : undefined,
       journalRow.extUid || undefined,
+      journalRow.kind as JournalKind,
       userId(journalRow.createdBy),
       journalRow.postedBy ? userId(journalRow.postedBy) : undefined,
       journalRow.postedAt || undefined,
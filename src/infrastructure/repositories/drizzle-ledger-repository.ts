@@ -0,0 +1,306 @@
+import { Decimal } from 'decimal.js';
+import { and, asc, eq, gte, inArray, isNotNull, lte, ne, sql, SQL } from 'drizzle-orm';
+import { accounts, journals, journalLines } from '../../db/schema';
+import { currentDb, withOrganizationContext, OrganizationContext } from '../../db/utils';
+import { OrganizationId, DomainError, accountId, journalId } from '../../domain/shared/types';
+import { Result, asyncResult } from '../../domain/shared/result';
+import { Money } from '../../domain/journal/value-objects/money';
+import {
+  LedgerRepository,
+  LedgerDateRange,
+  AccountMovement,
+  ForeignCurrencyBalance,
+  TaxCodeTotal,
+  PartnerSalesTotal,
+  LedgerLineQuery,
+  LedgerLinePage
+} from '../../domain/reporting/repositories/ledger-repository';
+
+// Reversed journals stay in the ledger; their reversal journal offsets them
+const LEDGER_STATUSES = ['posted', 'reversed'];
+const COUNTER_LINES = 'counter_lines';
+
+/**
+ * Drizzle implementation of LedgerRepository
+ */
+export class DrizzleLedgerRepository implements LedgerRepository {
+  /**
+   * Sum debit and credit per account over posted and reversed journals in a currency
+   */
+  async sumPostedByAccount(
+    organizationId: OrganizationId,
+    currency: string,
+    range: LedgerDateRange
+  ): Promise<Result<AccountMovement[], DomainError>> {
+    return asyncResult(async () => {
+      const context: OrganizationContext = { organizationId };
+
+      return await withOrganizationContext(context, async () => {
+        const conditions = this.buildLedgerConditions(organizationId, currency, range);
+
+        const rows = await currentDb()
+          .select({
+            accountId: journalLines.accountId,
+            debit: sql<string>`coalesce(sum(${journalLines.debitAmount}), 0)`,
+            credit: sql<string>`coalesce(sum(${journalLines.creditAmount}), 0)`
+          })
+          .from(journalLines)
+          .innerJoin(journals, eq(journalLines.journalId, journals.id))
+          .where(and(...conditions))
+          .groupBy(journalLines.accountId);
+
+        return rows.map(row => ({
+          accountId: accountId(row.accountId),
+          debit: Money.create(row.debit, currency),
+          credit: Money.create(row.credit, currency)
+        }));
+      });
+    });
+  }
+
+  /**
+   * Sum original and booked balances per account and original currency of lines in a foreign currency
+   */
+  async sumForeignCurrencyBalances(
+    organizationId: OrganizationId,
+    currency: string,
+    range: LedgerDateRange
+  ): Promise<Result<ForeignCurrencyBalance[], DomainError>> {
+    return asyncResult(async () => {
+      const context: OrganizationContext = { organizationId };
+
+      return await withOrganizationContext(context, async () => {
+        const conditions = [
+          ...this.buildLedgerConditions(organizationId, currency, range),
+          ne(journalLines.originalCurrency, journals.currency)
+        ];
+
+        const rows = await currentDb()
+          .select({
+            accountId: journalLines.accountId,
+            originalCurrency: journalLines.originalCurrency,
+            originalBalance: sql<string>`coalesce(sum(coalesce(${journalLines.originalDebitAmount}, 0) - coalesce(${journalLines.originalCreditAmount}, 0)), 0)`,
+            bookedBalance: sql<string>`coalesce(sum(coalesce(${journalLines.debitAmount}, 0) - coalesce(${journalLines.creditAmount}, 0)), 0)`
+          })
+          .from(journalLines)
+          .innerJoin(journals, eq(journalLines.journalId, journals.id))
+          .where(and(...conditions))
+          .groupBy(journalLines.accountId, journalLines.originalCurrency);
+
+        return rows.map(row => ({
+          accountId: accountId(row.accountId),
+          originalBalance: Money.create(row.originalBalance, row.originalCurrency),
+          bookedBalance: Money.create(row.bookedBalance, currency)
+        }));
+      });
+    });
+  }
+
+  /**
+   * Sum taxable amounts and tax amounts per tax code and rate of the lines carrying a tax code
+   */
+  async sumTaxByCode(
+    organizationId: OrganizationId,
+    currency: string,
+    range: LedgerDateRange
+  ): Promise<Result<TaxCodeTotal[], DomainError>> {
+    return asyncResult(async () => {
+      const context: OrganizationContext = { organizationId };
+
+      return await withOrganizationContext(context, async () => {
+        const conditions = [
+          ...this.buildLedgerConditions(organizationId, currency, range),
+          isNotNull(journalLines.taxCode)
+        ];
+
+        const debit = sql`coalesce(${journalLines.debitAmount}, 0)`;
+        const credit = sql`coalesce(${journalLines.creditAmount}, 0)`;
+        const taxAmount = sql`coalesce(${journalLines.taxAmount}, 0)`;
+        const taxRate = sql<string>`coalesce(${journalLines.taxRate}, 0)`;
+
+        // Tax amounts are stored unsigned; the side of the taxed line gives the sign
+        const rows = await currentDb()
+          .select({
+            taxCode: sql<string>`${journalLines.taxCode}`,
+            taxRate,
+            base: sql<string>`coalesce(sum(${credit} - ${debit}), 0)`,
+            tax: sql<string>`coalesce(sum(case when ${debit} > 0 then -${taxAmount} else ${taxAmount} end), 0)`
+          })
+          .from(journalLines)
+          .innerJoin(journals, eq(journalLines.journalId, journals.id))
+          .where(and(...conditions))
+          .groupBy(journalLines.taxCode, taxRate)
+          .orderBy(asc(journalLines.taxCode), asc(taxRate));
+
+        return rows.map(row => ({
+          taxCode: row.taxCode,
+          taxRate: new Decimal(row.taxRate).toFixed(4),
+          base: Money.create(row.base, currency),
+          tax: Money.create(row.tax, currency)
+        }));
+      });
+    });
+  }
+
+  /**
+   * Sum posted taxed lines by the VAT ID of the customer and tax code
+   */
+  async sumTaxedSalesByPartner(
+    organizationId: OrganizationId,
+    currency: string,
+    range: LedgerDateRange
+  ): Promise<Result<PartnerSalesTotal[], DomainError>> {
+    return asyncResult(async () => {
+      const context: OrganizationContext = { organizationId };
+
+      return await withOrganizationContext(context, async () => {
+        const conditions = [
+          ...this.buildLedgerConditions(organizationId, currency, range),
+          isNotNull(journalLines.taxCode),
+          isNotNull(journalLines.partnerVatId)
+        ];
+
+        const debit = sql`coalesce(${journalLines.debitAmount}, 0)`;
+        const credit = sql`coalesce(${journalLines.creditAmount}, 0)`;
+
+        const rows = await currentDb()
+          .select({
+            partnerVatId: sql<string>`${journalLines.partnerVatId}`,
+            taxCode: sql<string>`${journalLines.taxCode}`,
+            amount: sql<string>`coalesce(sum(${credit} - ${debit}), 0)`
+          })
+          .from(journalLines)
+          .innerJoin(journals, eq(journalLines.journalId, journals.id))
+          .where(and(...conditions))
+          .groupBy(journalLines.partnerVatId, journalLines.taxCode)
+          .orderBy(asc(journalLines.partnerVatId), asc(journalLines.taxCode));
+
+        return rows.map(row => ({
+          partnerVatId: row.partnerVatId,
+          taxCode: row.taxCode,
+          amount: Money.create(row.amount, currency)
+        }));
+      });
+    });
+  }
+
+  /**
+   * Find a page of posted and reversed journal lines of the given accounts with running movements
+   */
+  async findPostedLines(
+    organizationId: OrganizationId,
+    currency: string,
+    query: LedgerLineQuery
+  ): Promise<Result<LedgerLinePage, DomainError>> {
+    return asyncResult(async () => {
+      if (query.accountIds.length === 0) {
+        return { lines: [], totalCount: 0 };
+      }
+
+      const context: OrganizationContext = { organizationId };
+
+      return await withOrganizationContext(context, async () => {
+        const conditions = [
+          ...this.buildLedgerConditions(organizationId, currency, query),
+          inArray(journalLines.accountId, [...query.accountIds])
+        ];
+
+        const debit = sql`coalesce(${journalLines.debitAmount}, 0)`;
+        const credit = sql`coalesce(${journalLines.creditAmount}, 0)`;
+        const counterLines = sql.identifier(COUNTER_LINES);
+        const counterColumn = (column: string) => sql`${counterLines}.${sql.identifier(column)}`;
+
+        const rows = await currentDb()
+          .select({
+            accountId: journalLines.accountId,
+            journalId: journals.id,
+            journalNumber: journals.journalNumber,
+            postingDate: journals.postingDate,
+            lineNumber: journalLines.lineNumber,
+            description: journalLines.description,
+            reference: journals.reference,
+            debit: sql<string>`${debit}`,
+            credit: sql<string>`${credit}`,
+            runningMovement: sql<string>`sum(${debit} - ${credit}) over (
+              partition by ${journalLines.accountId}
+              order by ${journals.postingDate}, ${journals.journalNumber}, ${journalLines.lineNumber}
+              rows between unbounded preceding and current row
+            )`,
+            counterAccountIds: sql<string | null>`(
+              select string_agg(distinct ${counterColumn('account_id')}::text, ',')
+              from ${journalLines} as ${counterLines}
+              where ${counterColumn('journal_id')} = ${journalLines.journalId}
+                and ${counterColumn('account_id')} <> ${journalLines.accountId}
+                and (coalesce(${counterColumn('debit_amount')}, 0) > 0) <> (${debit} > 0)
+            )`
+          })
+          .from(journalLines)
+          .innerJoin(journals, eq(journalLines.journalId, journals.id))
+          .innerJoin(accounts, eq(journalLines.accountId, accounts.id))
+          .where(and(...conditions))
+          .orderBy(
+            asc(accounts.code),
+            asc(journals.postingDate),
+            asc(journals.journalNumber),
+            asc(journalLines.lineNumber)
+          )
+          .limit(query.limit)
+          .offset(query.offset);
+
+        const countRows = await currentDb()
+          .select({ count: sql<number>`count(*)` })
+          .from(journalLines)
+          .innerJoin(journals, eq(journalLines.journalId, journals.id))
+          .where(and(...conditions));
+
+        return {
+          lines: rows.map(row => ({
+            accountId: accountId(row.accountId),
+            journalId: journalId(row.journalId),
+            journalNumber: row.journalNumber,
+            postingDate: row.postingDate,
+            lineNumber: row.lineNumber,
+            description: row.description,
+            reference: row.reference ?? undefined,
+            debit: Money.create(row.debit, currency),
+            credit: Money.create(row.credit, currency),
+            runningMovement: Money.create(row.runningMovement, currency),
+            counterAccountIds: row.counterAccountIds ? row.counterAccountIds.split(',').map(accountId) : []
+          })),
+          totalCount: Number(countRows[0]?.count ?? 0)
+        };
+      });
+    });
+  }
+
+  /**
+   * Build the filter shared by all ledger queries: own organization, ledger statuses, no opening journals,
+   * currency and date range
+   */
+  private buildLedgerConditions(
+    organizationId: OrganizationId,
+    currency: string,
+    range: LedgerDateRange
+  ): SQL[] {
+    const conditions: SQL[] = [
+      eq(journalLines.organizationId, organizationId),
+      eq(journals.organizationId, organizationId),
+      inArray(journals.status, LEDGER_STATUSES),
+      ne(journals.kind, 'opening'),
+      eq(journals.currency, currency)
+    ];
+
+    if (range.excludeClosing) {
+      conditions.push(ne(journals.kind, 'closing'));
+    }
+
+    if (range.startDate) {
+      conditions.push(gte(journals.postingDate, range.startDate));
+    }
+    if (range.endDate) {
+      conditions.push(lte(journals.postingDate, range.endDate));
+    }
+
+    return conditions;
+  }
+}
@@ -1,13 +1,15 @@
-import { and, eq, gte, lte, desc, or, ne } from 'drizzle-orm';
-import { db } from '../../db/connection';
+import { and, eq, gt, gte, lte, asc, desc, or, ne } from 'drizzle-orm';
 import { periods } from '../../db/schema';
-import { withOrganizationContext, OrganizationContext } from '../../db/utils';
+import { currentDb, withOrganizationContext, OrganizationContext } from '../../db/utils';
 import { 
   OrganizationId, 
   PeriodId, 
+  FiscalYearId,
   organizationId, 
   periodId,
-  PeriodStatus
+  fiscalYearId,
+  PeriodStatus,
+  DomainError
 } from '../../domain/shared/types';
 import { Result, success, failure, asyncResult } from '../../domain/shared/result';
 import { Period, CreatePeriodProps } from '../../domain/period/entities/period';
@@ -28,7 +30,7 @@ export class DrizzlePeriodRepository implements PeriodRepository {
       const context: OrganizationContext = { organizationId };
       
       return await withOrganizationContext(context, async () => {
-        const rows = await db
+        const rows = await currentDb()
           .select()
           .from(periods)
           .where(
@@ -56,7 +58,7 @@ export class DrizzlePeriodRepository implements PeriodRepository {
       const context: OrganizationContext = { organizationId };
       
       return await withOrganizationContext(context, async () => {
-        const rows = await db
+        const rows = await currentDb()
           .select()
           .from(periods)
           .where(eq(periods.organizationId, organizationId))
@@ -78,12 +80,13 @@ export class DrizzlePeriodRepository implements PeriodRepository {
       const context: OrganizationContext = { organizationId };
       
       return await withOrganizationContext(context, async () => {
-        const rows = await db
+        const rows = await currentDb()
           .select()
           .from(periods)
           .where(
             and(
               eq(periods.organizationId, organizationId),
+              eq(periods.isAdjustment, false),
               lte(periods.startDate, date),
               gte(periods.endDate, date)
             )
@@ -107,7 +110,7 @@ export class DrizzlePeriodRepository implements PeriodRepository {
       const context: OrganizationContext = { organizationId };
       
       return await withOrganizationContext(context, async () => {
-        const rows = await db
+        const rows = await currentDb()
           .select()
           .from(periods)
           .where(
@@ -123,6 +126,67 @@ export class DrizzlePeriodRepository implements PeriodRepository {
     });
   }
 
+  /**
+   * Find the periods of a fiscal year ordered by start date, the adjustment period last
+   */
+  async findByFiscalYear(
+    fiscalYearId: FiscalYearId,
+    organizationId: OrganizationId
+  ): Promise<Result<Period[], DomainError>> {
+    return asyncResult(async () => {
+      const context: OrganizationContext = { organizationId };
+
+      return await withOrganizationContext(context, async () => {
+        const rows = await currentDb()
+          .select()
+          .from(periods)
+          .where(
+            and(
+              eq(periods.organizationId, organizationId),
+              eq(periods.fiscalYearId, fiscalYearId)
+            )
+          )
+          .orderBy(asc(periods.isAdjustment), asc(periods.startDate));
+
+        return rows.map(row => this.mapRowToPeriod(row));
+      });
+    });
+  }
+
+  /**
+   * Find the earliest open period starting after a date
+   */
+  async findNextOpenPeriod(
+    after: Date,
+    organizationId: OrganizationId
+  ): Promise<Result<Period | null, DomainError>> {
+    return asyncResult(async () => {
+      const context: OrganizationContext = { organizationId };
+
+      return await withOrganizationContext(context, async () => {
+        const rows = await currentDb()
+          .select()
+          .from(periods)
+          .where(
+            and(
+              eq(periods.organizationId, organizationId),
+              eq(periods.status, 'open'),
+              eq(periods.isAdjustment, false),
+              gt(periods.startDate, after)
+            )
+          )
+          .orderBy(asc(periods.startDate))
+          .limit(1);
+
+        if (rows.length === 0) {
+          return null;
+        }
+
+        return this.mapRowToPeriod(rows[0]);
+      });
+    });
+  }
+
   /**
    * Find periods that overlap with given date range
    */
@@ -138,6 +202,8 @@ export class DrizzlePeriodRepository implements PeriodRepository {
       return await withOrganizationContext(context, async () => {
         const conditions = [
           eq(periods.organizationId, organizationId),
+          // Adjustment periods share the last day of their fiscal year on purpose
+          eq(periods.isAdjustment, false),
           // Periods overlap if: startDate < other.endDate AND endDate > other.startDate
           and(
             lte(periods.startDate, endDate),
@@ -150,7 +216,7 @@ export class DrizzlePeriodRepository implements PeriodRepository {
           conditions.push(ne(periods.id, excludePeriodId));
         }
 
-        const rows = await db
+        const rows = await currentDb()
           .select()
           .from(periods)
           .where(and(...conditions))
@@ -176,12 +242,14 @@ export class DrizzlePeriodRepository implements PeriodRepository {
           startDate: period.startDate,
           endDate: period.endDate,
           status: period.status,
+          fiscalYearId: period.fiscalYearId,
+          isAdjustment: period.isAdjustment,
           createdAt: period.createdAt,
           updatedAt: period.updatedAt
         };
 
         // Try to update first
-        const updateResult = await db
+        const updateResult = await currentDb()
           .update(periods)
           .set({
             name: periodData.name,
@@ -203,7 +271,7 @@ export class DrizzlePeriodRepository implements PeriodRepository {
         }
 
         // If update didn't affect any rows, insert
-        const insertResult = await db
+        const insertResult = await currentDb()
           .insert(periods)
           .values(periodData)
           .returning();
@@ -224,7 +292,7 @@ export class DrizzlePeriodRepository implements PeriodRepository {
         // TODO: Add check for existing journals in this period
         // This would require a journal repository dependency or a direct query
         
-        await db
+        await currentDb()
           .delete(periods)
           .where(
             and(
@@ -249,7 +317,9 @@ export class DrizzlePeriodRepository implements PeriodRepository {
       organizationId: organizationId(row.organizationId),
       name: row.name,
       startDate: row.startDate,
-      endDate: row.endDate
+      endDate: row.endDate,
+      fiscalYearId: row.fiscalYearId ? fiscalYearId(row.fiscalYearId) : undefined,
+      isAdjustment: row.isAdjustment
     });
 
     if (periodResult.isFailure()) {
@@ -264,6 +334,8 @@ export class DrizzlePeriodRepository implements PeriodRepository {
       row.startDate,
       row.endDate,
       row.status as PeriodStatus,
+      row.fiscalYearId ? fiscalYearId(row.fiscalYearId) : undefined,
+      row.isAdjustment,
       row.createdAt,
       row.updatedAt
     );
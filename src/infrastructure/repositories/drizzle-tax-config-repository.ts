@@ -0,0 +1,168 @@
+import { and, asc, desc, eq, gt, isNull, lte, or } from 'drizzle-orm';
+import { taxConfigs } from '../../db/schema';
+import { currentDb, withOrganizationContext, OrganizationContext } from '../../db/utils';
+import {
+  OrganizationId,
+  DomainError,
+  organizationId,
+  accountId,
+  taxConfigId
+} from '../../domain/shared/types';
+import { Result, asyncResult } from '../../domain/shared/result';
+import { TaxConfig, TaxTreatment } from '../../domain/tax/entities/tax-config';
+import { TaxConfigRepository } from '../../domain/tax/repositories/tax-config-repository';
+
+/**
+ * Drizzle implementation of TaxConfigRepository
+ */
+export class DrizzleTaxConfigRepository implements TaxConfigRepository {
+  /**
+   * Find all configurations of a tax code ordered by start of validity
+   */
+  async findByCode(code: string, organizationId: OrganizationId): Promise<Result<TaxConfig[], DomainError>> {
+    return asyncResult(async () => {
+      const context: OrganizationContext = { organizationId };
+
+      return await withOrganizationContext(context, async () => {
+        const rows = await currentDb()
+          .select()
+          .from(taxConfigs)
+          .where(
+            and(
+              eq(taxConfigs.code, code),
+              eq(taxConfigs.organizationId, organizationId)
+            )
+          )
+          .orderBy(asc(taxConfigs.validFrom));
+
+        return rows.map(row => this.mapRowToTaxConfig(row));
+      });
+    });
+  }
+
+  /**
+   * Find the active configuration of a tax code that is valid on a date
+   */
+  async findValidByCode(
+    code: string,
+    date: Date,
+    organizationId: OrganizationId
+  ): Promise<Result<TaxConfig | null, DomainError>> {
+    return asyncResult(async () => {
+      const context: OrganizationContext = { organizationId };
+
+      return await withOrganizationContext(context, async () => {
+        const rows = await currentDb()
+          .select()
+          .from(taxConfigs)
+          .where(
+            and(
+              eq(taxConfigs.code, code),
+              eq(taxConfigs.organizationId, organizationId),
+              eq(taxConfigs.isActive, true),
+              lte(taxConfigs.validFrom, date),
+              or(isNull(taxConfigs.validTo), gt(taxConfigs.validTo, date))
+            )
+          )
+          .orderBy(desc(taxConfigs.validFrom))
+          .limit(1);
+
+        return rows.length > 0 ? this.mapRowToTaxConfig(rows[0]) : null;
+      });
+    });
+  }
+
+  /**
+   * Find all tax configurations of an organization ordered by code
+   */
+  async findByOrganization(organizationId: OrganizationId): Promise<Result<TaxConfig[], DomainError>> {
+    return asyncResult(async () => {
+      const context: OrganizationContext = { organizationId };
+
+      return await withOrganizationContext(context, async () => {
+        const rows = await currentDb()
+          .select()
+          .from(taxConfigs)
+          .where(eq(taxConfigs.organizationId, organizationId))
+          .orderBy(asc(taxConfigs.code));
+
+        return rows.map(row => this.mapRowToTaxConfig(row));
+      });
+    });
+  }
+
+  /**
+   * Save tax configuration (insert or update)
+   */
+  async save(taxConfig: TaxConfig): Promise<Result<TaxConfig, DomainError>> {
+    return asyncResult(async () => {
+      const context: OrganizationContext = { organizationId: taxConfig.organizationId };
+
+      return await withOrganizationContext(context, async () => {
+        const taxConfigData = {
+          id: taxConfig.id,
+          organizationId: taxConfig.organizationId,
+          code: taxConfig.code,
+          name: taxConfig.name,
+          rate: taxConfig.rate,
+          country: taxConfig.country,
+          region: taxConfig.region ?? null,
+          validFrom: taxConfig.validFrom,
+          validTo: taxConfig.validTo ?? null,
+          accountId: taxConfig.accountId,
+          treatment: taxConfig.treatment,
+          inputAccountId: taxConfig.inputAccountId ?? null,
+          isActive: taxConfig.isActive,
+          createdAt: taxConfig.createdAt,
+          updatedAt: taxConfig.updatedAt
+        };
+
+        const rows = await currentDb()
+          .insert(taxConfigs)
+          .values(taxConfigData)
+          .onConflictDoUpdate({
+            target: taxConfigs.id,
+            set: {
+              name: taxConfigData.name,
+              rate: taxConfigData.rate,
+              region: taxConfigData.region,
+              validFrom: taxConfigData.validFrom,
+              validTo: taxConfigData.validTo,
+              accountId: taxConfigData.accountId,
+              treatment: taxConfigData.treatment,
+              inputAccountId: taxConfigData.inputAccountId,
+              isActive: taxConfigData.isActive,
+              updatedAt: taxConfigData.updatedAt
+            }
+          })
+          .returning();
+
+        return this.mapRowToTaxConfig(rows[0]);
+      });
+    });
+  }
+
+  /**
+   * Map database row to TaxConfig entity
+   */
+  private mapRowToTaxConfig(row: typeof taxConfigs.$inferSelect): TaxConfig {
+    // Rows bypass TaxConfig.create so that stored state (e.g. inactive) is kept
+    return new (TaxConfig as unknown as new (...args: unknown[]) => TaxConfig)(
+      taxConfigId(row.id),
+      organizationId(row.organizationId),
+      row.code,
+      row.name,
+      row.rate,
+      row.country,
+      row.region ?? undefined,
+      row.validFrom,
+      row.validTo ?? undefined,
+      accountId(row.accountId),
+      row.treatment as TaxTreatment,
+      row.inputAccountId ? accountId(row.inputAccountId) : undefined,
+      row.isActive,
+      row.createdAt,
+      row.updatedAt
+    );
+  }
+}
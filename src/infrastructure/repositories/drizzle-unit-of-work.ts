@@ -0,0 +1,35 @@
+import { withTransaction } from '../../db/utils';
+import { Result, failure } from '../../domain/shared/result';
+import { UnitOfWork } from '../../domain/shared/unit-of-work';
+
+/**
+ * Failed result carried out of a transaction to roll it back
+ */
+class Rollback<T, E> extends Error {
+  constructor(public readonly result: Result<T, E>) {
+    super('Transaction rolled back');
+  }
+}
+
+/**
+ * Drizzle implementation of UnitOfWork
+ * Repositories querying through currentDb() take part in the transaction.
+ */
+export class DrizzleUnitOfWork implements UnitOfWork {
+  async run<T, E>(work: () => Promise<Result<T, E>>): Promise<Result<T, E>> {
+    try {
+      return await withTransaction(async () => {
+        const result = await work();
+        if (result.isFailure()) {
+          throw new Rollback(result);
+        }
+        return result;
+      });
+    } catch (error) {
+      if (error instanceof Rollback) {
+        return error.result as Result<T, E>;
+      }
+      return failure(error as E);
+    }
+  }
+}
@@ -1,7 +1,26 @@
 import { PeriodRepository } from '../../domain/period/repositories/period-repository';
+import { FiscalYearRepository } from '../../domain/period/repositories/fiscal-year-repository';
 import { JournalRepository } from '../../domain/journal/repositories/journal-repository';
+import { AccountRepository } from '../../domain/account/repositories/account-repository';
+import { TaxConfigRepository } from '../../domain/tax/repositories/tax-config-repository';
+import { ExchangeRateRepository } from '../../domain/exchange-rate/repositories/exchange-rate-repository';
+import { AuditLogRepository } from '../../domain/audit/repositories/audit-log-repository';
+import { LedgerRepository } from '../../domain/reporting/repositories/ledger-repository';
+import { BankImportRepository } from '../../domain/bank/repositories/bank-import-repository';
+import { BankReconciliationRepository } from '../../domain/bank/repositories/bank-reconciliation-repository';
+import { UnitOfWork } from '../../domain/shared/unit-of-work';
 import { DrizzlePeriodRepository } from './drizzle-period-repository';
+import { DrizzleFiscalYearRepository } from './drizzle-fiscal-year-repository';
 import { DrizzleJournalRepository } from './drizzle-journal-repository';
+import { DrizzleAccountRepository } from './drizzle-account-repository';
+import { DrizzleTaxConfigRepository } from './drizzle-tax-config-repository';
+import { DrizzleExchangeRateRepository } from './drizzle-exchange-rate-repository';
+import { DrizzleAuditLogRepository } from './drizzle-audit-log-repository';
+import { DrizzleLedgerRepository } from './drizzle-ledger-repository';
+import { DrizzleBankImportRepository } from './drizzle-bank-import-repository';
+import { DrizzleBankReconciliationRepository } from './drizzle-bank-reconciliation-repository';
+import { DrizzleIdempotencyRepository, IdempotencyRepository } from './drizzle-idempotency-repository';
+import { DrizzleUnitOfWork } from './drizzle-unit-of-work';
 
 /**
  * Factory for creating repository instances
@@ -9,7 +28,17 @@ import { DrizzleJournalRepository } from './drizzle-journal-repository';
  */
 export class RepositoryFactory {
   private static _periodRepository: PeriodRepository | null = null;
+  private static _fiscalYearRepository: FiscalYearRepository | null = null;
   private static _journalRepository: JournalRepository | null = null;
+  private static _accountRepository: AccountRepository | null = null;
+  private static _taxConfigRepository: TaxConfigRepository | null = null;
+  private static _exchangeRateRepository: ExchangeRateRepository | null = null;
+  private static _auditLogRepository: AuditLogRepository | null = null;
+  private static _ledgerRepository: LedgerRepository | null = null;
+  private static _bankImportRepository: BankImportRepository | null = null;
+  private static _bankReconciliationRepository: BankReconciliationRepository | null = null;
+  private static _idempotencyRepository: IdempotencyRepository | null = null;
+  private static _unitOfWork: UnitOfWork | null = null;
 
   /**
    * Get period repository instance
@@ -21,6 +50,26 @@ export class RepositoryFactory {
     return this._periodRepository;
   }
 
+  /**
+   * Get fiscal year repository instance
+   */
+  static getFiscalYearRepository(): FiscalYearRepository {
+    if (!this._fiscalYearRepository) {
+      this._fiscalYearRepository = new DrizzleFiscalYearRepository();
+    }
+    return this._fiscalYearRepository;
+  }
+
+  /**
+   * Get exchange rate repository instance
+   */
+  static getExchangeRateRepository(): ExchangeRateRepository {
+    if (!this._exchangeRateRepository) {
+      this._exchangeRateRepository = new DrizzleExchangeRateRepository();
+    }
+    return this._exchangeRateRepository;
+  }
+
   /**
    * Get journal repository instance
    */
@@ -31,6 +80,86 @@ export class RepositoryFactory {
     return this._journalRepository;
   }
 
+  /**
+   * Get account repository instance
+   */
+  static getAccountRepository(): AccountRepository {
+    if (!this._accountRepository) {
+      this._accountRepository = new DrizzleAccountRepository();
+    }
+    return this._accountRepository;
+  }
+
+  /**
+   * Get tax config repository instance
+   */
+  static getTaxConfigRepository(): TaxConfigRepository {
+    if (!this._taxConfigRepository) {
+      this._taxConfigRepository = new DrizzleTaxConfigRepository();
+    }
+    return this._taxConfigRepository;
+  }
+
+  /**
+   * Get audit log repository instance
+   */
+  static getAuditLogRepository(): AuditLogRepository {
+    if (!this._auditLogRepository) {
+      this._auditLogRepository = new DrizzleAuditLogRepository();
+    }
+    return this._auditLogRepository;
+  }
+
+  /**
+   * Get ledger repository instance
+   */
+  static getLedgerRepository(): LedgerRepository {
+    if (!this._ledgerRepository) {
+      this._ledgerRepository = new DrizzleLedgerRepository();
+    }
+    return this._ledgerRepository;
+  }
+
+  /**
+   * Get bank import repository instance
+   */
+  static getBankImportRepository(): BankImportRepository {
+    if (!this._bankImportRepository) {
+      this._bankImportRepository = new DrizzleBankImportRepository();
+    }
+    return this._bankImportRepository;
+  }
+
+  /**
+   * Get bank reconciliation repository instance
+   */
+  static getBankReconciliationRepository(): BankReconciliationRepository {
+    if (!this._bankReconciliationRepository) {
+      this._bankReconciliationRepository = new DrizzleBankReconciliationRepository();
+    }
+    return this._bankReconciliationRepository;
+  }
+
+  /**
+   * Get idempotency key repository instance
+   */
+  static getIdempotencyRepository(): IdempotencyRepository {
+    if (!this._idempotencyRepository) {
+      this._idempotencyRepository = new DrizzleIdempotencyRepository();
+    }
+    return this._idempotencyRepository;
+  }
+
+  /**
+   * Get unit of work instance
+   */
+  static getUnitOfWork(): UnitOfWork {
+    if (!this._unitOfWork) {
+      this._unitOfWork = new DrizzleUnitOfWork();
+    }
+    return this._unitOfWork;
+  }
+
   /**
    * Set custom period repository (for testing)
    */
@@ -38,6 +167,20 @@ export class RepositoryFactory {
     this._periodRepository = repository;
   }
 
+  /**
+   * Set custom fiscal year repository (for testing)
+   */
+  static setFiscalYearRepository(repository: FiscalYearRepository): void {
+    this._fiscalYearRepository = repository;
+  }
+
+  /**
+   * Set custom exchange rate repository (for testing)
+   */
+  static setExchangeRateRepository(repository: ExchangeRateRepository): void {
+    this._exchangeRateRepository = repository;
+  }
+
   /**
    * Set custom journal repository (for testing)
    */
@@ -45,12 +188,78 @@ export class RepositoryFactory {
     this._journalRepository = repository;
   }
 
+  /**
+   * Set custom account repository (for testing)
+   */
+  static setAccountRepository(repository: AccountRepository): void {
+    this._accountRepository = repository;
+  }
+
+  /**
+   * Set custom tax config repository (for testing)
+   */
+  static setTaxConfigRepository(repository: TaxConfigRepository): void {
+    this._taxConfigRepository = repository;
+  }
+
+  /**
+   * Set custom audit log repository (for testing)
+   */
+  static setAuditLogRepository(repository: AuditLogRepository): void {
+    this._auditLogRepository = repository;
+  }
+
+  /**
+   * Set custom ledger repository (for testing)
+   */
+  static setLedgerRepository(repository: LedgerRepository): void {
+    this._ledgerRepository = repository;
+  }
+
+  /**
+   * Set custom bank import repository (for testing)
+   */
+  static setBankImportRepository(repository: BankImportRepository): void {
+    this._bankImportRepository = repository;
+  }
+
+  /**
+   * Set custom bank reconciliation repository (for testing)
+   */
+  static setBankReconciliationRepository(repository: BankReconciliationRepository): void {
+    this._bankReconciliationRepository = repository;
+  }
+
+  /**
+   * Set custom idempotency key repository (for testing)
+   */
+  static setIdempotencyRepository(repository: IdempotencyRepository): void {
+    this._idempotencyRepository = repository;
+  }
+
+  /**
+   * Set custom unit of work (for testing)
+   */
+  static setUnitOfWork(unitOfWork: UnitOfWork): void {
+    this._unitOfWork = unitOfWork;
+  }
+
   /**
    * Reset all repositories (for testing)
    */
   static reset(): void {
     this._periodRepository = null;
+    this._fiscalYearRepository = null;
     this._journalRepository = null;
+    this._accountRepository = null;
+    this._taxConfigRepository = null;
+    this._exchangeRateRepository = null;
+    this._auditLogRepository = null;
+    this._ledgerRepository = null;
+    this._bankImportRepository = null;
+    this._bankReconciliationRepository = null;
+    this._idempotencyRepository = null;
+    this._unitOfWork = null;
   }
 }
 
@@ -59,7 +268,17 @@ export class RepositoryFactory {
  */
 export interface RepositoryContainer {
   periodRepository: PeriodRepository;
+  fiscalYearRepository: FiscalYearRepository;
   journalRepository: JournalRepository;
+  accountRepository: AccountRepository;
+  taxConfigRepository: TaxConfigRepository;
+  exchangeRateRepository: ExchangeRateRepository;
+  auditLogRepository: AuditLogRepository;
+  ledgerRepository: LedgerRepository;
+  bankImportRepository: BankImportRepository;
+  bankReconciliationRepository: BankReconciliationRepository;
+  idempotencyRepository: IdempotencyRepository;
+  unitOfWork: UnitOfWork;
 }
 
 /**
@@ -68,6 +287,16 @@ export interface RepositoryContainer {
 export function createRepositoryContainer(): RepositoryContainer {
   return {
     periodRepository: RepositoryFactory.getPeriodRepository(),
-    journalRepository: RepositoryFactory.getJournalRepository()
+    fiscalYearRepository: RepositoryFactory.getFiscalYearRepository(),
+    journalRepository: RepositoryFactory.getJournalRepository(),
+    accountRepository: RepositoryFactory.getAccountRepository(),
+    taxConfigRepository: RepositoryFactory.getTaxConfigRepository(),
+    exchangeRateRepository: RepositoryFactory.getExchangeRateRepository(),
+    auditLogRepository: RepositoryFactory.getAuditLogRepository(),
+    ledgerRepository: RepositoryFactory.getLedgerRepository(),
+    bankImportRepository: RepositoryFactory.getBankImportRepository(),
+    bankReconciliationRepository: RepositoryFactory.getBankReconciliationRepository(),
+    idempotencyRepository: RepositoryFactory.getIdempotencyRepository(),
+    unitOfWork: RepositoryFactory.getUnitOfWork()
   };
 }
\ No newline at end of file
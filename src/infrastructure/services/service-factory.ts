@@ -1,7 +1,19 @@
 import { PeriodService } from '../../domain/period/services/period-service';
+import { FiscalYearService } from '../../domain/period/services/fiscal-year-service';
 import { JournalService } from '../../domain/journal/services/journal-service';
 import { HashService } from '../../domain/journal/services/hash-service';
 import { PostingService } from '../../domain/journal/services/posting-service';
+import { AuditService } from '../../domain/audit/services/audit-service';
+import { AccountService } from '../../domain/account/services/account-service';
+import { TaxService } from '../../domain/tax/services/tax-service';
+import { ExchangeRateService } from '../../domain/exchange-rate/services/exchange-rate-service';
+import { ReportingService } from '../../domain/reporting/services/reporting-service';
+import { YearEndCloseService } from '../../domain/closing/services/year-end-close-service';
+import { PeriodCloseService } from '../../domain/closing/services/period-close-service';
+import { FxRevaluationService } from '../../domain/closing/services/fx-revaluation-service';
+import { VatReturnService } from '../../domain/tax/services/vat-return-service';
+import { BankImportService } from '../../domain/bank/services/bank-import-service';
+import { BankReconciliationService } from '../../domain/bank/services/bank-reconciliation-service';
 import { RepositoryContainer, createRepositoryContainer } from '../repositories/repository-factory';
 
 /**
@@ -9,10 +21,22 @@ import { RepositoryContainer, createRepositoryContainer } from '../repositories/
  */
 export class ServiceFactory {
   private static _repositories: RepositoryContainer | null = null;
+  private static _auditService: AuditService | null = null;
   private static _periodService: PeriodService | null = null;
+  private static _fiscalYearService: FiscalYearService | null = null;
+  private static _accountService: AccountService | null = null;
+  private static _taxService: TaxService | null = null;
+  private static _exchangeRateService: ExchangeRateService | null = null;
   private static _hashService: HashService | null = null;
   private static _postingService: PostingService | null = null;
   private static _journalService: JournalService | null = null;
+  private static _reportingService: ReportingService | null = null;
+  private static _yearEndCloseService: YearEndCloseService | null = null;
+  private static _periodCloseService: PeriodCloseService | null = null;
+  private static _fxRevaluationService: FxRevaluationService | null = null;
+  private static _vatReturnService: VatReturnService | null = null;
+  private static _bankImportService: BankImportService | null = null;
+  private static _bankReconciliationService: BankReconciliationService | null = null;
 
   /**
    * Get repositories container
@@ -24,17 +48,99 @@ export class ServiceFactory {
     return this._repositories;
   }
 
+  /**
+   * Get audit service instance
+   * Fails when AUDIT_SIGNING_KEY is not configured, since entries signed with a known key could be forged
+   */
+  static getAuditService(): AuditService {
+    if (!this._auditService) {
+      const signingKey = process.env.AUDIT_SIGNING_KEY;
+      if (!signingKey) {
+        throw new Error('AUDIT_SIGNING_KEY must be set to sign audit log entries');
+      }
+
+      const repositories = this.getRepositories();
+      this._auditService = new AuditService(repositories.auditLogRepository, signingKey);
+    }
+    return this._auditService;
+  }
+
   /**
    * Get period service instance
    */
   static getPeriodService(): PeriodService {
     if (!this._periodService) {
       const repositories = this.getRepositories();
-      this._periodService = new PeriodService(repositories.periodRepository);
+      this._periodService = new PeriodService(
+        repositories.periodRepository,
+        this.getAuditService(),
+        repositories.unitOfWork
+      );
     }
     return this._periodService;
   }
 
+  /**
+   * Get fiscal year service instance
+   */
+  static getFiscalYearService(): FiscalYearService {
+    if (!this._fiscalYearService) {
+      const repositories = this.getRepositories();
+      this._fiscalYearService = new FiscalYearService(
+        repositories.fiscalYearRepository,
+        repositories.periodRepository,
+        this.getAuditService(),
+        repositories.unitOfWork
+      );
+    }
+    return this._fiscalYearService;
+  }
+
+  /**
+   * Get account service instance
+   */
+  static getAccountService(): AccountService {
+    if (!this._accountService) {
+      const repositories = this.getRepositories();
+      this._accountService = new AccountService(
+        repositories.accountRepository,
+        this.getAuditService(),
+        repositories.unitOfWork
+      );
+    }
+    return this._accountService;
+  }
+
+  /**
+   * Get tax service instance
+   */
+  static getTaxService(): TaxService {
+    if (!this._taxService) {
+      const repositories = this.getRepositories();
+      this._taxService = new TaxService(
+        repositories.taxConfigRepository,
+        this.getAuditService(),
+        repositories.unitOfWork
+      );
+    }
+    return this._taxService;
+  }
+
+  /**
+   * Get exchange rate service instance
+   */
+  static getExchangeRateService(): ExchangeRateService {
+    if (!this._exchangeRateService) {
+      const repositories = this.getRepositories();
+      this._exchangeRateService = new ExchangeRateService(
+        repositories.exchangeRateRepository,
+        this.getAuditService(),
+        repositories.unitOfWork
+      );
+    }
+    return this._exchangeRateService;
+  }
+
   /**
    * Get hash service instance
    */
@@ -55,7 +161,10 @@ export class ServiceFactory {
       this._postingService = new PostingService(
         repositories.journalRepository,
         repositories.periodRepository,
-        this.getHashService()
+        this.getHashService(),
+        this.getAccountService(),
+        this.getAuditService(),
+        repositories.unitOfWork
       );
     }
     return this._postingService;
@@ -70,12 +179,130 @@ export class ServiceFactory {
       this._journalService = new JournalService(
         repositories.journalRepository,
         this.getPeriodService(),
-        this.getPostingService()
+        this.getPostingService(),
+        this.getAuditService(),
+        repositories.unitOfWork
       );
     }
     return this._journalService;
   }
 
+  /**
+   * Get reporting service instance
+   */
+  static getReportingService(): ReportingService {
+    if (!this._reportingService) {
+      const repositories = this.getRepositories();
+      this._reportingService = new ReportingService(
+        repositories.ledgerRepository,
+        this.getAccountService()
+      );
+    }
+    return this._reportingService;
+  }
+
+  /**
+   * Get year-end close service instance
+   */
+  static getYearEndCloseService(): YearEndCloseService {
+    if (!this._yearEndCloseService) {
+      const repositories = this.getRepositories();
+      this._yearEndCloseService = new YearEndCloseService(
+        repositories.ledgerRepository,
+        this.getAccountService(),
+        this.getPeriodService(),
+        this.getJournalService(),
+        this.getPostingService(),
+        repositories.unitOfWork
+      );
+    }
+    return this._yearEndCloseService;
+  }
+
+  /**
+   * Get period close service instance
+   */
+  static getPeriodCloseService(): PeriodCloseService {
+    if (!this._periodCloseService) {
+      const repositories = this.getRepositories();
+      this._periodCloseService = new PeriodCloseService(
+        this.getPeriodService(),
+        repositories.journalRepository,
+        repositories.bankImportRepository,
+        this.getHashService(),
+        this.getReportingService(),
+        this.getFxRevaluationService()
+      );
+    }
+    return this._periodCloseService;
+  }
+
+  /**
+   * Get FX revaluation service instance
+   */
+  static getFxRevaluationService(): FxRevaluationService {
+    if (!this._fxRevaluationService) {
+      const repositories = this.getRepositories();
+      this._fxRevaluationService = new FxRevaluationService(
+        repositories.ledgerRepository,
+        this.getAccountService(),
+        this.getPeriodService(),
+        this.getJournalService(),
+        this.getPostingService(),
+        this.getExchangeRateService(),
+        repositories.unitOfWork
+      );
+    }
+    return this._fxRevaluationService;
+  }
+
+  /**
+   * Get VAT return service instance
+   */
+  static getVatReturnService(): VatReturnService {
+    if (!this._vatReturnService) {
+      const repositories = this.getRepositories();
+      this._vatReturnService = new VatReturnService(
+        repositories.ledgerRepository,
+        this.getTaxService(),
+        this.getAccountService()
+      );
+    }
+    return this._vatReturnService;
+  }
+
+  /**
+   * Get bank import service instance
+   */
+  static getBankImportService(): BankImportService {
+    if (!this._bankImportService) {
+      const repositories = this.getRepositories();
+      this._bankImportService = new BankImportService(
+        repositories.bankImportRepository,
+        this.getAccountService(),
+        this.getAuditService(),
+        repositories.unitOfWork
+      );
+    }
+    return this._bankImportService;
+  }
+
+  /**
+   * Get bank reconciliation service instance
+   */
+  static getBankReconciliationService(): BankReconciliationService {
+    if (!this._bankReconciliationService) {
+      const repositories = this.getRepositories();
+      this._bankReconciliationService = new BankReconciliationService(
+        repositories.bankReconciliationRepository,
+        this.getAccountService(),
+        this.getAuditService(),
+        repositories.unitOfWork
+      );
+    }
+    return this._bankReconciliationService;
+  }
+
   /**
    * Set custom repositories (for testing)
    */
@@ -89,10 +316,22 @@ export class ServiceFactory {
    * Reset all services (for testing)
    */
   static reset(): void {
+    this._auditService = null;
     this._periodService = null;
+    this._fiscalYearService = null;
+    this._accountService = null;
+    this._taxService = null;
+    this._exchangeRateService = null;
     this._hashService = null;
     this._postingService = null;
     this._journalService = null;
+    this._reportingService = null;
+    this._yearEndCloseService = null;
+    this._periodCloseService = null;
+    this._fxRevaluationService = null;
+    this._vatReturnService = null;
+    this._bankImportService = null;
+    this._bankReconciliationService = null;
   }
 }
 
@@ -101,9 +340,21 @@ export class ServiceFactory {
  */
 export interface ServiceContainer {
   periodService: PeriodService;
+  fiscalYearService: FiscalYearService;
+  accountService: AccountService;
+  taxService: TaxService;
+  exchangeRateService: ExchangeRateService;
   journalService: JournalService;
   hashService: HashService;
   postingService: PostingService;
+  reportingService: ReportingService;
+  yearEndCloseService: YearEndCloseService;
+  periodCloseService: PeriodCloseService;
+  fxRevaluationService: FxRevaluationService;
+  vatReturnService: VatReturnService;
+  bankImportService: BankImportService;
+  bankReconciliationService: BankReconciliationService;
+  auditService: AuditService;
 }
 
 /**
@@ -112,8 +363,20 @@ export interface ServiceContainer {
 export function createServiceContainer(): ServiceContainer {
   return {
     periodService: ServiceFactory.getPeriodService(),
+    fiscalYearService: ServiceFactory.getFiscalYearService(),
+    accountService: ServiceFactory.getAccountService(),
+    taxService: ServiceFactory.getTaxService(),
+    exchangeRateService: ServiceFactory.getExchangeRateService(),
     journalService: ServiceFactory.getJournalService(),
     hashService: ServiceFactory.getHashService(),
-    postingService: ServiceFactory.getPostingService()
+    postingService: ServiceFactory.getPostingService(),
+    reportingService: ServiceFactory.getReportingService(),
+    yearEndCloseService: ServiceFactory.getYearEndCloseService(),
+    periodCloseService: ServiceFactory.getPeriodCloseService(),
+    fxRevaluationService: ServiceFactory.getFxRevaluationService(),
+    vatReturnService: ServiceFactory.getVatReturnService(),
+    bankImportService: ServiceFactory.getBankImportService(),
+    bankReconciliationService: ServiceFactory.getBankReconciliationService(),
+    auditService: ServiceFactory.getAuditService()
   };
 }
\ No newline at end of file
@@ -0,0 +1,169 @@
+import type {CreateAccountCommand} from '@/application/use-cases/create-account-use-case';
+import type {UpdateAccountCommand} from '@/application/use-cases/update-account-use-case';
+import type {QueryAccountsQuery} from '@/application/use-cases/query-accounts-use-case';
+import type {GetAccountTreeQuery} from '@/application/use-cases/get-account-tree-use-case';
+import type {SetupChartOfAccountsCommand} from '@/application/use-cases/setup-chart-of-accounts-use-case';
+import {ACCOUNT_TYPES, SPECIAL_ACCOUNT_PURPOSES} from '@/domain/account/entities/account';
+import {
+    CHART_OF_ACCOUNTS_TEMPLATES,
+    ChartOfAccountsTemplateId,
+    DEFAULT_CHART_OF_ACCOUNTS_TEMPLATE
+} from '@/domain/account/templates';
+import {
+    AccountId,
+    AccountType,
+    SpecialAccountPurpose,
+    accountId as toAccountId,
+    currency
+} from '@/domain/shared/types';
+import {ApiRequestError} from './errors';
+import {ApiRequestContext} from './handler';
+import {optionalString, parseEnum, parsePositiveInteger, requireString} from './request';
+
+/**
+ * Translation of account API payloads into application layer commands
+ */
+
+const ACTIVE_FILTERS = ['true', 'false'] as const;
+
+/**
+ * Parse an account type field
+ */
+function parseAccountType(value: string, field: string): AccountType {
+    return parseEnum(value, ACCOUNT_TYPES, field) as AccountType;
+}
+
+/**
+ * Parse a special purpose field
+ */
+function parseSpecialPurpose(value: string): SpecialAccountPurpose {
+    return parseEnum(value, SPECIAL_ACCOUNT_PURPOSES, 'specialPurpose') as SpecialAccountPurpose;
+}
+
+/**
+ * Parse an account currency, defaulting to EUR
+ */
+function parseAccountCurrency(value: string | undefined) {
+    const code = (value ?? 'EUR').toUpperCase();
+    if (!/^[A-Z]{3}$/.test(code)) {
+        throw new ApiRequestError('INVALID_REQUEST', 'Currency must be an ISO 4217 code');
+    }
+    return currency(code);
+}
+
+/**
+ * Parse POST /api/accounts payload
+ */
+export function parseCreateAccountCommand(
+    body: Record<string, unknown>,
+    context: ApiRequestContext
+): CreateAccountCommand {
+    return {
+        organizationId: context.organizationId,
+        code: requireString(body, 'code'),
+        name: requireString(body, 'name'),
+        type: parseAccountType(requireString(body, 'type'), 'type'),
+        currency: parseAccountCurrency(optionalString(body, 'currency')),
+        parentId: body.parentId !== undefined && body.parentId !== null
+            ? toAccountId(requireString(body, 'parentId'))
+            : undefined,
+        specialPurpose: body.specialPurpose !== undefined && body.specialPurpose !== null
+            ? parseSpecialPurpose(requireString(body, 'specialPurpose'))
+            : undefined,
+        auditContext: context.auditContext
+    };
+}
+
+/**
+ * Parse PATCH /api/accounts/:id payload
+ */
+export function parseUpdateAccountCommand(
+    body: Record<string, unknown>,
+    accountId: AccountId,
+    context: ApiRequestContext
+): UpdateAccountCommand {
+    const updatableFields = ['code', 'name', 'type', 'currency', 'parentId', 'specialPurpose', 'isActive'];
+    const unknownFields = Object.keys(body).filter(key => !updatableFields.includes(key));
+    if (unknownFields.length > 0) {
+        throw new ApiRequestError(
+            'INVALID_REQUEST',
+            `Fields cannot be updated: ${unknownFields.join(', ')}. Updatable fields: ${updatableFields.join(', ')}`
+        );
+    }
+
+    if (Object.keys(body).length === 0) {
+        throw new ApiRequestError('INVALID_REQUEST', 'At least one field must be updated');
+    }
+
+    if (body.isActive !== undefined && typeof body.isActive !== 'boolean') {
+        throw new ApiRequestError('INVALID_REQUEST', 'Field "isActive" must be a boolean');
+    }
+
+    return {
+        accountId,
+        organizationId: context.organizationId,
+        code: body.code !== undefined ? requireString(body, 'code') : undefined,
+        name: body.name !== undefined ? requireString(body, 'name') : undefined,
+        type: body.type !== undefined ? parseAccountType(requireString(body, 'type'), 'type') : undefined,
+        currency: body.currency !== undefined ? parseAccountCurrency(requireString(body, 'currency')) : undefined,
+        parentId: body.parentId === null
+            ? null
+            : body.parentId !== undefined ? toAccountId(requireString(body, 'parentId')) : undefined,
+        specialPurpose: body.specialPurpose === null
+            ? null
+            : body.specialPurpose !== undefined ? parseSpecialPurpose(requireString(body, 'specialPurpose')) : undefined,
+        isActive: body.isActive as boolean | undefined,
+        auditContext: context.auditContext
+    };
+}
+
+/**
+ * Parse GET /api/accounts query parameters
+ */
+export function parseQueryAccountsQuery(
+    params: URLSearchParams,
+    context: ApiRequestContext
+): QueryAccountsQuery {
+    const active = parseEnum(params.get('active'), ACTIVE_FILTERS, 'active');
+
+    return {
+        organizationId: context.organizationId,
+        filters: {
+            type: parseEnum(params.get('type'), ACCOUNT_TYPES, 'type'),
+            isActive: active ? active === 'true' : undefined,
+            searchTerm: params.get('search') || undefined
+        },
+        auditContext: context.auditContext
+    };
+}
+
+/**
+ * Parse GET /api/accounts/tree query parameters
+ */
+export function parseGetAccountTreeQuery(
+    params: URLSearchParams,
+    context: ApiRequestContext
+): GetAccountTreeQuery {
+    return {
+        organizationId: context.organizationId,
+        maxLevel: parsePositiveInteger(params.get('maxLevel'), 'maxLevel'),
+        auditContext: context.auditContext
+    };
+}
+
+/**
+ * Parse POST /api/accounts/setup payload; the template defaults to the Austrian EKR
+ */
+export function parseSetupChartOfAccountsCommand(
+    body: Record<string, unknown>,
+    context: ApiRequestContext
+): SetupChartOfAccountsCommand {
+    const templateIds = Object.keys(CHART_OF_ACCOUNTS_TEMPLATES) as ChartOfAccountsTemplateId[];
+
+    return {
+        organizationId: context.organizationId,
+        templateId: parseEnum(optionalString(body, 'template') ?? null, templateIds, 'template') ??
+            DEFAULT_CHART_OF_ACCOUNTS_TEMPLATE,
+        auditContext: context.auditContext
+    };
+}
@@ -0,0 +1,221 @@
+import type {ImportBankStatementCommand} from '@/application/use-cases/import-bank-statement-use-case';
+import type {SuggestBankMatchesQuery} from '@/application/use-cases/suggest-bank-matches-use-case';
+import type {BankMatchCommand} from '@/application/use-cases/confirm-bank-match-use-case';
+import type {
+    GetBankReconciliationStatementQuery
+} from '@/application/use-cases/get-bank-reconciliation-statement-use-case';
+import {BANK_STATEMENT_FORMATS} from '@/domain/bank/entities/bank-import';
+import {accountId, bankTransactionId, journalLineId} from '@/domain/shared/types';
+import {
+    BANK_CSV_DATE_FORMATS,
+    BankCsvColumns,
+    BankCsvLayout
+} from '@/infrastructure/importers/bank-csv-parser';
+import {ApiRequestError} from './errors';
+import {ApiRequestContext} from './handler';
+import {
+    optionalString,
+    parseDate,
+    parseEnum,
+    parsePositiveInteger,
+    requireString
+} from './request';
+
+/**
+ * Translation of bank import and reconciliation API payloads into application layer commands
+ */
+
+const DECIMAL_SEPARATORS = ['.', ','] as const;
+const MAX_STATEMENT_SIZE = 10 * 1024 * 1024;
+const MAX_DATE_WINDOW_DAYS = 31;
+
+/**
+ * Read an optional nested object field
+ */
+function optionalObject(source: Record<string, unknown>, field: string): Record<string, unknown> | undefined {
+    const value = source[field];
+    if (value === undefined || value === null) {
+        return undefined;
+    }
+    if (typeof value !== 'object' || Array.isArray(value)) {
+        throw new ApiRequestError('INVALID_REQUEST', `Field "${field}" must be an object`);
+    }
+    return value as Record<string, unknown>;
+}
+
+/**
+ * Parse the column names of a CSV layout; the description may span several columns
+ */
+function parseCsvColumns(source: Record<string, unknown>): BankCsvColumns {
+    const description = source.description;
+    const descriptionColumns = typeof description === 'string' ? [description] : description;
+    if (!Array.isArray(descriptionColumns) || descriptionColumns.length === 0 ||
+        !descriptionColumns.every(column => typeof column === 'string' && column.trim())) {
+        throw new ApiRequestError(
+            'INVALID_REQUEST',
+            'Field "csvLayout.columns.description" must be a column name or a list of column names'
+        );
+    }
+
+    return {
+        date: requireString(source, 'date'),
+        amount: optionalString(source, 'amount'),
+        debit: optionalString(source, 'debit'),
+        credit: optionalString(source, 'credit'),
+        currency: optionalString(source, 'currency'),
+        description: descriptionColumns,
+        reference: optionalString(source, 'reference'),
+        counterparty: optionalString(source, 'counterparty'),
+        transactionId: optionalString(source, 'transactionId')
+    };
+}
+
+/**
+ * Parse the layout of a CSV bank statement
+ */
+function parseCsvLayout(source: Record<string, unknown>): BankCsvLayout {
+    const columns = optionalObject(source, 'columns');
+    if (!columns) {
+        throw new ApiRequestError('INVALID_REQUEST', 'Field "csvLayout.columns" is required');
+    }
+
+    const delimiter = optionalString(source, 'delimiter');
+    if (delimiter !== undefined && (delimiter.length === 0 || delimiter.length > 3)) {
+        throw new ApiRequestError('INVALID_REQUEST', 'Field "csvLayout.delimiter" must be 1 to 3 characters');
+    }
+
+    const skipRows = source.skipRows;
+    if (skipRows !== undefined && (!Number.isInteger(skipRows) || (skipRows as number) < 0)) {
+        throw new ApiRequestError('INVALID_REQUEST', 'Field "csvLayout.skipRows" must be a non-negative integer');
+    }
+
+    const currency = optionalString(source, 'currency')?.toUpperCase();
+    if (currency !== undefined && !/^[A-Z]{3}$/.test(currency)) {
+        throw new ApiRequestError('INVALID_REQUEST', 'Field "csvLayout.currency" must be an ISO 4217 code');
+    }
+
+    return {
+        delimiter,
+        decimalSeparator: parseEnum(
+            optionalString(source, 'decimalSeparator') ?? null,
+            DECIMAL_SEPARATORS,
+            'csvLayout.decimalSeparator'
+        ),
+        dateFormat: parseEnum(
+            optionalString(source, 'dateFormat') ?? null,
+            BANK_CSV_DATE_FORMATS,
+            'csvLayout.dateFormat'
+        ),
+        skipRows: skipRows as number | undefined,
+        currency,
+        columns: parseCsvColumns(columns)
+    };
+}
+
+/**
+ * Parse POST /api/import/bank payload
+ */
+export function parseImportBankStatementCommand(
+    body: Record<string, unknown>,
+    context: ApiRequestContext
+): ImportBankStatementCommand {
+    const content = requireString(body, 'content');
+    if (content.length > MAX_STATEMENT_SIZE) {
+        throw new ApiRequestError('INVALID_REQUEST', 'Field "content" must not exceed 10 MB');
+    }
+
+    const csvLayout = optionalObject(body, 'csvLayout');
+
+    return {
+        organizationId: context.organizationId,
+        accountId: accountId(requireString(body, 'accountId')),
+        fileName: requireString(body, 'fileName'),
+        content,
+        format: parseEnum(optionalString(body, 'format') ?? null, BANK_STATEMENT_FORMATS, 'format'),
+        csvLayout: csvLayout ? parseCsvLayout(csvLayout) : undefined,
+        auditContext: context.auditContext
+    };
+}
+
+/**
+ * Read a required non-empty list of IDs
+ */
+function requireIds(source: Record<string, unknown>, field: string): string[] {
+    const value = source[field];
+    if (!Array.isArray(value) || value.length === 0 ||
+        !value.every(id => typeof id === 'string' && id.trim())) {
+        throw new ApiRequestError('INVALID_REQUEST', `Field "${field}" must be a non-empty list of IDs`);
+    }
+    return value as string[];
+}
+
+/**
+ * Parse GET /api/bank-reconciliation/suggestions query parameters
+ */
+export function parseSuggestBankMatchesQuery(
+    params: URLSearchParams,
+    context: ApiRequestContext
+): SuggestBankMatchesQuery {
+    const account = params.get('accountId');
+    if (!account) {
+        throw new ApiRequestError('INVALID_REQUEST', 'Parameter "accountId" is required');
+    }
+
+    const startDate = params.get('startDate');
+    const endDate = params.get('endDate');
+    const dateWindowDays = parsePositiveInteger(params.get('dateWindowDays'), 'dateWindowDays');
+    if (dateWindowDays && dateWindowDays > MAX_DATE_WINDOW_DAYS) {
+        throw new ApiRequestError(
+            'INVALID_REQUEST',
+            `Parameter "dateWindowDays" must not exceed ${MAX_DATE_WINDOW_DAYS}`
+        );
+    }
+
+    return {
+        organizationId: context.organizationId,
+        accountId: accountId(account),
+        dateRange: {
+            startDate: startDate ? parseDate(startDate, 'startDate') : undefined,
+            endDate: endDate ? parseDate(endDate, 'endDate') : undefined
+        },
+        dateWindowDays,
+        auditContext: context.auditContext
+    };
+}
+
+/**
+ * Parse POST /api/bank-reconciliation/matches and /rejections payload
+ */
+export function parseBankMatchCommand(
+    body: Record<string, unknown>,
+    context: ApiRequestContext
+): BankMatchCommand {
+    return {
+        organizationId: context.organizationId,
+        accountId: accountId(requireString(body, 'accountId')),
+        transactionIds: requireIds(body, 'transactionIds').map(bankTransactionId),
+        journalLineIds: requireIds(body, 'journalLineIds').map(journalLineId),
+        auditContext: context.auditContext
+    };
+}
+
+/**
+ * Parse GET /api/bank-reconciliation/statement query parameters
+ */
+export function parseGetBankReconciliationStatementQuery(
+    params: URLSearchParams,
+    context: ApiRequestContext
+): GetBankReconciliationStatementQuery {
+    const account = params.get('accountId');
+    const cutoffDate = params.get('cutoffDate');
+    if (!account || !cutoffDate) {
+        throw new ApiRequestError('INVALID_REQUEST', 'Parameters "accountId" and "cutoffDate" are required');
+    }
+
+    return {
+        organizationId: context.organizationId,
+        accountId: accountId(account),
+        cutoffDate: parseDate(cutoffDate, 'cutoffDate'),
+        auditContext: context.auditContext
+    };
+}
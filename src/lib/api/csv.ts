@@ -0,0 +1,20 @@
+/**
+ * Minimal RFC 4180 CSV formatting for report exports
+ */
+
+export type CsvValue = string | number | boolean | null | undefined;
+
+/**
+ * Quote a CSV field if it contains the delimiter, quotes or line breaks
+ */
+function formatCsvField(value: CsvValue, delimiter: string): string {
+    const text = value === null || value === undefined ? '' : String(value);
+    return text.includes(delimiter) || /["\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Format rows as CSV with CRLF line endings
+ */
+export function formatCsv(rows: readonly (readonly CsvValue[])[], delimiter: string = ','): string {
+    return rows.map(row => row.map(value => formatCsvField(value, delimiter)).join(delimiter)).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,104 @@
+import {NextResponse} from 'next/server';
+import {DomainErrorCodes} from '@/domain/shared/types';
+
+/**
+ * Mapping of domain and use case error codes to HTTP status codes
+ * Unknown codes fall back to 400, unexpected exceptions to 500
+ */
+const ERROR_STATUS_MAP: Record<string, number> = {
+    [DomainErrorCodes.VALIDATION_FAILED]: 400,
+    [DomainErrorCodes.BUSINESS_RULE_VIOLATION]: 422,
+    [DomainErrorCodes.UNBALANCED_JOURNAL]: 422,
+    [DomainErrorCodes.ENTITY_NOT_FOUND]: 404,
+    [DomainErrorCodes.PERIOD_CLOSED]: 409,
+    [DomainErrorCodes.JOURNAL_ALREADY_POSTED]: 409,
+    [DomainErrorCodes.INVALID_HASH_CHAIN]: 500,
+    [DomainErrorCodes.INVALID_ACCOUNT]: 422,
+    [DomainErrorCodes.EXCHANGE_RATE_NOT_FOUND]: 422,
+    [DomainErrorCodes.FX_001]: 409,
+    [DomainErrorCodes.TAX_CONFIG_NOT_FOUND]: 422,
+    [DomainErrorCodes.TAX_MISMATCH]: 422,
+    INVALID_REQUEST: 400,
+    FORBIDDEN: 403,
+    JOURNAL_NOT_FOUND: 404,
+    JOURNAL_NOT_DRAFT: 409,
+    JOURNAL_IMMUTABLE: 405,
+    JOURNAL_NOT_POSTED: 409,
+    ALREADY_REVERSED: 409,
+    IDEMPOTENCY_CONFLICT: 409,
+    IDEMPOTENCY_REQUEST_IN_PROGRESS: 409,
+    INTERNAL_ERROR: 500,
+};
+
+/**
+ * Error raised while parsing an API request into a use case command
+ */
+export class ApiRequestError extends Error {
+    constructor(
+        public readonly code: string,
+        message: string,
+        public readonly status: number = 400
+    ) {
+        super(message);
+        this.name = 'ApiRequestError';
+    }
+}
+
+/**
+ * Resolve the HTTP status for an error code
+ */
+export function getErrorStatus(code: string): number {
+    return ERROR_STATUS_MAP[code] ?? 400;
+}
+
+/**
+ * Check whether a value has the `{ code, message }` domain error shape
+ * Thrown Error instances (e.g. database driver errors) are never treated as domain errors
+ */
+function isCodedError(error: unknown): error is { code: string; message: string; details?: Record<string, unknown> } {
+    return typeof error === 'object' &&
+        error !== null &&
+        !(error instanceof Error) &&
+        typeof (error as { code?: unknown }).code === 'string' &&
+        typeof (error as { message?: unknown }).message === 'string';
+}
+
+/**
+ * Convert a use case failure or thrown error into the standard API error response
+ * Format: { code, message, details? } as defined in REQUIREMENTS.md §11
+ */
+export function createApiErrorResponse(error: unknown): NextResponse {
+    if (error instanceof ApiRequestError) {
+        return NextResponse.json(
+            {code: error.code, message: error.message},
+            {status: error.status}
+        );
+    }
+
+    if (isCodedError(error)) {
+        const status = getErrorStatus(error.code);
+
+        if (status >= 500) {
+            console.error('API error:', error);
+        }
+
+        return NextResponse.json(
+            {
+                code: error.code,
+                message: error.message,
+                ...(error.details ? {details: error.details} : {})
+            },
+            {status}
+        );
+    }
+
+    console.error('Unexpected API error:', error);
+
+    return NextResponse.json(
+        {
+            code: 'INTERNAL_ERROR',
+            message: 'An unexpected error occurred'
+        },
+        {status: 500}
+    );
+}
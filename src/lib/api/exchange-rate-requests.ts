@@ -0,0 +1,37 @@
+import type {GetExchangeRateQuery} from '@/application/use-cases/get-exchange-rate-use-case';
+import {currency} from '@/domain/shared/types';
+import {ApiRequestError} from './errors';
+import {ApiRequestContext} from './handler';
+import {parseDate} from './request';
+
+/**
+ * Translation of exchange rate API query parameters into application layer queries
+ */
+
+/**
+ * Parse a required currency query parameter
+ */
+function parseCurrencyParam(params: URLSearchParams, field: string) {
+    const code = params.get(field)?.toUpperCase();
+    if (!code || !/^[A-Z]{3}$/.test(code)) {
+        throw new ApiRequestError('INVALID_REQUEST', `Parameter "${field}" must be an ISO 4217 code`);
+    }
+    return currency(code);
+}
+
+/**
+ * Parse GET /api/exchange-rates query parameters; the date defaults to today
+ */
+export function parseGetExchangeRateQuery(
+    params: URLSearchParams,
+    context: ApiRequestContext
+): GetExchangeRateQuery {
+    const date = params.get('date');
+
+    return {
+        organizationId: context.organizationId,
+        fromCurrency: parseCurrencyParam(params, 'from'),
+        toCurrency: parseCurrencyParam(params, 'to'),
+        date: date ? parseDate(date, 'date') : new Date()
+    };
+}
@@ -0,0 +1,92 @@
+import {NextRequest, NextResponse} from 'next/server';
+import {AuthContext, createSuccessResponse, requireOrganization} from '@/lib/auth-middleware';
+import {AuditContext, OrganizationId, organizationId} from '@/domain/shared/types';
+import {Result} from '@/domain/shared/result';
+import {createApiErrorResponse} from './errors';
+import {buildAuditContext} from './request';
+
+/**
+ * Context passed to authenticated API route handlers
+ */
+export interface ApiRequestContext {
+    authContext: AuthContext;
+    organizationId: OrganizationId;
+    auditContext: AuditContext;
+}
+
+/**
+ * Run an API route handler with authentication, organization context and error mapping
+ * Unauthenticated requests receive HTTP 401, requests without organization HTTP 403
+ */
+export async function handleApiRequest(
+    request: NextRequest,
+    handler: (context: ApiRequestContext) => Promise<NextResponse>
+): Promise<NextResponse> {
+    return requireOrganization(request, async (authContext) => {
+        try {
+            return await handler({
+                authContext,
+                organizationId: organizationId(authContext.organizationId),
+                auditContext: buildAuditContext(request, authContext),
+            });
+        } catch (error) {
+            return createApiErrorResponse(error);
+        }
+    });
+}
+
+/**
+ * Convert a use case result into an API response
+ */
+export function createResultResponse<T>(
+    result: Result<T, unknown>,
+    serialize: (value: T) => unknown,
+    status: number = 200
+): NextResponse {
+    if (result.isFailure()) {
+        return createApiErrorResponse(result.error);
+    }
+
+    return createSuccessResponse(serialize(result.value), status);
+}
+
+/**
+ * Convert a use case result into a CSV download
+ */
+export function createCsvResultResponse<T>(
+    result: Result<T, unknown>,
+    format: (value: T) => string,
+    filename: string
+): NextResponse {
+    return createFileResultResponse(result, format, filename, 'text/csv; charset=utf-8');
+}
+
+/**
+ * Convert a use case result into an XML download
+ */
+export function createXmlResultResponse<T>(
+    result: Result<T, unknown>,
+    format: (value: T) => string,
+    filename: string
+): NextResponse {
+    return createFileResultResponse(result, format, filename, 'application/xml; charset=utf-8');
+}
+
+function createFileResultResponse<T>(
+    result: Result<T, unknown>,
+    format: (value: T) => string,
+    filename: string,
+    contentType: string
+): NextResponse {
+    if (result.isFailure()) {
+        return createApiErrorResponse(result.error);
+    }
+
+    return new NextResponse(format(result.value), {
+        status: 200,
+        headers: {
+            'Content-Type': contentType,
+            'Content-Disposition': `attachment; filename="${filename}"`,
+        },
+    });
+}
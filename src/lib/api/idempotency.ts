@@ -0,0 +1,149 @@
+import {createHash} from 'crypto';
+import {NextRequest, NextResponse} from 'next/server';
+import {RepositoryFactory} from '@/infrastructure/repositories/repository-factory';
+import {ApiRequestError, createApiErrorResponse} from './errors';
+import {ApiRequestContext} from './handler';
+
+/**
+ * Idempotency-Key support for mutating API routes
+ * The first response for a key is stored and replayed for every retry with the same payload
+ */
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+export const IDEMPOTENT_REPLAY_HEADER = 'Idempotent-Replayed';
+
+const IDEMPOTENCY_KEY_TTL_DAYS = 30;
+const RESERVATION_LEASE_MINUTES = 2; // A crashed request frees its key once the lease runs out
+const MAX_KEY_LENGTH = 255;
+const REPLAYED_HEADERS = ['Allow', 'Location', 'Retry-After'];
+
+/**
+ * Hash the method, path and body of a request so that a reused key can be matched against it
+ */
+async function hashRequest(request: NextRequest): Promise<string> {
+    const body = await request.clone().text();
+
+    return createHash('sha256')
+        .update(`${request.method}\n${request.nextUrl.pathname}\n${body}`)
+        .digest('hex');
+}
+
+/**
+ * Read and validate the Idempotency-Key header
+ */
+function readIdempotencyKey(request: NextRequest): string | undefined {
+    const key = request.headers.get(IDEMPOTENCY_KEY_HEADER)?.trim();
+    if (!key) {
+        return undefined;
+    }
+    if (key.length > MAX_KEY_LENGTH) {
+        throw new ApiRequestError(
+            'INVALID_REQUEST',
+            `Header "${IDEMPOTENCY_KEY_HEADER}" must not exceed ${MAX_KEY_LENGTH} characters`
+        );
+    }
+    return key;
+}
+
+/**
+ * Run a mutating route handler at most once per Idempotency-Key
+ * Requests without the header are executed unchanged. A retry with the same key and payload
+ * receives the stored response and its headers; a different payload, or a retry while the first
+ * request is still running, receives HTTP 409. Server errors release the key so the request can be
+ * retried, and a reservation that is never completed lapses after a short lease.
+ */
+export async function withIdempotency(
+    request: NextRequest,
+    context: ApiRequestContext,
+    handler: () => Promise<NextResponse>
+): Promise<NextResponse> {
+    const key = readIdempotencyKey(request);
+    if (!key) {
+        return handler();
+    }
+
+    const repository = RepositoryFactory.getIdempotencyRepository();
+    const requestHash = await hashRequest(request);
+    const leaseExpiresAt = new Date(Date.now() + RESERVATION_LEASE_MINUTES * 60 * 1000);
+
+    const reserveResult = await repository.reserve(context.organizationId, key, requestHash, leaseExpiresAt);
+    if (reserveResult.isFailure()) {
+        return createApiErrorResponse(reserveResult.error);
+    }
+
+    if (!reserveResult.value) {
+        return replayStoredResponse(context, key, requestHash);
+    }
+
+    let response: NextResponse;
+    try {
+        response = await handler();
+    } catch (error) {
+        response = createApiErrorResponse(error);
+    }
+
+    if (response.status >= 500) {
+        const releaseResult = await repository.release(context.organizationId, key);
+        if (releaseResult.isFailure()) {
+            console.error('Failed to release idempotency key:', releaseResult.error);
+        }
+        return response;
+    }
+
+    const headers: Record<string, string> = {};
+    for (const name of REPLAYED_HEADERS) {
+        const value = response.headers.get(name);
+        if (value !== null) {
+            headers[name] = value;
+        }
+    }
+
+    const expiresAt = new Date(Date.now() + IDEMPOTENCY_KEY_TTL_DAYS * 24 * 60 * 60 * 1000);
+    const completeResult = await repository.complete(context.organizationId, key, {
+        status: response.status,
+        body: await response.clone().json(),
+        headers
+    }, expiresAt);
+    if (completeResult.isFailure()) {
+        console.error('Failed to store idempotent response:', completeResult.error);
+    }
+
+    return response;
+}
+
+/**
+ * Answer a request whose key is already taken
+ */
+async function replayStoredResponse(
+    context: ApiRequestContext,
+    key: string,
+    requestHash: string
+): Promise<NextResponse> {
+    const recordResult = await RepositoryFactory.getIdempotencyRepository().findActive(context.organizationId, key);
+    if (recordResult.isFailure()) {
+        return createApiErrorResponse(recordResult.error);
+    }
+
+    const record = recordResult.value;
+
+    if (record && record.requestHash !== requestHash) {
+        return createApiErrorResponse({
+            code: 'IDEMPOTENCY_CONFLICT',
+            message: `${IDEMPOTENCY_KEY_HEADER} was already used for a different request`,
+            details: {key}
+        });
+    }
+
+    if (!record?.response) {
+        return createApiErrorResponse({
+            code: 'IDEMPOTENCY_REQUEST_IN_PROGRESS',
+            message: `A request with this ${IDEMPOTENCY_KEY_HEADER} is still being processed`,
+            details: {key}
+        });
+    }
+
+    return NextResponse.json(record.response.body, {
+        status: record.response.status,
+        headers: {...record.response.headers, [IDEMPOTENT_REPLAY_HEADER]: 'true'}
+    });
+}
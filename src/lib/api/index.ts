@@ -0,0 +1,99 @@
+// Public API helper exports
+
+export {ApiRequestError, createApiErrorResponse, getErrorStatus} from './errors';
+export {handleApiRequest, createResultResponse, createCsvResultResponse, createXmlResultResponse} from './handler';
+export {formatCsv} from './csv';
+export {formatXml} from './xml';
+export {withIdempotency, IDEMPOTENCY_KEY_HEADER, IDEMPOTENT_REPLAY_HEADER} from './idempotency';
+export {
+    buildAuditContext,
+    parseJsonBody,
+    requireString,
+    optionalString,
+    optionalDecimal,
+    requireDate,
+    optionalDate,
+    parseDate,
+    parsePositiveInteger,
+    parseEnum
+} from './request';
+export {
+    serializeAccount,
+    serializeAccountTreeNode,
+    serializeJournal,
+    serializeJournalLine,
+    serializeMoney,
+    serializeTrialBalance,
+    serializeTrialBalanceLine,
+    serializeGeneralLedger,
+    serializeGeneralLedgerAccount,
+    serializeGeneralLedgerEntry,
+    serializeFinancialStatement,
+    serializeFinancialStatementLine,
+    serializeStatementColumn,
+    formatFinancialStatementCsv,
+    serializeClosePlanLine,
+    serializeYearEndClosePlan,
+    serializeFxRevaluationPlan,
+    serializePeriod,
+    serializeFiscalYear,
+    serializePeriodCloseChecklist,
+    serializeExchangeRate,
+    serializeVatReturn,
+    serializeVatReturnCode,
+    formatVatReturnXml,
+    formatVatReturnCsv,
+    serializeEcSalesList,
+    serializeEcSalesListEntry,
+    formatEcSalesListCsv,
+    serializeBankImport,
+    serializeBankTransaction,
+    serializeBookLine,
+    serializeMatchSuggestion,
+    serializeBankMatch,
+    serializeReconciliationStatement
+} from './serializers';
+export {
+    parseJournalLines,
+    parseCreateJournalCommand,
+    parseUpdateJournalCommand,
+    parseReverseJournalCommand,
+    parseQueryJournalsQuery
+} from './journal-requests';
+export {
+    parseCreateAccountCommand,
+    parseUpdateAccountCommand,
+    parseQueryAccountsQuery,
+    parseGetAccountTreeQuery,
+    parseSetupChartOfAccountsCommand
+} from './account-requests';
+export {
+    parseGetTrialBalanceQuery,
+    parseGetGeneralLedgerQuery,
+    parseGetFinancialStatementQuery,
+    parseReportFormat,
+    parseVatReturnFormat,
+    parseGetVatReturnQuery,
+    parseTaxNumber,
+    parseGetEcSalesListQuery
+} from './report-requests';
+export {
+    parseImportBankStatementCommand,
+    parseSuggestBankMatchesQuery,
+    parseBankMatchCommand,
+    parseGetBankReconciliationStatementQuery
+} from './bank-requests';
+export {
+    parseCloseFiscalYearCommand,
+    parseRevalueForeignCurrencyCommand,
+    parseGenerateFiscalYearCommand,
+    parseFinalizeFiscalYearCommand,
+    parseGetPeriodCloseChecklistQuery,
+    parseClosePeriodCommand
+} from './period-requests';
+export {parseGetExchangeRateQuery} from './exchange-rate-requests';
+export type {ApiRequestContext} from './handler';
+export type {CsvValue} from './csv';
+export type {XmlElement} from './xml';
+export type {ReportFormat, VatReturnFormat} from './report-requests';
+export type {SerializedMoney, SerializedAccountTreeNode, VatReturnFileOptions} from './serializers';
@@ -0,0 +1,247 @@
+import type {
+    CreateJournalCommand,
+    CreateJournalLineCommand
+} from '@/application/use-cases/create-journal-use-case';
+import type {
+    UpdateJournalCommand,
+    UpdateJournalLineCommand
+} from '@/application/use-cases/update-journal-use-case';
+import type {QueryJournalsQuery} from '@/application/use-cases/query-journals-use-case';
+import type {ReverseJournalCommand} from '@/application/use-cases/reverse-journal-use-case';
+import {
+    JournalId,
+    JournalStatus,
+    accountId,
+    currency,
+    periodId
+} from '@/domain/shared/types';
+import {ApiRequestError} from './errors';
+import {ApiRequestContext} from './handler';
+import {
+    optionalDate,
+    optionalDecimal,
+    optionalString,
+    parseDate,
+    parseEnum,
+    parsePositiveInteger,
+    requireDate,
+    requireString
+} from './request';
+
+/**
+ * Translation of journal API payloads into application layer commands
+ */
+
+const JOURNAL_STATUSES: readonly JournalStatus[] = ['draft', 'posted', 'reversed'];
+const SORT_FIELDS = ['journalNumber', 'postingDate', 'createdAt', 'totalAmount', 'status'] as const;
+const SORT_ORDERS = ['asc', 'desc'] as const;
+const MAX_PAGE_SIZE = 200;
+const EXCHANGE_RATE_FIELDS = ['exchangeRate', 'fxRate', 'fx_rate'];
+
+/**
+ * Parse a currency code, defaulting to the given fallback
+ */
+function parseCurrency(value: string | undefined, fallback?: string) {
+    const code = (value ?? fallback)?.toUpperCase();
+    if (!code || !/^[A-Z]{3}$/.test(code)) {
+        throw new ApiRequestError('INVALID_REQUEST', 'Currency must be an ISO 4217 code');
+    }
+    return currency(code);
+}
+
+/**
+ * Parse a numeric amount query parameter
+ */
+function parseAmountParameter(value: string, field: string): number {
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed)) {
+        throw new ApiRequestError('INVALID_REQUEST', `Parameter "${field}" must be a number`);
+    }
+    return parsed;
+}
+
+/**
+ * Parse a single journal line payload; currency stays unset unless given
+ */
+function parseJournalLine(raw: unknown, index: number): UpdateJournalLineCommand {
+    if (typeof raw !== 'object' || raw === null) {
+        throw new ApiRequestError('INVALID_REQUEST', `Line ${index + 1} must be an object`);
+    }
+
+    const line = raw as Record<string, unknown>;
+    const original = line.originalAmount as Record<string, unknown> | undefined;
+    const lineCurrency = optionalString(line, 'currency');
+    const partnerVatId = optionalString(line, 'partnerVatId')?.replace(/\s/g, '').toUpperCase();
+
+    return {
+        accountId: accountId(requireString(line, 'accountId')),
+        description: optionalString(line, 'description') ?? '',
+        debitAmount: optionalDecimal(line, 'debitAmount'),
+        creditAmount: optionalDecimal(line, 'creditAmount'),
+        originalAmount: original ? {
+            amount: optionalDecimal(original, 'amount') ?? '0',
+            currency: parseCurrency(optionalString(original, 'currency'))
+        } : undefined,
+        exchangeRate: optionalDecimal(line, 'exchangeRate'),
+        taxCode: optionalString(line, 'taxCode'),
+        taxAmount: optionalDecimal(line, 'taxAmount'),
+        taxRate: optionalDecimal(line, 'taxRate'),
+        partnerVatId: partnerVatId || undefined,
+        currency: lineCurrency ? parseCurrency(lineCurrency) : undefined
+    };
+}
+
+/**
+ * Parse the `lines` array of a journal payload
+ */
+function parseLineArray(value: unknown): UpdateJournalLineCommand[] {
+    if (!Array.isArray(value) || value.length === 0) {
+        throw new ApiRequestError('INVALID_REQUEST', 'Field "lines" must be a non-empty array');
+    }
+
+    return value.map(parseJournalLine);
+}
+
+/**
+ * Parse the `lines` array of a journal payload, defaulting line currencies to the journal currency
+ */
+export function parseJournalLines(value: unknown, journalCurrency: string): CreateJournalLineCommand[] {
+    const fallback = parseCurrency(journalCurrency);
+    return parseLineArray(value).map(line => ({...line, currency: line.currency ?? fallback}));
+}
+
+/**
+ * Parse POST /api/journals payload
+ */
+export function parseCreateJournalCommand(
+    body: Record<string, unknown>,
+    context: ApiRequestContext
+): CreateJournalCommand {
+    const journalCurrency = parseCurrency(optionalString(body, 'currency'), 'EUR');
+
+    return {
+        organizationId: context.organizationId,
+        periodId: periodId(requireString(body, 'periodId')),
+        journalNumber: optionalString(body, 'journalNumber'),
+        numberPrefix: optionalString(body, 'numberPrefix'),
+        description: requireString(body, 'description'),
+        reference: optionalString(body, 'reference'),
+        postingDate: requireDate(body, 'postingDate'),
+        currency: journalCurrency,
+        lines: parseJournalLines(body.lines, journalCurrency),
+        extUid: optionalString(body, 'extUid'),
+        auditContext: context.auditContext
+    };
+}
+
+/**
+ * Parse POST /api/journals/:id/reverse payload; the reversal date defaults to today (UTC)
+ */
+export function parseReverseJournalCommand(
+    body: Record<string, unknown>,
+    journalId: JournalId,
+    context: ApiRequestContext
+): ReverseJournalCommand {
+    return {
+        originalJournalId: journalId,
+        organizationId: context.organizationId,
+        reversalDate: optionalDate(body, 'reversalDate') ?? new Date(new Date().toISOString().slice(0, 10)),
+        description: optionalString(body, 'description'),
+        auditContext: context.auditContext
+    };
+}
+
+/**
+ * Parse PATCH /api/journals/:id payload
+ */
+export function parseUpdateJournalCommand(
+    body: Record<string, unknown>,
+    journalId: JournalId,
+    context: ApiRequestContext
+): UpdateJournalCommand {
+    const updatableFields = ['description', 'reference', 'postingDate', 'lines', ...EXCHANGE_RATE_FIELDS];
+    const unknownFields = Object.keys(body).filter(key => !updatableFields.includes(key));
+    if (unknownFields.length > 0) {
+        throw new ApiRequestError(
+            'INVALID_REQUEST',
+            `Fields cannot be updated: ${unknownFields.join(', ')}. Updatable fields: ${updatableFields.join(', ')}`
+        );
+    }
+
+    if (Object.keys(body).length === 0) {
+        throw new ApiRequestError('INVALID_REQUEST', 'At least one field must be updated');
+    }
+
+    const exchangeRateFields = EXCHANGE_RATE_FIELDS.filter(field => body[field] !== undefined);
+    if (exchangeRateFields.length > 1) {
+        throw new ApiRequestError('INVALID_REQUEST', `Only one of ${exchangeRateFields.join(', ')} may be given`);
+    }
+
+    return {
+        journalId,
+        organizationId: context.organizationId,
+        description: body.description !== undefined ? requireString(body, 'description') : undefined,
+        reference: optionalString(body, 'reference'),
+        postingDate: optionalDate(body, 'postingDate'),
+        lines: body.lines !== undefined ? parseLineArray(body.lines) : undefined,
+        exchangeRate: exchangeRateFields.length > 0 ? optionalDecimal(body, exchangeRateFields[0]) : undefined,
+        auditContext: context.auditContext
+    };
+}
+
+/**
+ * Parse GET /api/journals query parameters
+ */
+export function parseQueryJournalsQuery(
+    params: URLSearchParams,
+    context: ApiRequestContext
+): QueryJournalsQuery {
+    const startDate = params.get('startDate');
+    const endDate = params.get('endDate');
+    const minAmount = params.get('minAmount');
+    const maxAmount = params.get('maxAmount');
+
+    const hasSelector = ['journalNumber', 'extUid', 'periodId'].some(key => params.get(key)) ||
+        (startDate && endDate);
+    if (!hasSelector) {
+        throw new ApiRequestError(
+            'INVALID_REQUEST',
+            'One of "periodId", "journalNumber", "extUid" or "startDate" and "endDate" is required'
+        );
+    }
+
+    const page = parsePositiveInteger(params.get('page'), 'page');
+    const pageSize = parsePositiveInteger(params.get('pageSize'), 'pageSize');
+    if (pageSize && pageSize > MAX_PAGE_SIZE) {
+        throw new ApiRequestError('INVALID_REQUEST', `Parameter "pageSize" must not exceed ${MAX_PAGE_SIZE}`);
+    }
+
+    const sortBy = parseEnum(params.get('sortBy'), SORT_FIELDS, 'sortBy');
+    const sortOrder = parseEnum(params.get('sortOrder'), SORT_ORDERS, 'sortOrder');
+
+    return {
+        organizationId: context.organizationId,
+        journalNumber: params.get('journalNumber') || undefined,
+        extUid: params.get('extUid') || undefined,
+        periodId: params.get('periodId') ? periodId(params.get('periodId')!) : undefined,
+        dateRange: startDate && endDate ? {
+            startDate: parseDate(startDate, 'startDate'),
+            endDate: parseDate(endDate, 'endDate')
+        } : undefined,
+        filters: {
+            status: parseEnum(params.get('status'), JOURNAL_STATUSES, 'status'),
+            searchTerm: params.get('search') || undefined,
+            currency: params.get('currency')?.toUpperCase() || undefined,
+            amountRange: minAmount || maxAmount ? {
+                minAmount: minAmount ? parseAmountParameter(minAmount, 'minAmount') : 0,
+                maxAmount: maxAmount ? parseAmountParameter(maxAmount, 'maxAmount') : Number.MAX_SAFE_INTEGER
+            } : undefined
+        },
+        sorting: sortBy || sortOrder ? {sortBy, sortOrder} : undefined,
+        pagination: {
+            page: page ?? 1,
+            pageSize: pageSize ?? 50
+        },
+        auditContext: context.auditContext
+    };
+}
@@ -0,0 +1,164 @@
+import type {CloseFiscalYearCommand} from '@/application/use-cases/close-fiscal-year-use-case';
+import type {GenerateFiscalYearCommand} from '@/application/use-cases/generate-fiscal-year-use-case';
+import type {FinalizeFiscalYearCommand} from '@/application/use-cases/finalize-fiscal-year-use-case';
+import type {GetPeriodCloseChecklistQuery} from '@/application/use-cases/get-period-close-checklist-use-case';
+import type {ClosePeriodCommand} from '@/application/use-cases/close-period-use-case';
+import type {RevalueForeignCurrencyCommand} from '@/application/use-cases/revalue-foreign-currency-use-case';
+import {PERIOD_CLOSE_CHECKS, PeriodCloseWaiver} from '@/domain/closing/value-objects/period-close-checklist';
+import {FiscalYearId, PeriodFrequency, PeriodId, currency} from '@/domain/shared/types';
+import {ApiRequestError} from './errors';
+import {ApiRequestContext} from './handler';
+import {optionalString, parseEnum, requireDate} from './request';
+
+const PERIOD_FREQUENCIES: readonly PeriodFrequency[] = ['monthly', 'quarterly'];
+
+/**
+ * Translation of period API payloads into application layer commands
+ */
+
+/**
+ * Parse a currency code, defaulting to EUR
+ */
+function parseCurrency(value: string | null | undefined) {
+    const code = (value || 'EUR').toUpperCase();
+    if (!/^[A-Z]{3}$/.test(code)) {
+        throw new ApiRequestError('INVALID_REQUEST', 'Currency must be an ISO 4217 code');
+    }
+    return currency(code);
+}
+
+/**
+ * Parse POST /api/periods/:id/close-year payload
+ */
+export function parseCloseFiscalYearCommand(
+    body: Record<string, unknown>,
+    closingPeriodId: PeriodId,
+    context: ApiRequestContext
+): CloseFiscalYearCommand {
+    if (body.dryRun !== undefined && typeof body.dryRun !== 'boolean') {
+        throw new ApiRequestError('INVALID_REQUEST', 'Field "dryRun" must be a boolean');
+    }
+
+    return {
+        organizationId: context.organizationId,
+        closingPeriodId,
+        currency: parseCurrency(optionalString(body, 'currency')),
+        dryRun: body.dryRun === true,
+        auditContext: context.auditContext
+    };
+}
+
+/**
+ * Parse POST /api/periods/:id/fx-revaluation payload
+ */
+export function parseRevalueForeignCurrencyCommand(
+    body: Record<string, unknown>,
+    periodId: PeriodId,
+    context: ApiRequestContext
+): RevalueForeignCurrencyCommand {
+    if (body.dryRun !== undefined && typeof body.dryRun !== 'boolean') {
+        throw new ApiRequestError('INVALID_REQUEST', 'Field "dryRun" must be a boolean');
+    }
+
+    return {
+        organizationId: context.organizationId,
+        periodId,
+        currency: parseCurrency(optionalString(body, 'currency')),
+        dryRun: body.dryRun === true,
+        auditContext: context.auditContext
+    };
+}
+
+/**
+ * Parse POST /api/fiscal-years payload
+ */
+export function parseGenerateFiscalYearCommand(
+    body: Record<string, unknown>,
+    context: ApiRequestContext
+): GenerateFiscalYearCommand {
+    if (body.adjustmentPeriod !== undefined && typeof body.adjustmentPeriod !== 'boolean') {
+        throw new ApiRequestError('INVALID_REQUEST', 'Field "adjustmentPeriod" must be a boolean');
+    }
+
+    return {
+        organizationId: context.organizationId,
+        name: optionalString(body, 'name'),
+        startDate: requireDate(body, 'startDate'),
+        frequency: parseEnum(optionalString(body, 'frequency') ?? null, PERIOD_FREQUENCIES, 'frequency') ?? 'monthly',
+        adjustmentPeriod: body.adjustmentPeriod === true,
+        auditContext: context.auditContext
+    };
+}
+
+/**
+ * Build the command for POST /api/fiscal-years/:id/finalize
+ */
+export function parseFinalizeFiscalYearCommand(
+    fiscalYearId: FiscalYearId,
+    context: ApiRequestContext
+): FinalizeFiscalYearCommand {
+    return {
+        organizationId: context.organizationId,
+        fiscalYearId,
+        auditContext: context.auditContext
+    };
+}
+
+/**
+ * Parse GET /api/periods/:id/close-checklist query parameters
+ */
+export function parseGetPeriodCloseChecklistQuery(
+    params: URLSearchParams,
+    periodId: PeriodId,
+    context: ApiRequestContext
+): GetPeriodCloseChecklistQuery {
+    return {
+        organizationId: context.organizationId,
+        periodId,
+        currency: parseCurrency(params.get('currency'))
+    };
+}
+
+/**
+ * Parse POST /api/periods/:id/close payload
+ */
+export function parseClosePeriodCommand(
+    body: Record<string, unknown>,
+    periodId: PeriodId,
+    context: ApiRequestContext
+): ClosePeriodCommand {
+    return {
+        organizationId: context.organizationId,
+        periodId,
+        currency: parseCurrency(optionalString(body, 'currency')),
+        waivers: parseWaivers(body.waivers),
+        auditContext: context.auditContext
+    };
+}
+
+/**
+ * Parse the waivers of failed pre-close checks
+ */
+function parseWaivers(value: unknown): PeriodCloseWaiver[] {
+    if (value === undefined || value === null) {
+        return [];
+    }
+    if (!Array.isArray(value)) {
+        throw new ApiRequestError('INVALID_REQUEST', 'Field "waivers" must be an array');
+    }
+
+    return value.map((item, index) => {
+        if (!item || typeof item !== 'object') {
+            throw new ApiRequestError('INVALID_REQUEST', `Waiver ${index + 1} must be an object`);
+        }
+
+        const waiver = item as Record<string, unknown>;
+        const code = parseEnum(optionalString(waiver, 'code') ?? null, PERIOD_CLOSE_CHECKS, 'code');
+        const reason = optionalString(waiver, 'reason')?.trim();
+        if (!code || !reason) {
+            throw new ApiRequestError('INVALID_REQUEST', `Waiver ${index + 1} requires a "code" and a "reason"`);
+        }
+
+        return {code, reason};
+    });
+}
@@ -0,0 +1,227 @@
+import type {GetTrialBalanceQuery} from '@/application/use-cases/get-trial-balance-use-case';
+import type {GetGeneralLedgerQuery} from '@/application/use-cases/get-general-ledger-use-case';
+import type {
+    GetFinancialStatementQuery,
+    StatementRange
+} from '@/application/use-cases/get-financial-statement-use-case';
+import type {GetVatReturnQuery} from '@/application/use-cases/get-vat-return-use-case';
+import type {GetEcSalesListQuery} from '@/application/use-cases/get-ec-sales-list-use-case';
+import type {FinancialStatementType} from '@/domain/reporting/layouts';
+import {accountId, currency, periodId} from '@/domain/shared/types';
+import {ApiRequestError} from './errors';
+import {ApiRequestContext} from './handler';
+import {parseDate, parseEnum, parsePositiveInteger} from './request';
+
+/**
+ * Translation of report API query parameters into application layer queries
+ */
+
+const BOOLEAN_FLAGS = ['true', 'false'] as const;
+const MAX_LEDGER_PAGE_SIZE = 1000;
+const REPORT_FORMATS = ['json', 'csv'] as const;
+const VAT_RETURN_FORMATS = ['json', 'xml', 'csv'] as const;
+
+export type ReportFormat = typeof REPORT_FORMATS[number];
+export type VatReturnFormat = typeof VAT_RETURN_FORMATS[number];
+
+/**
+ * Parse a report currency, defaulting to EUR
+ */
+function parseReportCurrency(value: string | null) {
+    const code = (value || 'EUR').toUpperCase();
+    if (!/^[A-Z]{3}$/.test(code)) {
+        throw new ApiRequestError('INVALID_REQUEST', 'Currency must be an ISO 4217 code');
+    }
+    return currency(code);
+}
+
+/**
+ * Parse the optional country of a tax report
+ */
+function parseReportCountry(value: string | null) {
+    const country = value?.toUpperCase() || undefined;
+    if (country && !/^[A-Z]{3}$/.test(country)) {
+        throw new ApiRequestError('INVALID_REQUEST', 'Country must be an ISO 3166-1 alpha-3 code');
+    }
+    return country;
+}
+
+/**
+ * Parse the period or date range a report covers
+ */
+function parseReportRange(params: URLSearchParams) {
+    const period = params.get('periodId');
+    const startDate = params.get('startDate');
+    const endDate = params.get('endDate');
+
+    if (period) {
+        return {periodId: periodId(period)};
+    }
+    if (!startDate || !endDate) {
+        throw new ApiRequestError('INVALID_REQUEST', 'Either "periodId" or "startDate" and "endDate" is required');
+    }
+
+    return {
+        dateRange: {
+            startDate: parseDate(startDate, 'startDate'),
+            endDate: parseDate(endDate, 'endDate')
+        }
+    };
+}
+
+/**
+ * Parse GET /api/reports/trial-balance query parameters
+ */
+export function parseGetTrialBalanceQuery(
+    params: URLSearchParams,
+    context: ApiRequestContext
+): GetTrialBalanceQuery {
+    const includeZeroBalances = parseEnum(params.get('includeZeroBalances'), BOOLEAN_FLAGS, 'includeZeroBalances');
+
+    return {
+        organizationId: context.organizationId,
+        ...parseReportRange(params),
+        currency: parseReportCurrency(params.get('currency')),
+        level: parsePositiveInteger(params.get('level'), 'level'),
+        includeZeroBalances: includeZeroBalances === 'true',
+        auditContext: context.auditContext
+    };
+}
+
+/**
+ * Parse GET /api/reports/general-ledger query parameters
+ */
+export function parseGetGeneralLedgerQuery(
+    params: URLSearchParams,
+    context: ApiRequestContext
+): GetGeneralLedgerQuery {
+    const account = params.get('accountId');
+    const fromCode = params.get('fromCode') || undefined;
+    const toCode = params.get('toCode') || undefined;
+
+    if (!account && !fromCode && !toCode) {
+        throw new ApiRequestError('INVALID_REQUEST', 'Either "accountId" or "fromCode" and/or "toCode" is required');
+    }
+
+    const page = parsePositiveInteger(params.get('page'), 'page');
+    const pageSize = parsePositiveInteger(params.get('pageSize'), 'pageSize');
+    if (pageSize && pageSize > MAX_LEDGER_PAGE_SIZE) {
+        throw new ApiRequestError('INVALID_REQUEST', `Parameter "pageSize" must not exceed ${MAX_LEDGER_PAGE_SIZE}`);
+    }
+
+    return {
+        organizationId: context.organizationId,
+        accountId: account ? accountId(account) : undefined,
+        fromCode,
+        toCode,
+        ...parseReportRange(params),
+        currency: parseReportCurrency(params.get('currency')),
+        pagination: {
+            page: page ?? 1,
+            pageSize: pageSize ?? 100
+        },
+        auditContext: context.auditContext
+    };
+}
+
+/**
+ * Parse the comparative ranges of a statement: repeated "comparePeriodId" or "compareStartDate"/"compareEndDate" pairs
+ */
+function parseComparatives(params: URLSearchParams): StatementRange[] {
+    const startDates = params.getAll('compareStartDate');
+    const endDates = params.getAll('compareEndDate');
+    if (startDates.length !== endDates.length) {
+        throw new ApiRequestError('INVALID_REQUEST', 'Each "compareStartDate" requires a "compareEndDate"');
+    }
+
+    return [
+        ...params.getAll('comparePeriodId').filter(Boolean).map(id => ({periodId: periodId(id)})),
+        ...startDates.map((startDate, index) => ({
+            dateRange: {
+                startDate: parseDate(startDate, 'compareStartDate'),
+                endDate: parseDate(endDates[index], 'compareEndDate')
+            }
+        }))
+    ];
+}
+
+/**
+ * Parse the export format of a report, defaulting to JSON
+ */
+export function parseReportFormat(params: URLSearchParams): ReportFormat {
+    return parseEnum(params.get('format'), REPORT_FORMATS, 'format') ?? 'json';
+}
+
+/**
+ * Parse GET /api/reports/balance-sheet and GET /api/reports/profit-and-loss query parameters
+ */
+export function parseGetFinancialStatementQuery(
+    params: URLSearchParams,
+    context: ApiRequestContext,
+    statement: FinancialStatementType
+): GetFinancialStatementQuery {
+    return {
+        organizationId: context.organizationId,
+        statement,
+        layoutId: params.get('layout') || undefined,
+        range: parseReportRange(params),
+        comparatives: parseComparatives(params),
+        currency: parseReportCurrency(params.get('currency')),
+        auditContext: context.auditContext
+    };
+}
+
+/**
+ * Parse the export format of a VAT return, defaulting to JSON; files are XML for Austria and CSV for Germany
+ */
+export function parseVatReturnFormat(params: URLSearchParams): VatReturnFormat {
+    return parseEnum(params.get('format'), VAT_RETURN_FORMATS, 'format') ?? 'json';
+}
+
+/**
+ * Parse GET /api/reports/vat-return query parameters
+ */
+export function parseGetVatReturnQuery(
+    params: URLSearchParams,
+    context: ApiRequestContext,
+    format: VatReturnFormat
+): GetVatReturnQuery {
+    return {
+        organizationId: context.organizationId,
+        ...parseReportRange(params),
+        currency: parseReportCurrency(params.get('currency')),
+        country: parseReportCountry(params.get('country')),
+        exportFormat: format === 'json' ? undefined : format,
+        auditContext: context.auditContext
+    };
+}
+
+/**
+ * Parse GET /api/reports/ec-sales-list query parameters
+ */
+export function parseGetEcSalesListQuery(
+    params: URLSearchParams,
+    context: ApiRequestContext
+): GetEcSalesListQuery {
+    return {
+        organizationId: context.organizationId,
+        ...parseReportRange(params),
+        currency: parseReportCurrency(params.get('currency')),
+        country: parseReportCountry(params.get('country')),
+        auditContext: context.auditContext
+    };
+}
+
+/**
+ * Parse the tax number a VAT return file is submitted under, e.g. the 9-digit Austrian Finanzamts-Steuernummer
+ */
+export function parseTaxNumber(params: URLSearchParams): string {
+    const taxNumber = params.get('taxNumber')?.trim();
+    if (!taxNumber) {
+        throw new ApiRequestError('INVALID_REQUEST', 'Parameter "taxNumber" is required for VAT return files');
+    }
+    if (!/^[0-9][0-9 /-]{7,18}[0-9]$/.test(taxNumber)) {
+        throw new ApiRequestError('INVALID_REQUEST', 'Parameter "taxNumber" must be a tax number of 9 to 20 digits');
+    }
+    return taxNumber;
+}
@@ -0,0 +1,168 @@
+import {NextRequest} from 'next/server';
+import {AuthContext} from '@/lib/auth-middleware';
+import {AuditContext, UserRole, userId} from '@/domain/shared/types';
+import {ApiRequestError} from './errors';
+
+/**
+ * Request parsing helpers shared by the public API routes
+ */
+
+const USER_ROLES: readonly UserRole[] = ['accountant', 'auditor', 'admin', 'integration-bot'];
+
+/**
+ * Build the audit context for a request from its authentication context
+ * Requests authenticated with an API key are attributed to the key's owner
+ */
+export function buildAuditContext(request: NextRequest, authContext: AuthContext): AuditContext {
+    const actorId = authContext.user?.id ?? authContext.apiKey?.userId;
+    if (!actorId) {
+        throw new ApiRequestError('UNAUTHORIZED', 'Authentication required', 401);
+    }
+
+    const role = authContext.organizationRole ?? authContext.user?.role;
+    const userRole: UserRole = USER_ROLES.includes(role as UserRole)
+        ? role as UserRole
+        : authContext.apiKey ? 'integration-bot' : 'accountant';
+
+    return {
+        userId: userId(actorId),
+        userRole,
+        timestamp: new Date(),
+        requestId: request.headers.get('x-request-id') ?? crypto.randomUUID(),
+        ipAddress: request.headers.get('x-forwarded-for')?.split(',')[0].trim() ??
+            request.headers.get('x-real-ip') ??
+            undefined,
+        userAgent: request.headers.get('user-agent') ?? undefined,
+        apiKeyId: authContext.user ? undefined : authContext.apiKey?.id,
+    };
+}
+
+/**
+ * Parse a JSON object request body
+ * An empty body is accepted as `{}` when the body is optional
+ */
+export async function parseJsonBody(
+    request: NextRequest,
+    options: { optional?: boolean } = {}
+): Promise<Record<string, unknown>> {
+    const text = await request.text();
+    if (!text.trim() && options.optional) {
+        return {};
+    }
+
+    let body: unknown;
+
+    try {
+        body = JSON.parse(text);
+    } catch {
+        throw new ApiRequestError('INVALID_REQUEST', 'Request body must be valid JSON');
+    }
+
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+        throw new ApiRequestError('INVALID_REQUEST', 'Request body must be a JSON object');
+    }
+
+    return body as Record<string, unknown>;
+}
+
+/**
+ * Read a required string field
+ */
+export function requireString(source: Record<string, unknown>, field: string): string {
+    const value = source[field];
+    if (typeof value !== 'string' || !value.trim()) {
+        throw new ApiRequestError('INVALID_REQUEST', `Field "${field}" is required and must be a string`);
+    }
+    return value;
+}
+
+/**
+ * Read an optional string field
+ */
+export function optionalString(source: Record<string, unknown>, field: string): string | undefined {
+    const value = source[field];
+    if (value === undefined || value === null) {
+        return undefined;
+    }
+    if (typeof value !== 'string') {
+        throw new ApiRequestError('INVALID_REQUEST', `Field "${field}" must be a string`);
+    }
+    return value;
+}
+
+/**
+ * Read an optional decimal amount, accepting numbers and decimal strings
+ */
+export function optionalDecimal(source: Record<string, unknown>, field: string): string | undefined {
+    const value = source[field];
+    if (value === undefined || value === null || value === '') {
+        return undefined;
+    }
+    if (typeof value === 'number' && Number.isFinite(value)) {
+        return value.toString();
+    }
+    if (typeof value === 'string' && /^-?\d+(\.\d+)?$/.test(value.trim())) {
+        return value.trim();
+    }
+    throw new ApiRequestError('INVALID_REQUEST', `Field "${field}" must be a decimal number`);
+}
+
+/**
+ * Parse an ISO 8601 date string
+ */
+export function parseDate(value: string, field: string): Date {
+    const date = new Date(value);
+    if (Number.isNaN(date.getTime())) {
+        throw new ApiRequestError('INVALID_REQUEST', `Field "${field}" must be a valid ISO 8601 date`);
+    }
+    return date;
+}
+
+/**
+ * Read a required date field
+ */
+export function requireDate(source: Record<string, unknown>, field: string): Date {
+    return parseDate(requireString(source, field), field);
+}
+
+/**
+ * Read an optional date field
+ */
+export function optionalDate(source: Record<string, unknown>, field: string): Date | undefined {
+    const value = optionalString(source, field);
+    return value ? parseDate(value, field) : undefined;
+}
+
+/**
+ * Parse a positive integer query parameter
+ */
+export function parsePositiveInteger(value: string | null, field: string): number | undefined {
+    if (value === null || value === '') {
+        return undefined;
+    }
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed <= 0) {
+        throw new ApiRequestError('INVALID_REQUEST', `Parameter "${field}" must be a positive integer`);
+    }
+    return parsed;
+}
+
+/**
+ * Parse a query parameter restricted to a set of allowed values
+ */
+export function parseEnum<T extends string>(
+    value: string | null,
+    allowed: readonly T[],
+    field: string
+): T | undefined {
+    if (value === null || value === '') {
+        return undefined;
+    }
+    if (!allowed.includes(value as T)) {
+        throw new ApiRequestError(
+            'INVALID_REQUEST',
+            `Parameter "${field}" must be one of: ${allowed.join(', ')}`
+        );
+    }
+    return value as T;
+}
@@ -0,0 +1,626 @@
+import {Account} from '@/domain/account/entities/account';
+import {AccountTreeNode} from '@/domain/account/value-objects/account-tree';
+import {Journal} from '@/domain/journal/entities/journal';
+import {JournalLine} from '@/domain/journal/entities/journal-line';
+import {Money} from '@/domain/journal/value-objects/money';
+import {Period} from '@/domain/period/entities/period';
+import {FiscalYear} from '@/domain/period/entities/fiscal-year';
+import {TrialBalance, TrialBalanceLine} from '@/domain/reporting/value-objects/trial-balance';
+import {
+    GeneralLedger,
+    GeneralLedgerAccount,
+    GeneralLedgerEntry
+} from '@/domain/reporting/value-objects/general-ledger';
+import {
+    FinancialStatement,
+    FinancialStatementLine,
+    StatementColumn
+} from '@/domain/reporting/value-objects/financial-statement';
+import {ClosePlanLine, YearEndClosePlan} from '@/domain/closing/value-objects/year-end-close-plan';
+import {PeriodCloseChecklist} from '@/domain/closing/value-objects/period-close-checklist';
+import {FxRevaluationPlan} from '@/domain/closing/value-objects/fx-revaluation-plan';
+import {ResolvedExchangeRate} from '@/domain/exchange-rate/services/exchange-rate-service';
+import {VatReturn, VatReturnCode, VatReturnFieldAmount} from '@/domain/tax/value-objects/vat-return';
+import {EcSalesList, EcSalesListEntry} from '@/domain/tax/value-objects/ec-sales-list';
+import {BankImport} from '@/domain/bank/entities/bank-import';
+import {BankTransaction} from '@/domain/bank/entities/bank-transaction';
+import {BankMatch} from '@/domain/bank/entities/bank-match';
+import {BookLine} from '@/domain/bank/repositories/bank-reconciliation-repository';
+import {MatchSuggestion} from '@/domain/bank/value-objects/match-suggestion';
+import {ReconciliationStatement} from '@/domain/bank/value-objects/reconciliation-statement';
+import {formatCsv} from './csv';
+import {formatXml, XmlElement} from './xml';
+
+/**
+ * JSON serializers for domain entities exposed through the public API
+ * Amounts are serialized as decimal strings to avoid floating point loss
+ */
+
+export interface SerializedMoney {
+    amount: string;
+    currency: string;
+}
+
+export function serializeMoney(money: Money): SerializedMoney;
+export function serializeMoney(money: Money | undefined): SerializedMoney | undefined;
+export function serializeMoney(money: Money | undefined): SerializedMoney | undefined {
+    return money ? {amount: money.amount, currency: money.currency} : undefined;
+}
+
+export function serializeJournalLine(line: JournalLine) {
+    return {
+        lineNumber: line.lineNumber,
+        accountId: line.accountId,
+        description: line.description,
+        debitAmount: line.debitAmount.amount,
+        creditAmount: line.creditAmount.amount,
+        originalAmount: serializeMoney(line.originalAmount),
+        exchangeRate: line.exchangeRate,
+        exchangeRateSource: line.exchangeRateSource ?? null,
+        taxCode: line.taxCode ?? null,
+        taxAmount: line.taxAmount?.amount ?? null,
+        taxRate: line.taxRate ?? null,
+        partnerVatId: line.partnerVatId ?? null,
+    };
+}
+
+export function serializeJournal(journal: Journal) {
+    return {
+        id: journal.id,
+        organizationId: journal.organizationId,
+        periodId: journal.periodId,
+        journalNumber: journal.journalNumber,
+        description: journal.description,
+        reference: journal.reference ?? null,
+        postingDate: journal.postingDate.toISOString(),
+        status: journal.status,
+        kind: journal.kind,
+        currency: journal.currency,
+        totalDebit: journal.getTotalDebit().amount,
+        totalCredit: journal.getTotalCredit().amount,
+        hashPrev: journal.hashPrev?.value ?? null,
+        hashSelf: journal.hashSelf?.value ?? null,
+        reversalJournalId: journal.reversalJournalId ?? null,
+        originalJournalId: journal.originalJournalId ?? null,
+        extUid: journal.extUid ?? null,
+        createdBy: journal.createdBy,
+        postedBy: journal.postedBy ?? null,
+        postedAt: journal.postedAt?.toISOString() ?? null,
+        createdAt: journal.createdAt.toISOString(),
+        updatedAt: journal.updatedAt.toISOString(),
+        lines: journal.lines.map(serializeJournalLine),
+    };
+}
+
+export function serializeAccount(account: Account) {
+    return {
+        id: account.id,
+        organizationId: account.organizationId,
+        code: account.code,
+        name: account.name,
+        type: account.type,
+        currency: account.currency,
+        parentId: account.parentId ?? null,
+        specialPurpose: account.specialPurpose ?? null,
+        isActive: account.isActive,
+        normalBalance: account.getNormalBalance(),
+        createdAt: account.createdAt.toISOString(),
+        updatedAt: account.updatedAt.toISOString(),
+    };
+}
+
+export interface SerializedAccountTreeNode extends ReturnType<typeof serializeAccount> {
+    level: number;
+    isLeaf: boolean;
+    children: SerializedAccountTreeNode[];
+}
+
+export function serializeAccountTreeNode(node: AccountTreeNode): SerializedAccountTreeNode {
+    return {
+        ...serializeAccount(node.account),
+        level: node.level,
+        isLeaf: node.isLeaf,
+        children: node.children.map(serializeAccountTreeNode),
+    };
+}
+
+export function serializeTrialBalanceLine(line: TrialBalanceLine) {
+    return {
+        accountId: line.account.id,
+        code: line.account.code,
+        name: line.account.name,
+        type: line.account.type,
+        level: line.level,
+        isLeaf: line.isLeaf,
+        openingBalance: line.openingBalance.amount,
+        debit: line.debit.amount,
+        credit: line.credit.amount,
+        closingBalance: line.closingBalance.amount,
+    };
+}
+
+export function serializeTrialBalance(trialBalance: TrialBalance, period?: Period) {
+    return {
+        periodId: period?.id ?? null,
+        startDate: trialBalance.startDate.toISOString(),
+        endDate: trialBalance.endDate.toISOString(),
+        currency: trialBalance.currency,
+        level: trialBalance.level ?? null,
+        lines: trialBalance.lines.map(serializeTrialBalanceLine),
+        totals: {
+            openingBalance: trialBalance.totals.openingBalance.amount,
+            debit: trialBalance.totals.debit.amount,
+            credit: trialBalance.totals.credit.amount,
+            closingBalance: trialBalance.totals.closingBalance.amount,
+        },
+        difference: trialBalance.getDifference().amount,
+        isBalanced: trialBalance.isBalanced(),
+    };
+}
+
+export function serializeGeneralLedgerAccount(summary: GeneralLedgerAccount) {
+    return {
+        accountId: summary.account.id,
+        code: summary.account.code,
+        name: summary.account.name,
+        type: summary.account.type,
+        openingBalance: summary.openingBalance.amount,
+        debit: summary.debit.amount,
+        credit: summary.credit.amount,
+        closingBalance: summary.closingBalance.amount,
+    };
+}
+
+export function serializeGeneralLedgerEntry(entry: GeneralLedgerEntry) {
+    return {
+        accountId: entry.account.id,
+        accountCode: entry.account.code,
+        journalId: entry.journalId,
+        journalNumber: entry.journalNumber,
+        postingDate: entry.postingDate.toISOString(),
+        lineNumber: entry.lineNumber,
+        description: entry.description,
+        reference: entry.reference ?? null,
+        counterAccounts: entry.counterAccounts.map(account => ({
+            accountId: account.id,
+            code: account.code,
+            name: account.name,
+        })),
+        debit: entry.debit.amount,
+        credit: entry.credit.amount,
+        runningBalance: entry.runningBalance.amount,
+    };
+}
+
+export function serializeGeneralLedger(ledger: GeneralLedger, period?: Period) {
+    return {
+        periodId: period?.id ?? null,
+        startDate: ledger.startDate.toISOString(),
+        endDate: ledger.endDate.toISOString(),
+        currency: ledger.currency,
+        accounts: ledger.accounts.map(serializeGeneralLedgerAccount),
+        entries: ledger.entries.map(serializeGeneralLedgerEntry),
+    };
+}
+
+export function serializeStatementColumn(column: StatementColumn) {
+    return {
+        startDate: column.startDate.toISOString(),
+        endDate: column.endDate.toISOString(),
+    };
+}
+
+export function serializeFinancialStatementLine(line: FinancialStatementLine) {
+    return {
+        key: line.key,
+        label: line.label,
+        level: line.level,
+        kind: line.kind,
+        amounts: line.amounts.map(amount => amount.amount),
+        accounts: line.accounts.map(entry => ({
+            accountId: entry.account.id,
+            code: entry.account.code,
+            name: entry.account.name,
+            amounts: entry.amounts.map(amount => amount.amount),
+        })),
+    };
+}
+
+export function serializeFinancialStatement(statement: FinancialStatement) {
+    return {
+        layout: statement.layoutId,
+        statement: statement.statement,
+        currency: statement.currency,
+        columns: statement.columns.map(serializeStatementColumn),
+        lines: statement.lines.map(serializeFinancialStatementLine),
+        unmappedAccounts: statement.unmappedAccounts.map(account => ({
+            accountId: account.id,
+            code: account.code,
+            name: account.name,
+        })),
+        isBalanced: statement.isBalanced(),
+    };
+}
+
+export function serializeClosePlanLine(line: ClosePlanLine) {
+    return {
+        accountId: line.account.id,
+        code: line.account.code,
+        name: line.account.name,
+        debit: line.debit.amount,
+        credit: line.credit.amount,
+    };
+}
+
+export function serializeYearEndClosePlan(plan: YearEndClosePlan) {
+    return {
+        currency: plan.currency,
+        closingPeriodId: plan.closingPeriod.id,
+        closingDate: plan.closingPeriod.endDate.toISOString(),
+        openingPeriodId: plan.openingPeriod.id,
+        openingDate: plan.openingPeriod.startDate.toISOString(),
+        result: plan.result.amount,
+        closingLines: plan.closingLines.map(serializeClosePlanLine),
+        openingLines: plan.openingLines.map(serializeClosePlanLine),
+    };
+}
+
+export function serializeFxRevaluationPlan(plan: FxRevaluationPlan) {
+    return {
+        currency: plan.currency,
+        periodId: plan.period.id,
+        postingDate: plan.period.endDate.toISOString(),
+        valuationDate: plan.valuationDate.toISOString(),
+        reversalDate: plan.reversalDate.toISOString(),
+        result: plan.result.amount,
+        items: plan.items.map((item) => ({
+            accountId: item.account.id,
+            code: item.account.code,
+            name: item.account.name,
+            originalCurrency: item.originalBalance.currency,
+            originalBalance: item.originalBalance.amount,
+            bookedBalance: item.bookedBalance.amount,
+            rate: item.rate.rate,
+            rateDate: item.rate.effectiveDate.toISOString(),
+            rateSource: item.rate.source,
+            revaluedBalance: item.revaluedBalance.amount,
+            difference: item.difference.amount,
+        })),
+        lines: plan.lines.map(serializeClosePlanLine),
+    };
+}
+
+export function serializePeriod(period: Period) {
+    return {
+        id: period.id,
+        name: period.name,
+        startDate: period.startDate.toISOString(),
+        endDate: period.endDate.toISOString(),
+        status: period.status,
+        fiscalYearId: period.fiscalYearId ?? null,
+        isAdjustment: period.isAdjustment,
+    };
+}
+
+export function serializePeriodCloseChecklist(checklist: PeriodCloseChecklist) {
+    return {
+        period: serializePeriod(checklist.period),
+        generatedAt: checklist.generatedAt.toISOString(),
+        canClose: checklist.canClose(),
+        items: checklist.items.map((item) => ({
+            code: item.code,
+            status: item.status,
+            message: item.message,
+            details: item.details ?? null,
+            waiverReason: item.waiverReason ?? null,
+        })),
+    };
+}
+
+export function serializeFiscalYear(fiscalYear: FiscalYear) {
+    return {
+        id: fiscalYear.id,
+        name: fiscalYear.name,
+        startDate: fiscalYear.startDate.toISOString(),
+        endDate: fiscalYear.endDate.toISOString(),
+        frequency: fiscalYear.frequency,
+        hasAdjustmentPeriod: fiscalYear.hasAdjustmentPeriod,
+        status: fiscalYear.status,
+    };
+}
+
+export function serializeExchangeRate(rate: ResolvedExchangeRate) {
+    return {
+        fromCurrency: rate.fromCurrency,
+        toCurrency: rate.toCurrency,
+        rate: rate.rate,
+        effectiveDate: rate.effectiveDate.toISOString(),
+        source: rate.source,
+        method: rate.method,
+    };
+}
+
+export function serializeBankImport(bankImport: BankImport) {
+    return {
+        id: bankImport.id,
+        fileName: bankImport.fileName,
+        fileHash: bankImport.fileHash,
+        fileSize: bankImport.fileSize,
+        accountId: bankImport.accountId,
+        importedBy: bankImport.importedBy,
+        recordsTotal: bankImport.recordsTotal,
+        recordsImported: bankImport.recordsImported,
+        recordsSkipped: bankImport.recordsSkipped,
+        status: bankImport.status,
+        errorMessage: bankImport.errorMessage ?? null,
+        metadata: bankImport.metadata,
+        createdAt: bankImport.createdAt.toISOString(),
+        completedAt: bankImport.completedAt?.toISOString() ?? null,
+    };
+}
+
+export function serializeBankTransaction(transaction: BankTransaction) {
+    return {
+        id: transaction.id,
+        importId: transaction.importId,
+        transactionDate: transaction.transactionDate.toISOString(),
+        amount: serializeMoney(transaction.amount),
+        description: transaction.description,
+        reference: transaction.reference ?? null,
+        counterparty: transaction.counterparty ?? null,
+        status: transaction.status,
+        journalId: transaction.journalId ?? null,
+    };
+}
+
+export function serializeBookLine(line: BookLine) {
+    return {
+        id: line.id,
+        journalId: line.journalId,
+        journalNumber: line.journalNumber,
+        postingDate: line.postingDate.toISOString(),
+        lineNumber: line.lineNumber,
+        description: line.description,
+        reference: line.reference ?? null,
+        amount: serializeMoney(line.amount),
+        clearedDate: line.clearedDate?.toISOString() ?? null,
+    };
+}
+
+export function serializeMatchSuggestion(suggestion: MatchSuggestion) {
+    return {
+        transactionIds: suggestion.transactions.map(transaction => transaction.id),
+        journalLineIds: suggestion.lines.map(line => line.id),
+        amount: serializeMoney(suggestion.getAmount()),
+        score: suggestion.score,
+        criteria: suggestion.criteria,
+        transactions: suggestion.transactions.map(serializeBankTransaction),
+        lines: suggestion.lines.map(serializeBookLine),
+    };
+}
+
+export function serializeBankMatch(match: BankMatch) {
+    return {
+        id: match.id,
+        accountId: match.accountId,
+        status: match.status,
+        transactionIds: match.transactionIds,
+        journalLineIds: match.journalLineIds,
+        amount: serializeMoney(match.amount),
+        clearedDate: match.clearedDate.toISOString(),
+        createdBy: match.createdBy,
+        createdAt: match.createdAt.toISOString(),
+    };
+}
+
+export function serializeReconciliationStatement(statement: ReconciliationStatement) {
+    return {
+        accountId: statement.accountId,
+        cutoffDate: statement.cutoffDate.toISOString(),
+        statementBalance: {
+            amount: serializeMoney(statement.statementBalance.amount),
+            date: statement.statementBalance.date.toISOString(),
+        },
+        bankBalance: serializeMoney(statement.bankBalance),
+        unmatchedTransactions: statement.unmatchedTransactions.map(serializeBankTransaction),
+        unmatchedTransactionTotal: serializeMoney(statement.getUnmatchedTransactionTotal()),
+        adjustedBankBalance: serializeMoney(statement.getAdjustedBankBalance()),
+        bookBalance: serializeMoney(statement.bookBalance),
+        unmatchedLines: statement.unmatchedLines.map(serializeBookLine),
+        unmatchedLineTotal: serializeMoney(statement.getUnmatchedLineTotal()),
+        adjustedBookBalance: serializeMoney(statement.getAdjustedBookBalance()),
+        difference: serializeMoney(statement.getDifference()),
+        reconciled: statement.isReconciled(),
+    };
+}
+
+/**
+ * Format a financial statement as CSV with one row per layout line and one amount column per range
+ */
+export function formatFinancialStatementCsv(statement: FinancialStatement): string {
+    const columnLabel = (column: StatementColumn) => statement.statement === 'BALANCE_SHEET'
+        ? column.endDate.toISOString().slice(0, 10)
+        : `${column.startDate.toISOString().slice(0, 10)}..${column.endDate.toISOString().slice(0, 10)}`;
+
+    return formatCsv([
+        ['key', 'label', 'level', ...statement.columns.map(columnLabel)],
+        ...statement.lines.map(line => [line.key, line.label, line.level, ...line.amounts.map(amount => amount.amount)]),
+    ]);
+}
+
+export function serializeVatReturnCode(code: VatReturnCode) {
+    return {
+        taxCode: code.taxCode,
+        taxRate: code.taxRate,
+        treatment: code.treatment ?? null,
+        direction: code.direction ?? null,
+        base: code.base.amount,
+        outputTax: code.outputTax.amount,
+        inputTax: code.inputTax.amount,
+        fieldKeys: code.fieldKeys,
+    };
+}
+
+export function serializeVatReturn(vatReturn: VatReturn, period?: Period) {
+    return {
+        periodId: period?.id ?? null,
+        form: vatReturn.form.id,
+        formName: vatReturn.form.name,
+        country: vatReturn.form.country,
+        currency: vatReturn.currency,
+        startDate: vatReturn.startDate.toISOString(),
+        endDate: vatReturn.endDate.toISOString(),
+        fields: vatReturn.fields.map(({field, amount}) => ({
+            key: field.key,
+            label: field.label,
+            kind: field.kind,
+            amount: amount.amount,
+        })),
+        payable: vatReturn.getPayable().amount,
+        codes: vatReturn.codes.map(serializeVatReturnCode),
+        unmappedCodes: vatReturn.unmappedCodes.map(serializeVatReturnCode),
+    };
+}
+
+export function serializeEcSalesListEntry(entry: EcSalesListEntry) {
+    return {
+        partnerVatId: entry.partnerVatId,
+        countryCode: entry.countryCode,
+        kind: entry.kind,
+        amount: entry.amount.amount,
+    };
+}
+
+export function serializeEcSalesList(ecSalesList: EcSalesList, period?: Period) {
+    return {
+        periodId: period?.id ?? null,
+        country: ecSalesList.country,
+        currency: ecSalesList.currency,
+        startDate: ecSalesList.startDate.toISOString(),
+        endDate: ecSalesList.endDate.toISOString(),
+        entries: ecSalesList.entries.map(serializeEcSalesListEntry),
+        totalGoods: ecSalesList.getTotal('goods').amount,
+        totalServices: ecSalesList.getTotal('services').amount,
+    };
+}
+
+/**
+ * Format an EC Sales List as CSV with one row per customer VAT ID and kind
+ */
+export function formatEcSalesListCsv(ecSalesList: EcSalesList): string {
+    return formatCsv([
+        ['countryCode', 'partnerVatId', 'kind', 'amount'],
+        ...ecSalesList.entries.map(entry => [
+            entry.countryCode,
+            entry.partnerVatId,
+            entry.kind,
+            entry.amount.toDecimal().toFixed(2),
+        ]),
+    ]);
+}
+
+/**
+ * Tax number and package data a VAT return file is submitted with
+ */
+export interface VatReturnFileOptions {
+    taxNumber: string;
+    packageNumber?: number;
+    createdAt?: Date;
+}
+
+/**
+ * Format a declared field amount: whole units or euros and cents, with a decimal point
+ */
+function formatVatReturnAmount({field, amount}: VatReturnFieldAmount): string {
+    return amount.toDecimal().toFixed(field.wholeUnits ? 0 : 2);
+}
+
+/**
+ * Format an Austrian U30 return in the FinanzOnline XML format (ERKLAERUNGS_UEBERMITTLUNG)
+ * Fields without an element path are computed by FinanzOnline and left out, as are empty optional fields.
+ */
+export function formatVatReturnXml(vatReturn: VatReturn, options: VatReturnFileOptions): string {
+    const taxNumber = options.taxNumber.replace(/\D/g, '');
+    const createdAt = (options.createdAt ?? new Date()).toISOString();
+    const declaration: XmlElement = {
+        name: 'ERKLAERUNG',
+        attributes: {art: 'U30'},
+        children: [
+            {name: 'SATZNR', text: '1'},
+            {
+                name: 'ALLGEMEINE_DATEN',
+                children: [
+                    {name: 'ANBRINGEN', text: 'U30'},
+                    {name: 'ZRVON', attributes: {type: 'jahrmonat'}, text: vatReturn.startDate.toISOString().slice(0, 7)},
+                    {name: 'ZRBIS', attributes: {type: 'jahrmonat'}, text: vatReturn.endDate.toISOString().slice(0, 7)},
+                    {name: 'FASTNR', text: taxNumber},
+                ],
+            },
+        ],
+    };
+
+    for (const fieldAmount of vatReturn.fields) {
+        if (!fieldAmount.field.group || (fieldAmount.amount.isZero() && !fieldAmount.field.required)) {
+            continue;
+        }
+
+        let parent = declaration;
+        for (const name of fieldAmount.field.group) {
+            parent.children ??= [];
+            let group = parent.children.find(child => child.name === name);
+            if (!group) {
+                group = {name, children: []};
+                parent.children.push(group);
+            }
+            parent = group;
+        }
+
+        parent.children ??= [];
+        parent.children.push({
+            name: `KZ${fieldAmount.field.key}`,
+            attributes: {type: 'kz'},
+            text: formatVatReturnAmount(fieldAmount),
+        });
+    }
+
+    return formatXml({
+        name: 'ERKLAERUNGS_UEBERMITTLUNG',
+        children: [
+            {
+                name: 'INFO_DATEN',
+                children: [
+                    {name: 'ART_IDENTIFIKATIONSBEGRIFF', text: 'FASTNR'},
+                    {name: 'IDENTIFIKATIONSBEGRIFF', text: taxNumber},
+                    {name: 'PAKET_NR', text: String(options.packageNumber ?? 1)},
+                    {name: 'DATUM_ERSTELLUNG', attributes: {type: 'datum'}, text: createdAt.slice(0, 10)},
+                    {name: 'UHRZEIT_ERSTELLUNG', attributes: {type: 'uhrzeit'}, text: createdAt.slice(11, 19)},
+                    {name: 'ANZAHL_ERKLAERUNGEN', text: '1'},
+                ],
+            },
+            declaration,
+        ],
+    });
+}
+
+/**
+ * Format a German UStVA as CSV with one row per Kennzahl
+ * The period is given as ELSTER Zeitraum: 01-12 for a month, 41-44 for a quarter.
+ */
+export function formatVatReturnCsv(vatReturn: VatReturn, options: VatReturnFileOptions): string {
+    const month = vatReturn.startDate.getUTCMonth();
+    const period = vatReturn.getPeriodMonths() === 3
+        ? `4${Math.floor(month / 3) + 1}`
+        : String(month + 1).padStart(2, '0');
+
+    return formatCsv([
+        ['taxNumber', 'year', 'period', 'key', 'label', 'amount'],
+        ...vatReturn.fields.map(fieldAmount => [
+            options.taxNumber,
+            vatReturn.startDate.getUTCFullYear(),
+            period,
+            fieldAmount.field.key,
+            fieldAmount.field.label,
+            formatVatReturnAmount(fieldAmount),
+        ]),
+    ]);
+}
@@ -0,0 +1,43 @@
+/**
+ * Minimal XML writing for report exports
+ */
+
+export interface XmlElement {
+    name: string;
+    attributes?: Record<string, string>;
+    text?: string;
+    children?: XmlElement[];
+}
+
+/**
+ * Escape the XML special characters of text or an attribute value
+ */
+function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+}
+
+function formatXmlElement(element: XmlElement, depth: number): string {
+    const indent = '  '.repeat(depth);
+    const attributes = Object.entries(element.attributes ?? {})
+        .map(([name, value]) => ` ${name}="${escapeXml(value)}"`)
+        .join('');
+
+    if (element.children && element.children.length > 0) {
+        const children = element.children.map(child => formatXmlElement(child, depth + 1)).join('\n');
+        return `${indent}<${element.name}${attributes}>\n${children}\n${indent}</${element.name}>`;
+    }
+
+    return `${indent}<${element.name}${attributes}>${escapeXml(element.text ?? '')}</${element.name}>`;
+}
+
+/**
+ * Format an element tree as a UTF-8 XML document
+ */
+export function formatXml(root: XmlElement): string {
+    return `<?xml version="1.0" encoding="UTF-8"?>\n${formatXmlElement(root, 0)}\n`;
+}
@@ -17,6 +17,7 @@ export interface AuthContext {
     apiKey?: {
         id: string;
         name: string;
+        userId: string; // Owner of the key, who is recorded as the actor of its requests
         organizationId: string;
     };
 }
@@ -59,6 +60,7 @@ export async function getAuthContext(request: NextRequest): Promise<AuthContext
                     apiKey: {
                         id: apiKeyAuth.id,
                         name: apiKeyAuth.name,
+                        userId: apiKeyAuth.userId,
                         organizationId: apiKeyAuth.organizationId,
                     },
                     organizationId: apiKeyAuth.organizationId,
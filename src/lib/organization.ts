@@ -2,6 +2,9 @@ import {auth} from "./auth";
 import {db} from "@/db/connection";
 import {organization} from "@/db/schema";
 import {eq} from "drizzle-orm";
+import {createUseCaseContainer} from "@/application";
+import {ChartOfAccountsTemplateId, DEFAULT_CHART_OF_ACCOUNTS_TEMPLATE} from "@/domain/account/templates";
+import {organizationId, userId} from "@/domain/shared/types";
 
 /**
  * Organization management utilities for BetterAuth integration
@@ -13,6 +16,7 @@ export interface CreateOrganizationData {
     slug: string;
     description?: string;
     userId: string;
+    chartOfAccountsTemplate?: ChartOfAccountsTemplateId; // Defaults to the Austrian EKR
 }
 
 export interface OrganizationMember {
@@ -39,8 +43,29 @@ export async function createOrganizationWithSetup(data: CreateOrganizationData)
             }
         });
 
-        // TODO: Set up default accounts, periods, etc. for the new organization
-        console.log(`Organization ${data.name} created successfully`);
+        if (!result) {
+            throw new Error(`Organization ${data.name} could not be created`);
+        }
+
+        // Seed chart of accounts, tax codes and special accounts so the organization can post right away
+        const setupResult = await createUseCaseContainer().setupChartOfAccounts.execute({
+            organizationId: organizationId(result.id),
+            templateId: data.chartOfAccountsTemplate ?? DEFAULT_CHART_OF_ACCOUNTS_TEMPLATE,
+            auditContext: {
+                userId: userId(data.userId),
+                userRole: 'admin',
+                timestamp: new Date(),
+                requestId: crypto.randomUUID(),
+            }
+        });
+
+        if (setupResult.isFailure()) {
+            // The setup only creates missing entries, so it can be rerun for this organization
+            throw new Error(
+                `Chart of accounts setup of organization ${result.id} failed: ${setupResult.error.message}; ` +
+                'rerun it with POST /api/accounts/setup'
+            );
+        }
 
         return result;
     } catch (error) {